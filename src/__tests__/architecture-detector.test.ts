@@ -0,0 +1,700 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DefaultArchitectureDetector } from '../analyzers/architecture-detector';
+import { indexFiles } from './helpers';
+
+describe('DefaultArchitectureDetector', () => {
+  let detector: DefaultArchitectureDetector;
+
+  beforeEach(() => {
+    detector = new DefaultArchitectureDetector();
+  });
+
+  describe('identifyServices', () => {
+    it('should create one service per deployable npm workspace and skip libraries', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({
+          name: 'shop',
+          private: true,
+          workspaces: ['apps/*', 'packages/*'],
+        }),
+        'turbo.json': '{"pipeline": {}}',
+        'apps/api/package.json': JSON.stringify({
+          name: '@shop/api',
+          scripts: { start: 'node dist/index.js' },
+          dependencies: { express: '^4.18.0', '@shop/shared': '*' },
+        }),
+        'apps/api/src/index.ts': `import express from 'express';
+const app = express();
+app.get('/health', (req, res) => res.send('ok'));
+app.listen(4000);`,
+        'apps/api/src/routes/index.ts': 'export const routes = [];',
+        'apps/worker/package.json': JSON.stringify({
+          name: '@shop/worker',
+          scripts: { start: 'node dist/main.js' },
+          dependencies: { bullmq: '^4.0.0' },
+        }),
+        'apps/worker/src/main.ts':
+          'import { Worker } from "bullmq";\nnew Worker("jobs", async () => {});',
+        'packages/shared/package.json': JSON.stringify({
+          name: '@shop/shared',
+          scripts: { build: 'tsc' },
+        }),
+        'packages/shared/src/index.ts': 'export const shared = true;',
+        'packages/codegen/package.json': JSON.stringify({
+          name: '@shop/codegen',
+          bin: { 'shop-codegen': './dist/cli.js' },
+        }),
+        'packages/codegen/src/cli.ts': 'export const run = () => undefined;',
+      });
+
+      const services = await detector.identifyServices(index);
+
+      expect(services.map(service => service.name)).toEqual(['api', 'worker']);
+      const [api, worker] = services;
+      expect(api).toMatchObject({
+        type: 'api',
+        entryPoints: ['apps/api/src/index.ts'],
+        dependencies: ['express', '@shop/shared'],
+        exposedPorts: [4000],
+      });
+      expect(api!.routes).toMatchObject([
+        { method: 'GET', path: '/health', source: { file: 'apps/api/src/index.ts' } },
+      ]);
+      expect(worker).toMatchObject({
+        type: 'worker',
+        entryPoints: ['apps/worker/src/main.ts'],
+        dependencies: ['bullmq'],
+        exposedPorts: [],
+      });
+      expect(await detector.detectProjectType(index)).toBe('monorepo');
+    });
+
+    it('should detect Go modules, Cargo binaries and Gradle applications', async () => {
+      const goIndex = await indexFiles({
+        'go.work': 'go 1.22\n\nuse (\n\t./gateway\n\t./pkg/common\n)',
+        'gateway/go.mod':
+          'module github.com/acme/gateway/v2\n\ngo 1.22\n\nrequire github.com/go-chi/chi/v5 v5.0.10',
+        'gateway/cmd/gateway/main.go': `package main
+
+import "net/http"
+
+func main() {
+	http.ListenAndServe(":8080", nil)
+}`,
+        'pkg/common/go.mod': 'module github.com/acme/common\n\ngo 1.22',
+        'pkg/common/common.go': 'package common\n\nfunc Helper() {}',
+      });
+      const goServices = await detector.identifyServices(goIndex);
+      expect(goServices).toHaveLength(1);
+      expect(goServices[0]).toMatchObject({
+        name: 'gateway',
+        entryPoints: ['gateway/cmd/gateway/main.go'],
+        exposedPorts: [8080],
+      });
+
+      const rustIndex = await indexFiles({
+        'Cargo.toml': '[workspace]\nmembers = ["crates/*"]',
+        'crates/server/Cargo.toml':
+          '[package]\nname = "edge-server"\n\n[dependencies]\ntokio = "1"',
+        'crates/server/src/main.rs': 'fn main() {}',
+        'crates/core/Cargo.toml': '[package]\nname = "edge-core"',
+        'crates/core/src/lib.rs': 'pub fn core() {}',
+      });
+      expect((await detector.identifyServices(rustIndex)).map(service => service.name)).toEqual([
+        'edge-server',
+      ]);
+
+      const gradleIndex = await indexFiles({
+        'settings.gradle': "rootProject.name = 'bank'\ninclude 'ledger', ':libs:money'",
+        'ledger/build.gradle': "plugins {\n  id 'org.springframework.boot' version '3.2.0'\n}",
+        'ledger/src/main/java/com/bank/LedgerApplication.java': `package com.bank;
+
+@SpringBootApplication
+public class LedgerApplication {
+  public static void main(String[] args) {}
+}`,
+        'libs/money/build.gradle': "plugins {\n  id 'java-library'\n}",
+      });
+      const gradleServices = await detector.identifyServices(gradleIndex);
+      expect(gradleServices.map(service => service.name)).toEqual(['ledger']);
+      expect(gradleServices[0]!.entryPoints).toEqual([
+        'ledger/src/main/java/com/bank/LedgerApplication.java',
+      ]);
+    });
+
+    it('should treat each directory with a Dockerfile as a service', async () => {
+      const index = await indexFiles({
+        'docker-compose.yml':
+          'services:\n  web:\n    build: ./web\n  billing:\n    build: ./billing',
+        'web/Dockerfile': 'FROM node:20\nEXPOSE 3000',
+        'web/package.json': JSON.stringify({ name: 'web', dependencies: { next: '14.0.0' } }),
+        'web/server.js': 'require("http").createServer().listen(3000);',
+        'billing/Dockerfile': 'FROM python:3.12\nCMD ["python", "app.py"]',
+        'billing/requirements.txt': 'flask==3.0.0',
+        'billing/app.py': `from flask import Flask
+app = Flask(__name__)
+
+@app.route("/invoices")
+def invoices():
+    return []`,
+        'billing/Dockerfile.dev': 'FROM python:3.12',
+      });
+
+      const services = await detector.identifyServices(index);
+
+      expect(services.map(service => [service.name, service.entryPoints])).toEqual([
+        ['billing', ['billing/app.py']],
+        ['web', ['web/server.js']],
+      ]);
+      expect(services[0]!.dependencies).toEqual(['flask']);
+      expect(services[0]!.type).toBe('api');
+      expect(services[0]).toMatchObject({ root: 'billing', dockerfile: 'billing/Dockerfile' });
+    });
+
+    it('should fall back to a single service for the repository', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({ name: '@acme/site', dependencies: { express: '4' } }),
+        'src/index.js': 'const app = require("express")();\napp.listen(8000);',
+      });
+
+      const services = await detector.identifyServices(index);
+
+      expect(services).toMatchObject([
+        { name: 'site', type: 'api', entryPoints: ['src/index.js'], exposedPorts: [8000] },
+      ]);
+      expect(await detector.detectProjectType(index)).toBe('api-service');
+    });
+  });
+
+  describe('processes', () => {
+    it('should read Procfile entries, worker scripts and crontab files', async () => {
+      const index = await indexFiles({
+        Procfile:
+          'web: gunicorn shop.wsgi --bind 0.0.0.0:$PORT\nworker: celery -A shop worker -l info\nrelease: python manage.py migrate\nclock: python clock.py\nbeat: celery -A shop beat',
+        'requirements.txt': 'django==5.0\ncelery==5.3.0',
+        'manage.py': 'import django',
+        'shop/celery.py': 'from celery import Celery\napp = Celery("shop")',
+        'shop/urls.py':
+          'from django.urls import path\nurlpatterns = [path("orders/", views.orders)]',
+        'deploy/crontab':
+          '# m h dom mon dow command\nSHELL=/bin/sh\n30 2 * * * python scripts/cleanup.py --days 30',
+      });
+
+      const [service] = await detector.identifyServices(index);
+
+      expect(service!.type).toBe('api');
+      expect(service!.processes).toEqual([
+        {
+          name: 'web',
+          type: 'web',
+          command: 'gunicorn shop.wsgi --bind 0.0.0.0:$PORT',
+          source: 'Procfile',
+        },
+        {
+          name: 'worker',
+          type: 'worker',
+          command: 'celery -A shop worker -l info',
+          source: 'Procfile',
+        },
+        {
+          name: 'release',
+          type: 'release',
+          command: 'python manage.py migrate',
+          source: 'Procfile',
+        },
+        { name: 'clock', type: 'worker', command: 'python clock.py', source: 'Procfile' },
+        { name: 'beat', type: 'worker', command: 'celery -A shop beat', source: 'Procfile' },
+        {
+          name: 'cleanup',
+          type: 'cron',
+          command: 'python scripts/cleanup.py --days 30',
+          schedule: '30 2 * * *',
+          source: 'deploy/crontab',
+        },
+        {
+          name: 'celery-worker',
+          type: 'worker',
+          command: 'celery -A shop.celery worker',
+          source: 'shop/celery.py',
+        },
+      ]);
+    });
+
+    it('should add BullMQ workers and package.json scripts next to the web process', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({
+          name: 'notify',
+          scripts: {
+            start: 'node src/index.js',
+            'start:digest': 'node src/digest.js',
+            'test:worker': 'vitest worker',
+          },
+          bin: { 'notify-admin': './bin/admin.js' },
+          dependencies: { express: '4', bullmq: '4' },
+        }),
+        'src/index.js': "require('express')().listen(3000);",
+        'src/queues/email.js': `const { Worker } = require('bullmq');
+new Worker('email', async job => send(job.data));`,
+        'bin/admin.js': "const { program } = require('commander');",
+      });
+
+      const [service] = await detector.identifyServices(index);
+
+      expect(service!.processes).toEqual([
+        {
+          name: 'web',
+          type: 'web',
+          command: 'node src/index.js',
+          entryPoint: 'src/index.js',
+          source: 'src/index.js',
+        },
+        { name: 'notify-admin', type: 'cli', entryPoint: 'bin/admin.js', source: 'package.json' },
+        {
+          name: 'email',
+          type: 'worker',
+          entryPoint: 'src/queues/email.js',
+          source: 'src/queues/email.js',
+        },
+      ]);
+    });
+
+    it('should run the file named by the start script as the primary process', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({
+          name: 'mailer',
+          scripts: { start: 'node --enable-source-maps worker.js' },
+          dependencies: { amqplib: '0.10' },
+        }),
+        'worker.js': "channel.consume('mail', message => send(message));",
+        'lib/index.js': 'module.exports = {};',
+      });
+
+      const [service] = await detector.identifyServices(index);
+
+      expect(service!.entryPoints).toEqual(['worker.js']);
+      expect(service!.processes).toEqual([
+        {
+          name: 'worker',
+          type: 'worker',
+          command: 'node --enable-source-maps worker.js',
+          entryPoint: 'worker.js',
+          source: 'worker.js',
+        },
+      ]);
+    });
+
+    it('should classify Go commands and standalone scheduled services', async () => {
+      const goIndex = await indexFiles({
+        'go.mod': 'module github.com/acme/fleet\n\ngo 1.22',
+        'cmd/server/main.go':
+          'package main\n\nfunc main() {\n\thttp.ListenAndServe(":8080", router())\n}',
+        'cmd/dispatcher/main.go': `package main
+
+func main() {
+	reader := kafka.NewReader(kafka.ReaderConfig{Topic: "trips"})
+}`,
+        'cmd/purge/main.go':
+          'package main\n\nfunc main() {\n\tc := cron.New()\n\tc.AddFunc("0 4 * * *", purge)\n}',
+        'cmd/migrate/main.go': 'package main\n\nfunc main() { migrate() }',
+      });
+
+      const [fleet] = await detector.identifyServices(goIndex);
+
+      expect(fleet!.type).toBe('api');
+      expect(
+        fleet!.processes!.map(process => [process.name, process.type, process.schedule])
+      ).toEqual([
+        ['server', 'web', undefined],
+        ['dispatcher', 'worker', undefined],
+        ['purge', 'cron', '0 4 * * *'],
+        ['migrate', 'cli', undefined],
+      ]);
+
+      const cronIndex = await indexFiles({
+        'package.json': JSON.stringify({ name: 'reports', main: 'index.js' }),
+        'index.js':
+          "const cron = require('node-cron');\ncron.schedule('0 6 * * 1', sendWeeklyReport);",
+      });
+
+      const [reports] = await detector.identifyServices(cronIndex);
+
+      expect(reports).toMatchObject({
+        type: 'cron',
+        processes: [{ name: 'cron', type: 'cron', entryPoint: 'index.js', schedule: '0 6 * * 1' }],
+      });
+    });
+  });
+
+  describe('classifyArchitecture', () => {
+    const service = (name: string, source: string, extra: Record<string, string> = {}) => ({
+      [`${name}/Dockerfile`]: 'FROM node:20',
+      [`${name}/package.json`]: JSON.stringify({
+        name,
+        dependencies: { express: '4', kafkajs: '2' },
+      }),
+      [`${name}/index.js`]: source,
+      ...extra,
+    });
+
+    it('should classify services calling each other as microservices', async () => {
+      const index = await indexFiles({
+        ...service(
+          'orders',
+          `const app = require('express')();
+app.post('/orders', async (req, res) => {
+  await fetch('http://users:3000/users/' + req.body.userId);
+  await fetch(process.env.PAYMENTS_SERVICE_URL + '/charge');
+});
+app.listen(3000);`
+        ),
+        ...service('users', "require('express')().listen(3000);"),
+        ...service('payments', "require('express')().listen(3000);"),
+      });
+
+      const result = await detector.classifyArchitecture(index);
+
+      expect(result.type).toBe('microservices');
+      expect(await detector.detectArchitectureType(index)).toBe('microservices');
+      expect(result.confidence).toBe(1);
+      expect(result.evidence.map(item => [item.signal, item.description])).toEqual([
+        ['service-count', '3 independently deployable services: orders, payments, users'],
+        ['service-call', 'orders calls payments over HTTP'],
+        ['service-call', 'orders calls users over HTTP'],
+      ]);
+      expect(result.evidence[1]!.files).toEqual(['orders/index.js']);
+    });
+
+    it('should classify services connected through a broker as event-driven', async () => {
+      const consumer = `const { Kafka } = require('kafkajs');
+const consumer = new Kafka({ brokers: ['kafka:9092'] }).consumer({ groupId: 'g' });
+consumer.subscribe({ topic: 'orders' });`;
+      const index = await indexFiles({
+        ...service('orders', "require('express')().listen(3000);"),
+        ...service('shipping', consumer),
+        ...service('invoicing', consumer),
+      });
+
+      const result = await detector.classifyArchitecture(index);
+
+      expect(result.type).toBe('event-driven');
+      expect(result.evidence.filter(item => item.type === 'event-driven')).toMatchObject([
+        { signal: 'queue-consumer', files: ['invoicing/index.js'] },
+        { signal: 'queue-consumer', files: ['shipping/index.js'] },
+        { signal: 'message-broker', description: 'Services share a message broker: kafka' },
+      ]);
+      expect(result.confidence).toBeGreaterThan(0.5);
+      expect(result.confidence).toBeLessThan(1);
+    });
+
+    it('should report services sharing a database', async () => {
+      const env = 'DATABASE_URL=postgres://app:secret@db:5432/shop';
+      const index = await indexFiles({
+        ...service('catalog', "require('express')().listen(3000);", {
+          'catalog/.env.example': env,
+        }),
+        ...service('checkout', "require('express')().listen(3000);", {
+          'checkout/.env.example': env,
+        }),
+      });
+
+      const result = await detector.classifyArchitecture(index);
+
+      expect(result.evidence).toContainEqual({
+        type: 'modular-monolith',
+        signal: 'shared-database',
+        description: 'catalog, checkout connect to the same database (db:5432/shop)',
+        weight: 3,
+      });
+      expect(result.type).toBe('modular-monolith');
+    });
+
+    it('should classify function deployments as serverless', async () => {
+      const index = await indexFiles({
+        'serverless.yml':
+          'service: thumbnails\nprovider:\n  name: aws\nfunctions:\n  resize:\n    handler: handler.resize',
+        'package.json': JSON.stringify({ name: 'thumbnails', dependencies: { sharp: '0.33' } }),
+        'handler.js': 'module.exports.resize = async event => ({ statusCode: 200 });',
+      });
+
+      const result = await detector.classifyArchitecture(index);
+
+      expect(result.type).toBe('serverless');
+      expect(result.evidence.filter(item => item.type === 'serverless')).toMatchObject([
+        { signal: 'serverless-config', files: ['serverless.yml'] },
+        { signal: 'no-listeners' },
+      ]);
+      expect(result.confidence).toBe(0.71);
+    });
+
+    it('should tell modular monoliths from plain monoliths', async () => {
+      const app = {
+        'package.json': JSON.stringify({
+          name: 'erp',
+          scripts: { start: 'node src/main.js' },
+          dependencies: { express: '4' },
+        }),
+        'src/main.js': "require('express')().listen(8080);",
+      };
+
+      const monolith = await detector.classifyArchitecture(await indexFiles(app));
+      expect(monolith).toEqual({
+        type: 'monolith',
+        confidence: 0.4,
+        evidence: [
+          {
+            type: 'monolith',
+            signal: 'service-count',
+            description: 'Single deployable: erp',
+            weight: 2,
+          },
+        ],
+      });
+
+      const modular = await detector.classifyArchitecture(
+        await indexFiles({
+          ...app,
+          'src/modules/billing/index.js': 'module.exports = {};',
+          'src/modules/billing/invoices.js': 'module.exports = {};',
+          'src/modules/inventory/index.js': 'module.exports = {};',
+        })
+      );
+      expect(modular.type).toBe('modular-monolith');
+      expect(modular.evidence[1]).toMatchObject({
+        signal: 'internal-modules',
+        description: '2 module directories in one deployable',
+        files: ['src/modules/billing/index.js', 'src/modules/inventory/index.js'],
+      });
+    });
+  });
+
+  describe('analyzeCommunicationPatterns', () => {
+    it('should link services through HTTP, gRPC stubs, message channels and tables', async () => {
+      const index = await indexFiles({
+        'proto/inventory.proto': `syntax = "proto3";
+service Inventory {
+  rpc Reserve (ReserveRequest) returns (ReserveReply);
+}`,
+        'gateway/Dockerfile': 'FROM node:20',
+        'gateway/server.js': `const app = require('express')();
+app.get('/orders', (req, res) => fetch('http://orders:8080/orders'));
+app.listen(3000);`,
+        'orders/Dockerfile': 'FROM python:3.12',
+        'orders/app.py': `import grpc
+from kafka import KafkaProducer
+from inventory_pb2_grpc import InventoryStub
+
+stub = InventoryStub(grpc.insecure_channel(INVENTORY_ADDR))
+producer = KafkaProducer(bootstrap_servers="kafka:9092")
+
+def create(order):
+    db.execute("INSERT INTO orders (id, total) VALUES (%s, %s)", order)
+    producer.send("order-created", order)`,
+        'inventory/Dockerfile': 'FROM golang:1.22',
+        'inventory/main.go': `package main
+
+import pb "example.com/inventory/gen"
+
+func main() {
+	s := grpc.NewServer()
+	pb.RegisterInventoryServer(s, &server{})
+}`,
+        'inventory/gen/inventory_grpc.pb.go': `package gen
+func NewInventoryClient(cc grpc.ClientConnInterface) InventoryClient { return nil }
+func RegisterInventoryServer(s grpc.ServiceRegistrar, srv InventoryServer) {}`,
+        'mailer/Dockerfile': 'FROM node:20',
+        'mailer/worker.js': `const consumer = kafka.consumer({ groupId: 'mailer' });
+await consumer.subscribe({ topics: ['order-created', 'user-created'] });
+const amqp = require('amqplib');
+channel.sendToQueue('emails', Buffer.from('hi'));`,
+        'reports/Dockerfile': 'FROM node:20',
+        'reports/job.js': `channel.consume('emails', onMessage);
+const rows = await db.query('SELECT id, total FROM orders WHERE total > 100');`,
+      });
+
+      const patterns = await detector.analyzeCommunicationPatterns(index);
+
+      expect(patterns).toEqual([
+        { from: 'gateway', to: 'orders', type: 'synchronous', protocol: 'http' },
+        {
+          from: 'mailer',
+          to: 'reports',
+          type: 'asynchronous',
+          protocol: 'amqp',
+          channels: ['emails'],
+        },
+        {
+          from: 'orders',
+          to: 'inventory',
+          type: 'synchronous',
+          protocol: 'grpc',
+          channels: ['Inventory'],
+        },
+        {
+          from: 'orders',
+          to: 'mailer',
+          type: 'event-driven',
+          protocol: 'kafka',
+          channels: ['order-created'],
+        },
+        {
+          from: 'orders',
+          to: 'reports',
+          type: 'asynchronous',
+          protocol: 'database',
+          channels: ['orders'],
+        },
+      ]);
+    });
+
+    it('should return no patterns for a single service', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({ name: 'solo', scripts: { start: 'node index.js' } }),
+        'index.js': "fetch('http://solo:3000/ping');",
+      });
+
+      expect(await detector.analyzeCommunicationPatterns(index)).toEqual([]);
+    });
+  });
+
+  describe('analyzeDataFlow', () => {
+    it('should infer stream, batch and ETL transformations per service', async () => {
+      const index = await indexFiles({
+        'ingest/Dockerfile': 'FROM node:20',
+        'ingest/package.json': JSON.stringify({
+          name: 'ingest',
+          dependencies: { kafkajs: '2', pg: '8' },
+        }),
+        'ingest/index.js': `const consumer = kafka.consumer({ groupId: 'ingest' });
+await consumer.subscribe({ topic: 'clicks' });
+await consumer.run({
+  eachMessage: async ({ message }) => {
+    await pool.query('INSERT INTO clicks (payload) VALUES ($1)', [message.value]);
+  },
+});`,
+        'nightly/Dockerfile': 'FROM python:3.12',
+        'nightly/requirements.txt': 'celery==5.3.0\npandas==2.1.0',
+        'nightly/tasks.py': `import pandas as pd
+from celery.schedules import crontab
+
+app.conf.beat_schedule = {
+    "rollup": {"task": "tasks.rollup", "schedule": crontab(minute=0, hour=3)},
+}
+
+@app.task
+def rollup():
+    events = pd.read_csv("s3://raw-events/2024/events.csv")
+    events.to_parquet("s3://lake/rollups/daily.parquet")`,
+        'backfill/Dockerfile': 'FROM python:3.12',
+        'backfill/job.py': `from pyspark.sql import SparkSession
+
+spark = SparkSession.builder.getOrCreate()
+df = spark.read.option("header", True).csv("data/history.csv")
+df.write.mode("overwrite").saveAsTable("history")`,
+        'reports/Dockerfile': 'FROM eclipse-temurin:21',
+        'reports/src/main/java/ReportJob.java': `@Component
+public class ReportJob {
+  @Scheduled(cron = "0 */15 * * * *")
+  public void run() {}
+}`,
+      });
+
+      const dataFlow = await detector.analyzeDataFlow(index);
+
+      expect(dataFlow.dataSources).toEqual([
+        'file:data/history.csv',
+        'kafka:clicks',
+        's3://raw-events',
+      ]);
+      expect(dataFlow.dataStores).toEqual([
+        'database:history',
+        'postgresql',
+        'postgresql:clicks',
+        's3://lake',
+      ]);
+      expect(dataFlow.dataTransformations).toEqual([
+        {
+          input: 'file:data/history.csv',
+          output: 'database:history',
+          type: 'etl',
+          service: 'backfill',
+        },
+        {
+          input: 'kafka:clicks',
+          output: 'postgresql:clicks',
+          type: 'stream',
+          service: 'ingest',
+        },
+        {
+          input: 's3://raw-events',
+          output: 's3://lake',
+          type: 'batch',
+          service: 'nightly',
+          schedule: '0 3 * * *',
+        },
+        {
+          input: 'unknown',
+          output: 'unknown',
+          type: 'batch',
+          service: 'reports',
+          schedule: '*/15 * * * *',
+        },
+      ]);
+    });
+
+    it('should pair each write with the trigger of its own handler', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({
+          name: 'ledger',
+          dependencies: { kafkajs: '2', pg: '8', 'node-cron': '3' },
+        }),
+        'index.js': `const consumer = kafka.consumer({ groupId: 'ledger' });
+await consumer.subscribe({ topic: 'payments' });
+await consumer.run({
+  eachMessage: async ({ message }) => {
+    await pool.query('INSERT INTO entries (payload) VALUES ($1)', [message.value]);
+  },
+});
+
+cron.schedule('0 2 * * *', async () => {
+  const rows = await pool.query('SELECT * FROM entries');
+  fs.writeFileSync('exports/entries.csv', toCsv(rows));
+});`,
+      });
+
+      const dataFlow = await detector.analyzeDataFlow(index);
+
+      expect(dataFlow.dataTransformations).toEqual([
+        {
+          input: 'kafka:payments',
+          output: 'postgresql:entries',
+          type: 'stream',
+          service: 'ledger',
+        },
+        {
+          input: 'postgresql:entries',
+          output: 'file:exports/entries.csv',
+          type: 'batch',
+          service: 'ledger',
+          schedule: '0 2 * * *',
+        },
+      ]);
+    });
+
+    it('should include the data flow in the full architecture', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({ name: 'api', dependencies: { express: '4' } }),
+        'index.js': "require('express')().listen(3000);",
+      });
+
+      const architecture = await detector.detectArchitecture(index);
+
+      expect(architecture).toMatchObject({
+        type: 'monolith',
+        services: [{ name: 'api', exposedPorts: [3000] }],
+        communicationPatterns: [],
+        dataFlow: { dataSources: [], dataStores: [], dataTransformations: [] },
+        confidence: 0.4,
+      });
+    });
+  });
+});
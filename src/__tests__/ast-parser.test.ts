@@ -328,6 +328,694 @@ describe('ASTParser', () => {
     });
   });
 
+  describe('TypeScript and JavaScript parsing', () => {
+    it('should distinguish default, named, namespace, required and dynamic imports', async () => {
+      const content = `import express, { Router, json as parseJson } from 'express';
+import {
+  Injectable,
+  Inject,
+} from '@nestjs/common';
+import * as path from 'path';
+const { readFile } = require('fs/promises');
+export { helper } from './helpers';
+
+async function load() {
+  const { handler } = await import('./handlers');
+}`;
+
+      const result = await parser.createSimplifiedAST('src/app.ts', content);
+
+      expect(result.imports).toEqual([
+        {
+          source: 'express',
+          specifiers: ['express', 'Router', 'json'],
+          isDefault: true,
+          isDynamic: false,
+          line: 1,
+          column: 1,
+        },
+        {
+          source: '@nestjs/common',
+          specifiers: ['Injectable', 'Inject'],
+          isDefault: false,
+          isDynamic: false,
+          line: 2,
+          column: 1,
+        },
+        {
+          source: 'path',
+          specifiers: ['*'],
+          isDefault: false,
+          isDynamic: false,
+          line: 6,
+          column: 1,
+        },
+        {
+          source: 'fs/promises',
+          specifiers: ['readFile'],
+          isDefault: false,
+          isDynamic: false,
+          line: 7,
+          column: 22,
+        },
+        {
+          source: './helpers',
+          specifiers: ['helper'],
+          isDefault: false,
+          isDynamic: false,
+          line: 8,
+          column: 1,
+        },
+        {
+          source: './handlers',
+          specifiers: ['handler'],
+          isDefault: false,
+          isDynamic: true,
+          line: 11,
+          column: 29,
+        },
+      ]);
+      expect(result.dependencies).toEqual(['express', '@nestjs/common', 'path', 'fs/promises']);
+    });
+
+    it('should extract decorated classes with methods, properties and parameters', async () => {
+      const content = `@Controller('users')
+export class UsersController extends BaseController implements OnModuleInit {
+  private static instances = 0;
+  #cache = new Map<string, User>();
+
+  constructor(private readonly users: UsersService) {
+    super();
+  }
+
+  @Get(':id')
+  async findOne(@Param('id') id: string, verbose = false): Promise<User | undefined> {
+    return verbose ? this.users.find(id) : this.#cache.get(id);
+  }
+
+  onModuleInit = () => this.users.warm();
+}`;
+
+      const result = await parser.createSimplifiedAST('src/users.controller.ts', content);
+      const [controller] = result.classes;
+
+      expect(controller).toMatchObject({
+        name: 'UsersController',
+        extends: 'BaseController',
+        implements: ['OnModuleInit'],
+        isExported: true,
+        decorators: ["Controller('users')"],
+        line: 1,
+        column: 1,
+      });
+      expect(controller?.properties).toEqual([
+        { name: 'instances', isStatic: true, isPrivate: true, type: undefined, line: 3, column: 3 },
+        { name: '#cache', isStatic: false, isPrivate: true, type: undefined, line: 4, column: 3 },
+        {
+          name: 'users',
+          isStatic: false,
+          isPrivate: true,
+          type: 'UsersService',
+          line: 6,
+          column: 15,
+        },
+      ]);
+      expect(controller?.methods.map(method => method.name)).toEqual([
+        'constructor',
+        'findOne',
+        'onModuleInit',
+      ]);
+      expect(controller?.methods[1]).toEqual({
+        name: 'findOne',
+        parameters: [
+          { name: 'id', type: 'string', isOptional: false },
+          { name: 'verbose', isOptional: true, defaultValue: 'false' },
+        ],
+        returnType: 'Promise<User | undefined>',
+        isAsync: true,
+        isExported: false,
+        complexity: 2,
+        decorators: ["Get(':id')"],
+        line: 10,
+        column: 3,
+      });
+      expect(result.exports).toEqual([
+        { name: 'UsersController', type: 'class', isDefault: false, line: 1, column: 1 },
+      ]);
+    });
+
+    it('should extract arrow function exports, variables and CommonJS exports', async () => {
+      const content = `export const handler = async (event: APIGatewayEvent) => {
+  if (!event.body || event.isBase64Encoded) return { statusCode: 400 };
+  return { statusCode: 200 };
+};
+const TIMEOUT_MS: number = 3000;
+let retries = 0;
+function retry() {}
+export { TIMEOUT_MS, retry };
+module.exports.legacy = function () {};`;
+
+      const result = await parser.createSimplifiedAST('src/handler.ts', content);
+
+      expect(result.functions).toMatchObject([
+        { name: 'handler', isAsync: true, isExported: true, complexity: 3, line: 1, column: 14 },
+        { name: 'retry', isAsync: false, isExported: true, complexity: 1, line: 7, column: 1 },
+      ]);
+      expect(result.variables).toEqual([
+        {
+          name: 'TIMEOUT_MS',
+          type: 'number',
+          isConst: true,
+          isExported: true,
+          line: 5,
+          column: 7,
+        },
+        { name: 'retries', type: undefined, isConst: false, isExported: false, line: 6, column: 5 },
+      ]);
+      expect(result.exports.map(exp => [exp.name, exp.type])).toEqual([
+        ['handler', 'function'],
+        ['TIMEOUT_MS', 'variable'],
+        ['retry', 'function'],
+        ['legacy', 'function'],
+      ]);
+    });
+
+    it('should report syntax errors and keep parsing', async () => {
+      const content = `import { a } from 'a';
+function broken( {
+export const ok = 1;`;
+
+      const result = await parser.parseFile('src/broken.ts', content);
+
+      expect(result.errors[0]).toMatch(/^Syntax error at line \d+, column \d+: /);
+      expect(result.warnings).toHaveLength(0);
+      expect(result.ast.body.some((node: any) => node.source === 'a')).toBe(true);
+    });
+  });
+
+  describe('Python parsing', () => {
+    it('should extract multi-line, relative and dynamic imports', async () => {
+      const content = `import os, sys as system
+from typing import (
+    Optional,
+    List as ListType,
+)
+from . import views
+from ..models import *
+
+def load(name):
+    return importlib.import_module("plugins." + name), __import__("json")`;
+
+      const result = await parser.createSimplifiedAST('app/main.py', content);
+
+      expect(result.imports.map(imp => [imp.source, imp.specifiers, imp.isDynamic])).toEqual([
+        ['os', ['os'], false],
+        ['sys', ['system'], false],
+        ['typing', ['Optional', 'List'], false],
+        ['.', ['views'], false],
+        ['..models', ['*'], false],
+        ['plugins.', [], true],
+        ['json', [], true],
+      ]);
+      expect(result.imports[2]).toMatchObject({ line: 2, column: 1 });
+      expect(result.dependencies).toEqual(['os', 'sys', 'typing', 'plugins.', 'json']);
+    });
+
+    it('should extract decorated and async functions with parameters', async () => {
+      const content = `@app.get(
+    "/items/{item_id}",
+    response_model=Item,
+)
+async def read_item(item_id: int, q: Optional[str] = None, *args, **kwargs) -> Item:
+    """Return one item; ignores 'def fake():' inside strings."""
+    if q and item_id > 0:
+        return items[item_id]
+    for item in items:
+        pass
+    return None
+
+def _helper(key=lambda x: x.name): return sorted(items, key=key)`;
+
+      const result = await parser.createSimplifiedAST('app/routes.py', content);
+
+      expect(result.functions).toEqual([
+        {
+          name: 'read_item',
+          parameters: [
+            { name: 'item_id', type: 'int', isOptional: false },
+            { name: 'q', type: 'Optional[str]', isOptional: true, defaultValue: 'None' },
+            { name: 'args', isOptional: true },
+            { name: 'kwargs', isOptional: true },
+          ],
+          returnType: 'Item',
+          isAsync: true,
+          isExported: true,
+          complexity: 4,
+          decorators: ['app.get( "/items/{item_id}", response_model=Item, )'],
+          line: 5,
+          column: 1,
+        },
+        {
+          name: '_helper',
+          parameters: [{ name: 'key', isOptional: true, defaultValue: 'lambda x: x.name' }],
+          returnType: undefined,
+          isAsync: false,
+          isExported: false,
+          complexity: 1,
+          decorators: [],
+          line: 13,
+          column: 1,
+        },
+      ]);
+    });
+
+    it('should extract classes with bases, methods, attributes and nested classes', async () => {
+      const content = `class Order(TimestampedModel, AuditMixin, metaclass=ModelBase):
+    status = models.CharField(max_length=20)
+    total: Decimal = Decimal("0")
+    _registry: ClassVar[dict] = {}
+
+    class Meta:
+        ordering = ["-created"]
+
+    def __init__(self, *args, **kwargs):
+        super().__init__(*args, **kwargs)
+        self.discount: float = 0.0
+        self._lines = []
+
+    @property
+    def is_paid(self) -> bool:
+        return self.status == "paid"
+
+    @staticmethod
+    def parse(value):
+        cls = value
+        return cls
+
+MAX_ITEMS: int = 50
+_cache, counter = {}, 0`;
+
+      const result = await parser.createSimplifiedAST('shop/models.py', content);
+
+      expect(result.classes.map(cls => cls.name)).toEqual(['Order', 'Order.Meta']);
+      expect(result.classes[0]).toMatchObject({
+        extends: 'TimestampedModel',
+        implements: ['AuditMixin'],
+        isExported: true,
+        line: 1,
+      });
+      expect(result.classes[0]?.methods.map(method => [method.name, method.decorators])).toEqual([
+        ['__init__', []],
+        ['is_paid', ['property']],
+        ['parse', ['staticmethod']],
+      ]);
+      expect(
+        result.classes[0]?.properties.map(property => [
+          property.name,
+          property.type,
+          property.isStatic,
+          property.isPrivate,
+        ])
+      ).toEqual([
+        ['status', undefined, true, false],
+        ['total', 'Decimal', false, false],
+        ['_registry', 'ClassVar[dict]', true, true],
+        ['discount', 'float', false, false],
+        ['_lines', undefined, false, true],
+      ]);
+      expect(result.classes[1]?.properties.map(property => property.name)).toEqual(['ordering']);
+      expect(result.variables.map(variable => [variable.name, variable.isConst])).toEqual([
+        ['MAX_ITEMS', true],
+        ['_cache', false],
+        ['counter', false],
+      ]);
+    });
+
+    it('should honour __all__ and report tokenizer errors', async () => {
+      const content = `__all__ = ["create_app", "VERSION"]
+VERSION = "1.0"
+def create_app(): ...
+def internal(): ...
+message = "unterminated
+`;
+
+      const result = await parser.parseFile('app/__init__.py', content);
+      const simplified = await parser.createSimplifiedAST('app/__init__.py', content);
+
+      expect(result.errors).toEqual([
+        'Syntax error at line 5, column 11: unterminated string literal',
+      ]);
+      expect(simplified.exports.map(exp => [exp.name, exp.type])).toEqual([
+        ['create_app', 'function'],
+        ['VERSION', 'variable'],
+      ]);
+      expect(simplified.functions.map(fn => [fn.name, fn.isExported])).toEqual([
+        ['create_app', true],
+        ['internal', false],
+      ]);
+    });
+  });
+
+  describe('Go, Java and C# parsing', () => {
+    it('should extract Go packages, grouped imports, structs with tags and methods', async () => {
+      const content = `package api
+
+import (
+	"context"
+	chi "github.com/go-chi/chi/v5"
+	_ "github.com/lib/pq"
+)
+
+type User struct {
+	ID, TeamID int64  \`json:"id" db:"id"\`
+	Email      string \`json:"email,omitempty"\`
+	*Base
+}
+
+type Store interface {
+	Find(ctx context.Context, id int64) (*User, error)
+}
+
+const MaxPage = 100
+
+func (h *Handler) GetUser(w http.ResponseWriter, r *http.Request) {
+	if id := chi.URLParam(r, "id"); id == "" || id == "0" {
+		return
+	}
+}
+
+func NewRouter(store Store, opts ...Option) chi.Router {
+	return chi.NewRouter()
+}
+
+func (u User) Display() string { return u.Email }`;
+
+      const result = await parser.createSimplifiedAST('internal/api/user.go', content);
+
+      expect((await parser.parseFile('internal/api/user.go', content)).errors).toEqual([]);
+      expect(result.packageName).toBe('api');
+      expect(result.imports.map(imp => [imp.source, imp.specifiers])).toEqual([
+        ['context', ['context']],
+        ['github.com/go-chi/chi/v5', ['chi']],
+        ['github.com/lib/pq', ['_']],
+      ]);
+
+      const [user, store] = result.classes;
+      expect(user).toMatchObject({ name: 'User', kind: 'struct', isExported: true, line: 9 });
+      expect(user?.properties).toEqual([
+        {
+          name: 'ID',
+          type: 'int64',
+          isStatic: false,
+          isPrivate: false,
+          tags: { json: 'id', db: 'id' },
+          line: 10,
+          column: 2,
+        },
+        {
+          name: 'TeamID',
+          type: 'int64',
+          isStatic: false,
+          isPrivate: false,
+          tags: { json: 'id', db: 'id' },
+          line: 10,
+          column: 6,
+        },
+        {
+          name: 'Email',
+          type: 'string',
+          isStatic: false,
+          isPrivate: false,
+          tags: { json: 'email,omitempty' },
+          line: 11,
+          column: 2,
+        },
+        { name: 'Base', type: '*Base', isStatic: false, isPrivate: false, line: 12, column: 2 },
+      ]);
+      expect(user?.methods.map(method => [method.name, method.returnType])).toEqual([
+        ['Display', 'string'],
+      ]);
+      expect(store).toMatchObject({ name: 'Store', kind: 'interface' });
+      expect(store?.methods[0]?.parameters).toEqual([
+        { name: 'ctx', type: 'context.Context', isOptional: false },
+        { name: 'id', type: 'int64', isOptional: false },
+      ]);
+
+      expect(result.functions.map(fn => [fn.name, fn.complexity, fn.isExported])).toEqual([
+        ['Handler.GetUser', 3, true],
+        ['NewRouter', 1, true],
+      ]);
+      expect(result.functions[1]?.parameters).toEqual([
+        { name: 'store', type: 'Store', isOptional: false },
+        { name: 'opts', type: '...Option', isOptional: true },
+      ]);
+      expect(result.variables).toMatchObject([{ name: 'MaxPage', isConst: true }]);
+    });
+
+    it('should extract Java annotations, records, enums and nested types', async () => {
+      const content = `package com.example.orders;
+
+import java.util.List;
+import org.springframework.web.bind.annotation.*;
+import static java.util.Objects.requireNonNull;
+
+@RestController
+@RequestMapping("/orders")
+public class OrderController extends BaseController implements Auditable, Serializable {
+    private static final long serialVersionUID = 1L;
+    @Autowired private OrderService orders;
+
+    public OrderController(OrderService orders) {
+        this.orders = orders;
+    }
+
+    @GetMapping("/{id}")
+    public ResponseEntity<Order> get(@PathVariable("id") Long id, String... fields) {
+        if (id == null || id < 0) throw new IllegalArgumentException();
+        return ResponseEntity.ok(orders.find(id));
+    }
+
+    public record Summary(Long id, List<String> items) {}
+
+    enum Status { OPEN, @Deprecated CLOSED }
+}`;
+
+      const result = await parser.createSimplifiedAST(
+        'src/main/java/OrderController.java',
+        content
+      );
+
+      expect(result.packageName).toBe('com.example.orders');
+      expect(result.imports.map(imp => [imp.source, imp.specifiers])).toEqual([
+        ['java.util.List', ['List']],
+        ['org.springframework.web.bind.annotation', ['*']],
+        ['java.util.Objects', ['requireNonNull']],
+      ]);
+      expect(result.classes.map(cls => [cls.name, cls.kind])).toEqual([
+        ['OrderController', 'class'],
+        ['OrderController.Summary', 'record'],
+        ['OrderController.Status', 'enum'],
+      ]);
+
+      const [controller, summary, status] = result.classes;
+      expect(controller).toMatchObject({
+        extends: 'BaseController',
+        implements: ['Auditable', 'Serializable'],
+        isExported: true,
+        decorators: ['RestController', 'RequestMapping("/orders")'],
+        line: 9,
+        column: 8,
+      });
+      expect(controller?.properties.map(property => [property.name, property.decorators])).toEqual([
+        ['serialVersionUID', []],
+        ['orders', ['Autowired']],
+      ]);
+      expect(controller?.methods.map(method => method.name)).toEqual(['constructor', 'get']);
+      expect(controller?.methods[1]).toEqual({
+        name: 'get',
+        parameters: [
+          { name: 'id', type: 'Long', isOptional: false, decorators: ['PathVariable("id")'] },
+          { name: 'fields', type: 'String...', isOptional: true },
+        ],
+        returnType: 'ResponseEntity<Order>',
+        isAsync: false,
+        isExported: true,
+        complexity: 3,
+        decorators: ['GetMapping("/{id}")'],
+        line: 18,
+        column: 34,
+      });
+      expect(summary?.properties.map(property => [property.name, property.type])).toEqual([
+        ['id', 'Long'],
+        ['items', 'List<String>'],
+      ]);
+      expect(status?.properties.map(property => [property.name, property.decorators])).toEqual([
+        ['OPEN', []],
+        ['CLOSED', ['Deprecated']],
+      ]);
+    });
+
+    it('should extract C# namespaces, attributes, properties and async methods', async () => {
+      const content = `using System.Text.Json;
+using static System.Math;
+using Json = System.Text.Json.JsonSerializer;
+
+namespace Shop.Api.Controllers;
+
+[ApiController]
+[Route("api/[controller]"), Authorize]
+public sealed class OrdersController : ControllerBase, IDisposable
+{
+    private readonly IOrderService _orders;
+    public const int PageSize = 20;
+    public string Region { get; init; } = "eu";
+    public int Count => _orders.Count;
+
+    public OrdersController(IOrderService orders) => _orders = orders;
+
+    [HttpGet("{id:int}")]
+    public async Task<ActionResult<OrderDto>> Get<T>([FromRoute] int id, int take = 20, params string[] fields)
+    {
+        var order = await _orders.FindAsync(id) ?? throw new NotFoundException();
+        return order.IsPaid && take > 0 ? Ok(order) : NotFound();
+    }
+
+    public void Dispose() { }
+}
+
+public record OrderDto(int Id, decimal Total);`;
+
+      const result = await parser.createSimplifiedAST('Controllers/OrdersController.cs', content);
+
+      expect(result.language).toBe('csharp');
+      expect(result.packageName).toBe('Shop.Api.Controllers');
+      expect(result.imports.map(imp => [imp.source, imp.specifiers])).toEqual([
+        ['System.Text.Json', ['*']],
+        ['System.Math', ['Math']],
+        ['System.Text.Json.JsonSerializer', ['Json']],
+      ]);
+
+      const [controller, dto] = result.classes;
+      expect(controller).toMatchObject({
+        name: 'OrdersController',
+        kind: 'class',
+        extends: 'ControllerBase',
+        implements: ['IDisposable'],
+        decorators: ['ApiController', 'Route("api/[controller]")', 'Authorize'],
+      });
+      expect(
+        controller?.properties.map(property => [
+          property.name,
+          property.type,
+          property.isStatic,
+          property.isPrivate,
+        ])
+      ).toEqual([
+        ['_orders', 'IOrderService', false, true],
+        ['PageSize', 'int', true, false],
+        ['Region', 'string', false, false],
+        ['Count', 'int', false, false],
+      ]);
+      expect(controller?.methods.map(method => method.name)).toEqual([
+        'constructor',
+        'Get',
+        'Dispose',
+      ]);
+      expect(controller?.methods[1]).toMatchObject({
+        parameters: [
+          { name: 'id', type: 'int', isOptional: false, decorators: ['FromRoute'] },
+          { name: 'take', type: 'int', isOptional: true, defaultValue: '20' },
+          { name: 'fields', type: 'string[]', isOptional: true },
+        ],
+        returnType: 'Task<ActionResult<OrderDto>>',
+        isAsync: true,
+        isExported: true,
+        complexity: 3,
+        decorators: ['HttpGet("{id:int}")'],
+      });
+      expect(dto).toMatchObject({ name: 'OrderDto', kind: 'record' });
+      expect(dto?.properties.map(property => [property.name, property.type])).toEqual([
+        ['Id', 'int'],
+        ['Total', 'decimal'],
+      ]);
+    });
+
+    it('should report parse errors instead of returning silently empty bodies', async () => {
+      const goResult = await parser.parseFile('main.go', 'func main() {\n\tfmt.Println("hi)\n');
+      const javaResult = await parser.parseFile(
+        'App.java',
+        'public class App {\n  void run() { }\n  /* unfinished'
+      );
+      const csharpResult = await parser.parseFile('Program.cs', 'namespace App;\nclass Program )');
+
+      expect(goResult.errors).toEqual([
+        'Syntax error at line 2, column 14: unterminated string literal',
+        "Syntax error at line 1, column 13: '{' was never closed",
+        "Syntax error at line 2, column 13: '(' was never closed",
+        "Syntax error at line 1, column 1: expected 'package' clause",
+      ]);
+      expect(javaResult.errors).toEqual([
+        'Syntax error at line 3, column 3: unterminated comment',
+        "Syntax error at line 1, column 18: '{' was never closed",
+      ]);
+      expect(csharpResult.errors).toEqual([
+        "Syntax error at line 2, column 15: unmatched ')'",
+        "Syntax error at line 2, column 7: expected '{' after class Program",
+      ]);
+    });
+
+    it('should extract calls with their arguments and assigned variables', async () => {
+      const tsResult = await parser.createSimplifiedAST(
+        'src/server.ts',
+        `const app = express();
+app.get('/users/:id', async (req, res) => res.json(await users.find(req.params.id)));`
+      );
+      const goResult = await parser.createSimplifiedAST(
+        'main.go',
+        `package main
+
+func (s *Server) routes() {
+	v1 := s.engine.Group("/v1")
+	v1.GET("/users/:id", s.getUser)
+}`
+      );
+      const pyResult = await parser.createSimplifiedAST(
+        'app.py',
+        'router = APIRouter(prefix="/items", tags=["items"])\nprint(find(1, key=lookup(2)))\n'
+      );
+
+      expect(tsResult.calls).toEqual([
+        { callee: 'express', arguments: [], assignedTo: 'app', line: 1, column: 13 },
+        {
+          callee: 'app.get',
+          arguments: [
+            "'/users/:id'",
+            'async (req, res) => res.json(await users.find(req.params.id))',
+          ],
+          line: 2,
+          column: 1,
+        },
+        {
+          callee: 'res.json',
+          arguments: ['await users.find(req.params.id)'],
+          line: 2,
+          column: 43,
+        },
+        { callee: 'users.find', arguments: ['req.params.id'], line: 2, column: 58 },
+      ]);
+      expect(goResult.calls.map(call => [call.callee, call.arguments, call.assignedTo])).toEqual([
+        ['s.engine.Group', ['"/v1"'], 'v1'],
+        ['v1.GET', ['"/users/:id"', 's.getUser'], undefined],
+      ]);
+      expect(pyResult.calls.map(call => [call.callee, call.arguments, call.assignedTo])).toEqual([
+        ['APIRouter', ['prefix="/items"', 'tags=["items"]'], 'router'],
+        ['print', ['find(1, key=lookup(2))'], undefined],
+        ['find', ['1', 'key=lookup(2)'], undefined],
+        ['lookup', ['2'], undefined],
+      ]);
+    });
+  });
+
   describe('language-specific parsing', () => {
     it('should handle JavaScript/TypeScript imports', async () => {
       const content = `
@@ -520,13 +1208,14 @@ describe('ASTParser', () => {
       const commentOnlyContent = `
         // This is a comment
         /* This is a block comment */
-        # Python comment
       `;
 
       const result = await parser.parseFile('comments.js', commentOnlyContent, 'javascript');
+      const pythonResult = await parser.parseFile('comments.py', '# Python comment\n', 'python');
 
       expect(result.ast).toBeDefined();
       expect(result.errors).toHaveLength(0);
+      expect(pythonResult.errors).toHaveLength(0);
     });
 
     it('should handle mixed language content', async () => {
@@ -0,0 +1,21 @@
+import { FileIndexer } from '../analyzers/file-indexer';
+import { CodebaseIndex } from '../types/codebase';
+import { DefaultFileUtils } from '../utils/file-utils';
+
+/**
+ * Index in-memory files, keyed by path, with their contents for the analyzers to read
+ */
+export async function indexFiles(files: Record<string, string>): Promise<CodebaseIndex> {
+  const fileUtils = new DefaultFileUtils();
+  const indexer = new FileIndexer(fileUtils, { includeContent: true });
+  const result = await indexer.indexCodebase({
+    files: Object.entries(files).map(([path, content]) => ({
+      path,
+      content,
+      size: content.length,
+      type: fileUtils.getFileType(path, content),
+    })),
+    metadata: { name: 'test-project' },
+  });
+  return result.index;
+}
@@ -0,0 +1,117 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DefaultManifestParser } from '../utils/manifest-parser';
+
+describe('DefaultManifestParser', () => {
+  let parser: DefaultManifestParser;
+
+  beforeEach(() => {
+    parser = new DefaultManifestParser();
+  });
+
+  describe('parseToml', () => {
+    it('should parse tables, dotted keys and scalar values', () => {
+      const result = parser.parseToml(`
+# Project metadata
+[project]
+name = "service"
+version = '1.2.0'
+requires-python = ">=3.10"
+private = true
+retries = 3
+
+[tool.poetry.dependencies]
+python = "^3.11"
+"django-rest" = { version = "^3.14", optional = true }
+`);
+
+      expect(result['project']).toEqual({
+        name: 'service',
+        version: '1.2.0',
+        'requires-python': '>=3.10',
+        private: true,
+        retries: 3,
+      });
+      expect(result['tool'].poetry.dependencies).toEqual({
+        python: '^3.11',
+        'django-rest': { version: '^3.14', optional: true },
+      });
+    });
+
+    it('should parse multi-line arrays with comments and trailing commas', () => {
+      const result = parser.parseToml(`
+[project]
+dependencies = [
+  "fastapi>=0.110", # web framework
+  "uvicorn[standard]",
+]
+`);
+
+      expect(result['project'].dependencies).toEqual(['fastapi>=0.110', 'uvicorn[standard]']);
+    });
+
+    it('should parse arrays of tables', () => {
+      const result = parser.parseToml(`
+[[bin]]
+name = "api"
+path = "src/main.rs"
+
+[[bin]]
+name = "worker"
+`);
+
+      expect(result['bin']).toEqual([{ name: 'api', path: 'src/main.rs' }, { name: 'worker' }]);
+    });
+
+    it('should handle multi-line and escaped strings', () => {
+      const result = parser.parseToml(
+        'description = """\nFirst line\nSecond line"""\npath = "C:\\\\app\\ttab"\nraw = \'C:\\app\''
+      );
+
+      expect(result['description']).toBe('First line\nSecond line');
+      expect(result['path']).toBe('C:\\app\ttab');
+      expect(result['raw']).toBe('C:\\app');
+    });
+
+    it('should report the line of a syntax error', () => {
+      expect(() => parser.parseToml('[project]\nname = "unterminated\n')).toThrow(/line 2/);
+    });
+  });
+
+  describe('parseXml', () => {
+    it('should build an element tree with attributes, text and CDATA', () => {
+      const root = parser.parseXml(`<?xml version="1.0"?>
+<!-- build file -->
+<Project Sdk="Microsoft.NET.Sdk.Web">
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+    <Description><![CDATA[Orders & billing]]></Description>
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="Npgsql" Version="8.0.1" />
+  </ItemGroup>
+</Project>`);
+
+      expect(root.name).toBe('Project');
+      expect(root.attributes['Sdk']).toBe('Microsoft.NET.Sdk.Web');
+      const [properties, items] = root.children;
+      expect(properties?.children.map(child => [child.name, child.text])).toEqual([
+        ['TargetFramework', 'net8.0'],
+        ['Description', 'Orders & billing'],
+      ]);
+      expect(items?.children[0]?.attributes).toEqual({ Include: 'Npgsql', Version: '8.0.1' });
+    });
+
+    it('should decode entities and drop namespace prefixes', () => {
+      const root = parser.parseXml(
+        '<m:project xmlns:m="urn:x"><m:name>a &amp; b</m:name></m:project>'
+      );
+
+      expect(root.name).toBe('project');
+      expect(root.children[0]?.text).toBe('a & b');
+    });
+
+    it('should reject mismatched tags', () => {
+      expect(() => parser.parseXml('<project><name></project>')).toThrow(/Mismatched closing tag/);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DefaultNetworkAnalyzer } from '../analyzers/network-analyzer';
+import { indexFiles } from './helpers';
+
+describe('DefaultNetworkAnalyzer', () => {
+  let analyzer: DefaultNetworkAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new DefaultNetworkAnalyzer();
+  });
+
+  it('should resolve Node.js listeners through variables and env defaults', async () => {
+    const index = await indexFiles({
+      'src/server.ts': `const port = Number(process.env.PORT) || 3000;
+app.listen(port, () => console.log('ready'));
+metricsServer.listen(9464);`,
+      Dockerfile: 'FROM node:20\nEXPOSE 3000\nEXPOSE 9229\n',
+    });
+
+    const listeners = await analyzer.detectListeners(index);
+
+    expect(listeners).toEqual([
+      {
+        port: 3000,
+        protocol: 'http',
+        purpose: 'http',
+        public: true,
+        envVar: 'PORT',
+        sources: [
+          { file: 'Dockerfile', line: 2 },
+          { file: 'src/server.ts', line: 2 },
+        ],
+      },
+      {
+        port: 9229,
+        protocol: 'http',
+        purpose: 'debug',
+        public: false,
+        sources: [{ file: 'Dockerfile', line: 3 }],
+      },
+      {
+        port: 9464,
+        protocol: 'http',
+        purpose: 'metrics',
+        public: false,
+        sources: [{ file: 'src/server.ts', line: 3 }],
+      },
+    ]);
+    expect(analyzer.getExposedPorts(listeners)).toEqual([3000, 9464]);
+    expect(analyzer.buildInboundRequirements(listeners)).toEqual([
+      { port: 3000, protocol: 'http', public: true },
+      { port: 9464, protocol: 'http', public: false },
+    ]);
+  });
+
+  it('should detect uvicorn, gunicorn and gRPC servers in Python', async () => {
+    const index = await indexFiles({
+      'app/main.py': 'uvicorn.run(app, host="0.0.0.0", port=int(os.getenv("PORT", "8000")))',
+      Procfile: 'web: gunicorn app.wsgi --bind 0.0.0.0:8001',
+      'app/grpc_server.py': `import grpc
+server.add_insecure_port("[::]:50051")`,
+    });
+
+    const listeners = await analyzer.detectListeners(index);
+
+    expect(
+      listeners.map(({ port, protocol, purpose, public: isPublic, envVar }) => ({
+        port,
+        protocol,
+        purpose,
+        isPublic,
+        envVar,
+      }))
+    ).toEqual([
+      { port: 8000, protocol: 'http', purpose: 'http', isPublic: true, envVar: 'PORT' },
+      { port: 8001, protocol: 'http', purpose: 'http', isPublic: true, envVar: undefined },
+      { port: 50051, protocol: 'tcp', purpose: 'grpc', isPublic: false, envVar: undefined },
+    ]);
+  });
+
+  it('should read Spring server and management ports from YAML and properties', async () => {
+    const index = await indexFiles({
+      'src/main/resources/application.yml': `server:
+  port: \${SERVER_PORT:8080}
+management:
+  server:
+    port: 8081
+spring:
+  datasource:
+    port: 5432`,
+      'src/main/resources/application-local.properties': 'server.port=8443',
+    });
+
+    const listeners = await analyzer.detectListeners(index);
+
+    expect(listeners.map(listener => [listener.port, listener.purpose, listener.public])).toEqual([
+      [8080, 'http', true],
+      [8081, 'metrics', false],
+      [8443, 'http', true],
+    ]);
+    expect(listeners[0]?.envVar).toBe('SERVER_PORT');
+  });
+
+  it('should detect Go listeners with TLS and a metrics endpoint', async () => {
+    const index = await indexFiles({
+      'cmd/api/main.go': `addr := ":" + os.Getenv("PORT")
+go http.ListenAndServe(":2112", promhttp.Handler())
+log.Fatal(http.ListenAndServeTLS(":8443", "cert.pem", "key.pem", router))
+srv := &http.Server{Addr: addr}`,
+      '.env.example': 'PORT=8080\n',
+    });
+
+    const listeners = await analyzer.detectListeners(index);
+
+    expect(listeners.map(listener => [listener.port, listener.protocol, listener.purpose])).toEqual(
+      [
+        [2112, 'http', 'metrics'],
+        [8080, 'http', 'http'],
+        [8443, 'https', 'http'],
+      ]
+    );
+    expect(listeners[1]?.envVar).toBe('PORT');
+  });
+
+  it('should fall back to port variables without a visible listen call', async () => {
+    const index = await indexFiles({
+      '.env.example': 'PORT=4000\nDB_PORT=5432\n',
+      'src/index.js': 'startServer();',
+    });
+
+    const listeners = await analyzer.detectListeners(index);
+
+    expect(listeners).toEqual([
+      {
+        port: 4000,
+        protocol: 'http',
+        purpose: 'http',
+        public: true,
+        envVar: 'PORT',
+        sources: [{ file: '.env.example', line: 1 }],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DefaultRouteAnalyzer } from '../analyzers/route-analyzer';
+import { RouteInfo, ServiceInfo } from '../types/analysis';
+import { indexFiles } from './helpers';
+
+function summarize(routes: RouteInfo[]): string[] {
+  return routes.map(
+    route =>
+      `${route.method} ${route.path} ${route.handler || '-'} ${route.framework} ${route.source.file}:${route.source.line}`
+  );
+}
+
+describe('DefaultRouteAnalyzer', () => {
+  let analyzer: DefaultRouteAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new DefaultRouteAnalyzer();
+  });
+
+  it('should extract Express routes through mounted routers and Nest controllers', async () => {
+    const index = await indexFiles({
+      'src/app.ts': `import express from 'express';
+import users from './routes/users';
+
+const app = express();
+app.get('/healthz', (req, res) => res.send('ok'));
+app.use('/api/users', users);
+app.use('/static', express.static('public'));
+axios.get('/not-a-route', { timeout: 100 });
+app.listen(3000);`,
+      'src/routes/users.ts': `import { Router } from 'express';
+const router = Router();
+router.get('/', listUsers);
+router.post('/:id(\\\\d+)/roles', assignRole);
+export default router;`,
+      'nest/main.ts': `async function bootstrap() {
+  const app = await NestFactory.create(AppModule);
+  app.setGlobalPrefix('v1');
+}`,
+      'nest/orders.controller.ts': `import { Controller, Get, Post } from '@nestjs/common';
+
+@Controller('orders')
+export class OrdersController {
+  @Get(':id')
+  findOne() {}
+
+  @Post()
+  create() {}
+}`,
+    });
+
+    expect(summarize(await analyzer.extractRoutes(index))).toEqual([
+      'GET /api/users listUsers express src/routes/users.ts:3',
+      'POST /api/users/{id}/roles assignRole express src/routes/users.ts:4',
+      'GET /healthz - express src/app.ts:5',
+      'POST /v1/orders OrdersController.create nestjs nest/orders.controller.ts:8',
+      'GET /v1/orders/{id} OrdersController.findOne nestjs nest/orders.controller.ts:5',
+    ]);
+  });
+
+  it('should extract FastAPI, Flask and Django routes with router prefixes', async () => {
+    const index = await indexFiles({
+      'api/main.py': `from fastapi import FastAPI
+from .routers import items
+
+app = FastAPI()
+app.include_router(items.router, prefix="/api")
+
+@app.get("/health")
+async def health():
+    return {"ok": True}
+`,
+      'api/routers/items.py': `from fastapi import APIRouter
+
+router = APIRouter(prefix="/items")
+
+@router.get("/{item_id}")
+def read_item(item_id: int):
+    ...
+
+@router.api_route("/", methods=["GET", "POST"])
+def items():
+    ...
+`,
+      'web/app.py': `from flask import Flask, Blueprint
+
+app = Flask(__name__)
+bp = Blueprint("admin", __name__, url_prefix="/admin")
+
+@bp.route("/users/<int:user_id>", methods=["DELETE"])
+def delete_user(user_id):
+    ...
+
+@app.route("/")
+def index():
+    ...
+
+app.register_blueprint(bp)
+`,
+      'site/urls.py': `from django.urls import include, path, re_path
+from . import views
+
+urlpatterns = [
+    path("blog/", include("blog.urls")),
+    re_path(r"^archive/(?P<year>[0-9]{4})/$", views.ArchiveView.as_view()),
+]
+`,
+      'blog/urls.py': `from django.urls import path
+from . import views
+
+urlpatterns = [
+    path("<slug:slug>/", views.post_detail, name="post-detail"),
+]
+`,
+    });
+
+    expect(summarize(await analyzer.extractRoutes(index))).toEqual([
+      'GET / index flask web/app.py:11',
+      'DELETE /admin/users/{user_id} delete_user flask web/app.py:7',
+      'GET /api/items items fastapi api/routers/items.py:10',
+      'POST /api/items items fastapi api/routers/items.py:10',
+      'GET /api/items/{item_id} read_item fastapi api/routers/items.py:6',
+      'ANY /archive/{year} views.ArchiveView django site/urls.py:6',
+      'ANY /blog/{slug} views.post_detail django blog/urls.py:5',
+      'GET /health health fastapi api/main.py:8',
+    ]);
+  });
+
+  it('should extract Go, Spring and ASP.NET routes', async () => {
+    const index = await indexFiles({
+      'cmd/server/main.go': `package main
+
+import (
+	"net/http"
+
+	"github.com/gin-gonic/gin"
+)
+
+func (s *Server) routes() {
+	r := gin.Default()
+	v1 := r.Group("/v1")
+	v1.GET("/users/:id", s.getUser)
+	v1.Any("/proxy/*path", s.proxy)
+	http.HandleFunc("GET /healthz", func(w http.ResponseWriter, r *http.Request) {})
+}`,
+      'src/main/java/com/acme/OrderController.java': `package com.acme;
+
+import org.springframework.web.bind.annotation.*;
+
+@RestController
+@RequestMapping("/orders")
+public class OrderController {
+    @GetMapping("/{id}")
+    public Order get(@PathVariable("id") Long id) { return service.find(id); }
+
+    @RequestMapping(value = "/search", method = {RequestMethod.GET, RequestMethod.POST})
+    public List<Order> search() { return List.of(); }
+}`,
+      'Api/Controllers/TodosController.cs': `using Microsoft.AspNetCore.Mvc;
+
+[ApiController]
+[Route("api/[controller]")]
+public class TodosController : ControllerBase
+{
+    [HttpGet("{id:int}")]
+    public IActionResult Get(int id) => Ok();
+
+    [HttpPost("~/import")]
+    public IActionResult Import() => Ok();
+}`,
+      'Api/Program.cs': `var app = WebApplication.CreateBuilder(args).Build();
+var api = app.MapGroup("/minimal");
+api.MapGet("/items/{id}", GetItem);
+app.MapHealthChecks("/health");
+app.Run();`,
+    });
+
+    expect(summarize(await analyzer.extractRoutes(index))).toEqual([
+      'GET /api/Todos/{id} TodosController.Get aspnetcore Api/Controllers/TodosController.cs:8',
+      'GET /health - aspnetcore Api/Program.cs:4',
+      'GET /healthz - net/http cmd/server/main.go:14',
+      'POST /import TodosController.Import aspnetcore Api/Controllers/TodosController.cs:11',
+      'GET /minimal/items/{id} GetItem aspnetcore Api/Program.cs:3',
+      'GET /orders/{id} OrderController.get spring src/main/java/com/acme/OrderController.java:9',
+      'GET /orders/search OrderController.search spring src/main/java/com/acme/OrderController.java:12',
+      'POST /orders/search OrderController.search spring src/main/java/com/acme/OrderController.java:12',
+      'ANY /v1/proxy/{path} s.proxy gin cmd/server/main.go:13',
+      'GET /v1/users/{id} s.getUser gin cmd/server/main.go:12',
+    ]);
+  });
+
+  it('should derive services, health checks, ingress paths and an OpenAPI skeleton', () => {
+    const route = (method: RouteInfo['method'], path: string, file: string): RouteInfo => ({
+      method,
+      path,
+      handler: 'handler',
+      framework: 'express',
+      source: { file, line: 1 },
+    });
+    const routes = [
+      route('GET', '/api/users/{id}', 'services/users/src/routes.ts'),
+      route('ANY', '/api/ping', 'services/users/src/app.ts'),
+      route('GET', '/healthz', 'services/billing/main.go'),
+      route('POST', '/invoices', 'services/billing/handlers/invoices.go'),
+    ];
+    const services: ServiceInfo[] = [
+      {
+        name: 'users',
+        type: 'api',
+        entryPoints: ['services/users/src/app.ts'],
+        dependencies: [],
+        exposedPorts: [3000],
+      },
+      {
+        name: 'billing',
+        type: 'api',
+        entryPoints: ['services/billing/main.go'],
+        dependencies: [],
+        exposedPorts: [8080],
+      },
+    ];
+
+    const [users, billing] = analyzer.assignRoutes(services, routes);
+
+    expect(users?.routes?.map(r => r.path)).toEqual(['/api/users/{id}', '/api/ping']);
+    expect(billing?.routes?.map(r => r.path)).toEqual(['/healthz', '/invoices']);
+    expect(analyzer.guessHealthCheckPath(users?.routes || [])).toBe('/api/ping');
+    expect(analyzer.guessHealthCheckPath(routes)).toBe('/healthz');
+    expect(analyzer.buildIngressPaths(routes)).toEqual(['/api', '/healthz', '/invoices']);
+    expect(analyzer.buildIngressPaths([route('GET', '/{slug}', 'app.ts')])).toEqual(['/']);
+    expect(analyzer.buildOpenApiSpec(users?.routes || [], 'users')).toEqual({
+      openapi: '3.0.3',
+      info: { title: 'users', version: '1.0.0' },
+      paths: {
+        '/api/users/{id}': {
+          get: {
+            summary: 'handler',
+            parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+            responses: { '200': { description: 'Successful response' } },
+          },
+        },
+        '/api/ping': {
+          get: {
+            summary: 'handler',
+            description: 'Accepts any HTTP method',
+            responses: { '200': { description: 'Successful response' } },
+          },
+        },
+      },
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DefaultSystemDependencyAnalyzer } from '../analyzers/system-dependency-analyzer';
+import { indexFiles } from './helpers';
+
+describe('DefaultSystemDependencyAnalyzer', () => {
+  let analyzer: DefaultSystemDependencyAnalyzer;
+
+  beforeEach(() => {
+    analyzer = new DefaultSystemDependencyAnalyzer();
+  });
+
+  it('should map native Node.js packages to OS packages per base-image family', async () => {
+    const index = await indexFiles({
+      'package.json': `{
+  "name": "thumbnails",
+  "dependencies": {
+    "express": "^4.18.0",
+    "sharp": "^0.33.0",
+    "bcrypt": "^5.1.0"
+  },
+  "devDependencies": {
+    "puppeteer": "^22.0.0"
+  }
+}`,
+    });
+
+    const dependencies = await analyzer.detectSystemDependencies(index);
+
+    expect(dependencies.map(dependency => dependency.package)).toEqual(['bcrypt', 'sharp']);
+    expect(dependencies[1]).toEqual({
+      package: 'sharp',
+      ecosystem: 'node',
+      runtime: { debian: ['libvips42'], alpine: ['vips'], ubi: ['vips'] },
+      build: {
+        debian: ['build-essential', 'libvips-dev'],
+        alpine: ['build-base', 'vips-dev'],
+        ubi: ['gcc-c++', 'make', 'vips-devel'],
+      },
+      sources: [{ file: 'package.json', line: 5 }],
+    });
+    expect(analyzer.buildSystemPackageList(dependencies)).toEqual(['libvips42']);
+    expect(analyzer.buildSystemPackageList(dependencies, 'alpine', 'build')).toEqual([
+      'build-base',
+      'python3',
+      'vips-dev',
+    ]);
+  });
+
+  it('should read Python requirements files and pyproject dependencies', async () => {
+    const index = await indexFiles({
+      'requirements.txt': '# web\nDjango==5.0\npsycopg2==2.9.9\nPillow>=10.0\n',
+      'worker/pyproject.toml': `[project]
+name = "worker"
+dependencies = [
+  "grpcio>=1.60",
+  "psycopg[binary]>=3.1",
+]
+
+[tool.poetry.dependencies]
+lxml = "^5.0"
+`,
+    });
+
+    const dependencies = await analyzer.detectSystemDependencies(index);
+
+    expect(
+      dependencies.map(dependency => [dependency.package, dependency.sources[0]?.line])
+    ).toEqual([
+      ['grpcio', 4],
+      ['lxml', 9],
+      ['pillow', 4],
+      ['psycopg2', 3],
+    ]);
+    expect(analyzer.buildSystemPackageList(dependencies, 'ubi')).toEqual([
+      'libjpeg-turbo',
+      'libpq',
+      'libstdc++',
+      'libxml2',
+      'libxslt',
+      'zlib',
+    ]);
+  });
+
+  it('should only read names from dependency lists and tables', async () => {
+    const index = await indexFiles({
+      'pyproject.toml': `[project]
+name = "thumbnailer"
+description = "Pillow based thumbnailer"
+keywords = ["lxml", "images"]
+dependencies = ["grpcio>=1.60"]
+
+[project.optional-dependencies]
+db = ["psycopg2>=2.9"]
+`,
+      'legacy/setup.py': `setup(
+    name="legacy",
+    description="Wraps 'lxml' parsing",
+    install_requires=[
+        "Pillow>=10",
+    ],
+)`,
+      'tools/setup.cfg': `[metadata]
+summary = psycopg2 exporter
+
+[options]
+install_requires =
+    mysqlclient>=2.2
+python_requires = >=3.10
+`,
+    });
+
+    const dependencies = await analyzer.detectSystemDependencies(index);
+
+    expect(
+      dependencies.map(dependency => [dependency.package, dependency.sources[0]?.file])
+    ).toEqual([
+      ['grpcio', 'pyproject.toml'],
+      ['mysqlclient', 'tools/setup.cfg'],
+      ['pillow', 'legacy/setup.py'],
+    ]);
+  });
+
+  it('should ignore wheels that bundle their libraries', async () => {
+    const index = await indexFiles({
+      'requirements.txt': 'psycopg2-binary==2.9.9\npsycopg[binary]==3.1.18\n',
+    });
+
+    expect(await analyzer.detectSystemDependencies(index)).toEqual([]);
+  });
+});
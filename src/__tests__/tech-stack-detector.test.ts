@@ -0,0 +1,796 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DefaultTechStackDetector } from '../analyzers/tech-stack-detector';
+import { InfrastructureError } from '../utils/error-handler';
+import { indexFiles } from './helpers';
+
+describe('DefaultTechStackDetector', () => {
+  let detector: DefaultTechStackDetector;
+
+  beforeEach(() => {
+    detector = new DefaultTechStackDetector();
+  });
+
+  describe('Node.js projects', () => {
+    it('should detect a TypeScript express service with npm', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({
+          name: 'api',
+          engines: { node: '>=18.0.0 <21' },
+          scripts: { build: 'tsc -p tsconfig.json', test: 'vitest run' },
+          dependencies: { express: '^4.18.0' },
+          devDependencies: { typescript: '^5.0.0', vitest: '^1.0.0' },
+        }),
+        'package-lock.json': '{}',
+        'tsconfig.json': '{}',
+        'src/index.ts': 'import express from "express";',
+      });
+
+      const techStack = await detector.detect(index);
+
+      expect(techStack.language).toBe('typescript');
+      expect(techStack.framework).toBe('express');
+      expect(techStack.runtime).toEqual({
+        name: 'node',
+        version: '18.0.0',
+        minVersion: '18.0.0',
+        maxVersion: '21',
+      });
+      expect(techStack.buildTool).toBe('tsc');
+      expect(techStack.packageManager).toBe('npm');
+      expect(techStack.testFramework).toBe('vitest');
+    });
+
+    it('should prefer .nvmrc over engines', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({ engines: { node: '>=16' } }),
+        '.nvmrc': 'v20.11.1\n',
+      });
+
+      const runtime = await detector.detectRuntime(index);
+
+      expect(runtime.version).toBe('20.11.1');
+    });
+
+    it.each([
+      ['>= 18 < 21', { version: '18', minVersion: '18', maxVersion: '21' }],
+      ['^ 18.2', { version: '18.2', minVersion: '18.2' }],
+    ])('should read engines with a space after the operator: %s', async (engines, expected) => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({ engines: { node: engines } }),
+      });
+
+      const runtime = await detector.detectRuntime(index);
+
+      expect(runtime).toEqual({ name: 'node', ...expected });
+    });
+
+    it.each([
+      ['yarn.lock', 'yarn'],
+      ['pnpm-lock.yaml', 'pnpm'],
+      ['bun.lockb', 'bun'],
+      ['package-lock.json', 'npm'],
+    ])('should detect the package manager from %s', async (lockfile, expected) => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({ name: 'app' }),
+        [lockfile]: '',
+      });
+
+      const { packageManager } = await detector.detectBuildTools(index);
+
+      expect(packageManager).toBe(expected);
+    });
+
+    it('should honour the packageManager field', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({ packageManager: 'pnpm@9.1.0' }),
+        'package-lock.json': '{}',
+      });
+
+      const { packageManager } = await detector.detectBuildTools(index);
+
+      expect(packageManager).toBe('pnpm');
+    });
+
+    it('should rank nest above the express server it wraps', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({
+          dependencies: { '@nestjs/core': '^10.0.0', express: '^4.18.0' },
+        }),
+      });
+
+      expect(await detector.detectFramework(index)).toBe('nest');
+    });
+
+    it('should detect jest from the test script and javascript without typescript', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({
+          scripts: { test: 'jest --coverage' },
+          dependencies: { koa: '^2.0.0' },
+        }),
+        'src/app.js': 'const Koa = require("koa");',
+      });
+
+      const techStack = await detector.detect(index);
+
+      expect(techStack.language).toBe('javascript');
+      expect(techStack.framework).toBe('koa');
+      expect(techStack.testFramework).toBe('jest');
+      expect(techStack.runtime.version).toBe('20');
+    });
+
+    it('should use the root manifest in nested layouts', async () => {
+      const index = await indexFiles({
+        'packages/web/package.json': JSON.stringify({ dependencies: { next: '14.0.0' } }),
+        'package.json': JSON.stringify({ dependencies: { fastify: '^4.0.0' } }),
+      });
+
+      expect(await detector.detectFramework(index)).toBe('fastify');
+    });
+
+    it('should raise an analysis error for malformed package.json', async () => {
+      const index = await indexFiles({ 'package.json': '{ not json' });
+
+      await expect(detector.detect(index)).rejects.toBeInstanceOf(InfrastructureError);
+    });
+  });
+
+  describe('Python projects', () => {
+    it('should detect a Poetry FastAPI service served by uvicorn', async () => {
+      const index = await indexFiles({
+        'pyproject.toml': `
+[tool.poetry]
+name = "orders"
+
+[tool.poetry.dependencies]
+python = "^3.11"
+fastapi = "^0.110"
+uvicorn = { version = "^0.29", extras = ["standard"] }
+
+[tool.poetry.group.dev.dependencies]
+pytest = "^8.0"
+
+[build-system]
+build-backend = "poetry.core.masonry.api"
+`,
+        'poetry.lock': '',
+        'app/main.py': 'from fastapi import FastAPI',
+      });
+
+      const techStack = await detector.detect(index);
+
+      expect(techStack.language).toBe('python');
+      expect(techStack.framework).toBe('fastapi');
+      expect(techStack.packageManager).toBe('poetry');
+      expect(techStack.buildTool).toBe('poetry');
+      expect(techStack.runtime).toEqual({ name: 'python', version: '3.11', minVersion: '3.11' });
+      expect(techStack.testFramework).toBe('pytest');
+      expect(techStack.applicationServer).toBe('uvicorn');
+    });
+
+    it('should read requirements files and the Procfile server', async () => {
+      const index = await indexFiles({
+        'requirements.txt': '-r requirements-base.txt\nDjango==5.0.1\ngunicorn>=21\n',
+        'requirements-dev.txt': 'pytest\n',
+        Procfile: 'web: gunicorn config.wsgi --bind 0.0.0.0:$PORT',
+        '.python-version': '3.12.2\n',
+        'manage.py': 'import django',
+      });
+
+      const techStack = await detector.detect(index);
+
+      expect(techStack.framework).toBe('django');
+      expect(techStack.packageManager).toBe('pip');
+      expect(techStack.runtime.version).toBe('3.12.2');
+      expect(techStack.applicationServer).toBe('gunicorn');
+    });
+
+    it.each([
+      ['uv', { 'pyproject.toml': '[project]\nname = "x"\n[tool.uv]\n', 'uv.lock': '' }],
+      ['pdm', { 'pyproject.toml': '[project]\nname = "x"\n', 'pdm.lock': '' }],
+      ['hatch', { 'pyproject.toml': '[tool.hatch.build]\n' }],
+      ['pipenv', { Pipfile: '[packages]\nflask = "*"\n' }],
+      ['conda', { 'environment.yml': 'dependencies:\n  - python=3.10\n' }],
+    ])('should detect %s', async (expected, files) => {
+      const index = await indexFiles(files as Record<string, string>);
+
+      const { packageManager } = await detector.detectBuildTools(index);
+
+      expect(packageManager).toBe(expected);
+    });
+
+    it('should split python_requires into min and max versions', async () => {
+      const index = await indexFiles({
+        'setup.py': `setup(name="legacy", python_requires=">=3.8, <3.12", install_requires=["flask>=2"])`,
+      });
+
+      const techStack = await detector.detect(index);
+
+      expect(techStack.runtime).toEqual({
+        name: 'python',
+        version: '3.8',
+        minVersion: '3.8',
+        maxVersion: '3.12',
+      });
+      expect(techStack.framework).toBe('flask');
+      expect(techStack.buildTool).toBe('setuptools');
+    });
+
+    it('should read conda pins and nested pip dependencies', async () => {
+      const index = await indexFiles({
+        'environment.yml': [
+          'name: ml',
+          'channels:',
+          '  - conda-forge',
+          'dependencies:',
+          '  - python=3.10',
+          '  - pip:',
+          '    - flask==3.0.0',
+        ].join('\n'),
+      });
+
+      const techStack = await detector.detect(index);
+
+      expect(techStack.runtime.version).toBe('3.10');
+      expect(techStack.framework).toBe('flask');
+    });
+
+    it('should choose the ecosystem with more source files', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({ devDependencies: { webpack: '^5.0.0' } }),
+        'requirements.txt': 'Django==5.0\n',
+        'assets/app.js': '',
+        'shop/views.py': '',
+        'shop/models.py': '',
+      });
+
+      expect(await detector.detectLanguage(index)).toBe('python');
+    });
+  });
+
+  describe('JVM projects', () => {
+    it('should read a Spring Boot Maven POM', async () => {
+      const index = await indexFiles({
+        'pom.xml': `<?xml version="1.0" encoding="UTF-8"?>
+<project xmlns="http://maven.apache.org/POM/4.0.0">
+  <!-- inherited from the Boot starter -->
+  <parent>
+    <groupId>org.springframework.boot</groupId>
+    <artifactId>spring-boot-starter-parent</artifactId>
+    <version>3.2.1</version>
+  </parent>
+  <artifactId>orders</artifactId>
+  <version>1.4.0</version>
+  <properties>
+    <java.version>17</java.version>
+  </properties>
+  <dependencies>
+    <dependency>
+      <groupId>org.springframework.boot</groupId>
+      <artifactId>spring-boot-starter-web</artifactId>
+    </dependency>
+    <dependency>
+      <groupId>org.springframework.boot</groupId>
+      <artifactId>spring-boot-starter-test</artifactId>
+      <scope>test</scope>
+    </dependency>
+  </dependencies>
+  <build>
+    <plugins>
+      <plugin>
+        <groupId>org.springframework.boot</groupId>
+        <artifactId>spring-boot-maven-plugin</artifactId>
+      </plugin>
+    </plugins>
+  </build>
+</project>`,
+        'src/main/java/com/acme/OrdersApplication.java': 'class OrdersApplication {}',
+      });
+
+      const techStack = await detector.detect(index);
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(techStack.language).toBe('java');
+      expect(techStack.framework).toBe('spring-boot');
+      expect(techStack.buildTool).toBe('maven');
+      expect(techStack.runtime).toEqual({ name: 'java', version: '17', minVersion: '17' });
+      expect(techStack.testFramework).toBe('junit');
+      expect(build.artifacts).toEqual([
+        { name: 'orders', path: 'target/orders-1.4.0.jar', type: 'archive' },
+      ]);
+      expect(build.dependencies).toContain('org.springframework.boot:spring-boot-starter-web');
+    });
+
+    it('should honour war packaging, finalName and compiler properties', async () => {
+      const index = await indexFiles({
+        'pom.xml': `<project>
+  <artifactId>legacy</artifactId>
+  <version>2.0</version>
+  <packaging>war</packaging>
+  <properties><maven.compiler.source>1.8</maven.compiler.source></properties>
+  <build><finalName>\${project.artifactId}-app</finalName></build>
+</project>`,
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(await detector.detectRuntime(index)).toMatchObject({ version: '8' });
+      expect(build.artifacts[0]?.path).toBe('target/legacy-app.war');
+    });
+
+    it('should list artifacts for each module of an aggregator POM', async () => {
+      const index = await indexFiles({
+        'pom.xml': `<project>
+  <artifactId>platform</artifactId>
+  <version>1.0.0</version>
+  <packaging>pom</packaging>
+  <properties><maven.compiler.release>21</maven.compiler.release></properties>
+  <modules><module>api</module><module>worker</module></modules>
+</project>`,
+        'api/pom.xml': `<project>
+  <artifactId>api</artifactId>
+  <dependencies>
+    <dependency><groupId>io.quarkus</groupId><artifactId>quarkus-rest</artifactId></dependency>
+  </dependencies>
+</project>`,
+        'worker/pom.xml': `<project>
+  <artifactId>worker</artifactId>
+  <properties><quarkus.package.type>native</quarkus.package.type></properties>
+  <dependencies>
+    <dependency><groupId>io.quarkus</groupId><artifactId>quarkus-core</artifactId></dependency>
+  </dependencies>
+</project>`,
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(build.artifacts).toEqual([
+        { name: 'api', path: 'api/target/quarkus-app/quarkus-run.jar', type: 'archive' },
+        { name: 'worker', path: 'worker/target/worker-1.0.0-runner', type: 'executable' },
+      ]);
+      expect((await detector.detectRuntime(index)).version).toBe('21');
+    });
+
+    it('should recurse through nested module aggregators', async () => {
+      const index = await indexFiles({
+        'pom.xml': `<project>
+  <artifactId>platform</artifactId>
+  <version>2.1.0</version>
+  <packaging>pom</packaging>
+  <modules><module>services</module></modules>
+</project>`,
+        'services/pom.xml': `<project>
+  <artifactId>services</artifactId>
+  <packaging>pom</packaging>
+  <modules><module>orders</module></modules>
+</project>`,
+        'services/orders/pom.xml': `<project>
+  <artifactId>orders</artifactId>
+  <dependencies>
+    <dependency><groupId>org.springframework.boot</groupId><artifactId>spring-boot-starter-web</artifactId></dependency>
+  </dependencies>
+</project>`,
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(await detector.detectFramework(index)).toBe('spring-boot');
+      expect(build.artifacts).toEqual([
+        { name: 'orders', path: 'services/orders/target/orders-2.1.0.jar', type: 'archive' },
+      ]);
+    });
+
+    it('should read a Kotlin DSL Gradle build with a toolchain', async () => {
+      const index = await indexFiles({
+        'settings.gradle.kts': 'rootProject.name = "billing"',
+        'build.gradle.kts': `
+plugins {
+    id("org.springframework.boot") version "3.2.0"
+    kotlin("jvm") version "1.9.21"
+    war
+}
+
+version = "0.0.1-SNAPSHOT"
+
+java {
+    toolchain {
+        languageVersion.set(JavaLanguageVersion.of(21))
+    }
+}
+
+dependencies {
+    implementation("org.springframework.boot:spring-boot-starter-web")
+    testImplementation("org.junit.jupiter:junit-jupiter:5.10.0")
+}
+`,
+      });
+
+      const techStack = await detector.detect(index);
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(techStack.language).toBe('kotlin');
+      expect(techStack.framework).toBe('spring-boot');
+      expect(techStack.buildTool).toBe('gradle');
+      expect(techStack.runtime.version).toBe('21');
+      expect(build.artifacts).toEqual([
+        { name: 'billing', path: 'build/libs/billing-0.0.1-SNAPSHOT.war', type: 'archive' },
+      ]);
+    });
+
+    it('should read Groovy Gradle multi-project builds with native images', async () => {
+      const index = await indexFiles({
+        'settings.gradle': "rootProject.name = 'shop'\ninclude 'gateway', ':inventory'",
+        'build.gradle': 'subprojects {\n  sourceCompatibility = JavaVersion.VERSION_17\n}',
+        'gateway/build.gradle': `plugins {
+  id 'io.micronaut.application' version '4.2.0'
+  id 'org.graalvm.buildtools.native' version '0.9.28'
+}`,
+        'inventory/build.gradle': "apply plugin: 'java'\nversion = '3.1'",
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(await detector.detectRuntime(index)).toMatchObject({ version: '17' });
+      expect(await detector.detectFramework(index)).toBe('micronaut');
+      expect(build.artifacts).toEqual([
+        { name: 'gateway', path: 'gateway/build/native/nativeCompile/gateway', type: 'executable' },
+        { name: 'inventory', path: 'inventory/build/libs/inventory-3.1.jar', type: 'archive' },
+      ]);
+    });
+  });
+
+  describe('Go projects', () => {
+    const goMod = `module github.com/acme/payments
+
+go 1.21
+
+toolchain go1.22.3
+
+require (
+	github.com/gin-gonic/gin v1.9.1
+	golang.org/x/sys v0.15.0 // indirect
+)
+
+require github.com/jackc/pgx/v5 v5.5.0
+`;
+
+    it('should read the go directive, toolchain and direct requirements', async () => {
+      const index = await indexFiles({
+        'go.mod': goMod,
+        'main.go': 'package main\n\nfunc main() {}',
+      });
+
+      const techStack = await detector.detect(index);
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(techStack.language).toBe('go');
+      expect(techStack.framework).toBe('gin');
+      expect(techStack.runtime).toEqual({ name: 'go', version: '1.22.3', minVersion: '1.21' });
+      expect(build.dependencies).toEqual(['github.com/gin-gonic/gin', 'github.com/jackc/pgx/v5']);
+      expect(build.artifacts).toEqual([
+        { name: 'payments', path: 'bin/payments', type: 'executable', staticallyLinked: true },
+      ]);
+    });
+
+    it('should emit one binary per cmd main package and flag cgo', async () => {
+      const index = await indexFiles({
+        'go.mod': goMod,
+        'cmd/api/main.go': 'package main\n\nimport "C"\n\nfunc main() {}',
+        'cmd/worker/main.go': 'package main\n\nfunc main() {}',
+        'internal/store/store.go': 'package store',
+        'internal/store/store_test.go': 'package store',
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(build.artifacts.map(artifact => [artifact.path, artifact.staticallyLinked])).toEqual([
+        ['bin/api', false],
+        ['bin/worker', false],
+      ]);
+      expect((await detector.detect(index)).testFramework).toBe('go-test');
+    });
+  });
+
+  describe('Rust projects', () => {
+    it('should read workspace members, binaries and the edition', async () => {
+      const index = await indexFiles({
+        'Cargo.toml': `[workspace]
+members = ["crates/*"]
+
+[workspace.package]
+edition = "2021"
+`,
+        'crates/api/Cargo.toml': `[package]
+name = "api"
+edition.workspace = true
+
+[dependencies]
+axum = "0.7"
+tokio = { version = "1", features = ["full"] }
+`,
+        'crates/api/src/main.rs': 'fn main() {}',
+        'crates/api/src/bin/migrate.rs': 'fn main() {}',
+        'crates/core/Cargo.toml': '[package]\nname = "core"\n\n[lib]\npath = "src/lib.rs"\n',
+        'crates/core/src/lib.rs': '',
+      });
+
+      const techStack = await detector.detect(index);
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(techStack.framework).toBe('axum');
+      expect(techStack.buildTool).toBe('cargo');
+      expect(techStack.runtime).toEqual({ name: 'rust', version: '1', minVersion: '1.56' });
+      expect(build.artifacts).toEqual([
+        { name: 'api', path: 'target/release/api', type: 'executable', staticallyLinked: false },
+        {
+          name: 'migrate',
+          path: 'target/release/migrate',
+          type: 'executable',
+          staticallyLinked: false,
+        },
+      ]);
+    });
+
+    it('should honour the toolchain pin and a musl target', async () => {
+      const index = await indexFiles({
+        'Cargo.toml': `[package]
+name = "edge"
+rust-version = "1.74"
+
+[[bin]]
+name = "edge-proxy"
+path = "src/proxy.rs"
+`,
+        'rust-toolchain.toml': '[toolchain]\nchannel = "1.76.0"\n',
+        '.cargo/config.toml': '[build]\ntarget = "x86_64-unknown-linux-musl"\n',
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(await detector.detectRuntime(index)).toEqual({
+        name: 'rust',
+        version: '1.76.0',
+        minVersion: '1.74',
+      });
+      expect(build.artifacts).toEqual([
+        {
+          name: 'edge-proxy',
+          path: 'target/x86_64-unknown-linux-musl/release/edge-proxy',
+          type: 'executable',
+          staticallyLinked: true,
+        },
+      ]);
+    });
+  });
+
+  describe('.NET projects', () => {
+    it('should read the solution and its ASP.NET Core project', async () => {
+      const index = await indexFiles({
+        'Shop.sln': [
+          'Microsoft Visual Studio Solution File, Format Version 12.00',
+          'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Shop.Api", "src\\Shop.Api\\Shop.Api.csproj", "{1}"',
+          'EndProject',
+          'Project("{FAE04EC0-301F-11D3-BF4B-00C04F79EFBC}") = "Shop.Tests", "tests\\Shop.Tests\\Shop.Tests.csproj", "{2}"',
+          'EndProject',
+        ].join('\n'),
+        'src/Shop.Api/Shop.Api.csproj': `<Project Sdk="Microsoft.NET.Sdk.Web">
+  <PropertyGroup>
+    <TargetFramework>net8.0</TargetFramework>
+  </PropertyGroup>
+  <ItemGroup>
+    <PackageReference Include="Npgsql.EntityFrameworkCore.PostgreSQL" Version="8.0.0" />
+  </ItemGroup>
+</Project>`,
+        'tests/Shop.Tests/Shop.Tests.csproj': `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup><TargetFramework>net8.0</TargetFramework></PropertyGroup>
+  <ItemGroup><PackageReference Include="xunit" Version="2.6.0" /></ItemGroup>
+</Project>`,
+        'src/Shop.Api/Program.cs': 'var app = WebApplication.Create();',
+      });
+
+      const techStack = await detector.detect(index);
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(techStack.language).toBe('csharp');
+      expect(techStack.framework).toBe('aspnetcore');
+      expect(techStack.runtime).toEqual({ name: 'dotnet', version: '8.0', minVersion: '8.0' });
+      expect(techStack.packageManager).toBe('nuget');
+      expect(techStack.testFramework).toBe('xunit');
+      expect(build.artifacts).toEqual([
+        {
+          name: 'Shop.Api',
+          path: 'src/Shop.Api/bin/Release/net8.0/publish/Shop.Api.dll',
+          type: 'executable',
+          staticallyLinked: false,
+        },
+      ]);
+    });
+
+    it('should publish multi-targeted AOT workers for the newest framework', async () => {
+      const index = await indexFiles({
+        'Worker.csproj': `<Project Sdk="Microsoft.NET.Sdk.Worker">
+  <PropertyGroup>
+    <TargetFrameworks>net6.0;net8.0</TargetFrameworks>
+    <AssemblyName>queue-worker</AssemblyName>
+    <PublishAot>true</PublishAot>
+  </PropertyGroup>
+</Project>`,
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect((await detector.detectRuntime(index)).version).toBe('8.0');
+      expect(build.artifacts[0]?.path).toBe('bin/Release/net8.0/linux-x64/publish/queue-worker');
+    });
+  });
+
+  describe('build plans', () => {
+    it('should generate the Prisma client before bundling a standalone Next.js app', async () => {
+      const index = await indexFiles({
+        'web/package.json': JSON.stringify({
+          name: '@shop/web',
+          scripts: { build: 'next build', start: 'next start', test: 'vitest run' },
+          dependencies: { next: '14.1.0', '@prisma/client': '^5.0.0' },
+          devDependencies: { prisma: '^5.0.0', vitest: '^1.0.0' },
+        }),
+        'web/pnpm-lock.yaml': '',
+        'web/next.config.js': 'module.exports = { output: "standalone" };',
+        'web/prisma/schema.prisma': 'datasource db { provider = "postgresql" }',
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(build.buildSteps).toEqual([
+        { name: 'install', command: 'pnpm install --frozen-lockfile', workingDirectory: 'web' },
+        { name: 'codegen', command: 'pnpm exec prisma generate', workingDirectory: 'web' },
+        { name: 'bundle', command: 'pnpm run build', workingDirectory: 'web' },
+        { name: 'test', command: 'pnpm test', workingDirectory: 'web' },
+      ]);
+      expect(build.artifacts.map(artifact => artifact.path)).toEqual([
+        'web/.next/standalone',
+        'web/.next/static',
+      ]);
+    });
+
+    it.each([
+      ['the packageManager field', { packageManager: 'yarn@4.1.0' }, '', '--immutable'],
+      ['the lockfile header', {}, '__metadata:\n  version: 8\n', '--immutable'],
+      ['Yarn 1', { packageManager: 'yarn@1.22.19' }, '# yarn lockfile v1\n', '--frozen-lockfile'],
+    ])('should pick the Yarn install flag from %s', async (_, fields, lockfile, flag) => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({ name: 'app', ...fields }),
+        'yarn.lock': lockfile,
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(build.buildSteps[0]).toEqual({ name: 'install', command: `yarn install ${flag}` });
+    });
+
+    it('should compile TypeScript into the configured outDir', async () => {
+      const index = await indexFiles({
+        'package.json': JSON.stringify({
+          name: 'api',
+          scripts: {
+            build: 'tsc',
+            start: 'node build/index.js',
+            test: 'echo "Error: no test specified" && exit 1',
+          },
+          devDependencies: { typescript: '^5.0.0' },
+        }),
+        'package-lock.json': '{}',
+        'tsconfig.json': '{ "compilerOptions": { "outDir": "./build/" } }',
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(build.buildSteps).toEqual([
+        { name: 'install', command: 'npm ci' },
+        { name: 'compile', command: 'npm run build' },
+      ]);
+      expect(build.artifacts).toEqual([{ name: 'api', path: 'build', type: 'directory' }]);
+    });
+
+    it('should build a wheel for a Python library with gRPC stubs', async () => {
+      const index = await indexFiles({
+        'pyproject.toml': `[project]
+name = "Billing-Client"
+version = "1.2.0"
+dependencies = ["grpcio>=1.60"]
+
+[project.optional-dependencies]
+dev = ["grpcio-tools", "pytest"]
+
+[build-system]
+requires = ["hatchling"]
+build-backend = "hatchling.build"
+`,
+        'uv.lock': '',
+        'protos/billing.proto': 'syntax = "proto3";',
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(build.buildSteps.map(step => step.command)).toEqual([
+        'uv sync --frozen',
+        'uv run python -m grpc_tools.protoc -I protos --python_out=protos --grpc_python_out=protos protos/billing.proto',
+        'hatch build -t wheel',
+        'uv run pytest',
+      ]);
+      expect(build.artifacts).toEqual([
+        { name: 'Billing-Client', path: 'dist/billing_client-1.2.0-*.whl', type: 'library' },
+      ]);
+    });
+
+    it('should build each Go main package into its artifact path', async () => {
+      const index = await indexFiles({
+        'go.mod': 'module github.com/acme/payments\n\ngo 1.22\n',
+        'cmd/api/main.go': 'package main\n\n//go:generate stringer -type=State\nfunc main() {}',
+        'cmd/worker/main.go': 'package main\n\nfunc main() {}',
+      });
+
+      const build = await detector.detectBuildRequirements(index);
+
+      expect(build.buildSteps).toEqual([
+        { name: 'install', command: 'go mod download' },
+        { name: 'codegen', command: 'go generate ./...' },
+        {
+          name: 'compile',
+          command: 'go build -trimpath -ldflags="-s -w" -o bin/api ./cmd/api',
+          environment: { CGO_ENABLED: '0' },
+        },
+        {
+          name: 'compile',
+          command: 'go build -trimpath -ldflags="-s -w" -o bin/worker ./cmd/worker',
+          environment: { CGO_ENABLED: '0' },
+        },
+        { name: 'test', command: 'go test ./...' },
+      ]);
+    });
+
+    it('should package through the Maven wrapper and publish .NET executables', async () => {
+      const maven = await indexFiles({
+        'pom.xml': `<project>
+  <groupId>com.acme</groupId>
+  <artifactId>orders</artifactId>
+  <version>1.0.0</version>
+</project>`,
+        mvnw: '#!/bin/sh',
+      });
+      const dotnet = await indexFiles({
+        'Api/Api.csproj': `<Project Sdk="Microsoft.NET.Sdk.Web">
+  <PropertyGroup><TargetFramework>net8.0</TargetFramework></PropertyGroup>
+</Project>`,
+        'Api.Tests/Api.Tests.csproj': `<Project Sdk="Microsoft.NET.Sdk">
+  <PropertyGroup><TargetFramework>net8.0</TargetFramework></PropertyGroup>
+  <ItemGroup><PackageReference Include="xunit" Version="2.6.0" /></ItemGroup>
+</Project>`,
+      });
+
+      const mavenBuild = await detector.detectBuildRequirements(maven);
+      const dotnetBuild = await detector.detectBuildRequirements(dotnet);
+
+      expect(mavenBuild.buildSteps.map(step => step.command)).toEqual([
+        './mvnw -B dependency:go-offline',
+        './mvnw -B package -DskipTests',
+        './mvnw -B test',
+      ]);
+      expect(dotnetBuild.buildSteps.map(step => step.command)).toEqual([
+        'dotnet restore Api/Api.csproj',
+        'dotnet publish Api/Api.csproj -c Release --no-restore',
+        'dotnet test Api/Api.csproj --no-restore',
+      ]);
+    });
+  });
+
+  it('should fall back to the dominant language without a known manifest', async () => {
+    const index = await indexFiles({
+      'src/main.c': 'int main() {}',
+      'src/util.c': 'void util() {}',
+    });
+
+    const techStack = await detector.detect(index);
+
+    expect(techStack.language).toBe('c');
+    expect(techStack.packageManager).toBe('unknown');
+  });
+});
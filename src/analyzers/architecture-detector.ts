@@ -1,4 +1,24 @@
-import { CodebaseIndex, ArchitectureInfo, ServiceInfo, CommunicationPattern } from '../types';
+import { posix } from 'path';
+import {
+  CodebaseIndex,
+  ArchitectureInfo,
+  ArchitectureClassification,
+  ArchitectureEvidence,
+  ArchitectureType,
+  ServiceInfo,
+  CommunicationPattern,
+  DataFlowInfo,
+  DataTransformation,
+  ListenerInfo,
+  ProcessInfo,
+} from '../types';
+import { ErrorFactory, ErrorCodes } from '../utils/error-handler';
+import { DefaultManifestParser, ManifestParser } from '../utils/manifest-parser';
+import { DefaultDependencyAnalyzer, DependencyAnalyzer } from './dependency-analyzer';
+import { ProjectType } from './file-priority-classifier';
+import { DefaultNetworkAnalyzer, NetworkAnalyzer } from './network-analyzer';
+import { DefaultRouteAnalyzer, RouteAnalyzer } from './route-analyzer';
+import { DefaultTechStackDetector, TechStackDetector } from './tech-stack-detector';
 
 /**
  * Interface for detecting application architecture patterns
@@ -10,7 +30,14 @@ export interface ArchitectureDetector {
   detectArchitectureType(index: CodebaseIndex): Promise<ArchitectureInfo['type']>;
 
   /**
-   * Identifies services in the application
+   * Detects the architecture type together with a confidence score and the
+   * evidence behind it, so callers can judge or override the decision
+   */
+  classifyArchitecture(index: CodebaseIndex): Promise<ArchitectureClassification>;
+
+  /**
+   * Identifies services in the application, one per independently deployable
+   * project of a monorepo, or a single service for the whole repository
    */
   identifyServices(index: CodebaseIndex): Promise<ServiceInfo[]>;
 
@@ -23,29 +50,1908 @@ export interface ArchitectureDetector {
    * Performs complete architecture detection
    */
   detectArchitecture(index: CodebaseIndex): Promise<ArchitectureInfo>;
+
+  /**
+   * Infers where data enters and is stored, and the stream, batch and ETL
+   * transformations between them
+   */
+  analyzeDataFlow(index: CodebaseIndex): Promise<DataFlowInfo>;
+
+  /**
+   * Project type for file prioritization; repositories with workspace tooling or
+   * several deployables are monorepos
+   */
+  detectProjectType(index: CodebaseIndex): Promise<ProjectType>;
+}
+
+/**
+ * Project declared by workspace tooling, or a directory holding a Dockerfile
+ */
+interface ProjectCandidate {
+  root: string;
+  name: string;
+  /** Declared as an application (true) or a library (false) by Nx */
+  application?: boolean;
+  /** Dockerfile that builds the project when it was found through one */
+  dockerfile?: string;
+}
+
+/**
+ * Service together with the view of the index rooted at its directory
+ */
+interface DeployedService {
+  service: ServiceInfo;
+  root: string;
+  index: CodebaseIndex;
+}
+
+/**
+ * Synchronous call from one service to another found in source or configuration
+ */
+interface ServiceCall {
+  from: string;
+  to: string;
+  protocol: 'http' | 'grpc';
+  files: string[];
+}
+
+/**
+ * Data read and written by the handlers of one kind of trigger: a schedule, a queue
+ * consumer or a streaming read
+ */
+interface HandlerScope {
+  type: DataTransformation['type'];
+  schedule?: string;
+  /** Triggered by a queue consumer rather than a schedule or streaming read */
+  consumer: boolean;
+  consumes: Set<string>;
+  reads: Set<string>;
+  writes: Set<string>;
 }
 
+/**
+ * Gradle plugins that produce a runnable application rather than a library
+ */
+const GRADLE_APPLICATION_PLUGINS = [
+  'application',
+  'org.springframework.boot',
+  'io.quarkus',
+  'io.micronaut.application',
+  'io.ktor.plugin',
+];
+
+/**
+ * Files that mark an application entry point in addition to the indexer's list
+ */
+const ENTRY_POINT_CONTENT = /@SpringBootApplication|\bstatic\s+(?:async\s+)?\w+\s+Main\s*\(/;
+
+/**
+ * Dockerfile suffixes that describe a variant of the same image rather than another service
+ */
+const DOCKERFILE_VARIANTS = /^(?:dev|development|local|test|ci|prod|production|release|debug)$/;
+
+/**
+ * Deployment descriptors of function-as-a-service platforms
+ */
+const SERVERLESS_CONFIGS: Array<{ platform: string; file: RegExp; content?: RegExp }> = [
+  { platform: 'Serverless Framework', file: /(^|\/)serverless\.(?:ya?ml|json|ts)$/ },
+  {
+    platform: 'AWS SAM',
+    file: /(^|\/)(?:template|sam)[\w.-]*\.(?:ya?ml|json)$/,
+    content: /AWS::Serverless::/,
+  },
+  { platform: 'Azure Functions', file: /(^|\/)function\.json$/, content: /"bindings"/ },
+];
+
+/**
+ * Code that consumes messages from a queue or event stream
+ */
+const QUEUE_CONSUMER_PATTERNS = [
+  /@(?:KafkaListener|RabbitListener|SqsListener|JmsListener|StreamListener|EventPattern|MessagePattern)\b/,
+  /\bconsumer\.(?:subscribe|run)\(/,
+  /\.(?:consume|basic_consume|BasicConsume)\(/,
+  /\bKafkaConsumer\(/,
+  /\bnew\s+Worker\(/,
+  /@(?:shared_task|celery\.task|app\.task)\b/,
+  /\bsubscription\.on\(\s*["']message["']/,
+  /\.(?:NewConsumerGroup|NewReader)\(/,
+  /\bIConsumer</,
+  /\bexports\.handler\b.*\bRecords\b/s,
+];
+
+/**
+ * Celery task decorators; tasks in a project with a beat schedule run as scheduled jobs
+ */
+const CELERY_TASK_PATTERN = /^@(?:shared_task|celery\.task|app\.task)\b/;
+
+/**
+ * Celery beat schedule declarations
+ */
+const CELERY_BEAT_PATTERN = /\bbeat_schedule\b|\badd_periodic_task\(/;
+
+/**
+ * Files that mark a module boundary inside a single deployable; capture group 1 of
+ * `path` names the module
+ */
+const MODULE_MARKERS: Array<{
+  description: string;
+  path: RegExp;
+  content?: RegExp;
+  minimum: number;
+}> = [
+  { description: 'NestJS modules', path: /(?:^|\/)((?!app\.)[\w-]+)\.module\.ts$/, minimum: 3 },
+  {
+    description: 'Django apps',
+    path: /(?:^|\/)([\w-]+)\/apps\.py$/,
+    content: /\bAppConfig\b/,
+    minimum: 2,
+  },
+  { description: 'module directories', path: /(?:^|\/)modules\/([\w-]+)\//, minimum: 2 },
+];
+
+/**
+ * Producer and consumer usages of Kafka and RabbitMQ clients. Capture group 1 holds a
+ * quoted name, a list of quoted names, or an exchange and routing key pair.
+ */
+const MESSAGE_CHANNEL_PATTERNS: Array<{
+  broker: 'kafka' | 'rabbitmq';
+  role: 'produce' | 'consume';
+  pattern: RegExp;
+}> = [
+  {
+    broker: 'kafka',
+    role: 'produce',
+    pattern: /\bproducer\.send\(\s*\{[^}]*?\btopic\s*:\s*(["'`][^"'`]+["'`])/g,
+  },
+  {
+    broker: 'kafka',
+    role: 'produce',
+    pattern: /\b\w*[Pp]roducer\.(?:send|produce)\(\s*(["'][^"']+["'])/g,
+  },
+  { broker: 'kafka', role: 'produce', pattern: /\b\w*[Kk]afka[Tt]emplate\.send\(\s*("[^"]+")/g },
+  {
+    broker: 'kafka',
+    role: 'produce',
+    pattern: /\b(?:kafka\.Writer|ProducerMessage)\{[^}]*?\bTopic:\s*("[^"]+")/g,
+  },
+  {
+    broker: 'kafka',
+    role: 'consume',
+    pattern: /\.subscribe\(\s*\{[^}]*?\btopics?\s*:\s*(\[[^\]]*\]|["'`][^"'`]+["'`])/g,
+  },
+  { broker: 'kafka', role: 'consume', pattern: /\b\w*[Cc]onsumer\.subscribe\(\s*(\[[^\]]*\])/g },
+  {
+    broker: 'kafka',
+    role: 'consume',
+    pattern: /@KafkaListener\([^)]*?\btopics\s*=\s*(\{[^}]*\}|"[^"]+")/g,
+  },
+  { broker: 'kafka', role: 'consume', pattern: /\bKafkaConsumer\(\s*(["'][^"']+["'])/g },
+  {
+    broker: 'kafka',
+    role: 'consume',
+    pattern: /\bkafka\.ReaderConfig\{[^}]*?\bTopic:\s*("[^"]+")/g,
+  },
+  { broker: 'rabbitmq', role: 'produce', pattern: /\.sendToQueue\(\s*(["'`][^"'`]+["'`])/g },
+  {
+    broker: 'rabbitmq',
+    role: 'produce',
+    pattern: /\.publish\(\s*(["'`][^"'`]*["'`]\s*,\s*["'`][^"'`]+["'`])/g,
+  },
+  {
+    broker: 'rabbitmq',
+    role: 'produce',
+    pattern: /\bbasic_publish\([^)]*?\brouting_key\s*=\s*(["'][^"']+["'])/g,
+  },
+  {
+    broker: 'rabbitmq',
+    role: 'produce',
+    pattern: /\bbasic_publish\([^)]*?\bexchange\s*=\s*(["'][^"']+["'])/g,
+  },
+  {
+    broker: 'rabbitmq',
+    role: 'produce',
+    pattern: /\.convertAndSend\(\s*("[^"]+"(?:\s*,\s*"[^"]+")?)/g,
+  },
+  {
+    broker: 'rabbitmq',
+    role: 'produce',
+    pattern: /\.Publish(?:WithContext)?\(\s*(?:ctx\s*,\s*)?("[^"]*"\s*,\s*"[^"]+")/g,
+  },
+  { broker: 'rabbitmq', role: 'consume', pattern: /\.consume\(\s*(["'`][^"'`]+["'`])/g },
+  {
+    broker: 'rabbitmq',
+    role: 'consume',
+    pattern: /\.bindQueue\(\s*["'`][^"'`]+["'`]\s*,\s*(["'`][^"'`]+["'`])/g,
+  },
+  {
+    broker: 'rabbitmq',
+    role: 'consume',
+    pattern: /\bbasic_consume\([^)]*?\bqueue\s*=\s*(["'][^"']+["'])/g,
+  },
+  {
+    broker: 'rabbitmq',
+    role: 'consume',
+    pattern: /\bqueue_bind\([^)]*?\bexchange\s*=\s*(["'][^"']+["'])/g,
+  },
+  {
+    broker: 'rabbitmq',
+    role: 'consume',
+    pattern: /@RabbitListener\([^)]*?\bqueues\s*=\s*(\{[^}]*\}|"[^"]+")/g,
+  },
+  { broker: 'rabbitmq', role: 'consume', pattern: /\.Consume\(\s*("[^"]+")/g },
+];
+
+/**
+ * Code generated from `.proto` files, which declares both the client and the server side
+ */
+const GENERATED_GRPC_CODE =
+  /(?:\.pb\.go|_pb2(?:_grpc)?\.pyi?|_grpc_pb\.[jt]s|_pb\.[jt]s|Grpc\.(?:java|cs))$/;
+
+/**
+ * Tables named in SQL statements and ORM mappings; capture group 1 holds the table
+ */
+const TABLE_PATTERNS: Array<{ access: 'read' | 'write' | 'map'; pattern: RegExp }> = [
+  { access: 'read', pattern: /\bSELECT\s[^;'"`]*?\bFROM\s+["`]?(\w+)/gi },
+  { access: 'read', pattern: /\bJOIN\s+["`]?(\w+)/g },
+  { access: 'write', pattern: /\bINSERT\s+INTO\s+["`]?(\w+)/gi },
+  { access: 'write', pattern: /\bUPDATE\s+["`]?(\w+)["`]?\s+SET\b/gi },
+  { access: 'write', pattern: /\bDELETE\s+FROM\s+["`]?(\w+)/gi },
+  { access: 'map', pattern: /\b__tablename__\s*=\s*["'](\w+)/g },
+  { access: 'map', pattern: /\bdb_table\s*=\s*["'](\w+)/g },
+  { access: 'map', pattern: /\btableName\s*:\s*["'](\w+)/g },
+  { access: 'map', pattern: /@Table\(\s*(?:name\s*=\s*)?"(\w+)"/g },
+  { access: 'map', pattern: /@Entity\(\s*["'](\w+)/g },
+  { access: 'map', pattern: /\[Table\(\s*"(\w+)"/g },
+  { access: 'map', pattern: /@@map\(\s*"(\w+)"/g },
+];
+
+/**
+ * Reads and writes of files and object storage. Capture group 1 holds a path or URL
+ * for `path`, or a bucket name for the storage services.
+ */
+const DATA_ACCESS_PATTERNS: Array<{
+  access: 'read' | 'write';
+  kind: 'path' | 's3' | 'gs';
+  pattern: RegExp;
+}> = [
+  {
+    access: 'read',
+    kind: 'path',
+    pattern: /\bread_(?:csv|parquet|json|excel|table|orc|feather)\(\s*["']([^"'{]+)["']/g,
+  },
+  {
+    access: 'read',
+    kind: 'path',
+    pattern:
+      /\.read(?:Stream)?(?:\.\w+\([^)]*\))*\.(?:csv|parquet|json|orc|text|load)\(\s*["']([^"']+)["']/g,
+  },
+  {
+    access: 'read',
+    kind: 'path',
+    pattern: /\bbeam\.io\.ReadFrom\w+\(\s*(?:\w+\s*=\s*)?["']([^"']+)["']/g,
+  },
+  {
+    access: 'read',
+    kind: 'path',
+    pattern:
+      /\bfs\.(?:readFile|readFileSync|createReadStream)\(\s*["'`]([^"'`]+\.(?:csv|tsv|jsonl?|ndjson|parquet|avro|xml|xlsx?))["'`]/g,
+  },
+  {
+    access: 'read',
+    kind: 'path',
+    pattern:
+      /\bopen\(\s*["']([^"']+\.(?:csv|tsv|jsonl?|ndjson|parquet|xml))["']\s*(?:\)|,\s*["']r)/g,
+  },
+  {
+    access: 'read',
+    kind: 's3',
+    pattern: /\b(?:GetObjectCommand|getObject)\(\s*\{[^}]*?\bBucket\s*:\s*["'`]([^"'`]+)["'`]/g,
+  },
+  {
+    access: 'read',
+    kind: 's3',
+    pattern: /\b(?:download_file|download_fileobj)\(\s*["']([^"']+)["']/g,
+  },
+  { access: 'read', kind: 's3', pattern: /\bget_object\(\s*Bucket\s*=\s*["']([^"']+)["']/g },
+  {
+    access: 'read',
+    kind: 'gs',
+    pattern: /\.bucket\(\s*["']([^"']+)["']\s*\)\s*\.(?:file|blob)\([^)]*\)\s*\.download/g,
+  },
+  {
+    access: 'write',
+    kind: 'path',
+    pattern: /\.to_(?:csv|parquet|json|excel|orc|feather)\(\s*["']([^"'{]+)["']/g,
+  },
+  {
+    access: 'write',
+    kind: 'path',
+    pattern:
+      /\.write(?:Stream)?(?:\.\w+\([^)]*\))*\.(?:csv|parquet|json|orc|text|save)\(\s*["']([^"']+)["']/g,
+  },
+  {
+    access: 'write',
+    kind: 'path',
+    pattern: /\bbeam\.io\.WriteTo\w+\(\s*(?:\w+\s*=\s*)?["']([^"']+)["']/g,
+  },
+  {
+    access: 'write',
+    kind: 'path',
+    pattern:
+      /\bfs\.(?:writeFile|writeFileSync|appendFile|createWriteStream)\(\s*["'`]([^"'`]+\.(?:csv|tsv|jsonl?|ndjson|parquet|avro|xml|xlsx?))["'`]/g,
+  },
+  {
+    access: 'write',
+    kind: 'path',
+    pattern: /\bopen\(\s*["']([^"']+\.(?:csv|tsv|jsonl?|ndjson|parquet|xml))["']\s*,\s*["'][wa]/g,
+  },
+  {
+    access: 'write',
+    kind: 's3',
+    pattern: /\b(?:PutObjectCommand|putObject)\(\s*\{[^}]*?\bBucket\s*:\s*["'`]([^"'`]+)["'`]/g,
+  },
+  {
+    access: 'write',
+    kind: 's3',
+    pattern: /\b(?:upload_file|upload_fileobj)\(\s*[^,()]+,\s*["']([^"']+)["']/g,
+  },
+  { access: 'write', kind: 's3', pattern: /\bput_object\(\s*Bucket\s*=\s*["']([^"']+)["']/g },
+  {
+    access: 'write',
+    kind: 'gs',
+    pattern: /\.bucket\(\s*["']([^"']+)["']\s*\)\s*\.(?:file|blob)\([^)]*\)\s*\.(?:save|upload)/g,
+  },
+];
+
+/**
+ * Table writes outside SQL statements; capture group 1 holds the table
+ */
+const TABLE_WRITE_PATTERNS = [
+  /\.to_sql\(\s*["'](\w+)["']/g,
+  /\.(?:saveAsTable|insertInto)\(\s*["']([\w.]+)["']/g,
+];
+
+/**
+ * ORM and driver calls that write to the service's database without naming a table
+ */
+const DATABASE_WRITE_PATTERN =
+  /\bsession\.(?:add|add_all|merge)\(|\.objects\.(?:create|bulk_create|update_or_create)\(|\b\w*[Rr]epository\.save(?:All)?\(|\.(?:insertOne|insertMany|bulkWrite|executemany)\(|\bprisma\.\w+\.(?:create|createMany|upsert)\(|\bdb\.(?:Create|Save)\(/;
+
+/**
+ * Data pipeline frameworks whose jobs run to completion
+ */
+const PIPELINE_PATTERN =
+  /\bSparkSession\b|\bpyspark\b|\borg\.apache\.spark\b|\bapache_beam\b|\borg\.apache\.beam\b|^\s*(?:import|from)\s+(?:pandas|polars|dask)\b/m;
+
+/**
+ * Structured streaming reads keep a pipeline running like a queue consumer
+ */
+const STREAMING_PATTERN = /\.readStream\b/;
+
+/**
+ * Scheduled job declarations. Capture group 1, when present, holds the schedule as a
+ * quoted cron expression, a `Cron.Daily()`-style helper or keyword arguments.
+ */
+const SCHEDULE_PATTERNS = [
+  /\bcron\.schedule\(\s*(["'`][^"'`]+["'`])/g,
+  /\bnew\s+CronJob\(\s*(["'`][^"'`]+["'`])/g,
+  /\bschedule\.scheduleJob\(\s*(["'`][^"'`]+["'`])/g,
+  /@Cron\(\s*(["'`][^"'`]+["'`])/g,
+  /@Scheduled\(([^)]*)\)/g,
+  /\bcronSchedule\(\s*("[^"]+")/g,
+  /\.AddFunc\(\s*("[^"]+")/g,
+  /\bRecurringJob\.AddOrUpdate\([^;]*?(Cron\.\w+\(\)|"[^"]+")/g,
+  /\bcrontab\(([^)]*)\)/g,
+  /\b(?:add_job|scheduled_job)\([^)]*?["']cron["']\s*,?([^)]*)\)/g,
+  /\bbeat_schedule\b()/g,
+];
+
+/**
+ * Cron macros and Hangfire helpers as five-field expressions
+ */
+const CRON_ALIASES: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+  'Cron.Yearly()': '0 0 1 1 *',
+  'Cron.Monthly()': '0 0 1 * *',
+  'Cron.Weekly()': '0 0 * * 0',
+  'Cron.Daily()': '0 0 * * *',
+  'Cron.Hourly()': '0 * * * *',
+  'Cron.Minutely()': '* * * * *',
+};
+
+/**
+ * Procfile process names with a fixed meaning on Heroku-style platforms. Clock and
+ * scheduler processes keep running and trigger jobs themselves, so they are workers.
+ */
+const PROCFILE_TYPES: Record<string, ProcessInfo['type']> = {
+  web: 'web',
+  release: 'release',
+  clock: 'worker',
+  cron: 'cron',
+  scheduler: 'worker',
+};
+
+/**
+ * Names of package.json scripts and Go commands that start non-web processes
+ */
+const PROCESS_NAME_TYPES: Array<{ type: ProcessInfo['type']; pattern: RegExp }> = [
+  { type: 'cron', pattern: /cron/i },
+  {
+    type: 'worker',
+    pattern: /worker|queue|consumer|processor|subscriber|schedul|clock|jobs?$/i,
+  },
+  { type: 'web', pattern: /server|api|web|http|gateway/i },
+];
+
+/**
+ * Command-line argument parsers, which mark entry points run to completion
+ */
+const CLI_PATTERN =
+  /require\(\s*["'](?:commander|yargs|meow|cac)["']\)|from\s+["'](?:commander|yargs|meow|cac)["']|^\s*(?:import|from)\s+(?:click|typer|argparse)|"github\.com\/spf13\/cobra"|use\s+clap|picocli|System\.CommandLine/m;
+
+/**
+ * Evidence weight at which a classification is considered fully supported
+ */
+const STRONG_EVIDENCE = 5;
+
+/**
+ * Order in which architecture types win ties, simplest first
+ */
+const ARCHITECTURE_TYPES: ArchitectureType[] = [
+  'monolith',
+  'modular-monolith',
+  'microservices',
+  'event-driven',
+  'serverless',
+];
+
 /**
  * Default implementation of ArchitectureDetector
  */
 export class DefaultArchitectureDetector implements ArchitectureDetector {
+  private techStackDetector: TechStackDetector;
+  private networkAnalyzer: NetworkAnalyzer;
+  private routeAnalyzer: RouteAnalyzer;
+  private manifestParser: ManifestParser;
+  private dependencyAnalyzer: DependencyAnalyzer;
+
+  constructor(
+    techStackDetector?: TechStackDetector,
+    networkAnalyzer?: NetworkAnalyzer,
+    routeAnalyzer?: RouteAnalyzer,
+    manifestParser?: ManifestParser,
+    dependencyAnalyzer?: DependencyAnalyzer
+  ) {
+    this.techStackDetector = techStackDetector || new DefaultTechStackDetector();
+    this.networkAnalyzer = networkAnalyzer || new DefaultNetworkAnalyzer();
+    this.routeAnalyzer = routeAnalyzer || new DefaultRouteAnalyzer();
+    this.manifestParser = manifestParser || new DefaultManifestParser();
+    this.dependencyAnalyzer =
+      dependencyAnalyzer || new DefaultDependencyAnalyzer(this.techStackDetector);
+  }
+
   async detectArchitectureType(index: CodebaseIndex): Promise<ArchitectureInfo['type']> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    return (await this.classifyArchitecture(index)).type;
+  }
+
+  async classifyArchitecture(index: CodebaseIndex): Promise<ArchitectureClassification> {
+    try {
+      return await this.classify(index, await this.detectServices(index));
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(
+        error,
+        'analysis',
+        ErrorCodes.ARCHITECTURE_DETECTION_FAILED
+      );
+    }
   }
 
   async identifyServices(index: CodebaseIndex): Promise<ServiceInfo[]> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    try {
+      return (await this.detectServices(index)).map(deployed => deployed.service);
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(
+        error,
+        'analysis',
+        ErrorCodes.ARCHITECTURE_DETECTION_FAILED
+      );
+    }
   }
 
   async analyzeCommunicationPatterns(index: CodebaseIndex): Promise<CommunicationPattern[]> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    try {
+      return this.getCommunicationPatterns(index, await this.detectServices(index));
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(
+        error,
+        'analysis',
+        ErrorCodes.ARCHITECTURE_DETECTION_FAILED
+      );
+    }
   }
 
   async detectArchitecture(index: CodebaseIndex): Promise<ArchitectureInfo> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    try {
+      const deployed = await this.detectServices(index);
+      const { type, confidence, evidence } = await this.classify(index, deployed);
+      return {
+        type,
+        services: deployed.map(({ service }) => service),
+        communicationPatterns: this.getCommunicationPatterns(index, deployed),
+        dataFlow: await this.getDataFlow(deployed),
+        confidence,
+        evidence,
+      };
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(
+        error,
+        'analysis',
+        ErrorCodes.ARCHITECTURE_DETECTION_FAILED
+      );
+    }
+  }
+
+  async analyzeDataFlow(index: CodebaseIndex): Promise<DataFlowInfo> {
+    try {
+      return await this.getDataFlow(await this.detectServices(index));
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(
+        error,
+        'analysis',
+        ErrorCodes.ARCHITECTURE_DETECTION_FAILED
+      );
+    }
+  }
+
+  async detectProjectType(index: CodebaseIndex): Promise<ProjectType> {
+    const services = await this.identifyServices(index);
+    if (services.length > 1 || this.findWorkspaceProjects(index).length > 0) {
+      return 'monorepo';
+    }
+    return services[0]?.type === 'api' ? 'api-service' : 'web-app';
+  }
+
+  /**
+   * Weigh the architecture evidence gathered from the detected services
+   */
+  private async classify(
+    index: CodebaseIndex,
+    deployed: DeployedService[]
+  ): Promise<ArchitectureClassification> {
+    const evidence: ArchitectureEvidence[] = [
+      ...this.getServerlessEvidence(index, deployed),
+      ...this.getServiceCountEvidence(deployed),
+      ...this.getServiceCallEvidence(deployed),
+      ...(await this.getSharedDatabaseEvidence(deployed)),
+      ...(await this.getQueueConsumerEvidence(index, deployed)),
+      ...this.getModuleEvidence(index, deployed),
+    ];
+
+    const scores = new Map<ArchitectureType, number>();
+    for (const item of evidence) {
+      scores.set(item.type, (scores.get(item.type) || 0) + item.weight);
+    }
+    let type: ArchitectureType = 'monolith';
+    for (const candidate of ARCHITECTURE_TYPES) {
+      if ((scores.get(candidate) || 0) > (scores.get(type) || 0)) type = candidate;
+    }
+
+    // Share of all evidence that points to the winner, discounted while that evidence is thin
+    const total = evidence.reduce((sum, item) => sum + item.weight, 0);
+    const score = scores.get(type) || 0;
+    const confidence = total > 0 ? (score / total) * Math.min(1, score / STRONG_EVIDENCE) : 0;
+
+    return { type, confidence: Math.round(confidence * 100) / 100, evidence };
+  }
+
+  /**
+   * Calls, message flows and shared tables between the detected services
+   */
+  private getCommunicationPatterns(
+    index: CodebaseIndex,
+    deployed: DeployedService[]
+  ): CommunicationPattern[] {
+    if (deployed.length < 2) return [];
+
+    const patterns = new Map<string, CommunicationPattern>();
+    const add = (pattern: CommunicationPattern): void => {
+      const key = `${pattern.from}\u0000${pattern.to}\u0000${pattern.protocol}`;
+      const existing = patterns.get(key);
+      if (!existing) {
+        patterns.set(key, pattern);
+      } else if (pattern.channels) {
+        existing.channels = [
+          ...new Set([...(existing.channels || []), ...pattern.channels]),
+        ].sort();
+      }
+    };
+
+    for (const call of this.findServiceCalls(deployed)) {
+      add({ from: call.from, to: call.to, type: 'synchronous', protocol: call.protocol });
+    }
+    this.findGrpcStubCalls(index, deployed).forEach(add);
+    this.findMessageFlows(deployed).forEach(add);
+    this.findSharedTables(deployed).forEach(add);
+
+    return [...patterns.values()].sort(
+      (a, b) =>
+        a.from.localeCompare(b.from) ||
+        a.to.localeCompare(b.to) ||
+        a.protocol.localeCompare(b.protocol)
+    );
+  }
+
+  /**
+   * Data sources, stores and transformations across the detected services
+   */
+  private async getDataFlow(deployed: DeployedService[]): Promise<DataFlowInfo> {
+    const dataSources = new Set<string>();
+    const dataStores = new Set<string>();
+    const dataTransformations: DataTransformation[] = [];
+
+    for (const service of deployed) {
+      const flow = await this.getServiceDataFlow(service);
+      flow.sources.forEach(source => dataSources.add(source));
+      flow.stores.forEach(store => dataStores.add(store));
+      dataTransformations.push(...flow.transformations);
+    }
+
+    return {
+      dataSources: [...dataSources].sort(),
+      dataStores: [...dataStores].sort(),
+      dataTransformations,
+    };
+  }
+
+  /**
+   * Deployable projects, or the whole repository as one project when none are declared
+   */
+  private async detectServices(index: CodebaseIndex): Promise<DeployedService[]> {
+    const deployables = new Map<string, ProjectCandidate>();
+    const candidates = this.findWorkspaceProjects(index);
+    const hasWorkspace = candidates.length > 0;
+
+    for (const candidate of [...candidates, ...this.findDockerProjects(index, hasWorkspace)]) {
+      const known = [...deployables.values()].some(
+        project => project.root === candidate.root && !(project.dockerfile && candidate.dockerfile)
+      );
+      if (known || !this.isDeployable(index, candidate)) continue;
+      deployables.set(candidate.dockerfile || candidate.root, candidate);
+    }
+    if (deployables.size === 0) {
+      deployables.set('', { root: '', name: this.getRootName(index) });
+    }
+
+    const roots = [...new Set([...deployables.values()].map(project => project.root))];
+    const services: DeployedService[] = [];
+    for (const project of deployables.values()) {
+      // Projects nested inside another project's directory belong to that project only
+      const nested = roots.filter(
+        root => root !== project.root && this.isWithin(root, project.root)
+      );
+      services.push(await this.createService(index, project, nested));
+    }
+
+    return services.sort((a, b) => a.service.name.localeCompare(b.service.name));
+  }
+
+  /**
+   * Function-as-a-service descriptors; without long-running listeners the platform
+   * invokes the code rather than the code serving traffic itself
+   */
+  private getServerlessEvidence(
+    index: CodebaseIndex,
+    deployed: DeployedService[]
+  ): ArchitectureEvidence[] {
+    const evidence: ArchitectureEvidence[] = [];
+    for (const config of SERVERLESS_CONFIGS) {
+      const files = index.fileIndex
+        .filter(
+          file =>
+            config.file.test(file.path) &&
+            (!config.content || config.content.test(file.content || ''))
+        )
+        .map(file => file.path);
+      if (files.length === 0) continue;
+
+      evidence.push({
+        type: 'serverless',
+        signal: 'serverless-config',
+        description: `${config.platform} deployment descriptor`,
+        weight: 4,
+        files,
+      });
+    }
+
+    if (evidence.length > 0 && deployed.every(({ service }) => service.exposedPorts.length === 0)) {
+      evidence.push({
+        type: 'serverless',
+        signal: 'no-listeners',
+        description: 'No service listens on a port of its own',
+        weight: 1,
+      });
+    }
+    return evidence;
+  }
+
+  private getServiceCountEvidence(deployed: DeployedService[]): ArchitectureEvidence[] {
+    if (deployed.length === 1) {
+      return [
+        {
+          type: 'monolith',
+          signal: 'service-count',
+          description: `Single deployable: ${deployed[0]!.service.name}`,
+          weight: 2,
+        },
+      ];
+    }
+    return [
+      {
+        type: 'microservices',
+        signal: 'service-count',
+        description: `${deployed.length} independently deployable services: ${deployed
+          .map(({ service }) => service.name)
+          .join(', ')}`,
+        weight: deployed.length >= 3 ? 3 : 2,
+      },
+    ];
+  }
+
+  private getServiceCallEvidence(deployed: DeployedService[]): ArchitectureEvidence[] {
+    return this.findServiceCalls(deployed)
+      .slice(0, 3)
+      .map(call => ({
+        type: 'microservices',
+        signal: 'service-call',
+        description: `${call.from} calls ${call.to} over ${call.protocol.toUpperCase()}`,
+        weight: 1,
+        files: call.files,
+      }));
+  }
+
+  /**
+   * Services that connect to the same database are coupled through its schema and
+   * behave as modules of one system rather than independent services. The same
+   * connection target is strong evidence, the same database engine only a hint.
+   */
+  private async getSharedDatabaseEvidence(
+    deployed: DeployedService[]
+  ): Promise<ArchitectureEvidence[]> {
+    if (deployed.length < 2) return [];
+
+    const users = new Map<string, { services: string[]; target?: string }>();
+    for (const { service, index } of deployed) {
+      for (const database of await this.dependencyAnalyzer.detectDatabases(index)) {
+        const target = database.connectionString?.replace(/^\w+:\/\/(?:[^@/]*@)?/, '');
+        const key = target ? `${database.type}:${target}` : database.type;
+        const entry = users.get(key) || (target ? { services: [], target } : { services: [] });
+        entry.services.push(service.name);
+        users.set(key, entry);
+      }
+    }
+
+    return [...users]
+      .filter(([, entry]) => entry.services.length > 1)
+      .map(([key, entry]) => ({
+        type: 'modular-monolith',
+        signal: 'shared-database',
+        description: entry.target
+          ? `${entry.services.join(', ')} connect to the same database (${entry.target})`
+          : `${entry.services.join(', ')} all use ${key}, possibly the same database`,
+        weight: entry.target ? 3 : 1,
+      }));
+  }
+
+  /**
+   * Services consuming queues or event streams. A single service with background
+   * consumers is still a monolith; several services fed by a broker are event-driven.
+   */
+  private async getQueueConsumerEvidence(
+    index: CodebaseIndex,
+    deployed: DeployedService[]
+  ): Promise<ArchitectureEvidence[]> {
+    const evidence: ArchitectureEvidence[] = [];
+    for (const { service, root, index: scoped } of deployed) {
+      const files = scoped.fileIndex
+        .filter(
+          file =>
+            file.type === 'source' &&
+            QUEUE_CONSUMER_PATTERNS.some(pattern => pattern.test(file.content || ''))
+        )
+        .map(file => (root ? `${root}/${file.path}` : file.path));
+      if (files.length === 0) continue;
+
+      evidence.push({
+        type: 'event-driven',
+        signal: 'queue-consumer',
+        description: `${service.name} consumes messages`,
+        weight: 2,
+        files,
+      });
+    }
+
+    if (evidence.length > 0 && deployed.length > 1) {
+      const queues = await this.dependencyAnalyzer.detectMessageQueues(index);
+      if (queues.length > 0) {
+        evidence.push({
+          type: 'event-driven',
+          signal: 'message-broker',
+          description: `Services share a message broker: ${queues.map(queue => queue.type).join(', ')}`,
+          weight: 1,
+        });
+      }
+    }
+    return evidence;
+  }
+
+  /**
+   * Internal module boundaries inside a single deployable: workspace libraries,
+   * framework modules or a `modules/` directory layout
+   */
+  private getModuleEvidence(
+    index: CodebaseIndex,
+    deployed: DeployedService[]
+  ): ArchitectureEvidence[] {
+    if (deployed.length !== 1) return [];
+
+    const evidence: ArchitectureEvidence[] = [];
+    const libraries = this.findWorkspaceProjects(index).filter(
+      project => !this.isDeployable(index, project)
+    );
+    if (libraries.length >= 2) {
+      evidence.push({
+        type: 'modular-monolith',
+        signal: 'internal-modules',
+        description: `${libraries.length} workspace libraries built into one deployable`,
+        weight: 3,
+        files: libraries.map(project => project.root),
+      });
+    }
+
+    for (const marker of MODULE_MARKERS) {
+      const modules = new Map<string, string>();
+      for (const file of index.fileIndex) {
+        const name = file.path.match(marker.path)?.[1];
+        if (!name || modules.has(name) || file.type !== 'source') continue;
+        if (marker.content && !marker.content.test(file.content || '')) continue;
+        modules.set(name, file.path);
+      }
+      if (modules.size < marker.minimum) continue;
+
+      evidence.push({
+        type: 'modular-monolith',
+        signal: 'internal-modules',
+        description: `${modules.size} ${marker.description} in one deployable`,
+        weight: 3,
+        files: [...modules.values()],
+      });
+    }
+    return evidence;
+  }
+
+  /**
+   * Calls from one service to another, recognised by the other service's name as a
+   * URL host or gRPC target, or by environment variables such as `BILLING_SERVICE_URL`
+   */
+  private findServiceCalls(deployed: DeployedService[]): ServiceCall[] {
+    const calls: ServiceCall[] = [];
+    for (const caller of deployed) {
+      for (const callee of deployed) {
+        if (callee === caller) continue;
+
+        const hosts = [...new Set([callee.service.name, posix.basename(callee.root)])]
+          .filter(Boolean)
+          .map(host => host.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+        const variable = callee.service.name.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+        const url = new RegExp(`\\b(https?|grpc)://(?:${hosts.join('|')})(?=[:/"'\`\\s]|$)`);
+        const target = new RegExp(`["'](?:${hosts.join('|')}):\\d+["']`);
+        const env = new RegExp(
+          `\\b${variable}_(?:SERVICE_)?(?:URL|URI|HOST|ADDR|ADDRESS|ENDPOINT)\\b`
+        );
+
+        let protocol: ServiceCall['protocol'] | undefined;
+        const files: string[] = [];
+        for (const file of caller.index.fileIndex) {
+          const content = file.content || '';
+          const match = content.match(url);
+          const grpc = /\bgrpc/i.test(content);
+          if (!match && !(grpc && target.test(content)) && !env.test(content)) continue;
+
+          files.push(caller.root ? `${caller.root}/${file.path}` : file.path);
+          if (match?.[1] === 'grpc' || grpc) protocol = 'grpc';
+        }
+        if (files.length > 0) {
+          calls.push({
+            from: caller.service.name,
+            to: callee.service.name,
+            protocol: protocol || 'http',
+            files,
+          });
+        }
+      }
+    }
+    return calls;
+  }
+
+  /**
+   * gRPC calls through stubs generated from `.proto` files anywhere in the repository:
+   * services registering a server implementation are called by services creating a
+   * client for the same proto service
+   */
+  private findGrpcStubCalls(
+    index: CodebaseIndex,
+    deployed: DeployedService[]
+  ): CommunicationPattern[] {
+    const protoServices = new Set<string>();
+    for (const file of index.fileIndex) {
+      if (!file.path.endsWith('.proto')) continue;
+      for (const match of (file.content || '').matchAll(/^\s*service\s+(\w+)\s*\{/gm)) {
+        protoServices.add(match[1] || '');
+      }
+    }
+
+    const patterns: CommunicationPattern[] = [];
+    for (const name of protoServices) {
+      const server = new RegExp(
+        [
+          `\\bRegister${name}Server\\(`,
+          `\\badd_${name}Servicer_to_server\\(`,
+          `\\b${name}Grpc\\.${name}ImplBase\\b`,
+          `\\b${name}\\.${name}Base\\b`,
+          `\\.addService\\([^,]*\\b${name}\\b`,
+          `@GrpcMethod\\(\\s*["']${name}["']`,
+        ].join('|')
+      );
+      const client = new RegExp(
+        [
+          `\\b(?:New)?${name}Client\\b`,
+          `\\b${name}Stub\\(`,
+          `\\b${name}Grpc\\.new\\w*Stub\\(`,
+          `\\bnew\\s+[\\w.]+\\.${name}\\(\\s*["'\`]`,
+          `getService<[^>]*>\\(\\s*["']${name}["']`,
+        ].join('|')
+      );
+      const uses = (deployedService: DeployedService, pattern: RegExp) =>
+        deployedService.index.fileIndex.some(
+          file =>
+            file.type === 'source' &&
+            !GENERATED_GRPC_CODE.test(file.path) &&
+            pattern.test(file.content || '')
+        );
+
+      const servers = deployed.filter(candidate => uses(candidate, server));
+      for (const caller of deployed.filter(candidate => uses(candidate, client))) {
+        for (const callee of servers) {
+          if (callee === caller) continue;
+          patterns.push({
+            from: caller.service.name,
+            to: callee.service.name,
+            type: 'synchronous',
+            protocol: 'grpc',
+            channels: [name],
+          });
+        }
+      }
+    }
+    return patterns;
+  }
+
+  /**
+   * Producer to consumer pairs on Kafka topics and RabbitMQ queues or exchanges
+   * with the same name
+   */
+  private findMessageFlows(deployed: DeployedService[]): CommunicationPattern[] {
+    const channels = deployed.map(({ service, index }) => ({
+      service: service.name,
+      ...this.getMessageChannels(index),
+    }));
+
+    const patterns: CommunicationPattern[] = [];
+    for (const producer of channels) {
+      for (const consumer of channels) {
+        if (consumer === producer) continue;
+
+        const shared = [...producer.produce].filter(channel => consumer.consume.has(channel));
+        for (const broker of ['kafka', 'rabbitmq'] as const) {
+          const names = shared
+            .filter(channel => channel.startsWith(`${broker}:`))
+            .map(channel => channel.slice(broker.length + 1));
+          if (names.length === 0) continue;
+
+          patterns.push({
+            from: producer.service,
+            to: consumer.service,
+            type: broker === 'kafka' ? 'event-driven' : 'asynchronous',
+            protocol: broker === 'kafka' ? 'kafka' : 'amqp',
+            channels: names.sort(),
+          });
+        }
+      }
+    }
+    return patterns;
+  }
+
+  /**
+   * Services reading or writing the same tables. Data flows from services that write
+   * a table to services that only read it; services that all write, or only map the
+   * table, are linked once in name order.
+   */
+  private findSharedTables(deployed: DeployedService[]): CommunicationPattern[] {
+    const tables = new Map<string, { writers: Set<string>; users: Set<string> }>();
+    for (const { service, index } of deployed) {
+      for (const file of index.fileIndex) {
+        if (file.type !== 'source') continue;
+        for (const { access, pattern } of TABLE_PATTERNS) {
+          for (const match of (file.content || '').matchAll(pattern)) {
+            const table = (match[1] || '').toLowerCase();
+            const entry = tables.get(table) || { writers: new Set(), users: new Set() };
+            entry.users.add(service.name);
+            if (access === 'write') entry.writers.add(service.name);
+            tables.set(table, entry);
+          }
+        }
+      }
+    }
+
+    const links = new Map<string, { from: string; to: string; tables: string[] }>();
+    for (const [table, { writers, users }] of tables) {
+      const names = [...users].sort();
+      for (const from of names) {
+        for (const to of names) {
+          const directed = writers.has(from) && !writers.has(to);
+          const undirected = writers.has(from) === writers.has(to) && from < to;
+          if (from === to || (!directed && !undirected)) continue;
+
+          const key = `${from}\u0000${to}`;
+          const link = links.get(key) || { from, to, tables: [] };
+          link.tables.push(table);
+          links.set(key, link);
+        }
+      }
+    }
+
+    return [...links.values()].map(link => ({
+      from: link.from,
+      to: link.to,
+      type: 'asynchronous',
+      protocol: 'database',
+      channels: link.tables.sort(),
+    }));
+  }
+
+  /**
+   * Kafka topics and RabbitMQ queues or exchanges a service produces to and consumes
+   * from, as `<broker>:<name>`
+   */
+  private getMessageChannels(index: CodebaseIndex): { produce: Set<string>; consume: Set<string> } {
+    const found = { produce: new Set<string>(), consume: new Set<string>() };
+    for (const file of index.fileIndex) {
+      if (file.type !== 'source') continue;
+      for (const { broker, role, pattern } of MESSAGE_CHANNEL_PATTERNS) {
+        for (const match of (file.content || '').matchAll(pattern)) {
+          for (const name of (match[1] || '').matchAll(/["'`]([^"'`]+)["'`]/g)) {
+            found[role].add(`${broker}:${name[1]}`);
+          }
+        }
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Data read and written by one service and how it is processed. Each read or write
+   * belongs to the nearest trigger before it in its file: scheduled jobs are batch
+   * transformations, queue consumers and streaming reads are streams. Files without
+   * a trigger join every handler when the service has one kind of trigger, and
+   * pipeline frameworks without any trigger are one-off ETL jobs.
+   */
+  private async getServiceDataFlow({ service, index }: DeployedService): Promise<{
+    sources: string[];
+    stores: string[];
+    transformations: DataTransformation[];
+  }> {
+    const databases = (await this.dependencyAnalyzer.detectDatabases(index)).map(
+      database => database.type
+    );
+    const database = databases[0] || 'database';
+    const sourceFiles = index.fileIndex.filter(file => file.type === 'source' && file.content);
+    const celeryBeat = sourceFiles.some(file => CELERY_BEAT_PATTERN.test(file.content || ''));
+    const scopes: HandlerScope[] = [];
+    const unscoped = this.createHandlerScope('etl', false);
+    let pipeline = false;
+
+    for (const file of sourceFiles) {
+      const content = file.content || '';
+      const triggers = this.findHandlerScopes(content, celeryBeat);
+      const scopeAt = (position: number): HandlerScope =>
+        [...triggers].reverse().find(trigger => trigger.start <= position)?.scope ||
+        triggers[0]?.scope ||
+        unscoped;
+
+      for (const { access, kind, pattern } of DATA_ACCESS_PATTERNS) {
+        for (const match of content.matchAll(pattern)) {
+          const location = this.toDataLocation(kind, match[1] || '');
+          scopeAt(match.index || 0)[access === 'read' ? 'reads' : 'writes'].add(location);
+        }
+      }
+      for (const { access, pattern } of TABLE_PATTERNS) {
+        if (access === 'map') continue;
+        for (const match of content.matchAll(pattern)) {
+          const table = `${database}:${(match[1] || '').toLowerCase()}`;
+          scopeAt(match.index || 0)[access === 'read' ? 'reads' : 'writes'].add(table);
+        }
+      }
+      for (const pattern of TABLE_WRITE_PATTERNS) {
+        for (const match of content.matchAll(pattern)) {
+          scopeAt(match.index || 0).writes.add(`${database}:${(match[1] || '').toLowerCase()}`);
+        }
+      }
+      for (const match of content.matchAll(new RegExp(DATABASE_WRITE_PATTERN.source, 'g'))) {
+        scopeAt(match.index || 0).writes.add(database);
+      }
+      for (const { broker, role, pattern } of MESSAGE_CHANNEL_PATTERNS) {
+        if (role !== 'consume') continue;
+        for (const match of content.matchAll(pattern)) {
+          for (const name of (match[1] || '').matchAll(/["'`]([^"'`]+)["'`]/g)) {
+            scopeAt(match.index || 0).consumes.add(`${broker}:${name[1]}`);
+          }
+        }
+      }
+
+      scopes.push(...triggers.map(trigger => trigger.scope));
+      pipeline ||= PIPELINE_PATTERN.test(content);
+    }
+
+    // Shared code is only attributable when every handler is of the same kind
+    const types = new Set(scopes.map(scope => scope.type));
+    if (types.size === 0 && pipeline) {
+      scopes.push(unscoped);
+    } else if (types.size === 1) {
+      for (const scope of scopes) {
+        unscoped.reads.forEach(location => scope.reads.add(location));
+        unscoped.writes.forEach(location => scope.writes.add(location));
+      }
+    }
+
+    const consumed = [...this.getMessageChannels(index).consume];
+    if (scopes.some(scope => scope.consumer) && consumed.length === 0) {
+      const queues = await this.dependencyAnalyzer.detectMessageQueues(index);
+      consumed.push(...queues.map(queue => queue.type));
+    }
+    const reads = [unscoped, ...scopes].flatMap(scope => [...scope.reads]);
+    const writes = [unscoped, ...scopes].flatMap(scope => [...scope.writes]);
+    const sources = [...new Set([...consumed, ...reads])].sort();
+    const stores = [
+      ...new Set([...databases, ...this.withoutBareDatabase(writes, database)]),
+    ].sort();
+
+    // Streams are recognised by what they consume; jobs may read through an ORM
+    const fallback = databases.length > 0 ? [database] : ['unknown'];
+    const transformations: DataTransformation[] = [];
+    const seen = new Set<string>();
+    for (const scope of scopes) {
+      const channels =
+        scope.consumes.size > 0 ? [...scope.consumes] : scope.consumer ? consumed : [];
+      const inputs = [...new Set([...(scope.type === 'stream' ? channels : []), ...scope.reads])];
+      const outputs = this.withoutBareDatabase([...scope.writes], database);
+      if (scope.type === 'stream' && (inputs.length === 0 || outputs.length === 0)) continue;
+
+      for (const input of inputs.length > 0 ? inputs.sort() : fallback) {
+        for (const output of outputs.length > 0 ? outputs.sort() : fallback) {
+          const key = [input, output, scope.type, scope.schedule].join('\u0000');
+          if (seen.has(key)) continue;
+          seen.add(key);
+          transformations.push({
+            input,
+            output,
+            type: scope.type,
+            service: service.name,
+            ...(scope.schedule && { schedule: scope.schedule }),
+          });
+        }
+      }
+    }
+    return { sources, stores, transformations };
+  }
+
+  /**
+   * Scheduled jobs, queue consumers and streaming reads in one file, each starting a
+   * scope that runs to the next trigger of another kind
+   */
+  private findHandlerScopes(
+    content: string,
+    celeryBeat: boolean
+  ): Array<{ start: number; scope: HandlerScope }> {
+    const triggers: Array<{
+      start: number;
+      type: DataTransformation['type'];
+      consumer: boolean;
+      schedule?: string;
+    }> = [];
+
+    for (const pattern of SCHEDULE_PATTERNS) {
+      for (const match of content.matchAll(pattern)) {
+        const schedule = this.toCronExpression(match[1] || '');
+        triggers.push({
+          start: match.index || 0,
+          type: 'batch',
+          consumer: false,
+          ...(schedule && { schedule }),
+        });
+      }
+    }
+    for (const pattern of QUEUE_CONSUMER_PATTERNS) {
+      for (const match of content.matchAll(new RegExp(pattern.source, `${pattern.flags}g`))) {
+        const scheduled = celeryBeat && CELERY_TASK_PATTERN.test(match[0]);
+        triggers.push({
+          start: match.index || 0,
+          type: scheduled ? 'batch' : 'stream',
+          consumer: !scheduled,
+        });
+      }
+    }
+    for (const { role, pattern } of MESSAGE_CHANNEL_PATTERNS) {
+      if (role !== 'consume') continue;
+      for (const match of content.matchAll(pattern)) {
+        triggers.push({ start: match.index || 0, type: 'stream', consumer: true });
+      }
+    }
+    for (const match of content.matchAll(new RegExp(STREAMING_PATTERN.source, 'g'))) {
+      triggers.push({ start: match.index || 0, type: 'stream', consumer: false });
+    }
+
+    const scopes: Array<{ start: number; scope: HandlerScope }> = [];
+    for (const trigger of triggers.sort((a, b) => a.start - b.start)) {
+      const previous = scopes[scopes.length - 1]?.scope;
+      if (previous?.type === trigger.type) {
+        previous.consumer ||= trigger.consumer;
+        if (previous.schedule === undefined && trigger.schedule) {
+          previous.schedule = trigger.schedule;
+        }
+        continue;
+      }
+      const scope = this.createHandlerScope(trigger.type, trigger.consumer);
+      if (trigger.schedule) scope.schedule = trigger.schedule;
+      scopes.push({ start: trigger.start, scope });
+    }
+    return scopes;
+  }
+
+  private createHandlerScope(type: DataTransformation['type'], consumer: boolean): HandlerScope {
+    return { type, consumer, consumes: new Set(), reads: new Set(), writes: new Set() };
+  }
+
+  /**
+   * A bare table write is already covered by the same database's named tables
+   */
+  private withoutBareDatabase(writes: string[], database: string): string[] {
+    const named = writes.some(store => store.startsWith(`${database}:`));
+    return [...new Set(writes)].filter(store => !named || store !== database);
+  }
+
+  /**
+   * Normalise a file path or bucket into a data location: object storage URLs keep
+   * their scheme and bucket, local paths are prefixed with `file:`
+   */
+  private toDataLocation(kind: 'path' | 's3' | 'gs', value: string): string {
+    if (kind !== 'path') return `${kind}://${value}`;
+
+    const url = value.match(/^(\w+):\/\/([^/]+)/);
+    return url ? `${url[1]}://${url[2]}` : `file:${value.replace(/^\.\//, '')}`;
+  }
+
+  /**
+   * Five-field cron expression from a quoted expression, cron macro, Hangfire helper,
+   * Spring `cron = "..."` argument or Celery and APScheduler keyword arguments.
+   * Seconds and year fields are dropped; interval schedules yield undefined.
+   */
+  private toCronExpression(raw: string): string | undefined {
+    const value = raw.trim();
+    if (!value) return undefined;
+    if (CRON_ALIASES[value]) return CRON_ALIASES[value];
+
+    const spring = value.match(/\bcron\s*=\s*"([^"]+)"/)?.[1];
+    const quoted = spring || value.match(/^["'`]([^"'`]+)["'`]$/)?.[1];
+    if (quoted) {
+      if (CRON_ALIASES[quoted]) return CRON_ALIASES[quoted];
+      const fields = quoted.trim().split(/\s+/);
+      if (fields.length === 6 || fields.length === 7) fields.shift();
+      if (fields.length === 6) fields.pop();
+      return fields.length === 5 ? fields.join(' ').replace(/\?/g, '*') : undefined;
+    }
+
+    const kwargs: Record<string, string> = {};
+    for (const match of value.matchAll(/\b(\w+)\s*=\s*["']?([^,"')]+)["']?/g)) {
+      kwargs[match[1] || ''] = (match[2] || '').trim();
+    }
+    const field = (...names: string[]) => names.map(name => kwargs[name]).find(Boolean) || '*';
+    if (Object.keys(kwargs).length === 0) return undefined;
+    return [
+      field('minute'),
+      field('hour'),
+      field('day_of_month', 'day'),
+      field('month_of_year', 'month'),
+      field('day_of_week'),
+    ].join(' ');
+  }
+
+  /**
+   * Projects declared by npm, yarn and pnpm workspaces, Lerna, Nx, Gradle
+   * multi-project builds, Cargo workspaces and Go multi-module repositories
+   */
+  private findWorkspaceProjects(index: CodebaseIndex): ProjectCandidate[] {
+    const projects: ProjectCandidate[] = [];
+    const add = (root: string, name?: string, application?: boolean): void => {
+      if (root === '' || projects.some(project => project.root === root)) return;
+      projects.push({
+        root,
+        name: name || posix.basename(root),
+        ...(application !== undefined && { application }),
+      });
+    };
+
+    // npm, yarn, pnpm and Lerna workspaces list package directories by glob
+    const rootPackage = this.readJson(index, 'package.json');
+    const workspaces = Array.isArray(rootPackage?.workspaces)
+      ? rootPackage.workspaces
+      : rootPackage?.workspaces?.packages || [];
+    const lerna = this.readJson(index, 'lerna.json');
+    const patterns: string[] = [
+      ...workspaces,
+      ...this.readPnpmWorkspace(index),
+      ...(lerna ? lerna.packages || ['packages/*'] : []),
+    ];
+    for (const file of index.fileIndex) {
+      if (posix.basename(file.path) !== 'package.json' || file.path === 'package.json') continue;
+      const root = posix.dirname(file.path);
+      if (this.matchesWorkspace(root, patterns)) {
+        add(root, this.readJson(index, file.path)?.name?.replace(/^@[^/]+\//, ''));
+      }
+    }
+
+    // Nx projects carry their own project.json with an explicit project type
+    for (const file of index.fileIndex) {
+      if (posix.basename(file.path) !== 'project.json') continue;
+      const project = this.readJson(index, file.path);
+      if (!project) continue;
+      add(
+        posix.dirname(file.path).replace(/^\.$/, ''),
+        project.name,
+        project.projectType ? project.projectType === 'application' : undefined
+      );
+    }
+
+    // Gradle: include 'api', ':services:billing'
+    const settings = index.fileIndex.find(file =>
+      /^settings\.gradle(?:\.kts)?$/.test(file.path)
+    )?.content;
+    for (const statement of settings?.matchAll(/^\s*include\b(.*)$/gm) || []) {
+      for (const included of (statement[1] || '').matchAll(/["']:?([\w:.-]+)["']/g)) {
+        const path = (included[1] || '').split(':').join('/');
+        add(path, posix.basename(path));
+      }
+    }
+
+    // Cargo workspace members, which may be globs
+    const cargo = this.readToml(index, 'Cargo.toml');
+    const members: string[] = cargo?.workspace?.members || [];
+    for (const file of index.fileIndex) {
+      if (posix.basename(file.path) !== 'Cargo.toml' || file.path === 'Cargo.toml') continue;
+      const root = posix.dirname(file.path);
+      if (this.matchesWorkspace(root, members)) {
+        add(root, this.readToml(index, file.path)?.package?.name);
+      }
+    }
+
+    // Go: one project per module once there is more than one go.mod
+    const modules = index.fileIndex.filter(file => posix.basename(file.path) === 'go.mod');
+    if (modules.length > 1) {
+      for (const module of modules) {
+        const path = module.content?.match(/^module\s+(\S+)/m)?.[1] || '';
+        add(
+          posix.dirname(module.path).replace(/^\.$/, ''),
+          path
+            .replace(/\/v\d+$/, '')
+            .split('/')
+            .pop()
+        );
+      }
+    }
+
+    return projects;
+  }
+
+  /**
+   * Directories with their own Dockerfile. `Dockerfile.<name>` files at the same
+   * level describe separate images unless the suffix names a variant such as `dev`.
+   * A root Dockerfile in a workspace usually builds one of the workspace projects.
+   */
+  private findDockerProjects(index: CodebaseIndex, hasWorkspace: boolean): ProjectCandidate[] {
+    const projects: ProjectCandidate[] = [];
+
+    for (const path of index.priorityFiles.dockerFiles) {
+      const fileName = posix.basename(path);
+      const root = posix.dirname(path).replace(/^\.$/, '');
+      const suffix = fileName.match(/^Dockerfile[.-](\w[\w-]*)$/)?.[1];
+      if (fileName !== 'Dockerfile' && (!suffix || DOCKERFILE_VARIANTS.test(suffix))) continue;
+      if (root === '' && hasWorkspace && !suffix) continue;
+
+      const name = suffix || (root ? posix.basename(root) : this.getRootName(index));
+      projects.push({ root, name, dockerfile: path });
+    }
+    return projects;
+  }
+
+  /**
+   * Whether a project is deployed on its own rather than consumed as a library
+   */
+  private isDeployable(index: CodebaseIndex, project: ProjectCandidate): boolean {
+    if (project.dockerfile || project.application) return true;
+    if (project.application === false) return false;
+
+    const root = project.root;
+    const files = index.fileIndex.filter(file => this.isWithin(file.path, root));
+    const has = (name: string) => files.some(file => file.path === `${root}/${name}`);
+    if (has('Dockerfile') || has('Procfile')) return true;
+
+    // Command-line tools published through `bin` are libraries, not services
+    const pkg = this.readJson(index, `${root}/package.json`);
+    if (pkg?.scripts?.start || pkg?.scripts?.serve) return true;
+
+    const gradle =
+      this.readFile(index, `${root}/build.gradle`) ||
+      this.readFile(index, `${root}/build.gradle.kts`);
+    if (gradle && this.appliesApplicationPlugin(gradle)) return true;
+
+    if (
+      has('src/main.rs') ||
+      /\[\[bin\]\]/.test(this.readFile(index, `${root}/Cargo.toml`) || '')
+    ) {
+      return true;
+    }
+    return files.some(
+      file => file.path.endsWith('.go') && /^package\s+main\b/m.test(file.content || '')
+    );
+  }
+
+  /**
+   * Whether a Gradle build script applies a plugin that produces a runnable application,
+   * either in a `plugins` block or through `apply plugin:`
+   */
+  private appliesApplicationPlugin(script: string): boolean {
+    return GRADLE_APPLICATION_PLUGINS.some(plugin => {
+      const quoted = new RegExp(`["']${plugin.replace(/\./g, '\\.')}["']`);
+      return (
+        quoted.test(script) || (plugin === 'application' && /^\s*application\s*$/m.test(script))
+      );
+    });
+  }
+
+  /**
+   * Build the ServiceInfo for one project from a view of the index rooted at its
+   * directory, so manifest, listener and route detection see only its own files
+   */
+  private async createService(
+    index: CodebaseIndex,
+    project: ProjectCandidate,
+    nested: string[]
+  ): Promise<DeployedService> {
+    const root = project.root;
+    const scoped = this.scopeIndex(index, root, nested);
+    const toRepoPath = (path: string) => (root ? `${root}/${path}` : path);
+
+    const listeners = await this.networkAnalyzer.detectListeners(scoped);
+    const routes = (await this.routeAnalyzer.extractRoutes(scoped)).map(route => ({
+      ...route,
+      source: { ...route.source, file: toRepoPath(route.source.file) },
+    }));
+    let dependencies: string[] = [];
+    try {
+      dependencies = (await this.techStackDetector.detectBuildRequirements(scoped)).dependencies;
+    } catch {
+      // An unreadable manifest leaves the service without declared dependencies
+    }
+
+    const exposedPorts = this.networkAnalyzer.getExposedPorts(listeners);
+    const entryPoints = this.findEntryPoints(scoped);
+    const serving = exposedPorts.length > 0 || routes.length > 0;
+    const processes = this.detectProcesses(scoped, entryPoints, listeners, serving).map(
+      process => ({
+        ...process,
+        source: toRepoPath(process.source),
+        ...(process.entryPoint && { entryPoint: toRepoPath(process.entryPoint) }),
+      })
+    );
+
+    const service: ServiceInfo = {
+      name: project.name,
+      type: this.getServiceType(processes),
+      root,
+      ...(project.dockerfile && { dockerfile: project.dockerfile }),
+      entryPoints: entryPoints.map(toRepoPath),
+      dependencies,
+      exposedPorts,
+      routes,
+      processes,
+    };
+    return { service, root, index: scoped };
+  }
+
+  /**
+   * Processes declared in Procfiles, package.json scripts and bins, crontab files
+   * and Go `cmd/<name>` packages, or started by Celery, RQ, Sidekiq and BullMQ
+   * workers. When nothing else declares it, the service's own entry point is the
+   * primary process. Paths are relative to the service root.
+   */
+  private detectProcesses(
+    index: CodebaseIndex,
+    entryPoints: string[],
+    listeners: ListenerInfo[],
+    serving: boolean
+  ): ProcessInfo[] {
+    const processes: ProcessInfo[] = [];
+    const add = (process: ProcessInfo): void => {
+      if (!processes.some(existing => existing.name === process.name)) processes.push(process);
+    };
+    const sources = index.fileIndex.filter(file => file.type === 'source' && file.content);
+
+    for (const line of (this.readFile(index, 'Procfile') || '').split('\n')) {
+      const match = line.match(/^([\w-]+):\s*(.+)$/);
+      if (!match) continue;
+      const [, name = '', command = ''] = match;
+      add({
+        name,
+        type: PROCFILE_TYPES[name] || this.getCommandType(command),
+        command: command.trim(),
+        source: 'Procfile',
+      });
+    }
+
+    const pkg = this.readJson(index, 'package.json');
+    for (const script of Object.keys(pkg?.scripts || {})) {
+      if (
+        /^(?:pre|post)|^(?:dev|build|test|lint|watch)\b|:(?:dev|build|test|watch)$/.test(script)
+      ) {
+        continue;
+      }
+      const type = PROCESS_NAME_TYPES.find(candidate => candidate.pattern.test(script))?.type;
+      if (type !== 'worker' && type !== 'cron') continue;
+      add({
+        name: script.replace(/^start:/, ''),
+        type,
+        command: `npm run ${script}`,
+        source: 'package.json',
+      });
+    }
+    const bins: Record<string, string> =
+      typeof pkg?.bin === 'string' ? { [pkg.name || 'cli']: pkg.bin } : pkg?.bin || {};
+    for (const [name, path] of Object.entries(bins)) {
+      add({
+        name: name.replace(/^@[^/]+\//, ''),
+        type: 'cli',
+        entryPoint: posix.normalize(path),
+        source: 'package.json',
+      });
+    }
+
+    for (const file of index.fileIndex) {
+      if (!/(?:^|\/)(?:crontab|[\w-]+\.cron|cron\.d\/[\w.-]+)$/.test(file.path)) continue;
+      for (const line of (file.content || '').split('\n')) {
+        const cron = line.match(/^\s*((?:\S+\s+){4}\S+)\s+(.+)$/);
+        if (!cron || line.trim().startsWith('#') || /^\s*\w+=/.test(line)) continue;
+        const command = (cron[2] || '').trim();
+        const script = command
+          .split(/\s+/)
+          .find(word => /[./]/.test(word) && !word.startsWith('-'));
+        add({
+          name: script
+            ? posix.basename(script).replace(/\.\w+$/, '')
+            : `cron-${processes.length + 1}`,
+          type: 'cron',
+          command,
+          schedule: this.toCronExpression(`"${cron[1]}"`) || cron[1] || '',
+          source: file.path,
+        });
+      }
+    }
+
+    for (const file of sources) {
+      const content = file.content || '';
+      if (file.path.endsWith('.py') && /\bCelery\(/.test(content)) {
+        const module = file.path
+          .replace(/\.py$/, '')
+          .replace(/\/(?:__init__)?$/, '')
+          .replace(/\//g, '.');
+        add({
+          name: 'celery-worker',
+          type: 'worker',
+          command: `celery -A ${module} worker`,
+          source: file.path,
+        });
+        if (sources.some(other => CELERY_BEAT_PATTERN.test(other.content || ''))) {
+          add({
+            name: 'celery-beat',
+            type: 'worker',
+            command: `celery -A ${module} beat`,
+            source: file.path,
+          });
+        }
+      }
+      if (file.path.endsWith('.py') && /^\s*(?:from\s+rq\s+import|import\s+rq\b)/m.test(content)) {
+        add({ name: 'rq-worker', type: 'worker', command: 'rq worker', source: file.path });
+      }
+      if (
+        /\bnew\s+Worker\(|\.process\(\s*(?:["'`][^"'`]+["'`]\s*,\s*)?(?:\d+\s*,\s*)?(?:async\s*)?(?:\(|function|\w+\s*=>)/.test(
+          content
+        ) &&
+        /["'](?:bullmq|bull|bee-queue)["']/.test(content) &&
+        !entryPoints.includes(file.path)
+      ) {
+        add({
+          name: posix.basename(file.path).replace(/\.\w+$/, ''),
+          type: 'worker',
+          entryPoint: file.path,
+          source: file.path,
+        });
+      }
+    }
+    if (/^\s*gem\s+["']sidekiq["']/m.test(this.readFile(index, 'Gemfile') || '')) {
+      add({ name: 'sidekiq', type: 'worker', command: 'bundle exec sidekiq', source: 'Gemfile' });
+    }
+
+    for (const file of sources) {
+      const name = file.path.match(/(?:^|\/)cmd\/([\w.-]+)\/main\.go$/)?.[1];
+      if (!name) continue;
+      const directory = posix.dirname(file.path);
+      const listens = listeners.some(listener =>
+        listener.sources.some(source => this.isWithin(source.file, directory))
+      );
+      const schedule = this.findSchedule([file.content || '']);
+      const type: ProcessInfo['type'] = listens
+        ? 'web'
+        : QUEUE_CONSUMER_PATTERNS.some(pattern => pattern.test(file.content || ''))
+          ? 'worker'
+          : schedule !== undefined
+            ? 'cron'
+            : PROCESS_NAME_TYPES.find(candidate => candidate.pattern.test(name))?.type || 'cli';
+      add({
+        name,
+        type,
+        entryPoint: file.path,
+        ...(type === 'cron' && schedule && { schedule }),
+        source: file.path,
+      });
+    }
+
+    // The `start` script or the service's own entry point, unless a declared process
+    // already covers it
+    const covered = processes.some(
+      process =>
+        (serving ? process.type === 'web' : process.type !== 'release') ||
+        (process.entryPoint !== undefined && entryPoints.includes(process.entryPoint))
+    );
+    const entryPoint = entryPoints[0];
+    const command = pkg?.scripts?.start;
+    if (!covered && (entryPoint || typeof command === 'string')) {
+      const content = entryPoints.map(path => this.readFile(index, path) || '');
+      const schedule = this.findSchedule(content);
+      const type: ProcessInfo['type'] = serving
+        ? 'web'
+        : content.some(text => QUEUE_CONSUMER_PATTERNS.some(pattern => pattern.test(text)))
+          ? 'worker'
+          : schedule !== undefined
+            ? 'cron'
+            : content.some(text => CLI_PATTERN.test(text))
+              ? 'cli'
+              : 'worker';
+      processes.unshift({
+        name: type,
+        type,
+        ...(typeof command === 'string' && { command }),
+        ...(entryPoint && { entryPoint }),
+        ...(type === 'cron' && schedule && { schedule }),
+        source: entryPoint || 'package.json',
+      });
+    }
+    return processes;
+  }
+
+  /**
+   * Workload type of a command line from a Procfile
+   */
+  private getCommandType(command: string): ProcessInfo['type'] {
+    if (/\b(?:celery|sidekiq|rq\s+worker|worker|consumer)\b/.test(command)) return 'worker';
+    if (/\b(?:gunicorn|uvicorn|puma|rails\s+s(?:erver)?|--port|\$PORT)\b|\$PORT/.test(command)) {
+      return 'web';
+    }
+    return 'worker';
+  }
+
+  /**
+   * First schedule declared in the given sources: a cron expression, an empty string
+   * for schedules that are not cron expressions, or undefined when there is none
+   */
+  private findSchedule(contents: string[]): string | undefined {
+    for (const content of contents) {
+      for (const pattern of SCHEDULE_PATTERNS) {
+        for (const match of content.matchAll(pattern)) {
+          return this.toCronExpression(match[1] || '') || '';
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Service type from its processes: anything serving traffic makes it an API
+   */
+  private getServiceType(processes: ProcessInfo[]): ServiceInfo['type'] {
+    const types = new Set(processes.map(process => process.type));
+    if (types.has('web')) return 'api';
+    if (types.has('worker')) return 'worker';
+    if (types.has('cron')) return 'cron';
+    return types.has('cli') ? 'cli' : 'worker';
+  }
+
+  /**
+   * The file run by the package.json `start` script, or else entry points closest to
+   * the project root, so `src/index.ts` wins over `src/routes/index.ts` while every
+   * `cmd/<name>/main.go` is kept
+   */
+  private findEntryPoints(index: CodebaseIndex): string[] {
+    const pkg = this.readJson(index, 'package.json');
+    const start: string = typeof pkg?.scripts?.start === 'string' ? pkg.scripts.start : '';
+    const started = start
+      .split(/\s+/)
+      .filter(word => word && !word.startsWith('-'))
+      .map(word => posix.normalize(word))
+      .find(path => index.fileIndex.some(file => file.path === path));
+    if (started) return [started];
+
+    const main = pkg?.main;
+    const candidates = [
+      ...index.priorityFiles.entryPoints.filter(path => !path.endsWith('lib.rs')),
+      ...index.fileIndex
+        .filter(
+          file =>
+            file.path === 'manage.py' ||
+            (/\.(java|kt|cs)$/.test(file.path) && ENTRY_POINT_CONTENT.test(file.content || ''))
+        )
+        .map(file => file.path),
+    ];
+    if (
+      typeof main === 'string' &&
+      index.fileIndex.some(file => file.path === posix.normalize(main))
+    ) {
+      return [posix.normalize(main)];
+    }
+
+    const depth = (path: string) => path.split('/').length;
+    const shallowest = Math.min(...candidates.map(depth));
+    return [...new Set(candidates.filter(path => depth(path) === shallowest))].sort();
+  }
+
+  /**
+   * View of the index containing only the files under `root`, outside nested
+   * projects, with paths relative to `root`
+   */
+  private scopeIndex(index: CodebaseIndex, root: string, nested: string[]): CodebaseIndex {
+    if (!root && nested.length === 0) return index;
+
+    const include = (path: string) =>
+      this.isWithin(path, root) && !nested.some(other => this.isWithin(path, other));
+    const relative = (path: string) => (root ? path.slice(root.length + 1) : path);
+    const scopePaths = (paths: string[]) => paths.filter(include).map(relative);
+
+    return {
+      ...index,
+      fileIndex: index.fileIndex
+        .filter(file => include(file.path))
+        .map(file => ({ ...file, path: relative(file.path) })),
+      priorityFiles: {
+        packageFiles: scopePaths(index.priorityFiles.packageFiles),
+        configFiles: scopePaths(index.priorityFiles.configFiles),
+        entryPoints: scopePaths(index.priorityFiles.entryPoints),
+        schemas: scopePaths(index.priorityFiles.schemas),
+        dockerFiles: scopePaths(index.priorityFiles.dockerFiles),
+        cicdFiles: scopePaths(index.priorityFiles.cicdFiles),
+      },
+    };
+  }
+
+  /**
+   * Whether a workspace directory matches any of the glob patterns; `!` patterns exclude
+   */
+  private matchesWorkspace(directory: string, patterns: string[]): boolean {
+    const toRegExp = (glob: string) =>
+      new RegExp(
+        `^${glob
+          .replace(/^\.\//, '')
+          .replace(/\/$/, '')
+          .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+          .replace(/\*\*/g, '\u0000')
+          .replace(/\*/g, '[^/]*')
+          .replace(/\u0000/g, '.*')}$`
+      );
+    const included = patterns.some(
+      pattern => !pattern.startsWith('!') && toRegExp(pattern).test(directory)
+    );
+    const excluded = patterns.some(
+      pattern => pattern.startsWith('!') && toRegExp(pattern.slice(1)).test(directory)
+    );
+    return included && !excluded;
+  }
+
+  /**
+   * Package globs from pnpm-workspace.yaml
+   */
+  private readPnpmWorkspace(index: CodebaseIndex): string[] {
+    const content = this.readFile(index, 'pnpm-workspace.yaml') || '';
+    const block = content.match(/^packages:\s*\n((?:\s+-.*\n?|\s*#.*\n?)*)/m)?.[1] || '';
+    return [...block.matchAll(/^\s+-\s*["']?([^"'\s#]+)["']?/gm)].map(match => match[1] || '');
+  }
+
+  /**
+   * Name for a single-project repository from its manifest, falling back to `app`
+   */
+  private getRootName(index: CodebaseIndex): string {
+    const pkg = this.readJson(index, 'package.json')?.name;
+    if (typeof pkg === 'string') return pkg.replace(/^@[^/]+\//, '');
+
+    const module = this.readFile(index, 'go.mod')?.match(/^module\s+(\S+)/m)?.[1];
+    if (module)
+      return (
+        module
+          .replace(/\/v\d+$/, '')
+          .split('/')
+          .pop() || 'app'
+      );
+
+    const cargo = this.readToml(index, 'Cargo.toml')?.package?.name;
+    if (typeof cargo === 'string') return cargo;
+
+    const pyproject = this.readToml(index, 'pyproject.toml');
+    const python = pyproject?.project?.name || pyproject?.tool?.poetry?.name;
+    return typeof python === 'string' ? python : 'app';
+  }
+
+  private isWithin(path: string, root: string): boolean {
+    return root === '' || path === root || path.startsWith(`${root}/`);
+  }
+
+  private readFile(index: CodebaseIndex, path: string): string | undefined {
+    return index.fileIndex.find(file => file.path === path)?.content;
+  }
+
+  /**
+   * Parsed JSON file, or undefined when it is missing or invalid
+   */
+  private readJson(index: CodebaseIndex, path: string): any {
+    const content = this.readFile(index, path);
+    if (!content) return undefined;
+    try {
+      return JSON.parse(content);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Parsed TOML file, or undefined when it is missing or invalid
+   */
+  private readToml(index: CodebaseIndex, path: string): any {
+    const content = this.readFile(index, path);
+    if (!content) return undefined;
+    try {
+      return this.manifestParser.parseToml(content);
+    } catch {
+      return undefined;
+    }
   }
 }
@@ -1,6 +1,12 @@
 import { AST } from '../types/codebase';
 import { FileIndexEntry } from '../types/codebase';
 import { ErrorFactory, ErrorCodes } from '../utils/error-handler';
+import { LanguageParser } from './parsers/language-parser';
+import { PythonParser } from './parsers/python-parser';
+import { GoParser } from './parsers/go-parser';
+import { JavaParser } from './parsers/java-parser';
+import { CSharpParser } from './parsers/csharp-parser';
+import { TypeScriptParser } from './parsers/typescript-parser';
 
 /**
  * Supported programming languages for AST parsing
@@ -97,11 +103,16 @@ export interface ASTNodeInfo {
  */
 export interface SimplifiedAST extends AST {
   language: SupportedLanguage;
+  /**
+   * Go package, Java package or first C# namespace
+   */
+  packageName?: string;
   imports: ImportInfo[];
   exports: ExportInfo[];
   functions: FunctionInfo[];
   classes: ClassInfo[];
   variables: VariableInfo[];
+  calls: CallInfo[];
   dependencies: string[];
   complexity: ComplexityMetrics;
 }
@@ -115,6 +126,7 @@ export interface ImportInfo {
   isDefault: boolean;
   isDynamic: boolean;
   line?: number;
+  column?: number;
 }
 
 /**
@@ -125,6 +137,7 @@ export interface ExportInfo {
   type: 'function' | 'class' | 'variable' | 'default';
   isDefault: boolean;
   line?: number;
+  column?: number;
 }
 
 /**
@@ -137,7 +150,9 @@ export interface FunctionInfo {
   isAsync: boolean;
   isExported: boolean;
   complexity: number;
+  decorators?: string[];
   line?: number;
+  column?: number;
 }
 
 /**
@@ -148,6 +163,7 @@ export interface ParameterInfo {
   type?: string;
   isOptional: boolean;
   defaultValue?: string;
+  decorators?: string[];
 }
 
 /**
@@ -155,12 +171,23 @@ export interface ParameterInfo {
  */
 export interface ClassInfo {
   name: string;
+  kind?:
+    | 'class'
+    | 'interface'
+    | 'struct'
+    | 'enum'
+    | 'record'
+    | 'record struct'
+    | 'annotation'
+    | 'type';
   extends?: string;
   implements: string[];
   methods: FunctionInfo[];
   properties: PropertyInfo[];
   isExported: boolean;
+  decorators?: string[];
   line?: number;
+  column?: number;
 }
 
 /**
@@ -171,7 +198,13 @@ export interface PropertyInfo {
   type?: string;
   isStatic: boolean;
   isPrivate: boolean;
+  decorators?: string[];
+  /**
+   * Go struct tags keyed by tag name, e.g. `{ json: 'id,omitempty' }`
+   */
+  tags?: Record<string, string>;
   line?: number;
+  column?: number;
 }
 
 /**
@@ -183,6 +216,24 @@ export interface VariableInfo {
   isConst: boolean;
   isExported: boolean;
   line?: number;
+  column?: number;
+}
+
+/**
+ * Call on a named function or member chain, e.g. `app.get('/users', list)`
+ */
+export interface CallInfo {
+  callee: string;
+  /**
+   * Source text of each argument
+   */
+  arguments: string[];
+  /**
+   * Variable the call result is assigned to, e.g. `router` in `router = APIRouter()`
+   */
+  assignedTo?: string;
+  line?: number;
+  column?: number;
 }
 
 /**
@@ -201,18 +252,29 @@ export interface ComplexityMetrics {
 export class ASTParser {
   private options: Required<ASTParserOptions>;
   private astCache: Map<string, ASTParsingResult>;
+  private parsers: Partial<Record<SupportedLanguage, LanguageParser>>;
 
   constructor(options?: ASTParserOptions) {
     this.options = {
       maxFiles: 100,
       maxFileSize: 1024 * 1024, // 1MB
-      enabledLanguages: ['javascript', 'typescript', 'python', 'java', 'go'],
+      enabledLanguages: ['javascript', 'typescript', 'python', 'java', 'go', 'csharp'],
       enableCaching: true,
       parseTimeout: 5000, // 5 seconds
       includeDetails: true,
       ...options,
     };
     this.astCache = new Map();
+
+    const typeScriptParser = new TypeScriptParser();
+    this.parsers = {
+      javascript: typeScriptParser,
+      typescript: typeScriptParser,
+      python: new PythonParser(),
+      go: new GoParser(),
+      java: new JavaParser(),
+      csharp: new CSharpParser(),
+    };
   }
 
   /**
@@ -255,7 +317,7 @@ export class ASTParser {
       }
 
       // Parse AST based on language
-      const ast = await this.parseByLanguage(content, detectedLanguage);
+      const ast = await this.parseByLanguage(path, content, detectedLanguage, errors, warnings);
       const nodeCount = this.countNodes(ast);
 
       const result: ASTParsingResult = {
@@ -378,17 +440,21 @@ export class ASTParser {
     const functions = this.extractFunctions(ast, parseResult.language);
     const classes = this.extractClasses(ast, parseResult.language);
     const variables = this.extractVariables(ast, parseResult.language);
+    const calls = this.extractCalls(ast);
     const dependencies = this.extractDependencies(imports);
     const complexity = this.calculateComplexity(ast, content);
+    const packageDeclaration = ast.body.find(node => node.type === 'PackageDeclaration');
 
     return {
       ...ast,
       language: parseResult.language,
+      ...(packageDeclaration && { packageName: packageDeclaration.name }),
       imports,
       exports,
       functions,
       classes,
       variables,
+      calls,
       dependencies,
       complexity,
     };
@@ -436,25 +502,34 @@ export class ASTParser {
   }
 
   /**
-   * Parse AST based on language (simplified implementation)
+   * Parse AST based on language, using a real parser where one is registered and
+   * falling back to line-based heuristics otherwise
    */
-  private async parseByLanguage(content: string, language: SupportedLanguage): Promise<AST> {
-    // This is a simplified implementation
-    // In a real scenario, you would use language-specific parsers like:
-    // - @babel/parser for JavaScript/TypeScript
-    // - ast module for Python
-    // - JavaParser for Java
-    // - go/parser for Go
-    // etc.
+  private async parseByLanguage(
+    path: string,
+    content: string,
+    language: SupportedLanguage,
+    errors: string[],
+    warnings: string[]
+  ): Promise<AST> {
+    const parser = this.parsers[language];
+    if (!parser) {
+      return {
+        type: 'Program',
+        body: this.parseContent(content, language),
+        sourceType: 'module',
+      };
+    }
 
-    const lines = content.split('\n');
-    const ast: AST = {
+    const result = parser.parse(path, content, language);
+    errors.push(...result.errors);
+    warnings.push(...result.warnings);
+
+    return {
       type: 'Program',
-      body: this.parseContent(content, language),
+      body: result.body,
       sourceType: 'module',
     };
-
-    return ast;
   }
 
   /**
@@ -509,10 +584,11 @@ export class ASTParser {
       if (node.type === 'ImportDeclaration') {
         imports.push({
           source: node.source || '',
-          specifiers: [],
-          isDefault: false,
-          isDynamic: false,
+          specifiers: node.specifiers || [],
+          isDefault: node.isDefault || false,
+          isDynamic: node.isDynamic || false,
           line: node.line,
+          column: node.column,
         });
       }
     }
@@ -530,9 +606,10 @@ export class ASTParser {
       if (node.type === 'ExportDeclaration') {
         exports.push({
           name: node.name || 'default',
-          type: 'function',
+          type: node.exportType || 'function',
           isDefault: node.isDefault || false,
           line: node.line,
+          column: node.column,
         });
       }
     }
@@ -548,14 +625,7 @@ export class ASTParser {
 
     for (const node of ast.body) {
       if (node.type === 'FunctionDeclaration') {
-        functions.push({
-          name: node.name || 'anonymous',
-          parameters: [],
-          isAsync: false,
-          isExported: false,
-          complexity: 1,
-          line: node.line,
-        });
+        functions.push(this.toFunctionInfo(node));
       }
     }
 
@@ -572,11 +642,15 @@ export class ASTParser {
       if (node.type === 'ClassDeclaration') {
         classes.push({
           name: node.name || 'Anonymous',
-          implements: [],
-          methods: [],
-          properties: [],
-          isExported: false,
+          kind: node.kind,
+          extends: node.extends,
+          implements: node.implements || [],
+          methods: (node.methods || []).map((method: any) => this.toFunctionInfo(method)),
+          properties: node.properties || [],
+          isExported: node.isExported || false,
+          decorators: node.decorators || [],
           line: node.line,
+          column: node.column,
         });
       }
     }
@@ -594,9 +668,11 @@ export class ASTParser {
       if (node.type === 'VariableDeclaration') {
         variables.push({
           name: node.name || 'unknown',
-          isConst: false,
-          isExported: false,
+          type: node.varType,
+          isConst: node.isConst || false,
+          isExported: node.isExported || false,
           line: node.line,
+          column: node.column,
         });
       }
     }
@@ -604,6 +680,38 @@ export class ASTParser {
     return variables;
   }
 
+  /**
+   * Extract calls from AST
+   */
+  private extractCalls(ast: AST): CallInfo[] {
+    return ast.body
+      .filter(node => node.type === 'CallExpression')
+      .map(node => ({
+        callee: node.callee,
+        arguments: node.arguments || [],
+        ...(node.assignedTo && { assignedTo: node.assignedTo }),
+        line: node.line,
+        column: node.column,
+      }));
+  }
+
+  /**
+   * Convert a function or method node into FunctionInfo
+   */
+  private toFunctionInfo(node: any): FunctionInfo {
+    return {
+      name: node.name || 'anonymous',
+      parameters: node.parameters || [],
+      returnType: node.returnType,
+      isAsync: node.isAsync || false,
+      isExported: node.isExported || false,
+      complexity: node.complexity || 1,
+      decorators: node.decorators || [],
+      line: node.line,
+      column: node.column,
+    };
+  }
+
   /**
    * Extract dependencies from imports
    */
@@ -627,9 +735,15 @@ export class ASTParser {
 
     for (const node of ast.body) {
       if (node.type === 'FunctionDeclaration') {
-        cyclomaticComplexity += 1;
+        cyclomaticComplexity += node.complexity || 1;
         cognitiveComplexity += 1;
       }
+      if (node.type === 'ClassDeclaration') {
+        for (const method of node.methods || []) {
+          cyclomaticComplexity += method.complexity || 1;
+          cognitiveComplexity += 1;
+        }
+      }
     }
 
     const maintainabilityIndex = Math.max(
@@ -1,4 +1,21 @@
-import { CodebaseIndex, DependencyInfo, DependencyGraph } from '../types';
+import { builtinModules } from 'module';
+import { posix } from 'path';
+import {
+  AuthenticationInfo,
+  CacheDependency,
+  CodebaseIndex,
+  DatabaseDependency,
+  DependencyEdge,
+  DependencyInfo,
+  DependencyGraph,
+  DependencyNode,
+  ExternalServiceDependency,
+  FileIndexEntry,
+  MessageQueueDependency,
+} from '../types';
+import { ErrorFactory, ErrorCodes } from '../utils/error-handler';
+import { ASTParser, ImportInfo, SupportedLanguage } from './ast-parser';
+import { DefaultTechStackDetector, TechStackDetector } from './tech-stack-detector';
 
 /**
  * Interface for analyzing dependencies in codebases
@@ -30,42 +47,1641 @@ export interface DependencyAnalyzer {
   detectExternalServices(index: CodebaseIndex): Promise<DependencyInfo['externalServices']>;
 
   /**
-   * Builds a dependency graph of the codebase
+   * Builds a dependency graph of the codebase: file nodes linked by resolved
+   * imports and package nodes for third-party imports, weighted by import count
    */
   buildDependencyGraph(index: CodebaseIndex): Promise<DependencyGraph>;
 }
 
+type DatabaseType = DatabaseDependency['type'];
+
+/**
+ * Driver and ODM packages across ecosystems. Plain Redis clients are left to
+ * cache detection; only Redis data-store libraries count as a database here.
+ */
+const DATABASE_PACKAGES: Array<{ type: DatabaseType; packages: string[] }> = [
+  {
+    type: 'postgresql',
+    packages: [
+      'pg',
+      'pg-promise',
+      'postgres',
+      'psycopg',
+      'psycopg2',
+      'psycopg2-binary',
+      'asyncpg',
+      'org.postgresql:postgresql',
+      'github.com/lib/pq',
+      'github.com/jackc/pgx',
+      'gorm.io/driver/postgres',
+      'tokio-postgres',
+      'Npgsql',
+    ],
+  },
+  {
+    type: 'mysql',
+    packages: [
+      'mysql',
+      'mysql2',
+      'mariadb',
+      'mysqlclient',
+      'pymysql',
+      'aiomysql',
+      'mysql-connector-python',
+      'mysql:mysql-connector-java',
+      'com.mysql:mysql-connector-j',
+      'org.mariadb.jdbc:mariadb-java-client',
+      'github.com/go-sql-driver/mysql',
+      'gorm.io/driver/mysql',
+      'MySql.Data',
+      'MySqlConnector',
+      'Pomelo.EntityFrameworkCore.MySql',
+    ],
+  },
+  {
+    type: 'mongodb',
+    packages: [
+      'mongodb',
+      'mongoose',
+      'pymongo',
+      'motor',
+      'mongoengine',
+      'org.mongodb:mongodb-driver-sync',
+      'org.springframework.boot:spring-boot-starter-data-mongodb',
+      'go.mongodb.org/mongo-driver',
+      'MongoDB.Driver',
+    ],
+  },
+  {
+    type: 'redis',
+    packages: [
+      'redis-om',
+      'org.springframework.boot:spring-boot-starter-data-redis',
+      'org.springframework.data:spring-data-redis',
+    ],
+  },
+  {
+    type: 'sqlite',
+    packages: [
+      'sqlite3',
+      'better-sqlite3',
+      'aiosqlite',
+      'org.xerial:sqlite-jdbc',
+      'github.com/mattn/go-sqlite3',
+      'gorm.io/driver/sqlite',
+      'rusqlite',
+      'Microsoft.Data.Sqlite',
+      'Microsoft.EntityFrameworkCore.Sqlite',
+    ],
+  },
+];
+
+/**
+ * ORM and framework configuration that names the database engine. Capture group 1
+ * holds the engine name, normalised by normalizeDatabaseType. Patterns with
+ * `packages` apply only when one of them is declared or imported by the file.
+ */
+const DATABASE_CONFIG_PATTERNS: Array<{
+  evidence: string;
+  file?: RegExp;
+  packages?: string[];
+  pattern: RegExp;
+}> = [
+  {
+    evidence: 'orm:prisma',
+    file: /\.prisma$/,
+    pattern: /datasource\s+\w+\s*\{[^}]*?provider\s*=\s*"(\w+)"/g,
+  },
+  {
+    evidence: 'orm:typeorm',
+    file: /(^|\/)ormconfig\.(json|js|ts)$|\.(ts|js)$/,
+    packages: ['typeorm', '@nestjs/typeorm'],
+    pattern:
+      /["']?type["']?\s*:\s*["'](postgres|mysql|mariadb|mongodb|sqlite|better-sqlite3|cockroachdb)["']/g,
+  },
+  {
+    evidence: 'orm:sequelize',
+    file: /\.(ts|js|json)$/,
+    packages: ['sequelize', 'sequelize-typescript', '@nestjs/sequelize'],
+    pattern: /["']?dialect["']?\s*:\s*["'](postgres|mysql|mariadb|sqlite)["']/g,
+  },
+  {
+    evidence: 'orm:knex',
+    file: /\.(ts|js)$/,
+    packages: ['knex'],
+    pattern: /client\s*:\s*["'](pg|postgres|postgresql|mysql2?|sqlite3|better-sqlite3)["']/g,
+  },
+  {
+    evidence: 'orm:django',
+    file: /\.py$/,
+    pattern:
+      /["']ENGINE["']\s*:\s*["']django(?:\.contrib\.gis)?\.db\.backends\.(postgresql|postgis|mysql|sqlite3)\w*["']/g,
+  },
+  {
+    evidence: 'orm:hibernate',
+    file: /\.(properties|ya?ml|xml)$/,
+    pattern: /org\.hibernate\.dialect\.(PostgreSQL|PostgresPlus|MySQL|MariaDB|SQLite)\w*Dialect/g,
+  },
+  {
+    evidence: 'config:spring-data-mongodb',
+    file: /\.(properties|ya?ml)$/,
+    pattern: /spring\.data\.(mongodb)\.(?:uri|host|database)/g,
+  },
+  {
+    evidence: 'orm:entity-framework',
+    file: /\.cs$/,
+    pattern: /\.Use(Npgsql|MySql|MySQL|Sqlite)\s*\(/g,
+  },
+];
+
+/**
+ * URLs such as postgresql+psycopg2://, mongodb+srv:// or jdbc:mysql://
+ */
+const DATABASE_URL_PATTERN =
+  /\b(?:jdbc:)?(postgres(?:ql)?|mysql|mariadb|mongodb(?:\+srv)?|sqlite)(?:\+\w+)?:\/\/[^\s'"`<>]*/g;
+
+/**
+ * Example environment files whose values document the expected connection strings
+ */
+const EXAMPLE_ENV_FILE = /(^|\/)\.env\.(example|sample|template|dist|defaults)$/;
+
+/**
+ * Image names of database servers in existing compose files
+ */
+const DATABASE_IMAGES = ['postgres', 'postgis', 'mysql', 'mariadb', 'mongo'];
+
+/**
+ * How a backing service shows up in a codebase
+ */
+interface ClientSignature<T extends string> {
+  type: T;
+  /** Declared packages that identify the client library */
+  packages: string[];
+  /** Source or configuration usages, for clients shipped inside general-purpose SDKs */
+  usages?: RegExp[];
+  /** Source imports of clients whose module names differ from their package names */
+  imports?: RegExp[];
+  /** URL schemes of connection strings */
+  schemes?: string[];
+  /** Image names in existing compose files */
+  images?: string[];
+}
+
+/**
+ * Evidence collected for one signature type
+ */
+interface SignatureMatch {
+  evidence: string[];
+  version?: string;
+  url?: string;
+}
+
+const CACHE_SIGNATURES: Array<ClientSignature<CacheDependency['type']>> = [
+  {
+    type: 'redis',
+    packages: [
+      'redis',
+      'ioredis',
+      '@redis/client',
+      'aioredis',
+      'django-redis',
+      'redis.clients:jedis',
+      'io.lettuce:lettuce-core',
+      'org.springframework.boot:spring-boot-starter-data-redis',
+      'github.com/redis/go-redis',
+      'github.com/go-redis/redis',
+      'github.com/gomodule/redigo',
+      'StackExchange.Redis',
+      'Microsoft.Extensions.Caching.StackExchangeRedis',
+    ],
+    usages: [
+      /["']BACKEND["']\s*:\s*["'](?:django\.core\.cache\.backends\.redis|django_redis)\./,
+      /spring\.cache\.type\s*[=:]\s*redis/,
+      /spring\.(?:data\.)?redis\.(?:host|url)/,
+    ],
+    schemes: ['redis', 'rediss'],
+    images: ['redis', 'valkey', 'redis-stack'],
+  },
+  {
+    type: 'memcached',
+    packages: [
+      'memjs',
+      'memcached',
+      'pymemcache',
+      'python-memcached',
+      'pylibmc',
+      'net.spy:spymemcached',
+      'github.com/bradfitz/gomemcache',
+      'EnyimMemcachedCore',
+    ],
+    usages: [/["']BACKEND["']\s*:\s*["']django\.core\.cache\.backends\.memcached\./],
+    schemes: ['memcached', 'memcache'],
+    images: ['memcached'],
+  },
+  {
+    type: 'in-memory',
+    packages: [
+      'node-cache',
+      'lru-cache',
+      'memory-cache',
+      'cachetools',
+      'com.github.ben-manes.caffeine:caffeine',
+      'org.ehcache:ehcache',
+      'github.com/patrickmn/go-cache',
+      'github.com/dgraph-io/ristretto',
+      'moka',
+      'cached',
+      'Microsoft.Extensions.Caching.Memory',
+    ],
+    usages: [
+      /^\s*@(?:functools\.)?(?:lru_cache|cache)\b/m,
+      /["']BACKEND["']\s*:\s*["']django\.core\.cache\.backends\.locmem\./,
+      /spring\.cache\.type\s*[=:]\s*(?:simple|caffeine)/,
+      /\.AddMemoryCache\s*\(/,
+    ],
+  },
+];
+
+const MESSAGE_QUEUE_SIGNATURES: Array<ClientSignature<MessageQueueDependency['type']>> = [
+  {
+    type: 'rabbitmq',
+    packages: [
+      'amqplib',
+      'amqp-connection-manager',
+      '@golevelup/nestjs-rabbitmq',
+      'pika',
+      'aio-pika',
+      'org.springframework.boot:spring-boot-starter-amqp',
+      'com.rabbitmq:amqp-client',
+      'github.com/rabbitmq/amqp091-go',
+      'github.com/streadway/amqp',
+      'lapin',
+      'RabbitMQ.Client',
+      'MassTransit.RabbitMQ',
+    ],
+    usages: [/spring\.rabbitmq\.(?:host|addresses)/],
+    imports: [
+      /^\s*(?:from|import)\s+(?:pika|aio_pika)\b/m,
+      /^\s*import\s+(?:com\.rabbitmq\.client|org\.springframework\.amqp)\./m,
+      /^\s*using\s+(?:RabbitMQ\.Client|MassTransit)\b/m,
+      /^\s*use\s+lapin\b/m,
+    ],
+    schemes: ['amqp', 'amqps'],
+    images: ['rabbitmq'],
+  },
+  {
+    type: 'kafka',
+    packages: [
+      'kafkajs',
+      'node-rdkafka',
+      '@confluentinc/kafka-javascript',
+      'confluent-kafka',
+      'kafka-python',
+      'aiokafka',
+      'org.springframework.kafka:spring-kafka',
+      'org.apache.kafka:kafka-clients',
+      'github.com/segmentio/kafka-go',
+      'github.com/confluentinc/confluent-kafka-go',
+      'github.com/IBM/sarama',
+      'github.com/Shopify/sarama',
+      'rdkafka',
+      'Confluent.Kafka',
+    ],
+    usages: [/spring\.kafka\.bootstrap-servers/],
+    imports: [
+      /^\s*(?:from|import)\s+(?:kafka|aiokafka|confluent_kafka)\b/m,
+      /^\s*import\s+org\.(?:apache|springframework)\.kafka\./m,
+      /^\s*using\s+Confluent\.Kafka\b/m,
+      /^\s*use\s+rdkafka\b/m,
+    ],
+    images: ['kafka', 'cp-kafka', 'redpanda'],
+  },
+  {
+    type: 'sqs',
+    packages: [
+      '@aws-sdk/client-sqs',
+      'sqs-consumer',
+      'software.amazon.awssdk:sqs',
+      'com.amazonaws:aws-java-sdk-sqs',
+      'io.awspring.cloud:spring-cloud-aws-starter-sqs',
+      'github.com/aws/aws-sdk-go-v2/service/sqs',
+      'aws-sdk-sqs',
+      'AWSSDK.SQS',
+    ],
+    usages: [
+      /boto3\.(?:client|resource)\(\s*["']sqs["']/,
+      /new\s+(?:AWS\.)?SQS\s*\(/,
+      /https:\/\/sqs\.[\w-]+\.amazonaws\.com\//,
+    ],
+    imports: [
+      /^\s*import\s+(?:software\.amazon\.awssdk\.services\.sqs|com\.amazonaws\.services\.sqs|io\.awspring\.cloud\.sqs)\./m,
+      /^\s*using\s+Amazon\.SQS\b/m,
+      /^\s*use\s+aws_sdk_sqs\b/m,
+    ],
+  },
+  {
+    type: 'pubsub',
+    packages: [
+      '@google-cloud/pubsub',
+      'google-cloud-pubsub',
+      'com.google.cloud:google-cloud-pubsub',
+      'com.google.cloud:spring-cloud-gcp-starter-pubsub',
+      'cloud.google.com/go/pubsub',
+      'Google.Cloud.PubSub.V1',
+    ],
+    imports: [
+      /^\s*(?:from|import)\s+google\.cloud(?:\.pubsub\w*|\s+import\s+pubsub\w*)\b/m,
+      /^\s*import\s+com\.google\.cloud\.(?:spring\.)?pubsub\./m,
+      /^\s*using\s+Google\.Cloud\.PubSub\b/m,
+    ],
+  },
+];
+
+/**
+ * Literal topic and queue names in client usages. Capture group 1 is a quoted string,
+ * an array or annotation list of quoted strings, or a bare name.
+ */
+const TOPIC_PATTERNS: Record<MessageQueueDependency['type'], RegExp[]> = {
+  kafka: [
+    /\b[Tt]opics?\s*[:=]\s*(\[[^\]]*\]|\{[^}]*\}|["'][^"']+["'])/g,
+    /\.(?:subscribe|produce)\(\s*(\[[^\]]*\]|["'][^"']+["'])/g,
+    /\bKafkaConsumer\(\s*(["'][^"']+["'])/g,
+    /\b\w*(?:[Tt]emplate|[Pp]roducer)\.send\(\s*(["'][^"']+["'])/g,
+  ],
+  rabbitmq: [
+    /\.(?:assertQueue|checkQueue|sendToQueue|consume|bindQueue)\(\s*(["'][^"']+["'])/g,
+    /\b(?:queues?|routing_key)\s*[:=]\s*(\[[^\]]*\]|\{[^}]*\}|["'][^"']+["'])/g,
+    /\.(?:convertAndSend|QueueDeclare)\(\s*("[^"]+")/g,
+  ],
+  sqs: [
+    /\bQueue(?:Name|Url)\s*[:=]\s*(["'][^"']+["'])/g,
+    /@SqsListener\(\s*(?:value\s*=\s*)?(\{[^}]*\}|"[^"]+")/g,
+    /https:\/\/sqs\.[\w-]+\.amazonaws\.com\/\d+\/([\w.-]+)/g,
+  ],
+  pubsub: [
+    /\.(?:topic|subscription|Topic|Subscription)\(\s*(["'][^"']+["'])/g,
+    /\b(?:topic|subscription)_path\(\s*[^,()]+,\s*(["'][^"']+["'])/g,
+  ],
+};
+
+/**
+ * Well-known SaaS SDKs with the API they call and how they authenticate
+ */
+const EXTERNAL_SERVICE_SDKS: Array<{
+  name: string;
+  endpoint: string;
+  authentication: AuthenticationInfo['type'];
+  /** Prefix of the environment variables holding credentials */
+  envPrefix: string;
+  packages: string[];
+  usages?: RegExp[];
+}> = [
+  {
+    name: 'stripe',
+    endpoint: 'https://api.stripe.com',
+    authentication: 'bearer',
+    envPrefix: 'STRIPE_',
+    packages: ['stripe', 'com.stripe:stripe-java', 'github.com/stripe/stripe-go', 'Stripe.net'],
+  },
+  {
+    name: 'twilio',
+    endpoint: 'https://api.twilio.com',
+    authentication: 'basic',
+    envPrefix: 'TWILIO_',
+    packages: ['twilio', 'com.twilio.sdk:twilio', 'github.com/twilio/twilio-go', 'Twilio'],
+  },
+  {
+    name: 'sendgrid',
+    endpoint: 'https://api.sendgrid.com',
+    authentication: 'bearer',
+    envPrefix: 'SENDGRID_',
+    packages: [
+      '@sendgrid/mail',
+      '@sendgrid/client',
+      'sendgrid',
+      'com.sendgrid:sendgrid-java',
+      'github.com/sendgrid/sendgrid-go',
+      'SendGrid',
+    ],
+  },
+  {
+    name: 'aws-s3',
+    endpoint: 'https://s3.amazonaws.com',
+    authentication: 'api-key',
+    envPrefix: 'AWS_',
+    packages: [
+      '@aws-sdk/client-s3',
+      'software.amazon.awssdk:s3',
+      'com.amazonaws:aws-java-sdk-s3',
+      'github.com/aws/aws-sdk-go-v2/service/s3',
+      'aws-sdk-s3',
+      'AWSSDK.S3',
+    ],
+    usages: [/boto3\.(?:client|resource)\(\s*["']s3["']/, /new\s+(?:AWS\.)?S3\s*\(/],
+  },
+  {
+    name: 'openai',
+    endpoint: 'https://api.openai.com',
+    authentication: 'bearer',
+    envPrefix: 'OPENAI_',
+    packages: ['openai', 'github.com/sashabaranov/go-openai', 'async-openai', 'OpenAI'],
+  },
+  {
+    name: 'anthropic',
+    endpoint: 'https://api.anthropic.com',
+    authentication: 'api-key',
+    envPrefix: 'ANTHROPIC_',
+    packages: ['@anthropic-ai/sdk', 'anthropic'],
+  },
+];
+
+/**
+ * Outbound calls whose first literal argument is a URL or gRPC target. Capture group 1
+ * holds the address.
+ */
+const OUTBOUND_CALL_PATTERNS: Array<{ type: ExternalServiceDependency['type']; pattern: RegExp }> =
+  [
+    {
+      type: 'graphql',
+      pattern:
+        /(?:new\s+(?:GraphQLClient|ApolloClient|HttpLink|GraphQLHttpClient)\s*\(\s*\{?\s*(?:uri\s*:\s*)?|\b(?:uri|url)\s*[:=]\s*|\brequest\(\s*)["'`](https?:\/\/[^"'`\s]*graphql[^"'`\s]*)["'`]/g,
+    },
+    {
+      type: 'grpc',
+      pattern:
+        /\b(?:grpc\.(?:insecure_channel|secure_channel|Dial|DialContext|NewClient)|ManagedChannelBuilder\.forTarget|GrpcChannel\.ForAddress)\(\s*(?:ctx\s*,\s*)?["']([^"']+)["']/g,
+    },
+    {
+      type: 'grpc',
+      pattern: /\bnew\s+[\w.]+Client\(\s*["']([\w.-]+:\d+)["']\s*,\s*(?:grpc\.)?credentials\./g,
+    },
+    {
+      type: 'grpc',
+      pattern: /\bManagedChannelBuilder\.forAddress\(\s*"([^"]+)"\s*,\s*(\d+)/g,
+    },
+    {
+      type: 'websocket',
+      pattern: /["'`](wss?:\/\/[^"'`\s]+)["'`]/g,
+    },
+    {
+      type: 'rest-api',
+      pattern:
+        /\b(?:axios(?:\.(?:get|post|put|patch|delete|request))?|fetch|got|ky|requests\.(?:get|post|put|patch|delete|request|Session)|httpx\.(?:get|post|put|patch|delete|Client|AsyncClient)|http\.(?:Get|Post|Head)|WebClient\.create|getForObject|getForEntity|postForObject|postForEntity|exchange|URI\.create|new\s+Uri)\(\s*(?:["'](?:GET|POST|PUT|PATCH|DELETE)["']\s*,\s*)?["'`](https?:\/\/[^"'`\s]+)["'`]/g,
+    },
+    {
+      type: 'rest-api',
+      pattern:
+        /\b(?:http\.NewRequest(?:WithContext)?\(\s*(?:ctx\s*,\s*)?[\w."]+\s*,\s*)["`](https?:\/\/[^"`\s]+)["`]/g,
+    },
+    {
+      type: 'rest-api',
+      pattern:
+        /\b(?:baseURL|baseUrl|base_url|BaseAddress|prefixUrl)\s*[:=]\s*(?:new\s+Uri\(\s*)?["'`](https?:\/\/[^"'`\s]+)["'`]/g,
+    },
+  ];
+
+/**
+ * Environment variable references in the supported languages, capture group 1 holds the name
+ */
+const ENV_REFERENCE_PATTERN =
+  /(?:process\.env\.|process\.env\[["']|os\.environ(?:\.get\(|\[)\s*["']|os\.getenv\(\s*["']|os\.Getenv\(\s*"|System\.getenv\(\s*"|Environment\.GetEnvironmentVariable\(\s*")([A-Z][A-Z0-9_]*)/g;
+
+/**
+ * Source languages whose imports feed the dependency graph, by file extension
+ */
+const GRAPH_LANGUAGES: Record<string, SupportedLanguage> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  py: 'python',
+  go: 'go',
+  java: 'java',
+  cs: 'csharp',
+};
+
+const PACKAGE_ECOSYSTEMS: Partial<Record<SupportedLanguage, string>> = {
+  typescript: 'npm',
+  javascript: 'npm',
+  python: 'pypi',
+  go: 'go',
+  java: 'maven',
+  csharp: 'nuget',
+};
+
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.mts', '.cts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Standard library modules commonly imported by Python services, which are not
+ * installed packages
+ */
+const PYTHON_STDLIB = new Set([
+  '__future__',
+  'abc',
+  'argparse',
+  'array',
+  'ast',
+  'asyncio',
+  'base64',
+  'binascii',
+  'bisect',
+  'builtins',
+  'bz2',
+  'calendar',
+  'cgi',
+  'cmath',
+  'codecs',
+  'collections',
+  'concurrent',
+  'configparser',
+  'contextlib',
+  'contextvars',
+  'copy',
+  'csv',
+  'ctypes',
+  'dataclasses',
+  'datetime',
+  'decimal',
+  'difflib',
+  'dis',
+  'email',
+  'enum',
+  'errno',
+  'faulthandler',
+  'fcntl',
+  'fnmatch',
+  'fractions',
+  'functools',
+  'gc',
+  'getopt',
+  'getpass',
+  'gettext',
+  'glob',
+  'graphlib',
+  'gzip',
+  'hashlib',
+  'heapq',
+  'hmac',
+  'html',
+  'http',
+  'imaplib',
+  'importlib',
+  'inspect',
+  'io',
+  'ipaddress',
+  'itertools',
+  'json',
+  'keyword',
+  'locale',
+  'logging',
+  'lzma',
+  'mailbox',
+  'math',
+  'mimetypes',
+  'mmap',
+  'multiprocessing',
+  'netrc',
+  'numbers',
+  'operator',
+  'os',
+  'pathlib',
+  'pickle',
+  'pkgutil',
+  'platform',
+  'plistlib',
+  'pprint',
+  'profile',
+  'pstats',
+  'queue',
+  'random',
+  're',
+  'resource',
+  'sched',
+  'secrets',
+  'select',
+  'selectors',
+  'shelve',
+  'shlex',
+  'shutil',
+  'signal',
+  'smtplib',
+  'socket',
+  'socketserver',
+  'sqlite3',
+  'ssl',
+  'stat',
+  'statistics',
+  'string',
+  'struct',
+  'subprocess',
+  'sys',
+  'sysconfig',
+  'tarfile',
+  'tempfile',
+  'textwrap',
+  'threading',
+  'time',
+  'timeit',
+  'tomllib',
+  'traceback',
+  'types',
+  'typing',
+  'unicodedata',
+  'unittest',
+  'urllib',
+  'uuid',
+  'warnings',
+  'weakref',
+  'webbrowser',
+  'wsgiref',
+  'xml',
+  'xmlrpc',
+  'zipfile',
+  'zlib',
+  'zoneinfo',
+]);
+
+/**
+ * A tsconfig or jsconfig `paths` entry, or its `baseUrl` as the `*` pattern, applying
+ * to files under the config's directory
+ */
+interface PathAlias {
+  scope: string;
+  pattern: string;
+  targets: string[];
+}
+
+/**
+ * Module path, root directory and direct requirements of a go.mod
+ */
+interface GoModuleInfo {
+  root: string;
+  path: string;
+  requires: string[];
+}
+
+/**
+ * Lookup tables shared by import resolution across the files of one codebase
+ */
+interface ResolutionContext {
+  paths: Set<string>;
+  aliases: PathAlias[];
+  goModules: GoModuleInfo[];
+  /** C# namespace to the files declaring it */
+  namespaces: Map<string, string[]>;
+}
+
+/**
+ * Where one import points: local files, a third-party package, or neither when a
+ * local-looking import matches no indexed file. Standard library imports resolve to nothing.
+ */
+interface ImportResolution {
+  files: string[];
+  package?: string;
+  unresolved?: boolean;
+}
+
 /**
  * Default implementation of DependencyAnalyzer
  */
 export class DefaultDependencyAnalyzer implements DependencyAnalyzer {
+  private techStackDetector: TechStackDetector;
+  private astParser: ASTParser;
+
+  constructor(techStackDetector?: TechStackDetector, astParser?: ASTParser) {
+    this.techStackDetector = techStackDetector || new DefaultTechStackDetector();
+    this.astParser = astParser || new ASTParser();
+  }
+
   async analyzeDependencies(index: CodebaseIndex): Promise<DependencyInfo> {
     // Implementation will be added in later tasks
     throw new Error('Not implemented yet');
   }
 
   async detectDatabases(index: CodebaseIndex): Promise<DependencyInfo['databases']> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    try {
+      type Detected = DatabaseDependency & { evidence: string[] };
+      const databases = new Map<DatabaseType, Detected>();
+      const record = (type: DatabaseType, evidence: string): Detected => {
+        let database = databases.get(type);
+        if (!database) {
+          database = { type, features: [], evidence: [] };
+          databases.set(type, database);
+        }
+        if (!database.evidence.includes(evidence)) {
+          database.evidence.push(evidence);
+        }
+        return database;
+      };
+
+      const { dependencies } = await this.techStackDetector.detectBuildRequirements(index);
+      for (const dependency of dependencies) {
+        const driver = DATABASE_PACKAGES.find(candidate =>
+          candidate.packages.some(pkg => this.matchesPackage(dependency, pkg))
+        );
+        if (driver) {
+          record(driver.type, `driver:${dependency}`);
+        }
+      }
+
+      for (const file of this.getAnalyzableFiles(index)) {
+        for (const config of DATABASE_CONFIG_PATTERNS) {
+          if (config.file && !config.file.test(file.path)) continue;
+          if (
+            config.packages &&
+            !config.packages.some(
+              pkg =>
+                dependencies.some(dependency => this.matchesPackage(dependency, pkg)) ||
+                this.importsPackage(file.content, pkg)
+            )
+          ) {
+            continue;
+          }
+
+          for (const match of file.content.matchAll(config.pattern)) {
+            const type = this.normalizeDatabaseType(match[1] || '');
+            if (type) {
+              const database = record(type, config.evidence);
+              record(type, `file:${file.path}`);
+              if (/postgis/i.test(match[0]) && !database.features.includes('postgis')) {
+                database.features.push('postgis');
+              }
+            }
+          }
+        }
+
+        const isExampleEnv = EXAMPLE_ENV_FILE.test(file.path);
+        for (const line of file.content.split('\n')) {
+          for (const match of line.matchAll(DATABASE_URL_PATTERN)) {
+            const type = this.normalizeDatabaseType(match[1] || '');
+            if (!type) continue;
+
+            const variable = isExampleEnv ? this.getEnvVariable(line) : undefined;
+            const database = record(type, variable ? `env:${variable}` : `file:${file.path}`);
+            // Documented examples are the connection string the service expects
+            if (isExampleEnv && !database.connectionString) {
+              database.connectionString = match[0];
+            }
+          }
+        }
+
+        for (const image of this.getComposeImages(file)) {
+          const type = DATABASE_IMAGES.includes(image.name)
+            ? this.normalizeDatabaseType(image.name)
+            : undefined;
+          if (!type) continue;
+
+          const database = record(type, `image:${image.reference}`);
+          if (image.version && !database.version) {
+            database.version = image.version;
+          }
+        }
+      }
+
+      return [...databases.values()];
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'analysis', ErrorCodes.DEPENDENCY_ANALYSIS_FAILED);
+    }
   }
 
   async detectCaches(index: CodebaseIndex): Promise<DependencyInfo['caches']> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    try {
+      const matches = await this.matchSignatures(index, CACHE_SIGNATURES);
+
+      return [...matches].map(([type, match]) => this.toDependency(type, match));
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'analysis', ErrorCodes.DEPENDENCY_ANALYSIS_FAILED);
+    }
   }
 
   async detectMessageQueues(index: CodebaseIndex): Promise<DependencyInfo['messageQueues']> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    try {
+      const matches = await this.matchSignatures(index, MESSAGE_QUEUE_SIGNATURES);
+      const files = this.getAnalyzableFiles(index);
+
+      return [...matches].map(([type, match]) => {
+        const queue: MessageQueueDependency = this.toDependency(type, match);
+        const signature = MESSAGE_QUEUE_SIGNATURES.find(candidate => candidate.type === type);
+        const topics = new Set<string>();
+        for (const file of files) {
+          // Topic-shaped calls only count in files that use this broker's client
+          if (!signature || !this.referencesClient(file.content, signature)) continue;
+          for (const pattern of TOPIC_PATTERNS[type]) {
+            for (const usage of file.content.matchAll(pattern)) {
+              this.extractLiterals(usage[1] || '').forEach(topic => topics.add(topic));
+            }
+          }
+        }
+        if (topics.size > 0) {
+          queue.topics = [...topics].sort();
+        }
+        return queue;
+      });
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'analysis', ErrorCodes.DEPENDENCY_ANALYSIS_FAILED);
+    }
   }
 
   async detectExternalServices(index: CodebaseIndex): Promise<DependencyInfo['externalServices']> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    try {
+      const services = new Map<string, ExternalServiceDependency>();
+      const files = this.getAnalyzableFiles(index);
+      const envReferences = [
+        ...new Set(files.flatMap(file => this.getEnvReferences(file.content))),
+      ];
+
+      const { dependencies } = await this.techStackDetector.detectBuildRequirements(index);
+      for (const sdk of EXTERNAL_SERVICE_SDKS) {
+        const declared = dependencies.some(dependency =>
+          sdk.packages.some(pkg => this.matchesPackage(dependency, pkg))
+        );
+        const used = files.some(file => sdk.usages?.some(usage => usage.test(file.content)));
+        if (!declared && !used) continue;
+
+        const credentials = envReferences.filter(name => name.startsWith(sdk.envPrefix));
+        services.set(this.getHost(sdk.endpoint) || sdk.name, {
+          name: sdk.name,
+          type: 'rest-api',
+          endpoint: sdk.endpoint,
+          authentication: {
+            type: sdk.authentication,
+            configuration: credentials.length > 0 ? { envVars: credentials } : {},
+          },
+        });
+      }
+
+      for (const file of files) {
+        for (const { type, pattern } of OUTBOUND_CALL_PATTERNS) {
+          for (const match of file.content.matchAll(pattern)) {
+            const endpoint = this.toEndpoint(type, match[1] || '', match[2]);
+            const host = endpoint && this.getHost(endpoint);
+            if (!endpoint || !host || !this.isExternalHost(host)) continue;
+
+            const key = type === 'rest-api' || type === 'websocket' ? host : `${type}:${host}`;
+            if (services.has(key)) continue;
+
+            const service: ExternalServiceDependency = { name: host, type, endpoint };
+            const authentication = this.inferAuthentication(
+              this.getCallScope(file.content, match.index || 0, file.path)
+            );
+            if (authentication) {
+              service.authentication = authentication;
+            }
+            services.set(key, service);
+          }
+        }
+      }
+
+      return [...services.values()];
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'analysis', ErrorCodes.DEPENDENCY_ANALYSIS_FAILED);
+    }
   }
 
   async buildDependencyGraph(index: CodebaseIndex): Promise<DependencyGraph> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    try {
+      const files = this.getAnalyzableFiles(index).filter(file => this.getGraphLanguage(file.path));
+      const context: ResolutionContext = {
+        paths: new Set(files.map(file => file.path)),
+        aliases: this.getPathAliases(index),
+        goModules: this.getGoModules(index),
+        namespaces: new Map(),
+      };
+
+      const imports = new Map<string, { language: SupportedLanguage; imports: ImportInfo[] }>();
+      for (const file of files) {
+        const language = this.getGraphLanguage(file.path)!;
+        const ast = await this.astParser.createSimplifiedAST(file.path, file.content, language);
+        imports.set(file.path, { language, imports: ast.imports });
+        if (language === 'csharp' && ast.packageName) {
+          const declaring = context.namespaces.get(ast.packageName) || [];
+          declaring.push(file.path);
+          context.namespaces.set(ast.packageName, declaring);
+        }
+      }
+
+      const fileNodes: DependencyNode[] = [];
+      const packageNodes = new Map<string, DependencyNode>();
+      const edges = new Map<string, DependencyEdge>();
+      const addEdge = (from: string, to: string, type: DependencyEdge['type']): void => {
+        const key = `${from}\u0000${to}`;
+        const edge = edges.get(key);
+        if (edge) {
+          edge.weight++;
+        } else {
+          edges.set(key, { from, to, type, weight: 1 });
+        }
+      };
+
+      for (const [path, file] of imports) {
+        const node: DependencyNode = {
+          id: path,
+          type: 'file',
+          name: path,
+          metadata: { language: file.language },
+        };
+        const unresolved: string[] = [];
+
+        for (const imported of file.imports) {
+          const resolution = this.resolveImport(path, file.language, imported, context);
+          for (const target of resolution.files) {
+            if (target !== path) addEdge(path, target, 'import');
+          }
+          if (resolution.package) {
+            const id = `package:${resolution.package}`;
+            if (!packageNodes.has(id)) {
+              packageNodes.set(id, {
+                id,
+                type: 'package',
+                name: resolution.package,
+                metadata: { ecosystem: PACKAGE_ECOSYSTEMS[file.language] },
+              });
+            }
+            addEdge(path, id, 'dependency');
+          }
+          if (resolution.unresolved && !unresolved.includes(imported.source)) {
+            unresolved.push(imported.source);
+          }
+        }
+
+        if (unresolved.length > 0) {
+          node.metadata['unresolvedImports'] = unresolved;
+        }
+        fileNodes.push(node);
+      }
+
+      return {
+        nodes: [
+          ...fileNodes.sort((a, b) => a.id.localeCompare(b.id)),
+          ...[...packageNodes.values()].sort((a, b) => a.id.localeCompare(b.id)),
+        ],
+        edges: [...edges.values()].sort(
+          (a, b) => a.from.localeCompare(b.from) || a.to.localeCompare(b.to)
+        ),
+      };
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'analysis', ErrorCodes.DEPENDENCY_ANALYSIS_FAILED);
+    }
+  }
+
+  /**
+   * Language of a source file whose imports are resolved into the graph
+   */
+  private getGraphLanguage(path: string): SupportedLanguage | undefined {
+    return GRAPH_LANGUAGES[path.split('.').pop()?.toLowerCase() || ''];
+  }
+
+  /**
+   * Resolve one import statement using the conventions of the importing file's language
+   */
+  private resolveImport(
+    from: string,
+    language: SupportedLanguage,
+    imported: ImportInfo,
+    context: ResolutionContext
+  ): ImportResolution {
+    switch (language) {
+      case 'typescript':
+      case 'javascript':
+        return this.resolveScriptImport(from, imported.source, context);
+      case 'python':
+        return this.resolvePythonImport(from, imported, context);
+      case 'go':
+        return this.resolveGoImport(imported.source, context);
+      case 'java':
+        return this.resolveJavaImport(from, imported, context);
+      case 'csharp':
+        return this.resolveCSharpImport(imported.source, context);
+      default:
+        return { files: [] };
+    }
+  }
+
+  /**
+   * Relative specifiers, tsconfig `paths` aliases and `baseUrl` lookups; anything
+   * else that is not a Node.js builtin is an npm package
+   */
+  private resolveScriptImport(
+    from: string,
+    source: string,
+    context: ResolutionContext
+  ): ImportResolution {
+    if (source.startsWith('.') || source.startsWith('/')) {
+      const target = source.startsWith('/')
+        ? source.slice(1)
+        : posix.join(posix.dirname(from), source);
+      const file = this.findScriptFile(target, context.paths);
+      return file ? { files: [file] } : { files: [], unresolved: true };
+    }
+
+    const aliases = context.aliases.filter(
+      alias => alias.scope === '' || from.startsWith(`${alias.scope}/`)
+    );
+    let aliased = false;
+    for (const alias of aliases) {
+      const captured = this.matchAlias(alias.pattern, source);
+      if (captured === undefined) continue;
+      for (const target of alias.targets) {
+        const file = this.findScriptFile(target.replace('*', captured), context.paths);
+        if (file) return { files: [file] };
+      }
+      aliased ||= alias.pattern !== '*';
+    }
+    if (aliased) return { files: [], unresolved: true };
+
+    const segments = source.split('/');
+    if (source.startsWith('node:') || builtinModules.includes(segments[0] || '')) {
+      return { files: [] };
+    }
+    return {
+      files: [],
+      package: source.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0] || source,
+    };
+  }
+
+  /**
+   * Text a tsconfig `paths` pattern captures with its `*`, or undefined when the
+   * specifier does not match
+   */
+  private matchAlias(pattern: string, source: string): string | undefined {
+    const [prefix = '', suffix] = pattern.split('*');
+    if (suffix === undefined) return source === prefix ? '' : undefined;
+    if (!source.startsWith(prefix) || !source.endsWith(suffix)) return undefined;
+    if (source.length < prefix.length + suffix.length) return undefined;
+    return source.slice(prefix.length, source.length - suffix.length);
+  }
+
+  /**
+   * Indexed script for a module path, trying extensions and directory index files.
+   * TypeScript ESM imports name the emitted `.js` file of a `.ts` source.
+   */
+  private findScriptFile(target: string, paths: Set<string>): string | undefined {
+    const base = posix.normalize(target).replace(/\/$/, '');
+    const stem = base.replace(/\.(?:m|c)?jsx?$/, '');
+    return [
+      base,
+      ...SCRIPT_EXTENSIONS.map(extension => `${stem}${extension}`),
+      ...SCRIPT_EXTENSIONS.map(extension => `${base}/index${extension}`),
+    ].find(candidate => paths.has(candidate));
+  }
+
+  /**
+   * Relative and absolute Python imports. `from pkg import name` may name a
+   * submodule or an attribute of the package, so both are tried. Absolute modules
+   * are matched as path suffixes to allow `src/` layouts, preferring the nearest file.
+   */
+  private resolvePythonImport(
+    from: string,
+    imported: ImportInfo,
+    context: ResolutionContext
+  ): ImportResolution {
+    const dots = imported.source.match(/^\.*/)?.[0].length || 0;
+    const module = imported.source.slice(dots).replace(/\./g, '/');
+    let base = module;
+    if (dots > 0) {
+      let directory = posix.dirname(from);
+      for (let level = 1; level < dots; level++) directory = posix.dirname(directory);
+      base = posix.join(directory, module).replace(/^\.$/, '');
+    }
+
+    const find = (modulePath: string): string | undefined =>
+      this.findPythonModule(modulePath, context.paths, from, dots > 0);
+
+    const files = new Set<string>();
+    let attributes = false;
+    for (const specifier of imported.specifiers) {
+      const submodule = specifier === '*' ? undefined : find(posix.join(base, specifier));
+      if (submodule) {
+        files.add(submodule);
+      } else {
+        attributes = true;
+      }
+    }
+    if (attributes || imported.specifiers.length === 0) {
+      const packageFile = base ? find(base) : undefined;
+      if (packageFile) files.add(packageFile);
+    }
+    if (files.size > 0) return { files: [...files] };
+    if (dots > 0) return { files: [], unresolved: true };
+
+    const topLevel = module.split('/')[0] || '';
+    if (PYTHON_STDLIB.has(topLevel)) return { files: [] };
+    const isLocal = [...context.paths].some(
+      path =>
+        path.endsWith('.py') &&
+        (`/${path}`.includes(`/${topLevel}/`) || `/${path}`.endsWith(`/${topLevel}.py`))
+    );
+    return isLocal ? { files: [], unresolved: true } : { files: [], package: topLevel };
+  }
+
+  /**
+   * Indexed file for a Python module path, as a module or a package `__init__.py`
+   */
+  private findPythonModule(
+    module: string,
+    paths: Set<string>,
+    from: string,
+    exact: boolean
+  ): string | undefined {
+    const candidates = [`${module}.py`, `${module}/__init__.py`];
+    if (exact) return candidates.find(candidate => paths.has(candidate));
+
+    const matches = [...paths].filter(path =>
+      candidates.some(candidate => path === candidate || path.endsWith(`/${candidate}`))
+    );
+    return this.pickNearest(from, matches);
+  }
+
+  /**
+   * Local packages of the go.mod whose module path prefixes the import resolve to
+   * every file in the package directory; other imports with a domain are modules,
+   * named by the longest matching requirement
+   */
+  private resolveGoImport(source: string, context: ResolutionContext): ImportResolution {
+    for (const module of context.goModules) {
+      if (source !== module.path && !source.startsWith(`${module.path}/`)) continue;
+
+      const directory = posix.join(module.root || '.', source.slice(module.path.length));
+      const files = [...context.paths].filter(
+        path => path.endsWith('.go') && posix.dirname(path) === directory
+      );
+      return files.length > 0 ? { files } : { files: [], unresolved: true };
+    }
+
+    const [host] = source.split('/');
+    if (!host?.includes('.')) return { files: [] };
+    const required = context.goModules
+      .flatMap(module => module.requires)
+      .filter(path => source === path || source.startsWith(`${path}/`))
+      .sort((a, b) => b.length - a.length)[0];
+    return { files: [], package: required || source.split('/').slice(0, 3).join('/') };
+  }
+
+  /**
+   * Java single-type, static and on-demand imports matched against source paths,
+   * which mirror package names. Unmatched imports outside `java.*` name their
+   * group by the first two package segments.
+   */
+  private resolveJavaImport(
+    from: string,
+    imported: ImportInfo,
+    context: ResolutionContext
+  ): ImportResolution {
+    const segments = imported.source.split('.');
+    const javaFiles = [...context.paths].filter(path => path.endsWith('.java'));
+
+    if (imported.specifiers.includes('*')) {
+      const directory = segments.join('/');
+      const files = javaFiles.filter(path => `/${posix.dirname(path)}`.endsWith(`/${directory}`));
+      if (files.length > 0) return { files };
+    }
+    // Nested types are imported through their outer class
+    for (let length = segments.length; length > 1 && length >= segments.length - 2; length--) {
+      const suffix = `/${segments.slice(0, length).join('/')}.java`;
+      const file = this.pickNearest(
+        from,
+        javaFiles.filter(path => `/${path}`.endsWith(suffix))
+      );
+      if (file) return { files: [file] };
+    }
+
+    if (segments[0] === 'java') return { files: [] };
+    const group = segments.slice(0, 2).join('.');
+    const isLocal = javaFiles.some(path => `/${path}`.includes(`/${group.replace('.', '/')}/`));
+    return isLocal ? { files: [], unresolved: true } : { files: [], package: group };
+  }
+
+  /**
+   * C# using directives resolve to the files declaring the namespace, or the
+   * namespace of an aliased type; `System` namespaces belong to the runtime
+   */
+  private resolveCSharpImport(source: string, context: ResolutionContext): ImportResolution {
+    const namespace = source.split('.').slice(0, -1).join('.');
+    const files = context.namespaces.get(source) || context.namespaces.get(namespace);
+    if (files) return { files };
+
+    const [root] = source.split('.');
+    if (root === 'System') return { files: [] };
+    const isLocal = [...context.namespaces.keys()].some(name => name.split('.')[0] === root);
+    return isLocal
+      ? { files: [], unresolved: true }
+      : { files: [], package: source.split('.').slice(0, 2).join('.') };
+  }
+
+  /**
+   * The candidate sharing the longest directory prefix with the importing file
+   */
+  private pickNearest(from: string, candidates: string[]): string | undefined {
+    const shared = (path: string): number => {
+      const a = path.split('/');
+      const b = from.split('/');
+      let count = 0;
+      while (count < a.length && a[count] === b[count]) count++;
+      return count;
+    };
+    return [...candidates].sort((a, b) => shared(b) - shared(a) || a.length - b.length)[0];
+  }
+
+  /**
+   * `paths` aliases and `baseUrl` from every tsconfig.json and jsconfig.json, most
+   * specific scope first. Configs that are not valid JSON with comments are skipped.
+   */
+  private getPathAliases(index: CodebaseIndex): PathAlias[] {
+    const aliases: PathAlias[] = [];
+
+    for (const file of index.fileIndex) {
+      if (!/(^|\/)[tj]sconfig(?:\.[\w-]+)?\.json$/.test(file.path) || !file.content) continue;
+
+      let config: any;
+      try {
+        config = JSON.parse(
+          file.content
+            .replace(
+              /("(?:[^"\\]|\\.)*")|\/\/[^\n]*|\/\*[\s\S]*?\*\//g,
+              (_match, string) => string || ''
+            )
+            .replace(/,(\s*[}\]])/g, '$1')
+        );
+      } catch {
+        continue;
+      }
+
+      const scope = posix.dirname(file.path).replace(/^\.$/, '');
+      const options = config?.compilerOptions || {};
+      const baseUrl =
+        typeof options.baseUrl === 'string' ? posix.join(scope, options.baseUrl) : undefined;
+      const root = baseUrl ?? scope;
+
+      for (const [pattern, targets] of Object.entries(options.paths || {})) {
+        if (!Array.isArray(targets)) continue;
+        aliases.push({
+          scope,
+          pattern,
+          targets: targets.map(target => posix.join(root, String(target))),
+        });
+      }
+      if (baseUrl !== undefined) {
+        aliases.push({ scope, pattern: '*', targets: [posix.join(baseUrl, '*')] });
+      }
+    }
+
+    // Nested configs win over the root one; within a config, `paths` precede `baseUrl`
+    return aliases.sort(
+      (a, b) =>
+        b.scope.length - a.scope.length || Number(a.pattern === '*') - Number(b.pattern === '*')
+    );
+  }
+
+  /**
+   * Module path and direct requirements of every go.mod
+   */
+  private getGoModules(index: CodebaseIndex): GoModuleInfo[] {
+    return index.fileIndex
+      .filter(file => /(^|\/)go\.mod$/.test(file.path) && file.content)
+      .flatMap(file => {
+        const content = file.content || '';
+        const path = content.match(/^module\s+(\S+)/m)?.[1];
+        if (!path) return [];
+
+        const requires = [
+          ...content.matchAll(/^(?:require\s+|\s+)([\w.-]+\.[\w.-]+\/\S+)\s+v\S+/gm),
+        ].map(match => match[1] || '');
+        return [{ root: posix.dirname(file.path).replace(/^\.$/, ''), path, requires }];
+      });
+  }
+
+  /**
+   * Map engine names used by drivers, ORMs and URLs onto DatabaseDependency types
+   */
+  private normalizeDatabaseType(name: string): DatabaseType | undefined {
+    const lower = name.toLowerCase();
+    if (/^(postgres|pg$|postgis|cockroach|npgsql)/.test(lower)) return 'postgresql';
+    if (/^(mysql|mariadb)/.test(lower)) return 'mysql';
+    if (lower.startsWith('mongo')) return 'mongodb';
+    if (/^(sqlite|better-sqlite)/.test(lower)) return 'sqlite';
+    if (lower.startsWith('redis')) return 'redis';
+    return undefined;
+  }
+
+  /**
+   * Whether source imports or requires the package or one of its sub-paths
+   */
+  private importsPackage(content: string, pkg: string): boolean {
+    const name = pkg.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    return new RegExp(`["'\`]${name}(?:/[^"'\`]*)?["'\`]`).test(content);
+  }
+
+  /**
+   * Whether source imports or otherwise uses one of the signature's clients
+   */
+  private referencesClient<T extends string>(
+    content: string,
+    signature: ClientSignature<T>
+  ): boolean {
+    return (
+      signature.packages.some(pkg => this.importsPackage(content, pkg)) ||
+      [...(signature.imports || []), ...(signature.usages || [])].some(pattern =>
+        pattern.test(content)
+      )
+    );
+  }
+
+  /**
+   * Whether a declared dependency is the package or one of its sub-packages
+   * (Go module sub-paths such as pgx/v5, .NET packages such as Npgsql.EntityFrameworkCore)
+   */
+  private matchesPackage(dependency: string, pkg: string): boolean {
+    return (
+      dependency === pkg ||
+      dependency.toLowerCase() === pkg.toLowerCase() ||
+      dependency.startsWith(`${pkg}/`) ||
+      (/^[A-Z]/.test(pkg) && dependency.startsWith(`${pkg}.`))
+    );
+  }
+
+  /**
+   * Collect evidence for each signature from declared packages, usages, example
+   * connection strings and compose images, in signature order
+   */
+  private async matchSignatures<T extends string>(
+    index: CodebaseIndex,
+    signatures: Array<ClientSignature<T>>
+  ): Promise<Map<T, SignatureMatch>> {
+    const found = new Map<T, SignatureMatch>();
+    const record = (type: T, evidence: string): SignatureMatch => {
+      let match = found.get(type);
+      if (!match) {
+        match = { evidence: [] };
+        found.set(type, match);
+      }
+      if (!match.evidence.includes(evidence)) {
+        match.evidence.push(evidence);
+      }
+      return match;
+    };
+
+    const { dependencies } = await this.techStackDetector.detectBuildRequirements(index);
+    for (const dependency of dependencies) {
+      const signature = signatures.find(candidate =>
+        candidate.packages.some(pkg => this.matchesPackage(dependency, pkg))
+      );
+      if (signature) {
+        record(signature.type, `client:${dependency}`);
+      }
+    }
+
+    for (const file of this.getAnalyzableFiles(index)) {
+      const isExampleEnv = EXAMPLE_ENV_FILE.test(file.path);
+
+      for (const signature of signatures) {
+        if (signature.usages?.some(usage => usage.test(file.content))) {
+          record(signature.type, `file:${file.path}`);
+        }
+
+        if (signature.schemes) {
+          const urlPattern = new RegExp(
+            `\\b(?:${signature.schemes.join('|')}):\\/\\/[^\\s'"\`<>]*`,
+            'g'
+          );
+          for (const line of file.content.split('\n')) {
+            for (const url of line.matchAll(urlPattern)) {
+              const variable = isExampleEnv ? this.getEnvVariable(line) : undefined;
+              const match = record(
+                signature.type,
+                variable ? `env:${variable}` : `file:${file.path}`
+              );
+              if (isExampleEnv && !match.url) {
+                match.url = url[0];
+              }
+            }
+          }
+        }
+
+        for (const image of this.getComposeImages(file)) {
+          if (!signature.images?.includes(image.name)) continue;
+
+          const match = record(signature.type, `image:${image.reference}`);
+          if (image.version && !match.version) {
+            match.version = image.version;
+          }
+        }
+      }
+    }
+
+    // Keep the order of the signature tables rather than discovery order
+    const ordered = new Map<T, SignatureMatch>();
+    for (const signature of signatures) {
+      const match = found.get(signature.type);
+      if (match) ordered.set(signature.type, match);
+    }
+    return ordered;
+  }
+
+  /**
+   * Shape a signature match as a cache or message-queue dependency
+   */
+  private toDependency<T extends string>(
+    type: T,
+    match: SignatureMatch
+  ): { type: T; version?: string; evidence: string[]; configuration: Record<string, any> } {
+    const configuration: Record<string, any> = {};
+    if (match.url) {
+      configuration['url'] = match.url;
+    }
+    return match.version
+      ? { type, version: match.version, evidence: match.evidence, configuration }
+      : { type, evidence: match.evidence, configuration };
+  }
+
+  /**
+   * Normalise a captured address into a URL; gRPC targets have no scheme and
+   * URLs are reduced to their origin, except GraphQL endpoints which keep their path
+   */
+  private toEndpoint(
+    type: ExternalServiceDependency['type'],
+    address: string,
+    port?: string
+  ): string | undefined {
+    if (address.includes('${') || address.includes('{{')) return undefined;
+
+    if (type === 'grpc') {
+      const target = address.replace(/^(?:dns:\/\/\/|https?:\/\/)/, '');
+      return port ? `${target}:${port}` : target;
+    }
+
+    const url = address.match(/^(\w+:\/\/[^/?#]+)([^?#]*)/);
+    if (!url) return undefined;
+    return type === 'graphql' ? `${url[1]}${url[2]}` : url[1];
+  }
+
+  /**
+   * Host name of a URL or host:port target
+   */
+  private getHost(endpoint: string): string | undefined {
+    return endpoint.match(/^(?:\w+:\/\/)?(?:[^@/]*@)?([^/:?#]+)/)?.[1]?.toLowerCase();
+  }
+
+  /**
+   * Whether a host is reachable outside the deployment; loopback, private addresses
+   * and dotless names (other services on the same network) are internal
+   */
+  private isExternalHost(host: string): boolean {
+    if (!host.includes('.') || host === 'localhost' || host.endsWith('.local')) return false;
+    if (host.endsWith('.internal') || host.endsWith('.svc') || host.includes('.svc.')) return false;
+    return !/^(127\.|10\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.|0\.0\.0\.0)/.test(host);
+  }
+
+  /**
+   * Source an outbound call can take its credentials from: the innermost brace block
+   * around it or, in Python, the indented block it sits in. Top-level calls keep
+   * only their own statement.
+   */
+  private getCallScope(content: string, offset: number, path: string): string {
+    const lineStart = content.lastIndexOf('\n', offset - 1) + 1;
+
+    if (path.endsWith('.py')) {
+      const lines = content.split('\n');
+      const callLine = content.slice(0, lineStart).split('\n').length - 1;
+      const indent = (line: string) => line.length - line.trimStart().length;
+      const depth = indent(lines[callLine] || '');
+      if (depth > 0) {
+        const inBlock = (line: string) => line.trim() === '' || indent(line) >= depth;
+        let first = callLine;
+        let last = callLine;
+        while (first > 0 && inBlock(lines[first - 1] || '')) first--;
+        while (last < lines.length - 1 && inBlock(lines[last + 1] || '')) last++;
+        return lines.slice(first, last + 1).join('\n');
+      }
+    } else {
+      let depth = 0;
+      for (let start = offset - 1; start >= 0; start--) {
+        const char = content[start];
+        if (char === '}') depth++;
+        if (char !== '{') continue;
+        if (depth > 0) {
+          depth--;
+          continue;
+        }
+
+        let end = offset;
+        for (let open = 1; end < content.length && open > 0; end++) {
+          if (content[end] === '{') open++;
+          if (content[end] === '}') open--;
+        }
+        return content.slice(start, end);
+      }
+    }
+
+    // The statement ends at the first line break outside brackets
+    let depth = 0;
+    let end = lineStart;
+    for (; end < content.length; end++) {
+      const char = content[end]!;
+      if ('([{'.includes(char)) depth++;
+      if (')]}'.includes(char)) depth--;
+      if (char === '\n' && depth <= 0 && end > offset) break;
+    }
+    return content.slice(lineStart, end);
+  }
+
+  /**
+   * Infer how an outbound call authenticates from the headers and client options
+   * around it
+   */
+  private inferAuthentication(content: string): AuthenticationInfo | undefined {
+    const credentials = this.getEnvReferences(content).filter(name =>
+      /(KEY|TOKEN|SECRET|PASSWORD|CLIENT_ID)/.test(name)
+    );
+    const configuration = (header?: string): Record<string, any> => ({
+      ...(header ? { header } : {}),
+      ...(credentials.length > 0 ? { envVars: credentials } : {}),
+    });
+
+    if (/client_credentials|OAuth2Session|oauth2\.Config|ClientCredentials/i.test(content)) {
+      return { type: 'oauth2', configuration: configuration() };
+    }
+    if (/["'`]?Authorization["'`]?\s*[:=,]\s*(?:f|\$)?["'`]Bearer\s/i.test(content)) {
+      return { type: 'bearer', configuration: configuration('Authorization') };
+    }
+    if (
+      /["'`]Basic\s|HTTPBasicAuth|\bauth\s*=\s*\(|SetBasicAuth\(|\bauth\s*:\s*\{\s*username/.test(
+        content
+      )
+    ) {
+      return { type: 'basic', configuration: configuration('Authorization') };
+    }
+    const apiKeyHeader = content.match(/["'`]((?:x-)?api-?key)["'`]\s*[:=,]/i);
+    if (apiKeyHeader || /[?&]api_?key=/i.test(content)) {
+      return { type: 'api-key', configuration: configuration(apiKeyHeader?.[1]) };
+    }
+    return undefined;
+  }
+
+  /**
+   * Names of environment variables read by a file
+   */
+  private getEnvReferences(content: string): string[] {
+    return [...new Set([...content.matchAll(ENV_REFERENCE_PATTERN)].map(match => match[1] || ''))];
+  }
+
+  /**
+   * Quoted names in a captured argument, or the bare name itself. URLs such as
+   * SQS queue URLs are reduced to their last path segment.
+   */
+  private extractLiterals(argument: string): string[] {
+    const quoted = [...argument.matchAll(/["']([^"']+)["']/g)].map(match => match[1] || '');
+    const names = quoted.length > 0 || /^[[{"']/.test(argument) ? quoted : [argument];
+
+    return names
+      .map(name => (name.includes('://') ? name.split('/').pop() || '' : name))
+      .filter(name => name.length > 0 && !/[${}\s]/.test(name));
+  }
+
+  /**
+   * Images declared in a compose file, with the repository base name and numeric version
+   */
+  private getComposeImages(
+    file: FileIndexEntry & { content: string }
+  ): Array<{ name: string; reference: string; version?: string }> {
+    if (!/(^|\/)(docker-)?compose[\w.-]*\.ya?ml$/.test(file.path)) return [];
+
+    return [...file.content.matchAll(/^\s*image:\s*["']?([^\s"'#]+)/gm)].map(match => {
+      const image = match[1] || '';
+      const tagIndex = image.lastIndexOf(':');
+      const hasTag = tagIndex > image.lastIndexOf('/');
+      const name = (hasTag ? image.slice(0, tagIndex) : image).split('/').pop() || '';
+      const tag = hasTag ? image.slice(tagIndex + 1) : undefined;
+      const version = tag?.match(/^\d+(?:\.\d+)*/)?.[0];
+
+      return {
+        name,
+        reference: tag ? `${name}:${tag}` : name,
+        ...(version ? { version } : {}),
+      };
+    });
+  }
+
+  /**
+   * Variable name assigned on a dotenv line
+   */
+  private getEnvVariable(line: string): string | undefined {
+    return line.match(/^\s*(?:export\s+)?(\w+)\s*=/)?.[1];
+  }
+
+  /**
+   * Indexed files with content that can describe runtime dependencies
+   */
+  private getAnalyzableFiles(index: CodebaseIndex): Array<FileIndexEntry & { content: string }> {
+    return index.fileIndex.filter(
+      (file): file is FileIndexEntry & { content: string } =>
+        file.content !== undefined &&
+        file.type !== 'test' &&
+        file.type !== 'asset' &&
+        file.type !== 'documentation'
+    );
   }
 }
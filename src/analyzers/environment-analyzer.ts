@@ -0,0 +1,226 @@
+import { CodebaseIndex, EnvironmentVariableInfo, FileIndexEntry } from '../types';
+import { ErrorFactory, ErrorCodes } from '../utils/error-handler';
+
+/**
+ * Interface for extracting the environment variables an application reads
+ */
+export interface EnvironmentAnalyzer {
+  /**
+   * Finds every environment variable read in source and configuration files or
+   * documented in example env files, with provenance, defaults and secret classification
+   */
+  extractEnvironmentVariables(index: CodebaseIndex): Promise<EnvironmentVariableInfo[]>;
+
+  /**
+   * Builds RuntimeRequirements.environmentVariables; secrets never carry a value
+   */
+  buildEnvironmentMap(variables: EnvironmentVariableInfo[]): Record<string, string>;
+}
+
+/**
+ * Literal fallbacks after a JavaScript read, e.g. `process.env.PORT ?? 3000`
+ */
+const JS_FALLBACK = /(?:\s*(?:\|\||\?\?)\s*(["'`][^"'`]*["'`]|-?[\d.]+|true|false))?/.source;
+
+/**
+ * Environment reads per language. Capture group 1 holds the variable name and the
+ * optional group 2 a literal fallback.
+ */
+const ENV_READ_PATTERNS: Array<{ file: RegExp; pattern: RegExp }> = [
+  {
+    file: /\.(m|c)?(js|ts)x?$/,
+    pattern: new RegExp(
+      /(?:process\.env|import\.meta\.env)\.([A-Za-z_]\w*)/.source + JS_FALLBACK,
+      'g'
+    ),
+  },
+  {
+    file: /\.(m|c)?(js|ts)x?$/,
+    pattern: new RegExp(/process\.env\[\s*["'`]([^"'`]+)["'`]\s*\]/.source + JS_FALLBACK, 'g'),
+  },
+  {
+    file: /\.py$/,
+    pattern: /os\.environ\[\s*["']([^"']+)["']\s*\]/g,
+  },
+  {
+    file: /\.py$/,
+    pattern:
+      /os\.(?:environ\.get|getenv|environ\.setdefault)\(\s*["']([^"']+)["'](?:\s*,\s*(["'][^"']*["']|-?[\d.]+|True|False|None))?/g,
+  },
+  {
+    file: /\.(java|kt|kts|groovy|scala)$/,
+    pattern: /System\.getenv\(\)\.getOrDefault\(\s*"([^"]+)"\s*,\s*("[^"]*")/g,
+  },
+  {
+    file: /\.(java|kt|kts|groovy|scala)$/,
+    pattern: /System\.getenv\(\s*"([^"]+)"\s*\)/g,
+  },
+  {
+    file: /\.go$/,
+    pattern: /os\.(?:Getenv|LookupEnv)\(\s*"([^"]+)"\s*\)/g,
+  },
+  {
+    file: /\.cs$/,
+    pattern: /Environment\.GetEnvironmentVariable\(\s*"([^"]+)"\s*\)/g,
+  },
+  {
+    file: /\.rs$/,
+    pattern: /\benv::var(?:_os)?\(\s*"([^"]+)"\s*\)(?:\.unwrap_or\(\s*("[^"]*"))?/g,
+  },
+  {
+    // Spring placeholders; lower-case names are properties rather than variables
+    file: /\.(properties|ya?ml|java|kt)$/,
+    pattern: /\$\{([A-Z][A-Z0-9_]*)(?::([^}]*))?\}/g,
+  },
+];
+
+/**
+ * Example environment files that document the expected variables
+ */
+const EXAMPLE_ENV_FILE = /(^|\/)\.env\.(example|sample|template|dist|defaults)$/;
+
+/**
+ * Compose files substitute host variables and are not read by the application
+ */
+const COMPOSE_FILE = /(^|\/)(docker-)?compose[\w.-]*\.ya?ml$/;
+
+/**
+ * Names that hold credentials
+ */
+const SECRET_NAME =
+  /(SECRET|PASSWORD|PASSWD|PASSPHRASE|TOKEN|API_?KEY|PRIVATE_?KEY|ACCESS_?KEY|CREDENTIAL|SIGNING_KEY|ENCRYPTION_KEY|_KEY$|(^|_)DSN$)/i;
+
+/**
+ * Variables bundled into client code are public by definition
+ */
+const PUBLIC_NAME = /^(NEXT_PUBLIC_|NUXT_PUBLIC_|VITE_|REACT_APP_|PUBLIC_)|PUBLISHABLE/i;
+
+/**
+ * Text right before a read that hands the value to a credential option or header
+ */
+const SECRET_USAGE =
+  /(?:(?:password|passwd|secret|token|api_?key|apikey|auth|authorization|credentials?)["']?\s*[:=]\s*[`"']?(?:Bearer\s+|Basic\s+)?(?:\$\{)?|jwt\.(?:sign|verify)\([^,]*,)\s*$/i;
+
+/**
+ * URL values carrying user:password credentials
+ */
+const CREDENTIAL_URL = /^\w[\w+.-]*:\/\/[^/:@\s]+:[^/@\s]+@/;
+
+/**
+ * Default implementation of EnvironmentAnalyzer
+ */
+export class DefaultEnvironmentAnalyzer implements EnvironmentAnalyzer {
+  async extractEnvironmentVariables(index: CodebaseIndex): Promise<EnvironmentVariableInfo[]> {
+    try {
+      const variables = new Map<string, EnvironmentVariableInfo>();
+      const record = (
+        name: string,
+        file: string,
+        line: number,
+        defaultValue: string | undefined,
+        secretUsage: boolean
+      ): void => {
+        let variable = variables.get(name);
+        if (!variable) {
+          variable = { name, secret: false, required: true, sources: [] };
+          variables.set(name, variable);
+        }
+        variable.sources.push({ file, line });
+        if (defaultValue !== undefined && variable.defaultValue === undefined) {
+          variable.defaultValue = defaultValue;
+        }
+        variable.secret ||= secretUsage;
+      };
+
+      const files = index.fileIndex.filter(
+        (file): file is FileIndexEntry & { content: string } =>
+          file.content !== undefined && file.type !== 'test' && file.type !== 'documentation'
+      );
+
+      // Example files go last so defaults in code take precedence over documented values
+      const examples = files.filter(file => EXAMPLE_ENV_FILE.test(file.path));
+      for (const file of files) {
+        if (EXAMPLE_ENV_FILE.test(file.path) || COMPOSE_FILE.test(file.path)) continue;
+
+        const patterns = ENV_READ_PATTERNS.filter(({ file: pattern }) => pattern.test(file.path));
+        if (patterns.length === 0) continue;
+
+        file.content.split('\n').forEach((text, lineIndex) => {
+          for (const { pattern } of patterns) {
+            for (const match of text.matchAll(pattern)) {
+              if (!match[1]) continue;
+
+              record(
+                match[1],
+                file.path,
+                lineIndex + 1,
+                this.unquote(match[2]),
+                SECRET_USAGE.test(text.slice(0, match.index))
+              );
+            }
+          }
+          this.getDestructuredNames(text).forEach(({ name, defaultValue }) =>
+            record(name, file.path, lineIndex + 1, defaultValue, false)
+          );
+        });
+      }
+
+      for (const file of examples) {
+        file.content.split('\n').forEach((text, lineIndex) => {
+          const match = text.match(/^\s*(?:export\s+)?([A-Za-z_]\w*)\s*=\s*(.*)$/);
+          if (!match?.[1]) return;
+
+          const value = this.unquote((match[2] || '').replace(/\s+#.*$/, '').trim());
+          record(match[1], file.path, lineIndex + 1, value || undefined, false);
+        });
+      }
+
+      return [...variables.values()]
+        .map(variable => {
+          variable.required = variable.defaultValue === undefined;
+          variable.secret =
+            !PUBLIC_NAME.test(variable.name) &&
+            (variable.secret ||
+              SECRET_NAME.test(variable.name) ||
+              CREDENTIAL_URL.test(variable.defaultValue || ''));
+          return variable;
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'analysis', ErrorCodes.DEPENDENCY_ANALYSIS_FAILED);
+    }
+  }
+
+  buildEnvironmentMap(variables: EnvironmentVariableInfo[]): Record<string, string> {
+    const environment: Record<string, string> = {};
+    for (const variable of variables) {
+      environment[variable.name] = variable.secret ? '' : variable.defaultValue || '';
+    }
+    return environment;
+  }
+
+  /**
+   * Names destructured from process.env, e.g. `const { PORT = '3000', HOST } = process.env`
+   */
+  private getDestructuredNames(
+    text: string
+  ): Array<{ name: string; defaultValue: string | undefined }> {
+    const match = text.match(/\{([^}]*)\}\s*=\s*process\.env\b/);
+    if (!match?.[1]) return [];
+
+    return match[1]
+      .split(',')
+      .map(part => part.match(/^\s*([A-Za-z_]\w*)(?:\s*:\s*\w+)?(?:\s*=\s*(.+?))?\s*$/))
+      .filter((part): part is RegExpMatchArray => part !== null && part[1] !== undefined)
+      .map(part => ({ name: part[1] || '', defaultValue: this.unquote(part[2]) }));
+  }
+
+  /**
+   * Strip the quotes of a literal; Python None means no default
+   */
+  private unquote(literal: string | undefined): string | undefined {
+    if (literal === undefined || literal === 'None') return undefined;
+    const quoted = literal.match(/^(["'`])(.*)\1$/);
+    return quoted ? quoted[2] : literal;
+  }
+}
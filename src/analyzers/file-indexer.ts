@@ -256,14 +256,24 @@ export class FileIndexer {
     // Detect language
     const language = this.fileUtils.getLanguageFromPath(normalizedPath);
 
-    return {
+    const entry: FileIndexEntry = {
       path: normalizedPath,
       type: fileType,
       size: file.size,
       importance,
-      language,
       lastModified: new Date(), // In a real scenario, this would come from file system
     };
+
+    if (language) {
+      entry.language = language;
+    }
+
+    // Detectors read manifests and sources straight from the index when content is kept
+    if (this.options.includeContent) {
+      entry.content = file.content;
+    }
+
+    return entry;
   }
 
   /**
@@ -377,6 +387,7 @@ export class FileIndexer {
       'requirements.txt',
       'pom.xml',
       'build.gradle',
+      'build.gradle.kts',
       'Cargo.toml',
       'go.mod',
       'composer.json',
@@ -385,8 +396,16 @@ export class FileIndexer {
       'pyproject.toml',
       'Package.swift',
       'pubspec.yaml',
+      'setup.cfg',
+      'Pipfile',
+      'environment.yml',
+      'environment.yaml',
     ];
-    return packageFiles.includes(fileName);
+    return (
+      packageFiles.includes(fileName) ||
+      /^requirements.*\.txt$/.test(fileName) ||
+      /\.(csproj|fsproj|vbproj|sln)$/.test(fileName)
+    );
   }
 
   private isConfigFile(fileName: string): boolean {
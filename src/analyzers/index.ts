@@ -6,3 +6,7 @@ export * from './dependency-analyzer';
 export * from './file-indexer';
 export * from './file-priority-classifier';
 export * from './ast-parser';
+export * from './environment-analyzer';
+export * from './system-dependency-analyzer';
+export * from './network-analyzer';
+export * from './route-analyzer';
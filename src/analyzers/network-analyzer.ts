@@ -0,0 +1,351 @@
+import {
+  CodebaseIndex,
+  FileIndexEntry,
+  ListenerInfo,
+  PortRequirement,
+  SourceLocation,
+} from '../types';
+import { ErrorFactory, ErrorCodes } from '../utils/error-handler';
+import { DefaultEnvironmentAnalyzer, EnvironmentAnalyzer } from './environment-analyzer';
+
+/**
+ * Interface for detecting the ports an application listens on
+ */
+export interface NetworkAnalyzer {
+  /**
+   * Detects listening ports from server code, framework configuration, port
+   * variables and existing EXPOSE instructions
+   */
+  detectListeners(index: CodebaseIndex): Promise<ListenerInfo[]>;
+
+  /**
+   * Builds NetworkRequirements.inbound from detected listeners
+   */
+  buildInboundRequirements(listeners: ListenerInfo[]): PortRequirement[];
+
+  /**
+   * Ports a service exposes to other workloads; debugger ports are left out
+   */
+  getExposedPorts(listeners: ListenerInfo[]): number[];
+}
+
+/**
+ * Listener calls per language. Capture group 1 holds the port expression, which
+ * resolvePort reduces to a literal, a local assignment or an environment default.
+ */
+const LISTENER_PATTERNS: Array<{ file: RegExp; pattern: RegExp }> = [
+  {
+    file: /\.(m|c)?(js|ts)x?$/,
+    pattern: /\.(?:listen|bindAsync)\(\s*(?:\{[^}]*?\bport\s*:\s*)?([^,){}]+)/g,
+  },
+  {
+    file: /\.py$/,
+    pattern: /\.(?:run|run_app)\([^#\n]*?\bport\s*=\s*([^#\n]+)/g,
+  },
+  {
+    file: /\.py$/,
+    pattern: /\.add_(?:in)?secure_port\(\s*([^,)]+)/g,
+  },
+  {
+    file: /\.go$/,
+    pattern:
+      /(?:ListenAndServe(?:TLS)?|\.Run|\.Start|\.Listen|net\.Listen)\(\s*(?:"tcp[46]?"\s*,\s*)?([^,)]+)/g,
+  },
+  {
+    file: /\.go$/,
+    pattern: /\bAddr\s*:\s*([^,}\n]+)/g,
+  },
+  {
+    file: /\.rs$/,
+    pattern: /\bbind(?:_rustls|_openssl)?\(\s*(\(\s*"[^"]*"\s*,\s*\d+\s*\)|"[^"]*"|[\w.:&]+)/g,
+  },
+  {
+    file: /\.rs$/,
+    pattern: /SocketAddr::from\(\(\s*\[[^\]]*\]\s*,\s*(\d+)/g,
+  },
+  {
+    file: /\.cs$/,
+    pattern: /(?:UseUrls|Urls\.Add)\(\s*("[^"]*")/g,
+  },
+  {
+    file: /\.cs$/,
+    pattern: /\bListen(?:AnyIP|Localhost)?\(\s*(\d+)/g,
+  },
+  {
+    file: /\.properties$/,
+    pattern:
+      /^\s*(?:server|quarkus\.http|micronaut\.server|management\.server)\.port\s*[=:]\s*(.+)$/g,
+  },
+  {
+    // Server command lines in Procfiles, package scripts, Dockerfiles and shell scripts
+    file: /(^|\/)(Procfile|Dockerfile[^/]*|package\.json|[^/]+\.(sh|toml|json|ya?ml|cfg|ini))$/,
+    pattern: /(?:--port[=\s]+|--bind[=\s]+["']?[\w.$]*:|-b\s+["']?[\w.]*:)(\$\{?\w+\}?|\d{2,5})/g,
+  },
+];
+
+/**
+ * YAML property paths that configure the server port
+ */
+const YAML_PORT_PROPERTIES = [
+  'server.port',
+  'management.server.port',
+  'quarkus.http.port',
+  'micronaut.server.port',
+];
+
+/**
+ * Variables that set the application's own listening port, as opposed to the
+ * port of a database or other upstream it connects to
+ */
+const PORT_VARIABLE =
+  /^(?:(?:HTTP|HTTPS|SERVER|APP|WEB|API|METRICS|GRPC|ADMIN|HEALTH|MANAGEMENT)_)?PORTS?$|^ASPNETCORE_HTTPS?_PORTS$/;
+
+/**
+ * Ports conventionally used by debuggers and metrics exporters
+ */
+const DEBUG_PORTS = [5005, 9229, 40000];
+const METRICS_PORTS = [9090, 9091, 9100, 9464];
+
+/**
+ * Default implementation of NetworkAnalyzer
+ */
+export class DefaultNetworkAnalyzer implements NetworkAnalyzer {
+  private environmentAnalyzer: EnvironmentAnalyzer;
+
+  constructor(environmentAnalyzer?: EnvironmentAnalyzer) {
+    this.environmentAnalyzer = environmentAnalyzer || new DefaultEnvironmentAnalyzer();
+  }
+
+  async detectListeners(index: CodebaseIndex): Promise<ListenerInfo[]> {
+    try {
+      const variables = await this.environmentAnalyzer.extractEnvironmentVariables(index);
+      const envDefaults = new Map(
+        variables.flatMap(variable =>
+          variable.defaultValue !== undefined ? [[variable.name, variable.defaultValue]] : []
+        )
+      );
+
+      const listeners = new Map<number, ListenerInfo>();
+      const record = (
+        port: number,
+        context: string,
+        source: SourceLocation,
+        envVar?: string,
+        protocol?: PortRequirement['protocol']
+      ): void => {
+        if (!Number.isInteger(port) || port < 1 || port > 65535) return;
+
+        const purpose = this.classifyPurpose(port, `${context} ${envVar || ''}`);
+        let listener = listeners.get(port);
+        if (!listener) {
+          listener = { port, protocol: 'http', purpose, public: false, sources: [] };
+          listeners.set(port, listener);
+        }
+        // A specific purpose from any source wins over the plain HTTP default
+        if (listener.purpose === 'http') {
+          listener.purpose = purpose;
+        }
+        if (protocol && listener.protocol === 'http') {
+          listener.protocol = protocol;
+        }
+        if (envVar && !listener.envVar) {
+          listener.envVar = envVar;
+        }
+        if (
+          !listener.sources.some(
+            existing => existing.file === source.file && existing.line === source.line
+          )
+        ) {
+          listener.sources.push(source);
+        }
+      };
+
+      const files = index.fileIndex.filter(
+        (file): file is FileIndexEntry & { content: string } =>
+          file.content !== undefined && file.type !== 'test' && file.type !== 'documentation'
+      );
+
+      for (const file of files) {
+        const patterns = LISTENER_PATTERNS.filter(({ file: pattern }) => pattern.test(file.path));
+        const usesGrpc = /grpc/i.test(file.content);
+
+        file.content.split('\n').forEach((text, lineIndex) => {
+          const source = { file: file.path, line: lineIndex + 1 };
+
+          for (const { pattern } of patterns) {
+            for (const match of text.matchAll(pattern)) {
+              const resolved = this.resolvePort(match[1] || '', file.content, envDefaults);
+              if (resolved.port === undefined) continue;
+
+              const grpcListener =
+                usesGrpc && /net\.Listen|bindAsync|add_(?:in)?secure_port/.test(text);
+              record(
+                resolved.port,
+                grpcListener ? `${text} grpc` : text,
+                source,
+                resolved.envVar,
+                grpcListener ? 'tcp' : this.inferProtocol(text, resolved.port)
+              );
+            }
+          }
+
+          if (/(^|\/)Dockerfile[^/]*$/.test(file.path)) {
+            const expose = text.match(/^\s*EXPOSE\s+(.+)$/i);
+            for (const token of expose?.[1]?.split(/\s+/) || []) {
+              const [value, transport] = token.split('/');
+              const resolved = this.resolvePort(value || '', file.content, envDefaults);
+              if (resolved.port !== undefined) {
+                record(
+                  resolved.port,
+                  text,
+                  source,
+                  resolved.envVar,
+                  transport === 'udp' ? 'udp' : undefined
+                );
+              }
+            }
+          }
+        });
+
+        if (/(^|\/)(application|bootstrap)[\w-]*\.ya?ml$/.test(file.path)) {
+          for (const property of this.getYamlPortProperties(file.content)) {
+            const resolved = this.resolvePort(property.value, file.content, envDefaults);
+            if (resolved.port !== undefined) {
+              record(
+                resolved.port,
+                property.path,
+                { file: file.path, line: property.line },
+                resolved.envVar
+              );
+            }
+          }
+        }
+      }
+
+      // Port variables with defaults describe listeners even when the listen call is indirect
+      for (const variable of variables) {
+        if (!PORT_VARIABLE.test(variable.name) || variable.defaultValue === undefined) continue;
+        if ([...listeners.values()].some(listener => listener.envVar === variable.name)) continue;
+
+        const port = Number(variable.defaultValue.split(/[;,]/)[0]);
+        variable.sources.forEach(source => record(port, variable.name, source, variable.name));
+      }
+
+      return [...listeners.values()]
+        .map(listener => ({ ...listener, public: this.isPublic(listener) }))
+        .sort((a, b) => a.port - b.port);
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'analysis', ErrorCodes.DEPENDENCY_ANALYSIS_FAILED);
+    }
+  }
+
+  buildInboundRequirements(listeners: ListenerInfo[]): PortRequirement[] {
+    return listeners
+      .filter(listener => listener.purpose !== 'debug')
+      .map(listener => ({
+        port: listener.port,
+        protocol: listener.protocol,
+        public: listener.public,
+      }));
+  }
+
+  getExposedPorts(listeners: ListenerInfo[]): number[] {
+    return listeners
+      .filter(listener => listener.purpose !== 'debug')
+      .map(listener => listener.port);
+  }
+
+  /**
+   * Reduce a port expression to a number, following one local assignment and
+   * falling back to the default of the environment variable it reads
+   */
+  private resolvePort(
+    expression: string,
+    content: string,
+    envDefaults: Map<string, string>,
+    depth = 0
+  ): { port?: number; envVar?: string } {
+    const envVar = expression.match(
+      /(?:process\.env\.|process\.env\[["']|os\.environ(?:\.get\(|\[)\s*["']|os\.getenv\(\s*["']|os\.Getenv\(\s*"|System\.getenv\(\s*"|\$\{?)([A-Z][A-Z0-9_]*)/
+    )?.[1];
+    const literals = [...expression.matchAll(/(?<![\w.])(\d{2,5})(?![\w.])/g)];
+    const literal = literals[literals.length - 1]?.[1];
+
+    if (literal) {
+      return envVar ? { port: Number(literal), envVar } : { port: Number(literal) };
+    }
+    if (envVar) {
+      const fallback = envDefaults.get(envVar)?.match(/^\d{2,5}/)?.[0];
+      return fallback ? { port: Number(fallback), envVar } : {};
+    }
+
+    const identifier = expression.trim().match(/([A-Za-z_]\w*)\s*\)?$/)?.[1];
+    if (!identifier || depth > 0) return {};
+
+    const assignment = content.match(
+      new RegExp(`\\b${identifier}\\b\\s*(?::\\s*[\\w<>|]+\\s*)?:?=\\s*([^;\\n]+)`)
+    );
+    return assignment?.[1] ? this.resolvePort(assignment[1], content, envDefaults, depth + 1) : {};
+  }
+
+  /**
+   * Property paths and values of port settings in a Spring, Quarkus or Micronaut YAML file
+   */
+  private getYamlPortProperties(
+    content: string
+  ): Array<{ path: string; value: string; line: number }> {
+    const properties: Array<{ path: string; value: string; line: number }> = [];
+    const stack: Array<{ indent: number; key: string }> = [];
+
+    content.split('\n').forEach((text, lineIndex) => {
+      const match = text.match(/^(\s*)([\w.-]+)\s*:\s*(.*?)\s*(?:#.*)?$/);
+      if (!match || text.trim().startsWith('#')) return;
+
+      const indent = match[1]?.length || 0;
+      while (stack.length > 0 && (stack[stack.length - 1]?.indent ?? 0) >= indent) {
+        stack.pop();
+      }
+      stack.push({ indent, key: match[2] || '' });
+
+      const path = stack.map(entry => entry.key).join('.');
+      if (YAML_PORT_PROPERTIES.includes(path) && match[3]) {
+        properties.push({ path, value: match[3], line: lineIndex + 1 });
+      }
+    });
+    return properties;
+  }
+
+  /**
+   * What a listener serves, from the code or setting that declares it
+   */
+  private classifyPurpose(port: number, context: string): ListenerInfo['purpose'] {
+    if (/debug|inspect|jdwp|delve|dlv/i.test(context) || DEBUG_PORTS.includes(port)) {
+      return 'debug';
+    }
+    if (/metrics|prometheus|promhttp|actuator|management/i.test(context)) return 'metrics';
+    if (/admin|health/i.test(context)) return 'admin';
+    if (/grpc/i.test(context) || port === 50051) return 'grpc';
+    if (METRICS_PORTS.includes(port)) return 'metrics';
+    return 'http';
+  }
+
+  /**
+   * Transport of a listener; TLS listeners serve https and gRPC runs over plain tcp
+   */
+  private inferProtocol(text: string, port: number): PortRequirement['protocol'] | undefined {
+    if (/ListenAndServeTLS|https:\/\/|bind_rustls|bind_openssl/.test(text) || port === 443) {
+      return 'https';
+    }
+    if (/net\.Listen/.test(text)) return 'tcp';
+    return undefined;
+  }
+
+  /**
+   * Only application HTTP listeners are reachable from outside the cluster
+   */
+  private isPublic(listener: ListenerInfo): boolean {
+    return (
+      listener.purpose === 'http' && (listener.protocol === 'http' || listener.protocol === 'https')
+    );
+  }
+}
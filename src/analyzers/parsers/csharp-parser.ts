@@ -0,0 +1,673 @@
+import type { ParameterInfo, PropertyInfo, SupportedLanguage } from '../ast-parser';
+import {
+  ClassNode,
+  FunctionNode,
+  ImportNode,
+  LanguageNode,
+  LanguageParser,
+  LanguageParseResult,
+} from './language-parser';
+import {
+  SourceToken,
+  SourceTokenizer,
+  countDecisions,
+  findCalls,
+  findClosing,
+  findClosingAngle,
+  findTopLevel,
+  sliceText,
+  splitTopLevel,
+} from './source-tokenizer';
+
+const MODIFIERS = new Set([
+  'public',
+  'protected',
+  'private',
+  'internal',
+  'static',
+  'readonly',
+  'sealed',
+  'abstract',
+  'virtual',
+  'override',
+  'async',
+  'extern',
+  'unsafe',
+  'new',
+  'partial',
+  'const',
+  'volatile',
+  'required',
+  'file',
+  'event',
+  'implicit',
+  'explicit',
+]);
+
+const TYPE_KEYWORDS = new Set(['class', 'struct', 'interface', 'enum', 'record']);
+
+const PARAMETER_MODIFIERS = new Set(['this', 'ref', 'out', 'in', 'params', 'scoped', 'readonly']);
+
+const DECISION_KEYWORDS = new Set(['if', 'for', 'foreach', 'while', 'case', 'catch']);
+
+/**
+ * Modifiers and attributes collected ahead of a declaration
+ */
+interface DeclarationHeader {
+  modifiers: string[];
+  attributes: string[];
+}
+
+/**
+ * C# parser covering namespaces (block and file-scoped), using directives, classes,
+ * structs, interfaces, enums and records with their fields, properties,
+ * constructors, methods and attributes
+ */
+export class CSharpParser implements LanguageParser {
+  private tokenizer = new SourceTokenizer({
+    tripleQuotedStrings: true,
+    prefixedStrings: true,
+    preprocessorDirectives: true,
+  });
+
+  parse(_path: string, content: string, _language: SupportedLanguage): LanguageParseResult {
+    const { tokens, errors } = this.tokenizer.tokenize(content);
+    const body: LanguageNode[] = [];
+    this.visitDeclarations(content, tokens, 0, tokens.length, '', body, errors);
+    body.push(...findCalls(content, tokens));
+    return {
+      body: body.sort((a, b) => a.line - b.line || a.column - b.column),
+      errors,
+      warnings: [],
+    };
+  }
+
+  /**
+   * Compilation unit or namespace body: using directives, namespaces and types.
+   * Top-level statements in programs without a Main method are skipped.
+   */
+  private visitDeclarations(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    end: number,
+    namespace: string,
+    body: LanguageNode[],
+    errors: string[]
+  ): void {
+    let header = this.emptyHeader();
+    let i = start;
+
+    while (i < end) {
+      const token = tokens[i]!;
+
+      if (token.value === 'global' && tokens[i + 1]?.value === 'using') {
+        i++;
+        continue;
+      }
+
+      if (this.isUsingDirective(tokens, i)) {
+        const statementEnd = this.findStatementEnd(tokens, i, end);
+        body.push(this.createUsing(tokens.slice(i, statementEnd)));
+        i = statementEnd + 1;
+        continue;
+      }
+
+      if (token.value === 'namespace') {
+        const open = findTopLevel(tokens, ['{', ';'], i + 1, end);
+        const stop = open === -1 ? end : open;
+        const name = this.joinTokens(tokens.slice(i + 1, stop));
+        const qualified = namespace ? `${namespace}.${name}` : name;
+        body.push({
+          type: 'PackageDeclaration',
+          name: qualified,
+          line: token.line,
+          column: token.column,
+        });
+
+        if (tokens[stop]?.value === '{') {
+          const close = findClosing(tokens, stop);
+          this.visitDeclarations(content, tokens, stop + 1, close, qualified, body, errors);
+          i = close + 1;
+        } else {
+          // File-scoped namespace applies to the rest of the file
+          this.visitDeclarations(content, tokens, stop + 1, end, qualified, body, errors);
+          i = end;
+        }
+        continue;
+      }
+
+      const next = this.readHeader(content, tokens, i, header);
+      if (next !== i) {
+        i = next;
+        continue;
+      }
+
+      if (this.isTypeDeclaration(tokens, i)) {
+        const result = this.visitType(content, tokens, i, end, header, undefined, errors);
+        body.push(...result.nodes);
+        header = this.emptyHeader();
+        i = result.end;
+        continue;
+      }
+
+      if (token.value === 'delegate') {
+        i = this.findStatementEnd(tokens, i, end) + 1;
+      } else {
+        i = this.skipStatement(tokens, i, end);
+      }
+      header = this.emptyHeader();
+    }
+  }
+
+  /**
+   * Distinguish `using System.Text;` from `using var scope = ...;` statements
+   */
+  private isUsingDirective(tokens: SourceToken[], index: number): boolean {
+    if (tokens[index]!.value !== 'using') return false;
+    if (tokens[index + 1]?.value === 'static') return true;
+    return (
+      tokens[index + 1]?.type === 'name' &&
+      ['.', ';', '=', '::'].includes(tokens[index + 2]?.value || '')
+    );
+  }
+
+  /**
+   * `using System.Text;`, `using static System.Math;` or `using Json = System.Text.Json;`
+   */
+  private createUsing(tokens: SourceToken[]): ImportNode {
+    const [keyword] = tokens;
+    const isStatic = tokens[1]?.value === 'static';
+    const rest = tokens.slice(isStatic ? 2 : 1);
+    const equals = rest.findIndex(token => token.value === '=');
+    const source = this.joinTokens(equals === -1 ? rest : rest.slice(equals + 1));
+    const alias = equals === -1 ? undefined : rest[0]?.value;
+
+    return {
+      type: 'ImportDeclaration',
+      source,
+      specifiers: [alias || (isStatic ? source.split('.').pop() || source : '*')],
+      isDefault: false,
+      isDynamic: false,
+      line: keyword!.line,
+      column: keyword!.column,
+    };
+  }
+
+  /**
+   * Consume one attribute section or modifier into `header`, returning the index
+   * after it, or `start` when the token at `start` is neither
+   */
+  private readHeader(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    header: DeclarationHeader
+  ): number {
+    const token = tokens[start]!;
+
+    if (token.value === '[') {
+      const close = findClosing(tokens, start);
+      let from = start + 1;
+      // Attribute targets such as `[return: NotNull]`; assembly attributes are not declarations
+      if (tokens[from + 1]?.value === ':' && tokens[from + 2]?.value !== ':') {
+        if (tokens[from]?.value === 'assembly' || tokens[from]?.value === 'module') {
+          return close + 1;
+        }
+        from += 2;
+      }
+      for (const part of splitTopLevel(tokens.slice(from, close))) {
+        header.attributes.push(sliceText(content, part[0], part[part.length - 1]));
+      }
+      return close + 1;
+    }
+
+    if (MODIFIERS.has(token.value) && tokens[start + 1]?.type === 'name') {
+      header.modifiers.push(token.value);
+      return start + 1;
+    }
+
+    return start;
+  }
+
+  private isTypeDeclaration(tokens: SourceToken[], index: number): boolean {
+    const token = tokens[index]!;
+    return (
+      token.type === 'name' &&
+      TYPE_KEYWORDS.has(token.value) &&
+      (tokens[index + 1]?.type === 'name' ||
+        // `record struct Point` and `record class Person`
+        (token.value === 'record' && tokens[index + 2]?.type === 'name'))
+    );
+  }
+
+  /**
+   * Type declaration starting at its keyword, with nested types returned after it
+   * under qualified names
+   */
+  private visitType(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    end: number,
+    header: DeclarationHeader,
+    outer: string | undefined,
+    errors: string[]
+  ): { nodes: ClassNode[]; end: number } {
+    let nameIndex = start + 1;
+    // The keyword is one of TYPE_KEYWORDS
+    let kind = tokens[start]!.value as NonNullable<ClassNode['kind']>;
+    if (
+      kind === 'record' &&
+      (tokens[nameIndex]?.value === 'struct' || tokens[nameIndex]?.value === 'class')
+    ) {
+      kind = tokens[nameIndex]!.value === 'struct' ? 'record struct' : 'record';
+      nameIndex++;
+    }
+    const name = tokens[nameIndex]!;
+    const qualifiedName = outer ? `${outer}.${name.value}` : name.value;
+
+    const node: ClassNode = {
+      type: 'ClassDeclaration',
+      name: qualifiedName,
+      kind,
+      implements: [],
+      methods: [],
+      properties: [],
+      isExported: header.modifiers.includes('public'),
+      decorators: header.attributes,
+      line: tokens[start]!.line,
+      column: tokens[start]!.column,
+    };
+
+    let index = nameIndex + 1;
+    if (tokens[index]?.value === '<') index = findClosingAngle(tokens, index) + 1;
+
+    // Primary constructor parameters become properties on records
+    if (tokens[index]?.value === '(') {
+      const close = findClosing(tokens, index);
+      if (kind.startsWith('record')) {
+        for (const part of splitTopLevel(tokens.slice(index + 1, close))) {
+          const parameter = this.createParameter(content, part);
+          const property: PropertyInfo = {
+            name: parameter.name,
+            isStatic: false,
+            isPrivate: false,
+            line: part[0]!.line,
+            column: part[0]!.column,
+          };
+          if (parameter.type) property.type = parameter.type;
+          node.properties.push(property);
+        }
+      }
+      index = close + 1;
+    }
+
+    const bodyStart = findTopLevel(tokens, ['{', ';'], index, end);
+    if (bodyStart === -1) {
+      errors.push(
+        `Syntax error at line ${name.line}, column ${name.column}: expected '{' after ${kind} ${name.value}`
+      );
+      return { nodes: [node], end };
+    }
+
+    if (tokens[index]?.value === ':') {
+      const where = tokens.findIndex(
+        (token, i) => i > index && i < bodyStart && token.value === 'where'
+      );
+      const baseEnd = where === -1 ? bodyStart : where;
+      const bases = splitTopLevel(tokens.slice(index + 1, baseEnd)).map(part => {
+        // `Base(args)` passes primary constructor arguments to the base class
+        const paren = part.findIndex(token => token.value === '(');
+        const typeTokens = paren === -1 ? part : part.slice(0, paren);
+        return sliceText(content, typeTokens[0], typeTokens[typeTokens.length - 1]);
+      });
+      this.assignBases(node, bases);
+    }
+
+    if (tokens[bodyStart]!.value === ';') {
+      return { nodes: [node], end: bodyStart + 1 };
+    }
+
+    const close = findClosing(tokens, bodyStart);
+    const nested =
+      kind === 'enum'
+        ? this.visitEnumMembers(content, tokens, bodyStart + 1, close, node)
+        : this.visitMembers(content, tokens, bodyStart + 1, close, node, errors);
+    return { nodes: [node, ...nested], end: close + 1 };
+  }
+
+  /**
+   * C# does not distinguish a base class from interfaces syntactically; the
+   * `IName` convention identifies interfaces
+   */
+  private assignBases(node: ClassNode, bases: string[]): void {
+    for (const base of bases) {
+      const isInterface = /^I\p{Lu}/u.test(base.split('.').pop() || base);
+      if (
+        !isInterface &&
+        node.extends === undefined &&
+        (node.kind === 'class' || node.kind === 'record')
+      ) {
+        node.extends = base;
+      } else {
+        node.implements.push(base);
+      }
+    }
+  }
+
+  private visitEnumMembers(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    end: number,
+    owner: ClassNode
+  ): ClassNode[] {
+    for (const part of splitTopLevel(tokens.slice(start, end))) {
+      const header = this.emptyHeader();
+      let index = 0;
+      while (index < part.length) {
+        const next = this.readHeader(content, part, index, header);
+        if (next === index) break;
+        index = next;
+      }
+      const member = part[index];
+      if (member?.type === 'name') {
+        owner.properties.push({
+          name: member.value,
+          type: owner.name.split('.').pop() || owner.name,
+          isStatic: true,
+          isPrivate: false,
+          decorators: header.attributes,
+          line: member.line,
+          column: member.column,
+        });
+      }
+    }
+    return [];
+  }
+
+  /**
+   * Fields, properties, constructors, methods and nested types in a type body
+   */
+  private visitMembers(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    end: number,
+    owner: ClassNode,
+    errors: string[]
+  ): ClassNode[] {
+    const nested: ClassNode[] = [];
+    const simpleName = owner.name.split('.').pop() || owner.name;
+    let header = this.emptyHeader();
+    let i = start;
+
+    while (i < end) {
+      const token = tokens[i]!;
+
+      const next = this.readHeader(content, tokens, i, header);
+      if (next !== i) {
+        i = next;
+        continue;
+      }
+
+      if (this.isTypeDeclaration(tokens, i)) {
+        const result = this.visitType(content, tokens, i, end, header, owner.name, errors);
+        nested.push(...result.nodes);
+        header = this.emptyHeader();
+        i = result.end;
+        continue;
+      }
+
+      if (token.value === ';') {
+        i++;
+        continue;
+      }
+
+      if (token.value === 'delegate') {
+        i = this.findStatementEnd(tokens, i, end) + 1;
+        header = this.emptyHeader();
+        continue;
+      }
+
+      let stop = findTopLevel(tokens, ['(', '=', ';', '{', '=>'], i, end);
+      // Tuple return types, e.g. `(int Count, string Name) Summarize()`
+      if (stop === i && token.value === '(') {
+        stop = findTopLevel(tokens, ['(', '=', ';', '{', '=>'], findClosing(tokens, i) + 1, end);
+      }
+      if (stop === -1) {
+        errors.push(
+          `Syntax error at line ${token.line}, column ${token.column}: unexpected '${token.value}'`
+        );
+        break;
+      }
+
+      const stopValue = tokens[stop]!.value;
+      if (stopValue === '(' && !header.modifiers.includes('event')) {
+        i = this.visitMethod(content, tokens, i, stop, end, header, owner, simpleName);
+      } else if (stopValue === '{' || stopValue === '=>') {
+        i = this.visitProperty(content, tokens, i, stop, end, header, owner);
+      } else {
+        i = this.visitFields(content, tokens, i, end, header, owner);
+      }
+      header = this.emptyHeader();
+    }
+
+    return nested;
+  }
+
+  private visitMethod(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    open: number,
+    end: number,
+    header: DeclarationHeader,
+    owner: ClassNode,
+    simpleName: string
+  ): number {
+    // Generic methods: the name precedes the type parameter list
+    let nameIndex = open - 1;
+    if (tokens[nameIndex]?.value === '>') nameIndex = this.findOpeningAngle(tokens, nameIndex) - 1;
+    const nameToken = tokens[nameIndex]!;
+
+    let name = nameToken.value;
+    let typeEnd = nameIndex - 1;
+    if (tokens[nameIndex - 1]?.value === 'operator') {
+      name = `operator ${this.joinTokens(tokens.slice(nameIndex, open))}`;
+      typeEnd = nameIndex - 2;
+    } else if (tokens[nameIndex - 1]?.value === '~') {
+      name = `~${name}`;
+      typeEnd = nameIndex - 2;
+    } else if (name === simpleName && typeEnd < start) {
+      name = 'constructor';
+    }
+
+    const close = findClosing(tokens, open);
+    const bodyStart = findTopLevel(tokens, ['{', '=>', ';'], close + 1, end);
+    const bodyValue = bodyStart === -1 ? ';' : tokens[bodyStart]!.value;
+    const bodyEnd =
+      bodyValue === '{'
+        ? findClosing(tokens, bodyStart)
+        : bodyValue === '=>'
+          ? this.findStatementEnd(tokens, bodyStart, end)
+          : bodyStart;
+
+    const node: FunctionNode = {
+      type: 'FunctionDeclaration',
+      name,
+      parameters: splitTopLevel(tokens.slice(open + 1, close)).map(part =>
+        this.createParameter(content, part)
+      ),
+      isAsync: header.modifiers.includes('async'),
+      isExported: header.modifiers.includes('public') || owner.kind === 'interface',
+      complexity:
+        bodyValue === ';' ? 1 : countDecisions(tokens, DECISION_KEYWORDS, bodyStart, bodyEnd),
+      decorators: header.attributes,
+      line: nameToken.line,
+      column: nameToken.column,
+    };
+    if (typeEnd >= start) {
+      node.returnType = sliceText(content, tokens[start], tokens[typeEnd]);
+    }
+    owner.methods.push(node);
+
+    return bodyEnd === -1 ? end : bodyEnd + 1;
+  }
+
+  /**
+   * `public string Name { get; init; } = "";`, `int Count => items.Count;` or an indexer
+   */
+  private visitProperty(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    stop: number,
+    end: number,
+    header: DeclarationHeader,
+    owner: ClassNode
+  ): number {
+    let nameIndex = stop - 1;
+    // Indexers: `this[int index]`
+    if (tokens[nameIndex]?.value === ']')
+      nameIndex = this.findOpeningBracket(tokens, nameIndex) - 1;
+    const name = tokens[nameIndex]!;
+
+    const property: PropertyInfo = {
+      name: name.value,
+      isStatic: header.modifiers.includes('static') || header.modifiers.includes('const'),
+      isPrivate: !header.modifiers.some(modifier =>
+        ['public', 'protected', 'internal'].includes(modifier)
+      ),
+      decorators: header.attributes,
+      line: name.line,
+      column: name.column,
+    };
+    if (nameIndex > start) property.type = sliceText(content, tokens[start], tokens[nameIndex - 1]);
+    if (owner.kind === 'interface') property.isPrivate = false;
+    owner.properties.push(property);
+
+    if (tokens[stop]!.value === '=>') {
+      return this.findStatementEnd(tokens, stop, end) + 1;
+    }
+    const close = findClosing(tokens, stop);
+    return tokens[close + 1]?.value === '='
+      ? this.findStatementEnd(tokens, close + 1, end) + 1
+      : close + 1;
+  }
+
+  /**
+   * `private readonly ILogger<Foo> _logger, _other;` or `public event EventHandler Changed;`
+   */
+  private visitFields(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    end: number,
+    header: DeclarationHeader,
+    owner: ClassNode
+  ): number {
+    const statementEnd = this.findStatementEnd(tokens, start, end);
+    let type: string | undefined;
+
+    splitTopLevel(tokens.slice(start, statementEnd)).forEach((part, index) => {
+      const equals = findTopLevel(part, ['=']);
+      const declaration = equals === -1 ? part : part.slice(0, equals);
+      const name = declaration[declaration.length - 1];
+      if (name?.type !== 'name') return;
+
+      if (index === 0 && declaration.length > 1) {
+        type = sliceText(content, declaration[0], declaration[declaration.length - 2]);
+      }
+      const property: PropertyInfo = {
+        name: name.value,
+        isStatic: header.modifiers.includes('static') || header.modifiers.includes('const'),
+        isPrivate: !header.modifiers.some(modifier =>
+          ['public', 'protected', 'internal'].includes(modifier)
+        ),
+        decorators: header.attributes,
+        line: name.line,
+        column: name.column,
+      };
+      if (type) property.type = type;
+      owner.properties.push(property);
+    });
+
+    return statementEnd + 1;
+  }
+
+  /**
+   * `[FromBody] CreateOrder request`, `params string[] args` or `int take = 20`
+   */
+  private createParameter(content: string, part: SourceToken[]): ParameterInfo {
+    const header = this.emptyHeader();
+    let index = 0;
+    while (part[index]?.value === '[') {
+      index = this.readHeader(content, part, index, header);
+    }
+
+    const modifiers: string[] = [];
+    while (PARAMETER_MODIFIERS.has(part[index]?.value || '') && part[index + 1]?.type === 'name') {
+      modifiers.push(part[index]!.value);
+      index++;
+    }
+
+    const equals = findTopLevel(part, ['='], index);
+    const declaration = part.slice(index, equals === -1 ? part.length : equals);
+    const name = declaration[declaration.length - 1];
+    const parameter: ParameterInfo = {
+      name: name?.value || '',
+      isOptional: equals !== -1 || modifiers.includes('params'),
+    };
+    if (declaration.length > 1) {
+      parameter.type = sliceText(content, declaration[0], declaration[declaration.length - 2]);
+    }
+    if (equals !== -1) {
+      parameter.defaultValue = sliceText(content, part[equals + 1], part[part.length - 1]);
+    }
+    if (header.attributes.length > 0) parameter.decorators = header.attributes;
+    return parameter;
+  }
+
+  /**
+   * Skip a top-level statement or block, returning the index after it
+   */
+  private skipStatement(tokens: SourceToken[], start: number, end: number): number {
+    const stop = findTopLevel(tokens, [';', '{'], start, end);
+    if (stop === -1) return end;
+    if (tokens[stop]!.value === ';') return stop + 1;
+    return findClosing(tokens, stop) + 1;
+  }
+
+  private findStatementEnd(tokens: SourceToken[], start: number, end: number): number {
+    const stop = findTopLevel(tokens, [';'], start, end);
+    return stop === -1 ? end : stop;
+  }
+
+  private findOpeningAngle(tokens: SourceToken[], close: number): number {
+    let depth = 0;
+    for (let i = close; i >= 0; i--) {
+      if (tokens[i]!.value === '>') depth++;
+      if (tokens[i]!.value === '<' && --depth === 0) return i;
+    }
+    return close;
+  }
+
+  private findOpeningBracket(tokens: SourceToken[], close: number): number {
+    let depth = 0;
+    for (let i = close; i >= 0; i--) {
+      if (tokens[i]!.value === ']') depth++;
+      if (tokens[i]!.value === '[' && --depth === 0) return i;
+    }
+    return close;
+  }
+
+  private joinTokens(tokens: SourceToken[]): string {
+    return tokens.map(token => token.value).join('');
+  }
+
+  private emptyHeader(): DeclarationHeader {
+    return { modifiers: [], attributes: [] };
+  }
+}
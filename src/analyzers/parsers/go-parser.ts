@@ -0,0 +1,434 @@
+import type { ParameterInfo, PropertyInfo, SupportedLanguage } from '../ast-parser';
+import {
+  ClassNode,
+  FunctionNode,
+  ImportNode,
+  LanguageNode,
+  LanguageParser,
+  LanguageParseResult,
+  VariableNode,
+} from './language-parser';
+import {
+  SourceToken,
+  SourceTokenizer,
+  countDecisions,
+  findCalls,
+  findClosing,
+  findTopLevel,
+  sliceText,
+  splitTopLevel,
+} from './source-tokenizer';
+
+const DECISION_KEYWORDS = new Set(['if', 'for', 'case']);
+
+/**
+ * Go parser covering the package clause, imports, functions, methods (attached to
+ * their receiver type), struct and interface types with struct tags, and
+ * package-level variables and constants
+ */
+export class GoParser implements LanguageParser {
+  private tokenizer = new SourceTokenizer({ backtickStrings: true });
+
+  parse(_path: string, content: string, _language: SupportedLanguage): LanguageParseResult {
+    const { tokens, errors } = this.tokenizer.tokenize(content);
+    const body: LanguageNode[] = [];
+    const methods: Array<{ receiver: string; node: FunctionNode }> = [];
+    let i = 0;
+
+    if (tokens[0]?.value !== 'package' && tokens.length > 0) {
+      const [first] = tokens;
+      errors.push(
+        `Syntax error at line ${first!.line}, column ${first!.column}: expected 'package' clause`
+      );
+    }
+
+    while (i < tokens.length) {
+      const token = tokens[i]!;
+
+      switch (token.value) {
+        case 'package':
+          body.push({
+            type: 'PackageDeclaration',
+            name: tokens[i + 1]?.value || '',
+            line: token.line,
+            column: token.column,
+          });
+          i += 2;
+          break;
+
+        case 'import':
+          i = this.visitGroup(tokens, i, spec => body.push(this.createImport(spec, token)));
+          break;
+
+        case 'type':
+          i = this.visitGroup(tokens, i, spec => {
+            const node = this.createType(content, spec);
+            if (node) body.push(node);
+          });
+          break;
+
+        case 'var':
+        case 'const':
+          i = this.visitGroup(tokens, i, spec =>
+            body.push(...this.createVariables(content, spec, token.value === 'const'))
+          );
+          break;
+
+        case 'func': {
+          const end = this.findDeclarationEnd(tokens, i);
+          const result = this.createFunction(content, tokens.slice(i, end), errors);
+          if (result?.receiver) {
+            methods.push({ receiver: result.receiver, node: result.node });
+          } else if (result) {
+            body.push(result.node);
+          }
+          i = end;
+          break;
+        }
+
+        default:
+          i++;
+      }
+    }
+
+    for (const { receiver, node } of methods) {
+      const owner = body.find(
+        (candidate): candidate is ClassNode =>
+          candidate.type === 'ClassDeclaration' && candidate.name === receiver
+      );
+      if (owner) {
+        owner.methods.push(node);
+      } else {
+        // Receiver declared in another file of the package
+        body.push({ ...node, name: `${receiver}.${node.name}` });
+      }
+    }
+    body.push(...findCalls(content, tokens));
+
+    return {
+      body: body.sort((a, b) => a.line - b.line || a.column - b.column),
+      errors,
+      warnings: [],
+    };
+  }
+
+  /**
+   * Visit a single spec or a parenthesized group of specs after `import`, `type`,
+   * `var` or `const`, returning the index after the declaration
+   */
+  private visitGroup(
+    tokens: SourceToken[],
+    start: number,
+    visit: (spec: SourceToken[]) => void
+  ): number {
+    if (tokens[start + 1]?.value === '(') {
+      const close = findClosing(tokens, start + 1);
+      for (const spec of this.splitLines(tokens.slice(start + 2, close))) {
+        visit(spec);
+      }
+      return close + 1;
+    }
+
+    const end = this.findDeclarationEnd(tokens, start);
+    visit(tokens.slice(start + 1, end));
+    return end;
+  }
+
+  /**
+   * Go ends declarations at line breaks outside brackets
+   */
+  private findDeclarationEnd(tokens: SourceToken[], start: number): number {
+    let depth = 0;
+    for (let i = start; i < tokens.length; i++) {
+      const token = tokens[i]!;
+      if (token.type === 'op' && '([{'.includes(token.value)) depth++;
+      if (token.type === 'op' && ')]}'.includes(token.value)) depth--;
+      if (depth === 0 && token.value === ';') return i + 1;
+
+      const next = tokens[i + 1];
+      if (depth === 0 && next && next.line !== this.lastLine(token) && !this.continuesLine(token)) {
+        return i + 1;
+      }
+    }
+    return tokens.length;
+  }
+
+  /**
+   * Split a declaration group into specs on line breaks and semicolons outside brackets
+   */
+  private splitLines(tokens: SourceToken[]): SourceToken[][] {
+    const specs: SourceToken[][] = [];
+    let i = 0;
+    while (i < tokens.length) {
+      const end = this.findDeclarationEnd(tokens, i);
+      const spec = tokens.slice(i, end).filter(token => token.value !== ';');
+      if (spec.length > 0) specs.push(spec);
+      i = end;
+    }
+    return specs;
+  }
+
+  /**
+   * Tokens after which Go does not insert a semicolon at a line break
+   */
+  private continuesLine(token: SourceToken): boolean {
+    return token.type === 'op' && ![')', ']', '}', '++', '--'].includes(token.value);
+  }
+
+  private lastLine(token: SourceToken): number {
+    return token.line + (token.value.match(/\n/g)?.length || 0);
+  }
+
+  /**
+   * `"fmt"`, `h "net/http"`, `_ "embed"` or `. "math"`
+   */
+  private createImport(spec: SourceToken[], keyword: SourceToken): ImportNode {
+    const path = spec.find(token => token.type === 'string');
+    const source = path ? path.value.slice(1, -1) : '';
+    const alias = spec[0] !== path ? spec[0]?.value : undefined;
+    const position = spec[0] || keyword;
+
+    return {
+      type: 'ImportDeclaration',
+      source,
+      specifiers: [alias || source.split('/').pop() || source],
+      isDefault: false,
+      isDynamic: false,
+      line: position.line,
+      column: position.column,
+    };
+  }
+
+  /**
+   * `Name struct {...}`, `Name interface {...}`, `Name = Other` or `Name[T any] Base`
+   */
+  private createType(content: string, spec: SourceToken[]): ClassNode | undefined {
+    const name = spec[0];
+    if (name?.type !== 'name') return undefined;
+
+    let index = 1;
+    if (spec[index]?.value === '[') index = findClosing(spec, index) + 1;
+    if (spec[index]?.value === '=') index++;
+
+    const kind = spec[index]?.value;
+    const node: ClassNode = {
+      type: 'ClassDeclaration',
+      name: name.value,
+      kind: kind === 'struct' || kind === 'interface' ? kind : 'type',
+      implements: [],
+      methods: [],
+      properties: [],
+      isExported: this.isExported(name.value),
+      decorators: [],
+      line: name.line,
+      column: name.column,
+    };
+
+    if (kind === 'struct' && spec[index + 1]?.value === '{') {
+      const close = findClosing(spec, index + 1);
+      for (const field of this.splitLines(spec.slice(index + 2, close))) {
+        node.properties.push(...this.createFields(content, field));
+      }
+    } else if (kind === 'interface' && spec[index + 1]?.value === '{') {
+      const close = findClosing(spec, index + 1);
+      for (const member of this.splitLines(spec.slice(index + 2, close))) {
+        if (member[1]?.value === '(') {
+          node.methods.push(this.createSignature(content, member, 0, undefined).node);
+        } else {
+          // Embedded interface or type constraint
+          node.implements.push(sliceText(content, member[0], member[member.length - 1]));
+        }
+      }
+    } else if (spec[index]) {
+      node.extends = sliceText(content, spec[index], spec[spec.length - 1]);
+    }
+
+    return node;
+  }
+
+  /**
+   * Struct fields, e.g. `ID, ParentID int64 \`json:"id"\`` or an embedded `*Base`
+   */
+  private createFields(content: string, field: SourceToken[]): PropertyInfo[] {
+    const tagToken =
+      field[field.length - 1]?.type === 'string' ? field[field.length - 1] : undefined;
+    const declaration = tagToken ? field.slice(0, -1) : field;
+    const tags = tagToken ? this.parseTags(tagToken.value) : undefined;
+
+    const [first, second] = declaration;
+    if (!first) return [];
+
+    // Embedded fields are named after their type: `Base`, `*Base` or `pkg.Base`
+    const isEmbedded = declaration.length === 1 || first.value === '*' || second?.value === '.';
+    const names = isEmbedded
+      ? [declaration[declaration.length - 1]!]
+      : this.leadingNames(declaration);
+    const typeTokens = isEmbedded ? declaration : declaration.slice(names.length * 2 - 1);
+    const type = sliceText(content, typeTokens[0], typeTokens[typeTokens.length - 1]);
+
+    return names.map(name => {
+      const property: PropertyInfo = {
+        name: name.value,
+        type,
+        isStatic: false,
+        isPrivate: !this.isExported(name.value),
+        line: name.line,
+        column: isEmbedded ? first.column : name.column,
+      };
+      if (tags) property.tags = tags;
+      return property;
+    });
+  }
+
+  /**
+   * Comma-separated names at the start of a declaration, e.g. `a, b` in `a, b int`
+   */
+  private leadingNames(tokens: SourceToken[]): SourceToken[] {
+    const names: SourceToken[] = [];
+    for (let i = 0; tokens[i]?.type === 'name'; i += 2) {
+      names.push(tokens[i]!);
+      if (tokens[i + 1]?.value !== ',') break;
+    }
+    return names;
+  }
+
+  /**
+   * Parse a struct tag such as `json:"name,omitempty" db:"name"`
+   */
+  private parseTags(literal: string): Record<string, string> {
+    const raw = literal.startsWith('`')
+      ? literal.slice(1, -1)
+      : literal.slice(1, -1).replace(/\\"/g, '"');
+    const tags: Record<string, string> = {};
+    for (const match of raw.matchAll(/([\w.-]+):"((?:[^"\\]|\\.)*)"/g)) {
+      tags[match[1]!] = match[2]!;
+    }
+    return tags;
+  }
+
+  private createVariables(content: string, spec: SourceToken[], isConst: boolean): VariableNode[] {
+    const equals = findTopLevel(spec, ['=']);
+    const declaration = equals === -1 ? spec : spec.slice(0, equals);
+    const names = this.leadingNames(declaration);
+    const typeTokens = declaration.slice(names.length * 2 - 1);
+
+    return names
+      .filter(name => name.value !== '_')
+      .map(name => {
+        const variable: VariableNode = {
+          type: 'VariableDeclaration',
+          name: name.value,
+          isConst,
+          isExported: this.isExported(name.value),
+          line: name.line,
+          column: name.column,
+        };
+        if (typeTokens.length > 0) {
+          variable.varType = sliceText(content, typeTokens[0], typeTokens[typeTokens.length - 1]);
+        }
+        return variable;
+      });
+  }
+
+  /**
+   * `func Name(...)`, `func (r *Recv) Name(...)` or `func Name[T any](...)`
+   */
+  private createFunction(
+    content: string,
+    tokens: SourceToken[],
+    errors: string[]
+  ): { node: FunctionNode; receiver?: string } | undefined {
+    const [keyword] = tokens;
+    let index = 1;
+    let receiver: string | undefined;
+
+    if (tokens[index]?.value === '(') {
+      const close = findClosing(tokens, index);
+      const receiverTokens = tokens.slice(index + 1, close).filter(token => token.type === 'name');
+      receiver = receiverTokens[receiverTokens.length - 1]?.value;
+      // Generic receivers, e.g. `(s *Set[T])`
+      const bracket = tokens.slice(index + 1, close).findIndex(token => token.value === '[');
+      if (bracket !== -1) receiver = tokens[index + bracket]?.value;
+      index = close + 1;
+    }
+
+    if (tokens[index]?.type !== 'name') {
+      const at = tokens[index] || keyword!;
+      errors.push(`Syntax error at line ${at.line}, column ${at.column}: expected function name`);
+      return undefined;
+    }
+
+    const result = this.createSignature(content, tokens, index, keyword);
+    return receiver ? { node: result.node, receiver } : result;
+  }
+
+  /**
+   * Function or interface method signature starting at its name, with complexity
+   * counted over the body when present
+   */
+  private createSignature(
+    content: string,
+    tokens: SourceToken[],
+    nameIndex: number,
+    keyword: SourceToken | undefined
+  ): { node: FunctionNode } {
+    const name = tokens[nameIndex]!;
+    let open = nameIndex + 1;
+    if (tokens[open]?.value === '[') open = findClosing(tokens, open) + 1;
+    const close = findClosing(tokens, open);
+
+    const bodyStart = findTopLevel(tokens, ['{'], close + 1);
+    const resultEnd = bodyStart === -1 ? tokens.length : bodyStart;
+    const resultTokens = tokens.slice(close + 1, resultEnd);
+
+    const node: FunctionNode = {
+      type: 'FunctionDeclaration',
+      name: name.value,
+      parameters: this.createParameters(content, tokens.slice(open + 1, close)),
+      isAsync: false,
+      isExported: this.isExported(name.value),
+      complexity: bodyStart === -1 ? 1 : countDecisions(tokens, DECISION_KEYWORDS, bodyStart),
+      decorators: [],
+      line: (keyword || name).line,
+      column: (keyword || name).column,
+    };
+    if (resultTokens.length > 0) {
+      node.returnType = sliceText(content, resultTokens[0], resultTokens[resultTokens.length - 1]);
+    }
+    return { node };
+  }
+
+  /**
+   * Parameters where a type may be shared by several names, e.g. `a, b int, opts ...Option`
+   */
+  private createParameters(content: string, tokens: SourceToken[]): ParameterInfo[] {
+    const parts = splitTopLevel(tokens);
+    const isNamed = parts.some(
+      part => part.length > 1 && part[0]?.type === 'name' && part[1]?.value !== '.'
+    );
+    const parameters: ParameterInfo[] = [];
+    let pending: ParameterInfo[] = [];
+
+    for (const part of parts) {
+      const typeTokens = isNamed ? part.slice(1) : part;
+      const parameter: ParameterInfo = {
+        name: isNamed ? part[0]!.value : '',
+        isOptional: typeTokens[0]?.value === '...',
+      };
+      pending.push(parameter);
+      parameters.push(parameter);
+
+      if (typeTokens.length > 0) {
+        const type = sliceText(content, typeTokens[0], typeTokens[typeTokens.length - 1]);
+        for (const grouped of pending) grouped.type = type;
+        pending = [];
+      }
+    }
+
+    return parameters;
+  }
+
+  private isExported(name: string): boolean {
+    return /^\p{Lu}/u.test(name);
+  }
+}
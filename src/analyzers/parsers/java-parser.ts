@@ -0,0 +1,480 @@
+import type { ParameterInfo, PropertyInfo, SupportedLanguage } from '../ast-parser';
+import {
+  ClassNode,
+  FunctionNode,
+  ImportNode,
+  LanguageNode,
+  LanguageParser,
+  LanguageParseResult,
+} from './language-parser';
+import {
+  SourceToken,
+  SourceTokenizer,
+  countDecisions,
+  findCalls,
+  findClosing,
+  findClosingAngle,
+  findTopLevel,
+  sliceText,
+  splitTopLevel,
+} from './source-tokenizer';
+
+const MODIFIERS = new Set([
+  'public',
+  'protected',
+  'private',
+  'static',
+  'final',
+  'abstract',
+  'synchronized',
+  'native',
+  'transient',
+  'volatile',
+  'strictfp',
+  'default',
+  'sealed',
+]);
+
+const TYPE_KEYWORDS = new Set(['class', 'interface', 'enum', 'record']);
+
+const DECISION_KEYWORDS = new Set(['if', 'for', 'while', 'case', 'catch']);
+
+/**
+ * Modifiers and annotations collected ahead of a declaration
+ */
+interface DeclarationHeader {
+  modifiers: string[];
+  annotations: string[];
+}
+
+/**
+ * Java parser covering the package, imports, classes, interfaces, enums, records and
+ * annotation types with their fields, constructors, methods and annotations
+ */
+export class JavaParser implements LanguageParser {
+  private tokenizer = new SourceTokenizer({ tripleQuotedStrings: true });
+
+  parse(_path: string, content: string, _language: SupportedLanguage): LanguageParseResult {
+    const { tokens, errors } = this.tokenizer.tokenize(content);
+    const body: LanguageNode[] = [];
+    let header = this.emptyHeader();
+    let i = 0;
+
+    while (i < tokens.length) {
+      const token = tokens[i]!;
+
+      if (token.value === 'package' || token.value === 'import') {
+        const end = this.findStatementEnd(tokens, i);
+        if (token.value === 'package') {
+          body.push({
+            type: 'PackageDeclaration',
+            name: this.joinTokens(tokens.slice(i + 1, end)),
+            line: token.line,
+            column: token.column,
+          });
+        } else {
+          body.push(this.createImport(tokens.slice(i, end)));
+        }
+        i = end + 1;
+        continue;
+      }
+
+      const next = this.readHeader(content, tokens, i, header);
+      if (next !== i) {
+        i = next;
+        continue;
+      }
+
+      if (this.isTypeDeclaration(tokens, i)) {
+        const result = this.visitType(content, tokens, i, header, undefined, errors);
+        body.push(...result.nodes);
+        header = this.emptyHeader();
+        i = result.end;
+        continue;
+      }
+
+      if (token.value !== ';') {
+        errors.push(
+          `Syntax error at line ${token.line}, column ${token.column}: unexpected '${token.value}'`
+        );
+        i = this.findStatementEnd(tokens, i);
+      }
+      header = this.emptyHeader();
+      i++;
+    }
+
+    body.push(...findCalls(content, tokens));
+
+    return {
+      body: body.sort((a, b) => a.line - b.line || a.column - b.column),
+      errors,
+      warnings: [],
+    };
+  }
+
+  /**
+   * `import a.b.C;`, `import a.b.*;` or `import static a.b.C.member;`
+   */
+  private createImport(tokens: SourceToken[]): ImportNode {
+    const [keyword] = tokens;
+    const isStatic = tokens[1]?.value === 'static';
+    const path = this.joinTokens(tokens.slice(isStatic ? 2 : 1));
+    const segments = path.split('.');
+    const member = segments.pop() || '';
+
+    return {
+      type: 'ImportDeclaration',
+      source: isStatic || member === '*' ? segments.join('.') : path,
+      specifiers: [member],
+      isDefault: false,
+      isDynamic: false,
+      line: keyword!.line,
+      column: keyword!.column,
+    };
+  }
+
+  /**
+   * Consume one annotation or modifier into `header`, returning the index after it,
+   * or `start` when the token at `start` is neither
+   */
+  private readHeader(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    header: DeclarationHeader
+  ): number {
+    const token = tokens[start]!;
+
+    if (token.value === '@' && tokens[start + 1]?.value !== 'interface') {
+      let end = start + 2;
+      while (tokens[end]?.value === '.' && tokens[end + 1]?.type === 'name') end += 2;
+      if (tokens[end]?.value === '(') end = findClosing(tokens, end) + 1;
+      header.annotations.push(sliceText(content, tokens[start + 1], tokens[end - 1]));
+      return end;
+    }
+
+    if (MODIFIERS.has(token.value)) {
+      header.modifiers.push(token.value);
+      return start + 1;
+    }
+
+    // `non-sealed` is lexed as three tokens
+    if (token.value === 'non' && tokens[start + 1]?.value === '-') {
+      header.modifiers.push('non-sealed');
+      return start + 3;
+    }
+
+    return start;
+  }
+
+  private isTypeDeclaration(tokens: SourceToken[], index: number): boolean {
+    const token = tokens[index]!;
+    if (token.value === '@') return tokens[index + 1]?.value === 'interface';
+    // `record` is a contextual keyword, so require a name after it
+    if (token.value === 'record') return tokens[index + 1]?.type === 'name';
+    return TYPE_KEYWORDS.has(token.value) && token.type === 'name';
+  }
+
+  /**
+   * Class, interface, enum, record or annotation type starting at its keyword, with
+   * nested types returned after it under qualified names
+   */
+  private visitType(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    header: DeclarationHeader,
+    outer: string | undefined,
+    errors: string[]
+  ): { nodes: ClassNode[]; end: number } {
+    const isAnnotation = tokens[start]!.value === '@';
+    const keywordIndex = isAnnotation ? start + 1 : start;
+    // The keyword is one of TYPE_KEYWORDS
+    const kind = (isAnnotation ? 'annotation' : tokens[keywordIndex]!.value) as NonNullable<
+      ClassNode['kind']
+    >;
+    const name = tokens[keywordIndex + 1];
+
+    if (name?.type !== 'name') {
+      const at = name || tokens[keywordIndex]!;
+      errors.push(`Syntax error at line ${at.line}, column ${at.column}: expected type name`);
+      return { nodes: [], end: keywordIndex + 1 };
+    }
+
+    const open = findTopLevel(tokens, ['{'], keywordIndex + 2);
+    if (open === -1) {
+      errors.push(
+        `Syntax error at line ${name.line}, column ${name.column}: expected '{' after ${kind} ${name.value}`
+      );
+      return { nodes: [], end: tokens.length };
+    }
+    const close = findClosing(tokens, open);
+
+    const qualifiedName = outer ? `${outer}.${name.value}` : name.value;
+    const node: ClassNode = {
+      type: 'ClassDeclaration',
+      name: qualifiedName,
+      kind,
+      implements: [],
+      methods: [],
+      properties: [],
+      isExported: header.modifiers.includes('public'),
+      decorators: header.annotations,
+      line: tokens[start]!.line,
+      column: tokens[start]!.column,
+    };
+
+    // Header: type parameters, record components and supertypes
+    let index = keywordIndex + 2;
+    if (tokens[index]?.value === '<') index = findClosingAngle(tokens, index) + 1;
+    if (tokens[index]?.value === '(') {
+      const componentsEnd = findClosing(tokens, index);
+      for (const part of splitTopLevel(tokens.slice(index + 1, componentsEnd))) {
+        const parameter = this.createParameter(content, part);
+        const last = part[part.length - 1]!;
+        node.properties.push({
+          name: parameter.name,
+          ...(parameter.type && { type: parameter.type }),
+          isStatic: false,
+          isPrivate: true,
+          line: last.line,
+          column: last.column,
+        });
+      }
+      index = componentsEnd + 1;
+    }
+
+    // Supertypes: a class's `extends` is reported as `extends`, everything else as `implements`
+    const clauses = this.splitClauses(tokens.slice(index, open));
+    for (const [clause, types] of clauses) {
+      const names = types.map(part => sliceText(content, part[0], part[part.length - 1]));
+      if (clause === 'extends' && kind === 'class') {
+        if (names[0]) node.extends = names[0];
+      } else if (clause !== 'permits') {
+        node.implements.push(...names);
+      }
+    }
+
+    const nested = this.visitMembers(content, tokens, open + 1, close, node, errors);
+    return { nodes: [node, ...nested], end: close + 1 };
+  }
+
+  /**
+   * Group the tokens of a type header by `extends`, `implements` and `permits` clause
+   */
+  private splitClauses(tokens: SourceToken[]): Array<[string, SourceToken[][]]> {
+    const clauses: Array<[string, SourceToken[]]> = [];
+    for (const token of tokens) {
+      if (['extends', 'implements', 'permits'].includes(token.value)) {
+        clauses.push([token.value, []]);
+      } else {
+        clauses[clauses.length - 1]?.[1].push(token);
+      }
+    }
+    return clauses.map(([clause, types]) => [clause, splitTopLevel(types)]);
+  }
+
+  /**
+   * Fields, constructors, methods, enum constants and nested types in a type body
+   */
+  private visitMembers(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    end: number,
+    owner: ClassNode,
+    errors: string[]
+  ): ClassNode[] {
+    const nested: ClassNode[] = [];
+    const simpleName = owner.name.split('.').pop() || owner.name;
+    let header = this.emptyHeader();
+    let i = start;
+
+    if (owner.kind === 'enum') {
+      const constantsEnd = findTopLevel(tokens, [';'], start, end);
+      const last = constantsEnd === -1 ? end : constantsEnd;
+      for (const part of splitTopLevel(tokens.slice(start, last))) {
+        const constantHeader = this.emptyHeader();
+        let index = 0;
+        while (index < part.length) {
+          const next = this.readHeader(content, part, index, constantHeader);
+          if (next === index) break;
+          index = next;
+        }
+        const constant = part[index];
+        if (constant?.type === 'name') {
+          owner.properties.push({
+            name: constant.value,
+            type: simpleName,
+            isStatic: true,
+            isPrivate: false,
+            decorators: constantHeader.annotations,
+            line: constant.line,
+            column: constant.column,
+          });
+        }
+      }
+      i = last + 1;
+    }
+
+    while (i < end) {
+      const token = tokens[i]!;
+
+      const next = this.readHeader(content, tokens, i, header);
+      if (next !== i) {
+        i = next;
+        continue;
+      }
+
+      if (this.isTypeDeclaration(tokens, i)) {
+        const result = this.visitType(content, tokens, i, header, owner.name, errors);
+        nested.push(...result.nodes);
+        header = this.emptyHeader();
+        i = result.end;
+        continue;
+      }
+
+      if (token.value === ';') {
+        i++;
+        continue;
+      }
+
+      // Initializer blocks and compact record constructors
+      const stop = findTopLevel(tokens, ['(', '=', ';', '{'], i, end);
+      if (stop === -1 || tokens[stop]!.value === '{') {
+        i = stop === -1 ? end : findClosing(tokens, stop) + 1;
+        header = this.emptyHeader();
+        continue;
+      }
+
+      if (tokens[stop]!.value === '(') {
+        i = this.visitMethod(content, tokens, i, stop, end, header, owner, simpleName);
+      } else {
+        i = this.visitFields(content, tokens, i, end, header, owner);
+      }
+      header = this.emptyHeader();
+    }
+
+    return nested;
+  }
+
+  private visitMethod(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    open: number,
+    end: number,
+    header: DeclarationHeader,
+    owner: ClassNode,
+    simpleName: string
+  ): number {
+    let typeStart = start;
+    if (tokens[typeStart]?.value === '<') typeStart = findClosingAngle(tokens, typeStart) + 1;
+
+    const name = tokens[open - 1]!;
+    const close = findClosing(tokens, open);
+    const bodyStart = findTopLevel(tokens, ['{', ';'], close + 1, end);
+    const isBlock = bodyStart !== -1 && tokens[bodyStart]!.value === '{';
+    const bodyEnd = isBlock ? findClosing(tokens, bodyStart) : bodyStart;
+
+    const node: FunctionNode = {
+      type: 'FunctionDeclaration',
+      name: name.value === simpleName && typeStart === open - 1 ? 'constructor' : name.value,
+      parameters: splitTopLevel(tokens.slice(open + 1, close)).map(part =>
+        this.createParameter(content, part)
+      ),
+      isAsync: false,
+      isExported:
+        header.modifiers.includes('public') ||
+        (owner.kind === 'interface' && !header.modifiers.includes('private')),
+      complexity: isBlock ? countDecisions(tokens, DECISION_KEYWORDS, bodyStart, bodyEnd) : 1,
+      decorators: header.annotations,
+      line: name.line,
+      column: name.column,
+    };
+    if (typeStart < open - 1) {
+      node.returnType = sliceText(content, tokens[typeStart], tokens[open - 2]);
+    }
+    owner.methods.push(node);
+
+    return bodyEnd === -1 ? end : bodyEnd + 1;
+  }
+
+  /**
+   * `private final Map<String, Integer> counts = new HashMap<>(), other;`
+   */
+  private visitFields(
+    content: string,
+    tokens: SourceToken[],
+    start: number,
+    end: number,
+    header: DeclarationHeader,
+    owner: ClassNode
+  ): number {
+    const semicolon = findTopLevel(tokens, [';'], start, end);
+    const statementEnd = semicolon === -1 ? end : semicolon;
+    const declarators = splitTopLevel(tokens.slice(start, statementEnd));
+    let type: string | undefined;
+
+    declarators.forEach((part, index) => {
+      const equals = findTopLevel(part, ['=']);
+      const declaration = equals === -1 ? part : part.slice(0, equals);
+      const name = declaration[declaration.length - 1];
+      if (name?.type !== 'name') return;
+
+      if (index === 0) {
+        type = sliceText(content, declaration[0], declaration[declaration.length - 2]) || undefined;
+      }
+      const property: PropertyInfo = {
+        name: name.value,
+        isStatic: header.modifiers.includes('static') || owner.kind === 'interface',
+        isPrivate: header.modifiers.includes('private'),
+        decorators: header.annotations,
+        line: name.line,
+        column: name.column,
+      };
+      if (type) property.type = type;
+      owner.properties.push(property);
+    });
+
+    return statementEnd + 1;
+  }
+
+  /**
+   * `@RequestBody final CreateUser request` or `String... args`
+   */
+  private createParameter(content: string, part: SourceToken[]): ParameterInfo {
+    const header = this.emptyHeader();
+    let index = 0;
+    while (index < part.length) {
+      const next = this.readHeader(content, part, index, header);
+      if (next === index) break;
+      index = next;
+    }
+
+    const name = part[part.length - 1]!;
+    const typeTokens = part.slice(index, -1);
+    const parameter: ParameterInfo = {
+      name: name.value,
+      isOptional: typeTokens[typeTokens.length - 1]?.value === '...',
+    };
+    if (typeTokens.length > 0) {
+      parameter.type = sliceText(content, typeTokens[0], typeTokens[typeTokens.length - 1]);
+    }
+    if (header.annotations.length > 0) parameter.decorators = header.annotations;
+    return parameter;
+  }
+
+  private findStatementEnd(tokens: SourceToken[], start: number): number {
+    const end = findTopLevel(tokens, [';'], start);
+    return end === -1 ? tokens.length : end;
+  }
+
+  private joinTokens(tokens: SourceToken[]): string {
+    return tokens.map(token => token.value).join('');
+  }
+
+  private emptyHeader(): DeclarationHeader {
+    return { modifiers: [], annotations: [] };
+  }
+}
@@ -0,0 +1,71 @@
+import type {
+  CallInfo,
+  ClassInfo,
+  ExportInfo,
+  FunctionInfo,
+  ImportInfo,
+  SupportedLanguage,
+  VariableInfo,
+} from '../ast-parser';
+
+/**
+ * 1-based position every body node carries
+ */
+interface NodePosition {
+  line: number;
+  column: number;
+}
+
+export type ImportNode = ImportInfo & NodePosition & { type: 'ImportDeclaration' };
+
+/**
+ * The export kind is `exportType` since `type` names the node
+ */
+export type ExportNode = Omit<ExportInfo, 'type'> &
+  NodePosition & { type: 'ExportDeclaration'; exportType: ExportInfo['type'] };
+
+export type FunctionNode = FunctionInfo & NodePosition & { type: 'FunctionDeclaration' };
+
+export type ClassNode = ClassInfo & NodePosition & { type: 'ClassDeclaration' };
+
+/**
+ * The declared type is `varType` since `type` names the node
+ */
+export type VariableNode = Omit<VariableInfo, 'type'> &
+  NodePosition & { type: 'VariableDeclaration'; varType?: string };
+
+export type CallNode = CallInfo & NodePosition & { type: 'CallExpression' };
+
+/**
+ * Go package, Java package or C# namespace
+ */
+export type PackageNode = NodePosition & { type: 'PackageDeclaration'; name: string };
+
+export type LanguageNode =
+  | ImportNode
+  | ExportNode
+  | FunctionNode
+  | ClassNode
+  | VariableNode
+  | CallNode
+  | PackageNode;
+
+/**
+ * Result of parsing one file into AST body nodes, in the shape the ASTParser
+ * extractors read
+ */
+export interface LanguageParseResult {
+  body: LanguageNode[];
+  errors: string[];
+  warnings: string[];
+}
+
+/**
+ * Interface for language-specific source parsers used by ASTParser
+ */
+export interface LanguageParser {
+  /**
+   * Parses source content into AST body nodes
+   */
+  parse(path: string, content: string, language: SupportedLanguage): LanguageParseResult;
+}
@@ -0,0 +1,753 @@
+import type { ParameterInfo, PropertyInfo, SupportedLanguage } from '../ast-parser';
+import {
+  ClassNode,
+  ExportNode,
+  FunctionNode,
+  ImportNode,
+  LanguageNode,
+  LanguageParser,
+  LanguageParseResult,
+  VariableNode,
+} from './language-parser';
+import { findCalls } from './source-tokenizer';
+
+/**
+ * Python token
+ */
+interface Token {
+  type: 'name' | 'number' | 'string' | 'op';
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * A logical line: one statement after joining bracket and backslash continuations
+ */
+interface LogicalLine {
+  indent: number;
+  tokens: Token[];
+}
+
+/**
+ * Open class or function block while walking the file
+ */
+type Scope = {
+  indent: number;
+  qualifiedName: string;
+  /**
+   * Name bound to the instance in a method, usually `self`
+   */
+  selfName?: string;
+} & ({ kind: 'class'; node: ClassNode } | { kind: 'function'; node: FunctionNode });
+
+const KEYWORDS = new Set([
+  'False',
+  'None',
+  'True',
+  'and',
+  'as',
+  'assert',
+  'async',
+  'await',
+  'break',
+  'class',
+  'continue',
+  'def',
+  'del',
+  'elif',
+  'else',
+  'except',
+  'finally',
+  'for',
+  'from',
+  'global',
+  'if',
+  'import',
+  'in',
+  'is',
+  'lambda',
+  'nonlocal',
+  'not',
+  'or',
+  'pass',
+  'raise',
+  'return',
+  'try',
+  'while',
+  'with',
+  'yield',
+]);
+
+/**
+ * Keywords that add a branch to a function's cyclomatic complexity
+ */
+const DECISION_KEYWORDS = new Set(['if', 'elif', 'for', 'while', 'except', 'and', 'or']);
+
+const STRING_PREFIX = /^(?:[rRbBuUfF]|[rR][bBfF]|[bBfF][rR])$/;
+const OPERATOR =
+  /\*\*=?|\/\/=?|>>=?|<<=?|->|:=|\.\.\.|[=!<>+\-*/%&|^@]=|[()[\]{}:;,.=<>+\-*/%&|^~@]/y;
+const NAME = /[\p{L}_][\p{L}\p{N}_]*/uy;
+const NUMBER = /(?:0[xXoObB][\da-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eE][+-]?\d+)?)[jJ]?/y;
+
+/**
+ * Python parser built on a tokenizer that understands strings, comments, bracket
+ * continuations and indentation, so multi-line imports, decorators spanning
+ * several lines and nested blocks are attributed correctly
+ */
+export class PythonParser implements LanguageParser {
+  parse(_path: string, content: string, _language: SupportedLanguage): LanguageParseResult {
+    const errors: string[] = [];
+    const body: LanguageNode[] = [];
+    const scopes: Scope[] = [];
+    let decorators: string[] = [];
+    let exportedNames: Set<string> | undefined;
+
+    for (const logicalLine of this.tokenize(content, errors)) {
+      const { indent, tokens } = logicalLine;
+      while (scopes.length > 0 && indent <= scopes[scopes.length - 1]!.indent) {
+        scopes.pop();
+      }
+      const scope = scopes[scopes.length - 1];
+      const first = tokens[0]!;
+
+      if (first.value === '@' && first.type === 'op') {
+        decorators.push(this.sliceText(content, tokens[1], tokens[tokens.length - 1]));
+        continue;
+      }
+
+      const isAsync = first.value === 'async' && tokens[1]?.value === 'def';
+      const keyword = isAsync ? 'def' : first.value;
+
+      if (keyword === 'def' || keyword === 'class') {
+        const node =
+          keyword === 'def'
+            ? this.createFunction(content, tokens, isAsync, decorators, scope)
+            : this.createClass(content, tokens, decorators, scope);
+        decorators = [];
+        if (!node) continue;
+
+        const qualifiedName = scope ? `${scope.qualifiedName}.${node.name}` : node.name;
+        if (scope?.kind === 'class' && node.type === 'FunctionDeclaration') {
+          scope.node.methods.push(node);
+        } else if (node.type === 'ClassDeclaration') {
+          // Nested classes, e.g. Django's `class Meta`, are reported by qualified name
+          node.name = qualifiedName;
+          node.isExported = !scope && node.isExported;
+          body.push(node);
+        } else if (!scope) {
+          body.push(node);
+        }
+
+        const newScope: Scope =
+          node.type === 'FunctionDeclaration'
+            ? { indent, kind: 'function', node, qualifiedName }
+            : { indent, kind: 'class', node, qualifiedName };
+        if (node.type === 'FunctionDeclaration' && scope?.kind === 'class' && node.parameters[0]) {
+          const isStaticMethod = node.decorators?.includes('staticmethod');
+          if (!isStaticMethod) newScope.selfName = node.parameters[0].name;
+        }
+        scopes.push(newScope);
+        this.addComplexity(scopes, tokens.slice(this.findHeaderEnd(tokens)));
+        continue;
+      }
+      decorators = [];
+
+      if (
+        first.value === 'import' ||
+        (first.value === 'from' && tokens.some(t => t.value === 'import'))
+      ) {
+        body.push(...this.createImports(tokens));
+      } else {
+        body.push(...this.findDynamicImports(tokens));
+        body.push(...findCalls(content, tokens));
+        this.visitAssignment(content, tokens, scopes, body, names => {
+          exportedNames = names;
+        });
+      }
+
+      this.addComplexity(scopes, tokens);
+    }
+
+    // `__all__` narrows the public surface; otherwise names without a leading underscore are public
+    for (const node of body) {
+      if (
+        node.type === 'FunctionDeclaration' ||
+        node.type === 'ClassDeclaration' ||
+        node.type === 'VariableDeclaration'
+      ) {
+        if (exportedNames && !node.name.includes('.')) {
+          node.isExported = exportedNames.has(node.name);
+        }
+      }
+    }
+    if (exportedNames) {
+      for (const node of body.filter(
+        (candidate): candidate is ExportNode => candidate.type === 'ExportDeclaration'
+      )) {
+        const declaration = body.find(
+          candidate => 'isExported' in candidate && candidate.name === node.name
+        );
+        node.exportType =
+          declaration?.type === 'FunctionDeclaration'
+            ? 'function'
+            : declaration?.type === 'ClassDeclaration'
+              ? 'class'
+              : 'variable';
+      }
+    }
+
+    return {
+      body: body.sort((a, b) => a.line - b.line || a.column - b.column),
+      errors,
+      warnings: [],
+    };
+  }
+
+  /**
+   * Split source into logical lines of tokens, dropping comments and blank lines
+   */
+  private *tokenize(content: string, errors: string[]): Generator<LogicalLine> {
+    let position = 0;
+    let line = 1;
+    let lineStart = 0;
+    const brackets: Token[] = [];
+    let current: LogicalLine | undefined;
+    let atLineStart = true;
+    let indent = 0;
+
+    const error = (message: string, at: number, atLine: number, atLineStart: number): void => {
+      errors.push(`Syntax error at line ${atLine}, column ${at - atLineStart + 1}: ${message}`);
+    };
+
+    while (position < content.length) {
+      const char = content[position]!;
+
+      if (atLineStart) {
+        indent = 0;
+        while (content[position] === ' ' || content[position] === '\t') {
+          indent = content[position] === '\t' ? indent - (indent % 8) + 8 : indent + 1;
+          position++;
+        }
+        atLineStart = false;
+        continue;
+      }
+
+      if (char === '\n') {
+        position++;
+        line++;
+        lineStart = position;
+        if (brackets.length === 0) {
+          if (current) yield current;
+          current = undefined;
+          atLineStart = true;
+        }
+        continue;
+      }
+
+      if (char === ' ' || char === '\t' || char === '\r' || char === '\f') {
+        position++;
+        continue;
+      }
+
+      if (char === '#') {
+        const end = content.indexOf('\n', position);
+        position = end === -1 ? content.length : end;
+        continue;
+      }
+
+      if (
+        char === '\\' &&
+        (content[position + 1] === '\n' || content.startsWith('\r\n', position + 1))
+      ) {
+        position = content.indexOf('\n', position) + 1;
+        line++;
+        lineStart = position;
+        continue;
+      }
+
+      const column = position - lineStart + 1;
+      const tokenLine = line;
+      let token: Token | undefined;
+      let terminated = true;
+
+      NAME.lastIndex = position;
+      const name = NAME.exec(content);
+      if (name) {
+        const next = content[position + name[0].length];
+        if ((next === '"' || next === "'") && STRING_PREFIX.test(name[0])) {
+          [token, terminated] = this.readString(
+            content,
+            position,
+            position + name[0].length,
+            tokenLine,
+            column
+          );
+        } else {
+          token = {
+            type: 'name',
+            value: name[0],
+            start: position,
+            end: position + name[0].length,
+            line: tokenLine,
+            column,
+          };
+        }
+      } else if (char === '"' || char === "'") {
+        [token, terminated] = this.readString(content, position, position, tokenLine, column);
+      } else {
+        NUMBER.lastIndex = position;
+        const number =
+          /\d/.test(char) || (char === '.' && /\d/.test(content[position + 1] || ''))
+            ? NUMBER.exec(content)
+            : null;
+        OPERATOR.lastIndex = position;
+        const operator = number ? null : OPERATOR.exec(content);
+        const text = number?.[0] || operator?.[0];
+        if (text) {
+          token = {
+            type: number ? 'number' : 'op',
+            value: text,
+            start: position,
+            end: position + text.length,
+            line: tokenLine,
+            column,
+          };
+        }
+      }
+
+      if (!token) {
+        error(`unexpected character '${char}'`, position, line, lineStart);
+        position++;
+        continue;
+      }
+
+      if (token.type === 'string') {
+        const newlines = content.slice(token.start, token.end).split('\n').length - 1;
+        if (newlines > 0) {
+          line += newlines;
+          lineStart = content.lastIndexOf('\n', token.end - 1) + 1;
+        }
+        if (!terminated) {
+          error('unterminated string literal', token.start, tokenLine, token.start - column + 1);
+        }
+      } else if ('([{'.includes(token.value)) {
+        brackets.push(token);
+      } else if (')]}'.includes(token.value)) {
+        if (!brackets.pop()) {
+          error(`unmatched '${token.value}'`, position, line, lineStart);
+        }
+      }
+
+      current = current || { indent, tokens: [] };
+      current.tokens.push(token);
+      position = token.end;
+    }
+
+    for (const bracket of brackets) {
+      error(
+        `'${bracket.value}' was never closed`,
+        bracket.start,
+        bracket.line,
+        bracket.start - bracket.column + 1
+      );
+    }
+    if (current) yield current;
+  }
+
+  /**
+   * Read a string literal, including any prefix, and whether it was terminated; an
+   * unterminated single-quoted string stops at the end of its line
+   */
+  private readString(
+    content: string,
+    start: number,
+    quoteStart: number,
+    line: number,
+    column: number
+  ): [Token, boolean] {
+    const quote = content[quoteStart]!;
+    const triple = content.startsWith(quote.repeat(3), quoteStart);
+    const delimiter = triple ? quote.repeat(3) : quote;
+    let position = quoteStart + delimiter.length;
+
+    while (position < content.length) {
+      const char = content[position];
+      if (char === '\\') {
+        position += 2;
+      } else if (content.startsWith(delimiter, position)) {
+        const end = position + delimiter.length;
+        return [
+          { type: 'string', value: content.slice(start, end), start, end, line, column },
+          true,
+        ];
+      } else if (char === '\n' && !triple) {
+        break;
+      } else {
+        position++;
+      }
+    }
+
+    const end = Math.min(position, content.length);
+    return [{ type: 'string', value: content.slice(start, end), start, end, line, column }, false];
+  }
+
+  /**
+   * `import a.b as c, d` and `from .x import (a, b as c)`
+   */
+  private createImports(tokens: Token[]): ImportNode[] {
+    const [first] = tokens;
+    const position = { line: first!.line, column: first!.column };
+
+    if (first!.value === 'import') {
+      return this.splitTopLevel(tokens.slice(1)).map(part => {
+        const asIndex = part.findIndex(token => token.value === 'as');
+        const source = this.joinTokens(asIndex === -1 ? part : part.slice(0, asIndex));
+        const alias = asIndex === -1 ? undefined : part[asIndex + 1]?.value;
+        return {
+          type: 'ImportDeclaration',
+          source,
+          specifiers: [alias || source],
+          isDefault: false,
+          isDynamic: false,
+          ...position,
+        };
+      });
+    }
+
+    const importIndex = tokens.findIndex(token => token.value === 'import');
+    const source = this.joinTokens(tokens.slice(1, importIndex));
+    const names = tokens.slice(importIndex + 1).filter(token => !'()'.includes(token.value));
+    const specifiers = this.splitTopLevel(names)
+      .map(part => part[0]?.value)
+      .filter((name): name is string => name !== undefined);
+
+    return [
+      {
+        type: 'ImportDeclaration',
+        source,
+        specifiers,
+        isDefault: false,
+        isDynamic: false,
+        ...position,
+      },
+    ];
+  }
+
+  /**
+   * `importlib.import_module("x")` and `__import__("x")`
+   */
+  private findDynamicImports(tokens: Token[]): ImportNode[] {
+    const imports: ImportNode[] = [];
+
+    tokens.forEach((token, i) => {
+      const isImportModule = token.value === 'import_module' && tokens[i - 1]?.value === '.';
+      if ((isImportModule || token.value === '__import__') && tokens[i + 1]?.value === '(') {
+        const argument = tokens[i + 2];
+        if (argument?.type === 'string') {
+          imports.push({
+            type: 'ImportDeclaration',
+            source: this.stringValue(argument),
+            specifiers: [],
+            isDefault: false,
+            isDynamic: true,
+            line: token.line,
+            column: isImportModule ? tokens[i - 2]!.column : token.column,
+          });
+        }
+      }
+    });
+
+    return imports;
+  }
+
+  private createFunction(
+    content: string,
+    tokens: Token[],
+    isAsync: boolean,
+    decorators: string[],
+    scope: Scope | undefined
+  ): FunctionNode | undefined {
+    const defIndex = isAsync ? 1 : 0;
+    const name = tokens[defIndex + 1];
+    const open = tokens[defIndex + 2];
+    if (name?.type !== 'name' || open?.value !== '(') return undefined;
+
+    const close = this.findClosing(tokens, defIndex + 2);
+    const parameters = this.splitTopLevel(tokens.slice(defIndex + 3, close))
+      .filter(part => part.length > 1 || (part[0]?.value !== '*' && part[0]?.value !== '/'))
+      .map(part => this.createParameter(content, part));
+
+    const node: FunctionNode = {
+      type: 'FunctionDeclaration',
+      name: name.value,
+      parameters,
+      isAsync,
+      isExported: !scope && !name.value.startsWith('_'),
+      complexity: 1,
+      decorators,
+      line: tokens[0]!.line,
+      column: tokens[0]!.column,
+    };
+
+    if (tokens[close + 1]?.value === '->') {
+      const colon = this.findTopLevel(tokens, ':', close + 2);
+      node.returnType = this.sliceText(content, tokens[close + 2], tokens[colon - 1]);
+    }
+    return node;
+  }
+
+  private createParameter(content: string, part: Token[]): ParameterInfo {
+    const isVariadic = part[0]?.value === '*' || part[0]?.value === '**';
+    const nameToken = isVariadic ? part[1] : part[0];
+    const equals = this.findTopLevel(part, '=');
+    // A colon after the default belongs to a lambda, not an annotation
+    const colon = this.findTopLevel(part.slice(0, equals === -1 ? part.length : equals), ':');
+
+    const parameter: ParameterInfo = {
+      name: nameToken?.value || '',
+      isOptional: isVariadic || equals !== -1,
+    };
+    if (colon !== -1) {
+      parameter.type = this.sliceText(
+        content,
+        part[colon + 1],
+        part[(equals === -1 ? part.length : equals) - 1]
+      );
+    }
+    if (equals !== -1) {
+      parameter.defaultValue = this.sliceText(content, part[equals + 1], part[part.length - 1]);
+    }
+    return parameter;
+  }
+
+  /**
+   * Class with its bases: the first base is reported as `extends`, the rest as `implements`
+   */
+  private createClass(
+    content: string,
+    tokens: Token[],
+    decorators: string[],
+    scope: Scope | undefined
+  ): ClassNode | undefined {
+    const name = tokens[1];
+    if (name?.type !== 'name') return undefined;
+
+    const bases =
+      tokens[2]?.value === '('
+        ? this.splitTopLevel(tokens.slice(3, this.findClosing(tokens, 2)))
+            .filter(
+              part =>
+                part.length > 0 && this.findTopLevel(part, '=') === -1 && part[0]!.value !== '**'
+            )
+            .map(part => this.sliceText(content, part[0], part[part.length - 1]))
+        : [];
+
+    const node: ClassNode = {
+      type: 'ClassDeclaration',
+      name: name.value,
+      implements: bases.slice(1),
+      methods: [],
+      properties: [],
+      isExported: !scope && !name.value.startsWith('_'),
+      decorators,
+      line: tokens[0]!.line,
+      column: tokens[0]!.column,
+    };
+    if (bases[0]) node.extends = bases[0];
+    return node;
+  }
+
+  /**
+   * Module variables, class attributes, `self.x` instance attributes and `__all__`
+   */
+  private visitAssignment(
+    content: string,
+    tokens: Token[],
+    scopes: Scope[],
+    body: LanguageNode[],
+    onExportList: (names: Set<string>) => void
+  ): void {
+    const scope = scopes[scopes.length - 1];
+    const first = tokens[0]!;
+    const equals = this.findTopLevel(tokens, '=');
+    const colon = this.findTopLevel(tokens, ':');
+    const isAnnotated = colon !== -1 && (equals === -1 || colon < equals);
+    const targetEnd = isAnnotated ? colon : equals;
+    if (targetEnd <= 0 || KEYWORDS.has(first.value)) return;
+
+    const type = isAnnotated
+      ? this.sliceText(
+          content,
+          tokens[colon + 1],
+          tokens[(equals === -1 ? tokens.length : equals) - 1]
+        )
+      : undefined;
+    if (isAnnotated && !type) return;
+
+    // `self.name = ...` inside a method
+    const owner = scopes[scopes.length - 2];
+    if (scope?.kind === 'function' && owner?.kind === 'class' && scope.selfName) {
+      if (first.value === scope.selfName && tokens[1]?.value === '.' && targetEnd === 3) {
+        const name = tokens[2]!.value;
+        if (!owner.node.properties.some(property => property.name === name)) {
+          owner.node.properties.push(this.createProperty(name, type, false, tokens[0]!));
+        }
+      }
+      return;
+    }
+    if (scope?.kind === 'function') return;
+
+    const targets = tokens.slice(0, targetEnd).filter(token => !'(),[]'.includes(token.value));
+    if (!targets.every(token => token.type === 'name')) return;
+    const separators = tokens.slice(0, targetEnd).filter(token => token.value === ',').length;
+    if (targets.length !== separators + 1 && !(targets.length === separators && separators > 0))
+      return;
+
+    if (scope?.kind === 'class') {
+      for (const target of targets) {
+        const isClassVar = !isAnnotated || type!.startsWith('ClassVar');
+        scope.node.properties.push(this.createProperty(target.value, type, isClassVar, target));
+      }
+      return;
+    }
+
+    if (first.value === '__all__' && equals !== -1) {
+      const names = tokens.slice(equals + 1).filter(token => token.type === 'string');
+      onExportList(new Set(names.map(token => this.stringValue(token))));
+      for (const token of names) {
+        body.push({
+          type: 'ExportDeclaration',
+          name: this.stringValue(token),
+          exportType: 'variable',
+          isDefault: false,
+          line: token.line,
+          column: token.column,
+        });
+      }
+      return;
+    }
+
+    for (const target of targets) {
+      const variable: VariableNode = {
+        type: 'VariableDeclaration',
+        name: target.value,
+        isConst: /^[A-Z][A-Z0-9_]*$/.test(target.value),
+        isExported: !target.value.startsWith('_'),
+        line: target.line,
+        column: target.column,
+      };
+      if (type) variable.varType = type;
+      body.push(variable);
+    }
+  }
+
+  private createProperty(
+    name: string,
+    type: string | undefined,
+    isStatic: boolean,
+    token: Token
+  ): PropertyInfo {
+    const property: PropertyInfo = {
+      name,
+      isStatic,
+      isPrivate: name.startsWith('_'),
+      line: token.line,
+      column: token.column,
+    };
+    if (type) property.type = type;
+    return property;
+  }
+
+  /**
+   * Add decision points on a line to the innermost enclosing function
+   */
+  private addComplexity(scopes: Scope[], tokens: Token[]): void {
+    const fn = [...scopes].reverse().find(scope => scope.kind === 'function');
+    if (fn?.kind !== 'function') return;
+
+    for (const [i, token] of tokens.entries()) {
+      if (
+        token.type === 'name' &&
+        (DECISION_KEYWORDS.has(token.value) || (i === 0 && token.value === 'case'))
+      ) {
+        fn.node.complexity++;
+      }
+    }
+  }
+
+  /**
+   * Index just past the colon that ends a `def` or `class` header
+   */
+  private findHeaderEnd(tokens: Token[]): number {
+    const open = tokens.findIndex(token => token.value === '(');
+    const from = open === -1 ? 0 : this.findClosing(tokens, open) + 1;
+    return this.findTopLevel(tokens, ':', from) + 1;
+  }
+
+  private findClosing(tokens: Token[], open: number): number {
+    let depth = 0;
+    for (let i = open; i < tokens.length; i++) {
+      const value = tokens[i]!.value;
+      if (tokens[i]!.type !== 'op') continue;
+      if ('([{'.includes(value)) depth++;
+      if (')]}'.includes(value) && --depth === 0) return i;
+    }
+    return tokens.length;
+  }
+
+  /**
+   * Index of an operator outside any brackets, or -1
+   */
+  private findTopLevel(tokens: Token[], value: string, from = 0): number {
+    let depth = 0;
+    for (let i = from; i < tokens.length; i++) {
+      const token = tokens[i]!;
+      if (token.type !== 'op') continue;
+      if ('([{'.includes(token.value)) depth++;
+      else if (')]}'.includes(token.value)) depth--;
+      else if (depth === 0 && token.value === value) return i;
+    }
+    return -1;
+  }
+
+  /**
+   * Split tokens on commas outside brackets, dropping empty trailing parts
+   */
+  private splitTopLevel(tokens: Token[]): Token[][] {
+    const parts: Token[][] = [[]];
+    let depth = 0;
+
+    for (const token of tokens) {
+      if (token.type === 'op' && '([{'.includes(token.value)) depth++;
+      if (token.type === 'op' && ')]}'.includes(token.value)) depth--;
+      if (depth === 0 && token.value === ',' && token.type === 'op') {
+        parts.push([]);
+      } else {
+        parts[parts.length - 1]!.push(token);
+      }
+    }
+
+    return parts.filter(part => part.length > 0);
+  }
+
+  private joinTokens(tokens: Token[]): string {
+    return tokens.map(token => token.value).join('');
+  }
+
+  /**
+   * Source text from the start of one token to the end of another, on a single line
+   */
+  private sliceText(content: string, from: Token | undefined, to: Token | undefined): string {
+    if (!from || !to || to.end < from.start) return '';
+    return content.slice(from.start, to.end).replace(/\s*\n\s*/g, ' ');
+  }
+
+  private stringValue(token: Token): string {
+    const value = token.value.replace(/^[a-zA-Z]*/, '');
+    const quote = value.startsWith('"""') || value.startsWith("'''") ? 3 : 1;
+    return value.slice(quote, value.length - quote);
+  }
+}
@@ -0,0 +1,548 @@
+import type { CallNode } from './language-parser';
+
+/**
+ * Token produced by SourceTokenizer
+ */
+export interface SourceToken {
+  type: 'name' | 'number' | 'string' | 'char' | 'op';
+  value: string;
+  start: number;
+  end: number;
+  line: number;
+  column: number;
+}
+
+/**
+ * Result of tokenizing one file
+ */
+export interface TokenizeResult {
+  tokens: SourceToken[];
+  errors: string[];
+}
+
+/**
+ * Lexical differences between the brace languages handled by SourceTokenizer
+ */
+export interface TokenizerOptions {
+  /**
+   * Go raw strings delimited by backticks
+   */
+  backtickStrings?: boolean;
+
+  /**
+   * Java text blocks and C# raw string literals delimited by `"""`
+   */
+  tripleQuotedStrings?: boolean;
+
+  /**
+   * C# verbatim (`@"..."`) and interpolated (`$"..."`) strings
+   */
+  prefixedStrings?: boolean;
+
+  /**
+   * C# preprocessor directives such as `#region` and `#if DEBUG`
+   */
+  preprocessorDirectives?: boolean;
+}
+
+const NAME = /[\p{L}_$][\p{L}\p{N}_$]*/uy;
+const NUMBER =
+  /(?:0[xXbB][\da-fA-F_]+|(?:\d[\d_]*\.?[\d_]*|\.\d[\d_]*)(?:[eEpP][+-]?\d+)?)[a-zA-Z]*/y;
+// `>` is always a single token so nested generics like `List<List<T>>` close cleanly
+const OPERATOR =
+  /\.\.\.|::|->|=>|<<=|\?\?=?|\?\.|&&|\|\||\+\+|--|<<|:=|[=!<+\-*/%&|^]=|[()[\]{}<>;:,.=+\-*/%&|^~!?@#]/y;
+const BRACKETS: Record<string, string> = { ')': '(', ']': '[', '}': '{' };
+
+/**
+ * Tokenizer for C-family languages (Go, Java, C#) that skips comments, understands
+ * each language's string literal forms and checks bracket balance
+ */
+export class SourceTokenizer {
+  constructor(private options: TokenizerOptions = {}) {}
+
+  tokenize(content: string): TokenizeResult {
+    const tokens: SourceToken[] = [];
+    const errors: string[] = [];
+    const open: SourceToken[] = [];
+    let position = 0;
+    let line = 1;
+    let lineStart = 0;
+
+    const error = (message: string, at: number, atLine = line, atLineStart = lineStart): void => {
+      errors.push(`Syntax error at line ${atLine}, column ${at - atLineStart + 1}: ${message}`);
+    };
+
+    // Advance over a multi-line span, keeping line bookkeeping in step
+    const advanceTo = (end: number): void => {
+      for (let i = position; i < end; i++) {
+        if (content[i] === '\n') {
+          line++;
+          lineStart = i + 1;
+        }
+      }
+      position = end;
+    };
+
+    while (position < content.length) {
+      const char = content[position]!;
+      const next = content[position + 1];
+
+      if (char === '\n') {
+        position++;
+        line++;
+        lineStart = position;
+        continue;
+      }
+      if (char === ' ' || char === '\t' || char === '\r' || char === '\f') {
+        position++;
+        continue;
+      }
+
+      if (char === '/' && next === '/') {
+        const end = content.indexOf('\n', position);
+        position = end === -1 ? content.length : end;
+        continue;
+      }
+      if (char === '/' && next === '*') {
+        const end = content.indexOf('*/', position + 2);
+        if (end === -1) {
+          error('unterminated comment', position);
+          advanceTo(content.length);
+        } else {
+          advanceTo(end + 2);
+        }
+        continue;
+      }
+
+      if (
+        char === '#' &&
+        this.options.preprocessorDirectives &&
+        content.slice(lineStart, position).trim() === ''
+      ) {
+        const end = content.indexOf('\n', position);
+        position = end === -1 ? content.length : end;
+        continue;
+      }
+
+      const startLine = line;
+      const startLineStart = lineStart;
+      const column = position - lineStart + 1;
+      const literal = this.readLiteral(content, position);
+
+      if (literal) {
+        if (!literal.terminated) {
+          error(`unterminated ${literal.type} literal`, position);
+        }
+        const start = position;
+        advanceTo(literal.end);
+        tokens.push({
+          type: literal.type,
+          value: content.slice(start, literal.end),
+          start,
+          end: literal.end,
+          line: startLine,
+          column,
+        });
+        continue;
+      }
+
+      let match: RegExpExecArray | null = null;
+      let type: SourceToken['type'] = 'op';
+      for (const [pattern, patternType] of [
+        [NAME, 'name'],
+        [NUMBER, 'number'],
+        [OPERATOR, 'op'],
+      ] as const) {
+        if (
+          patternType === 'number' &&
+          !/\d/.test(char) &&
+          !(char === '.' && /\d/.test(next || ''))
+        ) {
+          continue;
+        }
+        pattern.lastIndex = position;
+        match = pattern.exec(content);
+        if (match) {
+          type = patternType;
+          break;
+        }
+      }
+
+      if (!match) {
+        error(`unexpected character '${char}'`, position);
+        position++;
+        continue;
+      }
+
+      const token: SourceToken = {
+        type,
+        value: match[0],
+        start: position,
+        end: position + match[0].length,
+        line,
+        column,
+      };
+      tokens.push(token);
+      position = token.end;
+
+      if (type !== 'op') continue;
+      if ('([{'.includes(token.value)) {
+        open.push(token);
+      } else if (BRACKETS[token.value]) {
+        const opener = open.pop();
+        if (!opener) {
+          error(`unmatched '${token.value}'`, token.start, startLine, startLineStart);
+        } else if (opener.value !== BRACKETS[token.value]) {
+          error(
+            `'${token.value}' does not match '${opener.value}' at line ${opener.line}`,
+            token.start,
+            startLine,
+            startLineStart
+          );
+        }
+      }
+    }
+
+    for (const opener of open) {
+      error(
+        `'${opener.value}' was never closed`,
+        opener.start,
+        opener.line,
+        opener.start - opener.column + 1
+      );
+    }
+
+    return { tokens, errors };
+  }
+
+  /**
+   * Read a string or character literal starting at `start`, if there is one
+   */
+  private readLiteral(
+    content: string,
+    start: number
+  ): { type: 'string' | 'char'; end: number; terminated: boolean } | undefined {
+    const char = content[start];
+    let quoteStart = start;
+    let verbatim = false;
+    let interpolated = false;
+
+    if (this.options.prefixedStrings) {
+      const prefix = content.slice(start, start + 3).match(/^(?:\$@|@\$|\$+|@)(?=")/)?.[0];
+      if (prefix) {
+        quoteStart = start + prefix.length;
+        verbatim = prefix.includes('@');
+        interpolated = prefix.includes('$');
+      }
+    }
+
+    if (this.options.backtickStrings && char === '`') {
+      const end = content.indexOf('`', start + 1);
+      return end === -1
+        ? { type: 'string', end: content.length, terminated: false }
+        : { type: 'string', end: end + 1, terminated: true };
+    }
+
+    if (this.options.tripleQuotedStrings && content.startsWith('"""', quoteStart)) {
+      const end = content.indexOf('"""', quoteStart + 3);
+      if (end === -1) return { type: 'string', end: content.length, terminated: false };
+      let close = end + 3;
+      while (content[close] === '"') close++;
+      return { type: 'string', end: close, terminated: true };
+    }
+
+    const quote = content[quoteStart];
+    if (quote !== '"' && !(quote === "'" && quoteStart === start)) return undefined;
+
+    let position = quoteStart + 1;
+    let holes = 0;
+    while (position < content.length) {
+      const current = content[position];
+      if (verbatim && current === '"' && content[position + 1] === '"') {
+        position += 2;
+      } else if (!verbatim && current === '\\') {
+        position += 2;
+      } else if (interpolated && current === '{' && content[position + 1] !== '{') {
+        holes++;
+        position++;
+      } else if (interpolated && current === '}' && holes > 0) {
+        holes--;
+        position++;
+      } else if (interpolated && (current === '{' || current === '}')) {
+        position += 2;
+      } else if (current === quote && holes === 0) {
+        return { type: quote === '"' ? 'string' : 'char', end: position + 1, terminated: true };
+      } else if (current === '\n' && !verbatim) {
+        break;
+      } else {
+        position++;
+      }
+    }
+
+    return {
+      type: quote === '"' ? 'string' : 'char',
+      end: Math.min(position, content.length),
+      terminated: false,
+    };
+  }
+}
+
+/**
+ * Index of the bracket closing the one at `open`, or tokens.length when unbalanced
+ */
+export function findClosing(tokens: SourceToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    const token = tokens[i]!;
+    if (token.type !== 'op') continue;
+    if ('([{'.includes(token.value)) depth++;
+    if (')]}'.includes(token.value) && --depth === 0) return i;
+  }
+  return tokens.length;
+}
+
+/**
+ * Index of the `>` closing a generic argument list opened at `open`
+ */
+export function findClosingAngle(tokens: SourceToken[], open: number): number {
+  let depth = 0;
+  for (let i = open; i < tokens.length; i++) {
+    const value = tokens[i]!.value;
+    if (value === '<') depth++;
+    if (value === '>' && --depth === 0) return i;
+    if (value === '{' || value === ';' || value === '=') return i - 1;
+  }
+  return tokens.length - 1;
+}
+
+/**
+ * Index of the first token in `values` outside any brackets, searching from `from`
+ * up to `to`, or -1
+ */
+export function findTopLevel(
+  tokens: SourceToken[],
+  values: string[],
+  from = 0,
+  to = tokens.length
+): number {
+  let depth = 0;
+  for (let i = from; i < to; i++) {
+    const token = tokens[i]!;
+    if (token.type !== 'op') continue;
+    if (depth === 0 && values.includes(token.value)) return i;
+    if ('([{'.includes(token.value)) depth++;
+    else if (')]}'.includes(token.value)) depth--;
+  }
+  return -1;
+}
+
+/**
+ * Split tokens on commas outside brackets and, unless `angles` is false, generic
+ * angle brackets
+ */
+export function splitTopLevel(
+  tokens: SourceToken[],
+  separator = ',',
+  angles = true
+): SourceToken[][] {
+  const parts: SourceToken[][] = [[]];
+  const openers = angles ? '([{<' : '([{';
+  const closers = angles ? ')]}>' : ')]}';
+  let depth = 0;
+
+  for (const token of tokens) {
+    if (token.type === 'op' && openers.includes(token.value)) depth++;
+    if (token.type === 'op' && closers.includes(token.value)) depth--;
+    if (depth === 0 && token.type === 'op' && token.value === separator) {
+      parts.push([]);
+    } else {
+      parts[parts.length - 1]!.push(token);
+    }
+  }
+
+  return parts.filter(part => part.length > 0);
+}
+
+/**
+ * Source text spanning two tokens with line breaks collapsed
+ */
+export function sliceText(
+  content: string,
+  from: SourceToken | undefined,
+  to: SourceToken | undefined
+): string {
+  if (!from || !to || to.end < from.start) return '';
+  return content.slice(from.start, to.end).replace(/\s*\n\s*/g, ' ');
+}
+
+/**
+ * Cyclomatic complexity of a function body: one plus each decision point
+ */
+export function countDecisions(
+  tokens: SourceToken[],
+  keywords: Set<string>,
+  from = 0,
+  to = tokens.length
+): number {
+  let complexity = 1;
+  for (let i = from; i < to; i++) {
+    const token = tokens[i]!;
+    if (
+      (token.type === 'name' && keywords.has(token.value)) ||
+      (token.type === 'op' &&
+        (token.value === '&&' || token.value === '||' || token.value === '??'))
+    ) {
+      complexity++;
+    }
+  }
+  return complexity;
+}
+
+// Names that look like calls when followed by `(` but are statements or operators
+const NOT_CALLEES = new Set([
+  'if',
+  'elif',
+  'for',
+  'foreach',
+  'while',
+  'switch',
+  'catch',
+  'when',
+  'func',
+  'function',
+  'return',
+  'typeof',
+  'nameof',
+  'sizeof',
+  'default',
+  'using',
+  'lock',
+  'fixed',
+  'synchronized',
+  'lambda',
+  'not',
+  'and',
+  'or',
+  'in',
+  'is',
+  'assert',
+  'del',
+  'await',
+  'yield',
+  'throw',
+  'new',
+  'checked',
+  'unchecked',
+  'raise',
+  'with',
+  'except',
+]);
+
+// Keywords that may directly precede a call; any other name there marks a declaration
+const EXPRESSION_KEYWORDS = new Set([
+  'return',
+  'await',
+  'throw',
+  'yield',
+  'case',
+  'in',
+  'not',
+  'and',
+  'or',
+  'else',
+  'if',
+  'elif',
+  'while',
+  'go',
+  'defer',
+  'assert',
+  'del',
+  'lambda',
+  'from',
+  'range',
+  'raise',
+  'with',
+  'is',
+]);
+
+/**
+ * Calls on plain or dotted names, such as `http.HandleFunc("/", index)`, as
+ * CallExpression nodes carrying the callee, the source text of each argument and the
+ * variable the result is assigned to. Declarations, constructor calls and calls on the
+ * result of another call are skipped.
+ */
+export function findCalls(content: string, tokens: SourceToken[]): CallNode[] {
+  const calls: CallNode[] = [];
+
+  for (let i = 1; i < tokens.length; i++) {
+    if (tokens[i]!.value !== '(' || tokens[i - 1]!.type !== 'name') continue;
+
+    let start = i - 1;
+    while (
+      start >= 2 &&
+      (tokens[start - 1]!.value === '.' || tokens[start - 1]!.value === '?.') &&
+      tokens[start - 2]!.type === 'name'
+    ) {
+      start -= 2;
+    }
+    const first = tokens[start]!;
+    const previous = tokens[start - 1];
+    if (start === i - 1 && NOT_CALLEES.has(first.value)) continue;
+    if (previous && !isCallContext(tokens, start - 1)) continue;
+
+    const close = findClosing(tokens, i);
+    // Nullable return types: `string? Name() => ...`
+    if (previous?.value === '?' && ['{', '=>'].includes(tokens[close + 1]?.value || '')) continue;
+
+    const argumentTokens = tokens.slice(i + 1, close);
+    const call: CallNode = {
+      type: 'CallExpression',
+      callee: tokens
+        .slice(start, i)
+        .map(token => token.value)
+        .join(''),
+      arguments: splitTopLevel(argumentTokens, ',', false).map(part =>
+        sliceText(content, part[0], part[part.length - 1])
+      ),
+      line: first.line,
+      column: first.column,
+    };
+
+    let assignment = start - 1;
+    if (tokens[assignment]?.value === 'await') assignment--;
+    if (
+      (tokens[assignment]?.value === '=' || tokens[assignment]?.value === ':=') &&
+      tokens[assignment - 1]?.type === 'name' &&
+      !['(', ','].includes(tokens[assignment - 2]?.value || '')
+    ) {
+      call.assignedTo = tokens[assignment - 1]!.value;
+    }
+    calls.push(call);
+  }
+
+  return calls;
+}
+
+/**
+ * Whether the token at `index` can directly precede a call expression
+ */
+function isCallContext(tokens: SourceToken[], index: number): boolean {
+  const token = tokens[index]!;
+
+  if (token.type === 'name') return EXPRESSION_KEYWORDS.has(token.value);
+  if (token.type !== 'op') return false;
+  // Annotations, chained calls, generic return types and array return types
+  if (['@', '.', '?.', '>', ']'].includes(token.value)) return false;
+
+  if (token.value === ')') {
+    // Go method declarations: `func (s *Server) routes()`
+    let depth = 0;
+    for (let i = index; i >= 0; i--) {
+      const value = tokens[i]!.value;
+      if (value === ')') depth++;
+      if (value === '(' && --depth === 0) return tokens[i - 1]?.value !== 'func';
+    }
+  }
+
+  return true;
+}
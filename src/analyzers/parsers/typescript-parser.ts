@@ -0,0 +1,643 @@
+import * as ts from 'typescript';
+import type { ParameterInfo, PropertyInfo, SupportedLanguage } from '../ast-parser';
+import {
+  CallNode,
+  ClassNode,
+  ExportNode,
+  FunctionNode,
+  ImportNode,
+  LanguageNode,
+  LanguageParser,
+  LanguageParseResult,
+  VariableNode,
+} from './language-parser';
+
+/**
+ * `export { a }` of a local declaration, whose kind is known once the file is visited
+ */
+type PendingExportNode = Omit<ExportNode, 'exportType'> & { localName: string };
+
+type ParsedNode = LanguageNode | PendingExportNode;
+
+/**
+ * JavaScript and TypeScript parser built on the TypeScript compiler API.
+ *
+ * The compiler recovers from syntax errors and still produces a usable tree, so
+ * declarations are extracted even when syntax errors are reported.
+ */
+export class TypeScriptParser implements LanguageParser {
+  parse(path: string, content: string, language: SupportedLanguage): LanguageParseResult {
+    const sourceFile = ts.createSourceFile(
+      path,
+      content,
+      ts.ScriptTarget.Latest,
+      true,
+      this.getScriptKind(path, language)
+    );
+
+    const body: ParsedNode[] = [];
+    const exportedNames = new Set<string>();
+
+    for (const statement of sourceFile.statements) {
+      body.push(...this.visitStatement(statement, sourceFile, exportedNames));
+    }
+    body.push(...this.findCalls(sourceFile));
+
+    // `export { a, b }` lists mark declarations made elsewhere in the file
+    for (const node of body) {
+      if ('isExported' in node && exportedNames.has(node.name)) {
+        node.isExported = true;
+      }
+    }
+    const nodes = body.map((node): LanguageNode => {
+      if (!('localName' in node)) return node;
+      const { localName, ...exported } = node;
+      const declaration = body.find(
+        candidate => 'isExported' in candidate && candidate.name === localName
+      );
+      return { ...exported, exportType: this.getExportType(declaration) };
+    });
+
+    return {
+      body: nodes.sort((a, b) => a.line - b.line || a.column - b.column),
+      errors: this.getSyntaxErrors(sourceFile),
+      warnings: [],
+    };
+  }
+
+  /**
+   * Syntax diagnostics of the parsed file, from a program that serves only that file
+   * so nothing is read from disk or parsed twice
+   */
+  private getSyntaxErrors(sourceFile: ts.SourceFile): string[] {
+    const options: ts.CompilerOptions = { allowJs: true, noLib: true, noResolve: true };
+    const host = ts.createCompilerHost(options);
+    host.getSourceFile = fileName => (fileName === sourceFile.fileName ? sourceFile : undefined);
+    host.fileExists = fileName => fileName === sourceFile.fileName;
+    host.readFile = fileName => (fileName === sourceFile.fileName ? sourceFile.text : undefined);
+    const program = ts.createProgram([sourceFile.fileName], options, host);
+    if (!program.getSourceFile(sourceFile.fileName)) {
+      return [];
+    }
+
+    return program.getSyntacticDiagnostics(sourceFile).map(diagnostic => {
+      const { line, character } = sourceFile.getLineAndCharacterOfPosition(diagnostic.start || 0);
+      const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+      return `Syntax error at line ${line + 1}, column ${character + 1}: ${message}`;
+    });
+  }
+
+  /**
+   * JavaScript files are parsed with JSX enabled since .js components are common
+   */
+  private getScriptKind(path: string, language: SupportedLanguage): ts.ScriptKind {
+    if (path.endsWith('.tsx')) return ts.ScriptKind.TSX;
+    if (path.endsWith('.ts') || path.endsWith('.mts') || path.endsWith('.cts')) {
+      return ts.ScriptKind.TS;
+    }
+    if (path.endsWith('.mjs') || path.endsWith('.cjs')) return ts.ScriptKind.JS;
+    return language === 'typescript' ? ts.ScriptKind.TS : ts.ScriptKind.JSX;
+  }
+
+  /**
+   * Convert a top-level statement into body nodes
+   */
+  private visitStatement(
+    statement: ts.Statement,
+    sourceFile: ts.SourceFile,
+    exportedNames: Set<string>
+  ): ParsedNode[] {
+    const exported = this.hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = this.hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    if (ts.isImportDeclaration(statement)) {
+      return [this.createImport(statement, sourceFile)];
+    }
+
+    if (ts.isImportEqualsDeclaration(statement)) {
+      const reference = statement.moduleReference;
+      if (!ts.isExternalModuleReference(reference) || !ts.isStringLiteral(reference.expression)) {
+        return [];
+      }
+      return [
+        {
+          type: 'ImportDeclaration',
+          source: reference.expression.text,
+          specifiers: [statement.name.text],
+          isDefault: true,
+          isDynamic: false,
+          ...this.getPosition(statement, sourceFile),
+        },
+      ];
+    }
+
+    if (ts.isExportDeclaration(statement)) {
+      return this.visitExportDeclaration(statement, sourceFile, exportedNames);
+    }
+
+    if (ts.isExportAssignment(statement)) {
+      const name = ts.isIdentifier(statement.expression) ? statement.expression.text : 'default';
+      if (name !== 'default') exportedNames.add(name);
+      return [
+        {
+          type: 'ExportDeclaration',
+          name,
+          exportType: 'default',
+          isDefault: true,
+          ...this.getPosition(statement, sourceFile),
+        },
+      ];
+    }
+
+    if (ts.isFunctionDeclaration(statement)) {
+      const name = statement.name?.text || 'default';
+      const fn = this.createFunction(statement, name, exported, sourceFile);
+      return exported
+        ? [fn, this.createExport(name, 'function', isDefault, statement, sourceFile)]
+        : [fn];
+    }
+
+    if (ts.isClassDeclaration(statement)) {
+      const name = statement.name?.text || 'default';
+      const cls = this.createClass(statement, name, exported, sourceFile);
+      return exported
+        ? [cls, this.createExport(name, 'class', isDefault, statement, sourceFile)]
+        : [cls];
+    }
+
+    if (ts.isVariableStatement(statement)) {
+      return this.visitVariableStatement(statement, exported, sourceFile);
+    }
+
+    if (ts.isEnumDeclaration(statement) && exported) {
+      return [this.createExport(statement.name.text, 'variable', false, statement, sourceFile)];
+    }
+
+    if (ts.isExpressionStatement(statement)) {
+      return this.visitCommonJsExport(statement, sourceFile);
+    }
+
+    return [];
+  }
+
+  /**
+   * `export { a, b as c }`, `export * from 'x'` and `export { a } from 'x'`
+   */
+  private visitExportDeclaration(
+    statement: ts.ExportDeclaration,
+    sourceFile: ts.SourceFile,
+    exportedNames: Set<string>
+  ): ParsedNode[] {
+    const nodes: ParsedNode[] = [];
+    const position = this.getPosition(statement, sourceFile);
+    const source =
+      statement.moduleSpecifier && ts.isStringLiteral(statement.moduleSpecifier)
+        ? statement.moduleSpecifier.text
+        : undefined;
+    const clause = statement.exportClause;
+
+    if (clause && ts.isNamedExports(clause)) {
+      for (const element of clause.elements) {
+        const localName = (element.propertyName || element.name).getText(sourceFile);
+        const node = {
+          type: 'ExportDeclaration' as const,
+          name: element.name.getText(sourceFile),
+          isDefault: element.name.getText(sourceFile) === 'default',
+          ...this.getPosition(element, sourceFile),
+        };
+        if (source) {
+          nodes.push({ ...node, exportType: 'variable' });
+        } else {
+          // Resolved against local declarations once the whole file is visited
+          exportedNames.add(localName);
+          nodes.push({ ...node, localName });
+        }
+      }
+    } else if (clause && ts.isNamespaceExport(clause)) {
+      nodes.push({
+        type: 'ExportDeclaration',
+        name: clause.name.getText(sourceFile),
+        exportType: 'variable',
+        isDefault: false,
+        ...position,
+      });
+    }
+
+    if (source) {
+      nodes.push({
+        type: 'ImportDeclaration',
+        source,
+        specifiers:
+          clause && ts.isNamedExports(clause)
+            ? clause.elements.map(element =>
+                (element.propertyName || element.name).getText(sourceFile)
+              )
+            : ['*'],
+        isDefault: false,
+        isDynamic: false,
+        ...position,
+      });
+    }
+
+    return nodes;
+  }
+
+  /**
+   * Variables, with function-valued declarations reported as functions
+   */
+  private visitVariableStatement(
+    statement: ts.VariableStatement,
+    exported: boolean,
+    sourceFile: ts.SourceFile
+  ): LanguageNode[] {
+    const nodes: LanguageNode[] = [];
+    const isConst = (statement.declarationList.flags & ts.NodeFlags.Const) !== 0;
+
+    for (const declaration of statement.declarationList.declarations) {
+      const initializer = declaration.initializer && this.unwrap(declaration.initializer);
+
+      if (ts.isIdentifier(declaration.name) && initializer && this.isFunctionLike(initializer)) {
+        const name = declaration.name.text;
+        nodes.push(this.createFunction(initializer, name, exported, sourceFile, declaration));
+        if (exported) {
+          nodes.push(this.createExport(name, 'function', false, declaration, sourceFile));
+        }
+        continue;
+      }
+
+      for (const name of this.getBindingNames(declaration.name)) {
+        const variable: VariableNode = {
+          type: 'VariableDeclaration',
+          name,
+          isConst,
+          isExported: exported,
+          ...this.getPosition(declaration, sourceFile),
+        };
+        if (declaration.type) {
+          variable.varType = declaration.type.getText(sourceFile);
+        }
+        nodes.push(variable);
+        if (exported) {
+          nodes.push(this.createExport(name, 'variable', false, declaration, sourceFile));
+        }
+      }
+    }
+
+    return nodes;
+  }
+
+  /**
+   * `module.exports = x` and `exports.name = x`
+   */
+  private visitCommonJsExport(
+    statement: ts.ExpressionStatement,
+    sourceFile: ts.SourceFile
+  ): ExportNode[] {
+    const expression = statement.expression;
+    if (
+      !ts.isBinaryExpression(expression) ||
+      expression.operatorToken.kind !== ts.SyntaxKind.EqualsToken ||
+      !ts.isPropertyAccessExpression(expression.left)
+    ) {
+      return [];
+    }
+
+    const target = expression.left.getText(sourceFile);
+    const value = this.unwrap(expression.right);
+    const exportType = this.isFunctionLike(value)
+      ? 'function'
+      : ts.isClassExpression(value)
+        ? 'class'
+        : 'variable';
+
+    if (target === 'module.exports') {
+      return [
+        {
+          type: 'ExportDeclaration',
+          name: ts.isIdentifier(value) ? value.text : 'default',
+          exportType: 'default',
+          isDefault: true,
+          ...this.getPosition(statement, sourceFile),
+        },
+      ];
+    }
+
+    const named = target.match(/^(?:module\.)?exports\.(\w+)$/);
+    return named?.[1]
+      ? [this.createExport(named[1], exportType, false, statement, sourceFile)]
+      : [];
+  }
+
+  /**
+   * Calls anywhere in the file: `require('x')` and `import('x')` become imports, and
+   * calls on named functions or member chains such as `app.get(...)` are kept
+   */
+  private findCalls(sourceFile: ts.SourceFile): Array<ImportNode | CallNode> {
+    const nodes: Array<ImportNode | CallNode> = [];
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isCallExpression(node)) {
+        const [argument] = node.arguments;
+        const isDynamic = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+        const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+        let binding: ts.Node = node.parent;
+        while (ts.isAwaitExpression(binding) || ts.isParenthesizedExpression(binding)) {
+          binding = binding.parent;
+        }
+
+        if ((isDynamic || isRequire) && argument && ts.isStringLiteralLike(argument)) {
+          const names =
+            ts.isVariableDeclaration(binding) && binding.initializer
+              ? this.getBindingNames(binding.name, true)
+              : [];
+
+          nodes.push({
+            type: 'ImportDeclaration',
+            source: argument.text,
+            specifiers: names,
+            isDefault:
+              ts.isVariableDeclaration(binding) && ts.isIdentifier(binding.name) && !isDynamic,
+            isDynamic,
+            ...this.getPosition(node, sourceFile),
+          });
+        } else {
+          const callee = node.expression.getText(sourceFile).replace(/\s+/g, '');
+          if (/^[\w$]+(?:\??\.[\w$]+)*$/.test(callee)) {
+            const call: CallNode = {
+              type: 'CallExpression',
+              callee,
+              arguments: node.arguments.map(arg => arg.getText(sourceFile)),
+              ...this.getPosition(node, sourceFile),
+            };
+            if (ts.isVariableDeclaration(binding) && ts.isIdentifier(binding.name)) {
+              call.assignedTo = binding.name.text;
+            }
+            nodes.push(call);
+          }
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return nodes;
+  }
+
+  private createImport(statement: ts.ImportDeclaration, sourceFile: ts.SourceFile): ImportNode {
+    const specifiers: string[] = [];
+    const clause = statement.importClause;
+
+    if (clause?.name) {
+      specifiers.push(clause.name.text);
+    }
+    if (clause?.namedBindings) {
+      if (ts.isNamespaceImport(clause.namedBindings)) {
+        specifiers.push('*');
+      } else {
+        for (const element of clause.namedBindings.elements) {
+          specifiers.push((element.propertyName || element.name).getText(sourceFile));
+        }
+      }
+    }
+
+    return {
+      type: 'ImportDeclaration',
+      source: ts.isStringLiteral(statement.moduleSpecifier) ? statement.moduleSpecifier.text : '',
+      specifiers,
+      isDefault: clause?.name !== undefined,
+      isDynamic: false,
+      ...this.getPosition(statement, sourceFile),
+    };
+  }
+
+  private createExport(
+    name: string,
+    exportType: 'function' | 'class' | 'variable',
+    isDefault: boolean,
+    node: ts.Node,
+    sourceFile: ts.SourceFile
+  ): ExportNode {
+    return {
+      type: 'ExportDeclaration',
+      name,
+      exportType: isDefault ? 'default' : exportType,
+      isDefault,
+      ...this.getPosition(node, sourceFile),
+    };
+  }
+
+  private createFunction(
+    fn: ts.SignatureDeclaration,
+    name: string,
+    isExported: boolean,
+    sourceFile: ts.SourceFile,
+    positionNode: ts.Node = fn
+  ): FunctionNode {
+    const node: FunctionNode = {
+      type: 'FunctionDeclaration',
+      name,
+      parameters: fn.parameters.map(parameter => {
+        const info: ParameterInfo = {
+          name: parameter.name.getText(sourceFile),
+          isOptional:
+            parameter.questionToken !== undefined ||
+            parameter.initializer !== undefined ||
+            parameter.dotDotDotToken !== undefined,
+        };
+        if (parameter.type) info.type = parameter.type.getText(sourceFile);
+        if (parameter.initializer) info.defaultValue = parameter.initializer.getText(sourceFile);
+        return info;
+      }),
+      isAsync: this.hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+      isExported,
+      complexity: this.calculateComplexity(fn),
+      decorators: this.getDecorators(fn, sourceFile),
+      ...this.getPosition(positionNode, sourceFile),
+    };
+    if (fn.type) {
+      node.returnType = fn.type.getText(sourceFile);
+    }
+    return node;
+  }
+
+  private createClass(
+    declaration: ts.ClassLikeDeclaration,
+    name: string,
+    isExported: boolean,
+    sourceFile: ts.SourceFile
+  ): ClassNode {
+    const methods: FunctionNode[] = [];
+    const properties: PropertyInfo[] = [];
+
+    for (const member of declaration.members) {
+      const memberName = member.name ? member.name.getText(sourceFile) : 'constructor';
+
+      if (
+        ts.isMethodDeclaration(member) ||
+        ts.isConstructorDeclaration(member) ||
+        ts.isGetAccessorDeclaration(member) ||
+        ts.isSetAccessorDeclaration(member)
+      ) {
+        methods.push(this.createFunction(member, memberName, false, sourceFile));
+
+        // Constructor parameter properties, e.g. `constructor(private readonly repo: Repo)`
+        if (ts.isConstructorDeclaration(member)) {
+          for (const parameter of member.parameters) {
+            if (ts.isParameterPropertyDeclaration(parameter, member)) {
+              properties.push(this.createProperty(parameter, sourceFile));
+            }
+          }
+        }
+      } else if (ts.isPropertyDeclaration(member)) {
+        const initializer = member.initializer && this.unwrap(member.initializer);
+        if (initializer && this.isFunctionLike(initializer)) {
+          const method = this.createFunction(initializer, memberName, false, sourceFile, member);
+          method.decorators = this.getDecorators(member, sourceFile);
+          methods.push(method);
+        } else {
+          properties.push(this.createProperty(member, sourceFile));
+        }
+      }
+    }
+
+    const node: ClassNode = {
+      type: 'ClassDeclaration',
+      name,
+      implements: [],
+      methods,
+      properties,
+      isExported,
+      decorators: this.getDecorators(declaration, sourceFile),
+      ...this.getPosition(declaration, sourceFile),
+    };
+    for (const clause of declaration.heritageClauses || []) {
+      const types = clause.types.map(type => type.expression.getText(sourceFile));
+      if (clause.token === ts.SyntaxKind.ExtendsKeyword && types[0]) {
+        node.extends = types[0];
+      } else if (clause.token === ts.SyntaxKind.ImplementsKeyword) {
+        node.implements = types;
+      }
+    }
+    return node;
+  }
+
+  private createProperty(
+    member: ts.PropertyDeclaration | ts.ParameterDeclaration,
+    sourceFile: ts.SourceFile
+  ): PropertyInfo {
+    const property: PropertyInfo = {
+      name: member.name.getText(sourceFile),
+      isStatic: this.hasModifier(member, ts.SyntaxKind.StaticKeyword),
+      isPrivate:
+        this.hasModifier(member, ts.SyntaxKind.PrivateKeyword) ||
+        ts.isPrivateIdentifier(member.name),
+      ...this.getPosition(member, sourceFile),
+    };
+    if (member.type) {
+      property.type = member.type.getText(sourceFile);
+    }
+    return property;
+  }
+
+  /**
+   * Cyclomatic complexity: one plus each branch, loop, case, catch and short-circuit
+   */
+  private calculateComplexity(fn: ts.Node): number {
+    let complexity = 1;
+
+    const visit = (node: ts.Node): void => {
+      switch (node.kind) {
+        case ts.SyntaxKind.IfStatement:
+        case ts.SyntaxKind.ConditionalExpression:
+        case ts.SyntaxKind.ForStatement:
+        case ts.SyntaxKind.ForInStatement:
+        case ts.SyntaxKind.ForOfStatement:
+        case ts.SyntaxKind.WhileStatement:
+        case ts.SyntaxKind.DoStatement:
+        case ts.SyntaxKind.CaseClause:
+        case ts.SyntaxKind.CatchClause:
+          complexity++;
+          break;
+        case ts.SyntaxKind.BinaryExpression: {
+          const operator = (node as ts.BinaryExpression).operatorToken.kind;
+          if (
+            operator === ts.SyntaxKind.AmpersandAmpersandToken ||
+            operator === ts.SyntaxKind.BarBarToken ||
+            operator === ts.SyntaxKind.QuestionQuestionToken
+          ) {
+            complexity++;
+          }
+          break;
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    ts.forEachChild(fn, visit);
+    return complexity;
+  }
+
+  /**
+   * Decorator expressions without the `@`, e.g. `Get(':id')`
+   */
+  private getDecorators(node: ts.Node, sourceFile: ts.SourceFile): string[] {
+    if (!ts.canHaveDecorators(node)) return [];
+    return (ts.getDecorators(node) || []).map(decorator =>
+      decorator.expression.getText(sourceFile)
+    );
+  }
+
+  /**
+   * Local names bound by an identifier or destructuring pattern; with `imported`,
+   * the property names read from the source object instead
+   */
+  private getBindingNames(name: ts.BindingName, imported = false): string[] {
+    if (ts.isIdentifier(name)) return [name.text];
+
+    return name.elements.flatMap(element => {
+      if (ts.isOmittedExpression(element)) return [];
+      if (imported && element.propertyName && ts.isIdentifier(element.propertyName)) {
+        return [element.propertyName.text];
+      }
+      return this.getBindingNames(element.name, imported);
+    });
+  }
+
+  private getExportType(declaration?: ParsedNode): 'function' | 'class' | 'variable' {
+    if (declaration?.type === 'FunctionDeclaration') return 'function';
+    if (declaration?.type === 'ClassDeclaration') return 'class';
+    return 'variable';
+  }
+
+  private isFunctionLike(node: ts.Node): node is ts.ArrowFunction | ts.FunctionExpression {
+    return ts.isArrowFunction(node) || ts.isFunctionExpression(node);
+  }
+
+  /**
+   * Strip parentheses and type assertions around an expression
+   */
+  private unwrap(expression: ts.Expression): ts.Expression {
+    let current = expression;
+    while (
+      ts.isParenthesizedExpression(current) ||
+      ts.isAsExpression(current) ||
+      ts.isSatisfiesExpression(current) ||
+      ts.isTypeAssertionExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return current;
+  }
+
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    return (
+      ts.canHaveModifiers(node) &&
+      (ts.getModifiers(node) || []).some(modifier => modifier.kind === kind)
+    );
+  }
+
+  private getPosition(node: ts.Node, sourceFile: ts.SourceFile): { line: number; column: number } {
+    const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return { line: line + 1, column: character + 1 };
+  }
+}
@@ -0,0 +1,851 @@
+import { posix } from 'path';
+import { CodebaseIndex, FileIndexEntry, HttpMethod, RouteInfo, ServiceInfo } from '../types';
+import { ErrorFactory, ErrorCodes } from '../utils/error-handler';
+import { ASTParser, CallInfo, SimplifiedAST } from './ast-parser';
+
+/**
+ * Interface for extracting the HTTP API surface from parsed source code
+ */
+export interface RouteAnalyzer {
+  /**
+   * Extracts routes declared through framework decorators, attributes and router
+   * calls, with prefixes from controllers, router groups and mounted sub-routers applied
+   */
+  extractRoutes(index: CodebaseIndex): Promise<RouteInfo[]>;
+
+  /**
+   * Attaches each route to the service whose entry points share the longest
+   * directory prefix with the file declaring it
+   */
+  assignRoutes(services: ServiceInfo[], routes: RouteInfo[]): ServiceInfo[];
+
+  /**
+   * Most likely health check endpoint among the routes
+   */
+  guessHealthCheckPath(routes: RouteInfo[]): string | undefined;
+
+  /**
+   * Path prefixes for Ingress rules, one per top-level path segment
+   */
+  buildIngressPaths(routes: RouteInfo[]): string[];
+
+  /**
+   * OpenAPI 3 document skeleton with an operation per route
+   */
+  buildOpenApiSpec(routes: RouteInfo[], title: string, version?: string): Record<string, any>;
+}
+
+/**
+ * Route found in one file, before prefixes from other files are applied
+ */
+interface LocalRoute extends Omit<RouteInfo, 'source'> {
+  line: number;
+}
+
+/**
+ * Sub-router or module mounted under a path prefix from another file
+ */
+interface Mount {
+  from: string;
+  prefix: string;
+}
+
+/**
+ * Frameworks recognised from import sources, matched as prefixes
+ */
+const FRAMEWORK_IMPORTS: Array<[string, string]> = [
+  ['express', 'express'],
+  ['fastify', 'fastify'],
+  ['koa-router', 'koa'],
+  ['@koa/router', 'koa'],
+  ['hono', 'hono'],
+  ['@nestjs/', 'nestjs'],
+  ['fastapi', 'fastapi'],
+  ['starlette', 'fastapi'],
+  ['flask', 'flask'],
+  ['django', 'django'],
+  ['javax.ws.rs', 'jax-rs'],
+  ['jakarta.ws.rs', 'jax-rs'],
+  ['github.com/gin-gonic/gin', 'gin'],
+  ['github.com/labstack/echo', 'echo'],
+  ['github.com/go-chi/chi', 'chi'],
+  ['github.com/gofiber/fiber', 'fiber'],
+  ['github.com/gorilla/mux', 'gorilla'],
+  ['net/http', 'net/http'],
+];
+
+const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS', 'HEAD'];
+
+/**
+ * Receivers that router methods are conventionally called on, which keeps HTTP
+ * client calls such as `axios.get('/users', config)` out of the route list
+ */
+const ROUTER_RECEIVER =
+  /^(?:app|api|server|router|routes?|fastify|koa|hono|\w*(?:Router|App|Api))$/i;
+
+/**
+ * Last path segments of liveness and readiness endpoints, most specific first
+ */
+const HEALTH_SEGMENTS = ['healthz', 'health', 'livez', 'readyz', 'ready', 'live', 'ping', 'status'];
+
+const SOURCE_FILE = /\.(?:[jt]sx?|py|go|java|cs)$/;
+const SCRIPT_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Default implementation of RouteAnalyzer
+ */
+export class DefaultRouteAnalyzer implements RouteAnalyzer {
+  private astParser: ASTParser;
+
+  constructor(astParser?: ASTParser) {
+    this.astParser = astParser || new ASTParser();
+  }
+
+  async extractRoutes(index: CodebaseIndex): Promise<RouteInfo[]> {
+    try {
+      const files = index.fileIndex.filter(
+        (file): file is FileIndexEntry & { content: string } =>
+          file.content !== undefined && file.type !== 'test' && SOURCE_FILE.test(file.path)
+      );
+      const paths = new Set(files.map(file => file.path));
+      const asts = new Map<string, SimplifiedAST>();
+      for (const file of files) {
+        asts.set(file.path, await this.astParser.createSimplifiedAST(file.path, file.content));
+      }
+
+      // Nest applies `app.setGlobalPrefix('api')` from main.ts to every controller
+      const globalPrefix =
+        [...asts.values()]
+          .flatMap(ast => ast.calls)
+          .filter(call => call.callee.endsWith('.setGlobalPrefix'))
+          .map(call => this.stringValue(call.arguments[0]))
+          .find(value => value !== undefined) || '';
+
+      const localRoutes = new Map<string, LocalRoute[]>();
+      const mounts = new Map<string, Mount[]>();
+
+      for (const [file, ast] of asts) {
+        const frameworks = this.detectFrameworks(ast);
+        const prefixes = this.collectPrefixes(file, ast, paths, mounts);
+        localRoutes.set(file, [
+          ...this.getDecoratorRoutes(ast, frameworks, prefixes, globalPrefix),
+          ...this.getCallRoutes(ast, frameworks, prefixes),
+        ]);
+      }
+
+      const routes = new Map<string, RouteInfo>();
+      for (const [file, fileRoutes] of localRoutes) {
+        for (const prefix of this.getMountPrefixes(file, mounts, new Set())) {
+          for (const { line, ...route } of fileRoutes) {
+            const path = this.joinPaths(prefix, route.path);
+            const key = `${route.method} ${path} ${file}:${line}`;
+            if (!routes.has(key)) {
+              routes.set(key, { ...route, path, source: { file, line } });
+            }
+          }
+        }
+      }
+
+      return [...routes.values()].sort(
+        (a, b) => a.path.localeCompare(b.path) || a.method.localeCompare(b.method)
+      );
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(
+        error,
+        'analysis',
+        ErrorCodes.ARCHITECTURE_DETECTION_FAILED
+      );
+    }
+  }
+
+  assignRoutes(services: ServiceInfo[], routes: RouteInfo[]): ServiceInfo[] {
+    if (services.length === 1) {
+      return services.map(service => ({ ...service, routes }));
+    }
+
+    const directories = services.map(service =>
+      service.entryPoints.map(entryPoint => posix.dirname(entryPoint)).filter(dir => dir !== '.')
+    );
+    const assigned = services.map((): RouteInfo[] => []);
+
+    for (const route of routes) {
+      let best = -1;
+      let bestLength = -1;
+      directories.forEach((dirs, serviceIndex) => {
+        for (const dir of dirs) {
+          if (route.source.file.startsWith(`${dir}/`) && dir.length > bestLength) {
+            best = serviceIndex;
+            bestLength = dir.length;
+          }
+        }
+      });
+      if (best !== -1) assigned[best]!.push(route);
+    }
+
+    return services.map((service, serviceIndex) => ({
+      ...service,
+      routes: assigned[serviceIndex]!,
+    }));
+  }
+
+  guessHealthCheckPath(routes: RouteInfo[]): string | undefined {
+    const candidates = routes
+      .filter(
+        route => (route.method === 'GET' || route.method === 'ANY') && !route.path.includes('{')
+      )
+      .map(route => ({
+        path: route.path,
+        rank: HEALTH_SEGMENTS.indexOf(route.path.split('/').pop() || ''),
+      }))
+      .filter(candidate => candidate.rank !== -1)
+      .sort((a, b) => a.rank - b.rank || a.path.length - b.path.length);
+
+    return candidates[0]?.path;
+  }
+
+  buildIngressPaths(routes: RouteInfo[]): string[] {
+    const prefixes = new Set<string>();
+
+    for (const route of routes) {
+      const [first] = route.path.split('/').filter(Boolean);
+      // A root route or a parameter in the first segment needs the whole host
+      if (!first || first.includes('{')) return ['/'];
+      prefixes.add(`/${first}`);
+    }
+
+    return prefixes.size > 0 ? [...prefixes].sort() : ['/'];
+  }
+
+  buildOpenApiSpec(routes: RouteInfo[], title: string, version = '1.0.0'): Record<string, any> {
+    const paths: Record<string, Record<string, any>> = {};
+
+    for (const route of routes) {
+      const operations = (paths[route.path] ||= {});
+      const method = route.method === 'ANY' ? 'get' : route.method.toLowerCase();
+      if (operations[method]) continue;
+
+      const parameters = [...route.path.matchAll(/\{(\w+)\}/g)].map(match => ({
+        name: match[1],
+        in: 'path',
+        required: true,
+        schema: { type: 'string' },
+      }));
+      operations[method] = {
+        ...(route.handler && { summary: route.handler }),
+        ...(route.method === 'ANY' && { description: 'Accepts any HTTP method' }),
+        ...(parameters.length > 0 && { parameters }),
+        responses: { '200': { description: 'Successful response' } },
+      };
+    }
+
+    return { openapi: '3.0.3', info: { title, version }, paths };
+  }
+
+  /**
+   * Web frameworks a file imports. Java and C# web annotations are distinctive
+   * enough to recognise without imports, which implicit usings often leave out.
+   */
+  private detectFrameworks(ast: SimplifiedAST): Set<string> {
+    const frameworks = new Set<string>();
+
+    for (const { source } of ast.imports) {
+      const match = FRAMEWORK_IMPORTS.find(([prefix]) => source.startsWith(prefix));
+      if (match) frameworks.add(match[1]);
+    }
+    if (ast.language === 'java' && !frameworks.has('jax-rs')) frameworks.add('spring');
+    if (ast.language === 'csharp') frameworks.add('aspnetcore');
+
+    return frameworks;
+  }
+
+  /**
+   * Path prefixes of router variables: gin, echo and fiber groups, ASP.NET route
+   * groups, FastAPI routers, Flask blueprints and routers mounted in the same file.
+   * Mounts of imported routers are recorded against the file they resolve to.
+   */
+  private collectPrefixes(
+    file: string,
+    ast: SimplifiedAST,
+    paths: Set<string>,
+    mounts: Map<string, Mount[]>
+  ): Map<string, string> {
+    const prefixes = new Map<string, string>();
+
+    for (const call of ast.calls) {
+      const { receiver, method } = this.splitCallee(call.callee);
+      const base = (receiver && prefixes.get(receiver)) || '';
+
+      if (call.assignedTo) {
+        let prefix: string | undefined;
+        if (method === 'Group' || method === 'MapGroup') {
+          prefix = this.stringValue(call.arguments[0]);
+        } else if (method === 'APIRouter') {
+          prefix = this.stringValue(this.getArgument(call.arguments, -1, ['prefix']));
+        } else if (method === 'Blueprint') {
+          prefix = this.stringValue(this.getArgument(call.arguments, -1, ['url_prefix']));
+        }
+        if (prefix !== undefined) {
+          prefixes.set(call.assignedTo, this.joinPaths(base, prefix));
+          continue;
+        }
+      }
+
+      const mount = this.getMount(ast, call);
+      if (!mount) continue;
+
+      const imported = this.resolveMountTarget(file, ast, mount.target, paths);
+      const prefix = this.joinPaths(base, mount.prefix);
+      if (imported) {
+        const existing = mounts.get(imported) || [];
+        existing.push({ from: file, prefix });
+        mounts.set(imported, existing);
+      } else if (/^[\w$]+$/.test(mount.target)) {
+        prefixes.set(mount.target, this.joinPaths(prefix, prefixes.get(mount.target) || ''));
+      }
+    }
+
+    return prefixes;
+  }
+
+  /**
+   * Sub-router mounted by a call: Express `use` and Hono `route` with a path,
+   * Fastify `register` with a prefix option, FastAPI `include_router`, Flask
+   * `register_blueprint` and Django `include`
+   */
+  private getMount(
+    ast: SimplifiedAST,
+    call: CallInfo
+  ): { target: string; prefix: string } | undefined {
+    const { method } = this.splitCallee(call.callee);
+    const args = call.arguments;
+
+    if ((method === 'use' || method === 'route') && args.length >= 2) {
+      const prefix = this.stringValue(args[0]);
+      if (prefix === undefined) return undefined;
+      return { target: args[args.length - 1]!, prefix };
+    }
+    if (method === 'register' && args[0]) {
+      const options = args[1] || '';
+      return {
+        target: args[0],
+        prefix: options.match(/\bprefix\s*:\s*(['"`])([^'"`]*)\1/)?.[2] || '',
+      };
+    }
+    if ((method === 'include_router' || method === 'register_blueprint') && args[0]) {
+      const option = method === 'include_router' ? 'prefix' : 'url_prefix';
+      return {
+        target: args[0],
+        prefix: this.stringValue(this.getArgument(args, -1, [option])) || '',
+      };
+    }
+    if (this.isDjangoUrlConf(ast, call) && args.length >= 2) {
+      const module = args[1]!.match(/^include\(\s*(?:r?(['"])([\w.]+)\1)/)?.[2];
+      const prefix = this.stringValue(args[0]);
+      if (module && prefix !== undefined) return { target: `include:${module}`, prefix };
+    }
+    return undefined;
+  }
+
+  /**
+   * Routes declared with decorators or attributes on classes and functions:
+   * Nest controllers, Spring and JAX-RS resources, ASP.NET controllers and
+   * FastAPI or Flask view functions
+   */
+  private getDecoratorRoutes(
+    ast: SimplifiedAST,
+    frameworks: Set<string>,
+    prefixes: Map<string, string>,
+    globalPrefix: string
+  ): LocalRoute[] {
+    const routes: LocalRoute[] = [];
+
+    for (const cls of ast.classes) {
+      const classDecorators = (cls.decorators || []).map(text => this.parseCall(text));
+      const find = (name: string) => classDecorators.find(decorator => decorator.name === name);
+
+      for (const method of cls.methods) {
+        const handler = `${cls.name}.${method.name}`;
+        const decorators = (method.decorators || []).map(text => this.parseCall(text));
+        const line = method.line || cls.line || 1;
+
+        if (frameworks.has('nestjs')) {
+          const controller = find('Controller');
+          if (!controller) continue;
+          const base = this.joinPaths(
+            globalPrefix,
+            this.stringValue(this.getArgument(controller.args, 0, ['path'])) || ''
+          );
+          for (const decorator of decorators) {
+            const httpMethod = this.toHttpMethod(decorator.name);
+            if (!httpMethod) continue;
+            routes.push({
+              method: httpMethod,
+              path: this.joinPaths(base, this.stringValue(decorator.args[0]) || ''),
+              handler,
+              framework: 'nestjs',
+              line,
+            });
+          }
+        }
+
+        if (frameworks.has('spring')) {
+          const mapping = find('RequestMapping');
+          const bases = mapping ? this.getPathValues(mapping.args, ['value', 'path']) : [''];
+          for (const decorator of decorators) {
+            const verb = decorator.name.match(/^(Get|Post|Put|Patch|Delete)Mapping$/)?.[1];
+            const methods: HttpMethod[] = verb
+              ? [verb.toUpperCase() as HttpMethod]
+              : decorator.name === 'RequestMapping'
+                ? this.getRequestMethods(decorator.args)
+                : [];
+            for (const httpMethod of methods) {
+              for (const base of bases) {
+                for (const path of this.getPathValues(decorator.args, ['value', 'path'])) {
+                  routes.push({
+                    method: httpMethod,
+                    path: this.joinPaths(base, path),
+                    handler,
+                    framework: 'spring',
+                    line,
+                  });
+                }
+              }
+            }
+          }
+        }
+
+        if (frameworks.has('jax-rs')) {
+          const resource = find('Path');
+          const verb = decorators.find(decorator =>
+            HTTP_METHODS.includes(decorator.name as HttpMethod)
+          );
+          if (!resource || !verb) continue;
+          const subPath = decorators.find(decorator => decorator.name === 'Path');
+          routes.push({
+            method: verb.name as HttpMethod,
+            path: this.joinPaths(
+              this.stringValue(this.getArgument(resource.args, 0, ['value'])) || '',
+              (subPath && this.stringValue(this.getArgument(subPath.args, 0, ['value']))) || ''
+            ),
+            handler,
+            framework: 'jax-rs',
+            line,
+          });
+        }
+
+        if (frameworks.has('aspnetcore')) {
+          routes.push(
+            ...this.getControllerRoutes(cls.name, method.name, classDecorators, decorators, line)
+          );
+        }
+      }
+    }
+
+    if (frameworks.has('fastapi') || frameworks.has('flask')) {
+      const framework = frameworks.has('fastapi') ? 'fastapi' : 'flask';
+      for (const fn of ast.functions) {
+        for (const decorator of (fn.decorators || []).map(text => this.parseCall(text))) {
+          const { receiver, method } = this.splitCallee(decorator.name);
+          const httpMethod = this.toHttpMethod(method);
+          let methods: HttpMethod[];
+          if (httpMethod) {
+            methods = [httpMethod];
+          } else if (method === 'route' || method === 'api_route') {
+            const listed = this.getArgument(decorator.args, -1, ['methods']) || '';
+            const names = [...listed.matchAll(/['"](\w+)['"]/g)].flatMap(
+              match => this.toHttpMethod(match[1] || '') || []
+            );
+            methods = names.length > 0 ? names : ['GET'];
+          } else {
+            continue;
+          }
+
+          const path = this.stringValue(this.getArgument(decorator.args, 0, ['path', 'rule']));
+          if (path === undefined || !receiver) continue;
+          for (const httpMethod of methods) {
+            routes.push({
+              method: httpMethod,
+              path: this.joinPaths(prefixes.get(receiver) || '', path),
+              handler: fn.name,
+              framework,
+              line: fn.line || 1,
+            });
+          }
+        }
+      }
+    }
+
+    return routes;
+  }
+
+  /**
+   * Attribute-routed ASP.NET controller action. `[controller]` and `[action]` tokens
+   * are replaced, and action templates starting with `/` or `~/` ignore the
+   * controller route. Conventionally routed actions have no template and are skipped.
+   */
+  private getControllerRoutes(
+    className: string,
+    methodName: string,
+    classAttributes: Array<{ name: string; args: string[] }>,
+    attributes: Array<{ name: string; args: string[] }>,
+    line: number
+  ): LocalRoute[] {
+    const routes: LocalRoute[] = [];
+    const template = (attribute: { args: string[] } | undefined) =>
+      attribute && this.stringValue(this.getArgument(attribute.args, 0, ['template', 'Template']));
+    const classRoute = template(classAttributes.find(attribute => attribute.name === 'Route'));
+    const methodRoute = template(attributes.find(attribute => attribute.name === 'Route'));
+
+    for (const attribute of attributes) {
+      const verb = attribute.name.match(/^Http(Get|Post|Put|Patch|Delete|Options|Head)$/)?.[1];
+      if (!verb) continue;
+
+      const actionRoute = template(attribute) ?? methodRoute;
+      if (classRoute === undefined && actionRoute === undefined) continue;
+
+      const path =
+        actionRoute !== undefined && /^~?\//.test(actionRoute)
+          ? actionRoute.replace(/^~/, '')
+          : this.joinPaths(classRoute || '', actionRoute || '');
+      routes.push({
+        method: verb.toUpperCase() as HttpMethod,
+        path: path
+          .replace(/\[controller\]/gi, className.replace(/Controller$/, ''))
+          .replace(/\[action\]/gi, methodName),
+        handler: `${className}.${methodName}`,
+        framework: 'aspnetcore',
+        line,
+      });
+    }
+
+    return routes;
+  }
+
+  /**
+   * Routes registered by calling router methods: Express, Fastify, Koa and Hono,
+   * Go's net/http, gin, echo, chi, fiber and gorilla, ASP.NET minimal APIs and
+   * Django URLconfs
+   */
+  private getCallRoutes(
+    ast: SimplifiedAST,
+    frameworks: Set<string>,
+    prefixes: Map<string, string>
+  ): LocalRoute[] {
+    const routes: LocalRoute[] = [];
+    const framework =
+      ['express', 'fastify', 'koa', 'hono', 'gin', 'echo', 'chi', 'fiber', 'gorilla'].find(name =>
+        frameworks.has(name)
+      ) || (ast.language === 'go' ? 'net/http' : 'express');
+
+    for (const call of ast.calls) {
+      const { receiver, method } = this.splitCallee(call.callee);
+      const args = call.arguments;
+      const prefix = (receiver && prefixes.get(receiver)) || '';
+      const path = this.stringValue(args[0]);
+      const handler = this.getHandlerName(args[args.length - 1]);
+      const add = (httpMethod: HttpMethod, routePath: string, name: string) =>
+        routes.push({
+          method: httpMethod,
+          path: this.joinPaths(prefix, routePath),
+          ...(handler && args.length > 1 && { handler }),
+          framework: name,
+          line: call.line || 1,
+        });
+
+      if (ast.language === 'javascript' || ast.language === 'typescript') {
+        if (!receiver || !ROUTER_RECEIVER.test(receiver)) continue;
+        const httpMethod = this.toHttpMethod(method);
+        if (path?.startsWith('/') && args.length >= 2) {
+          if (httpMethod && method === method.toLowerCase()) add(httpMethod, path, framework);
+        } else if (method === 'route' && args[0]?.startsWith('{')) {
+          // fastify.route({ method: ['GET', 'HEAD'], url: '/users', handler })
+          const options = args[0];
+          const url = options.match(/\burl\s*:\s*(['"`])([^'"`]*)\1/)?.[2];
+          const methods = options.match(/\bmethod\s*:\s*(\[[^\]]*\]|['"`]\w+['"`])/)?.[1] || '';
+          for (const match of methods.matchAll(/['"`](\w+)['"`]/g)) {
+            const verb = this.toHttpMethod(match[1] || '');
+            if (url && verb) add(verb, url, 'fastify');
+          }
+        }
+      } else if (ast.language === 'go') {
+        if (!path?.replace(/^[A-Z]+\s+/, '').startsWith('/') || args.length < 2) continue;
+        if (method === 'HandleFunc' || method === 'Handle') {
+          // Go 1.22 patterns carry the method: mux.HandleFunc("GET /users/{id}", ...)
+          const pattern = path.match(/^([A-Z]+)\s+(\S+)$/);
+          const name = framework === 'gorilla' || framework === 'chi' ? framework : 'net/http';
+          const patternMethod = pattern && this.toHttpMethod(pattern[1] || '');
+          if (pattern && patternMethod) {
+            add(patternMethod, pattern[2] || '', name);
+          } else {
+            add('ANY', path, name);
+          }
+        } else if (/^[A-Z](?:[A-Z]+|[a-z]+)$/.test(method)) {
+          // gin and echo use GET, POST and Any; chi and fiber use Get, Post and All
+          const httpMethod = this.toHttpMethod(method);
+          if (httpMethod) add(httpMethod, path, framework);
+        }
+      } else if (ast.language === 'csharp') {
+        const verb = method.match(/^Map(Get|Post|Put|Patch|Delete)$/)?.[1];
+        if (path === undefined) continue;
+        if (verb) {
+          add(verb.toUpperCase() as HttpMethod, path, 'aspnetcore');
+        } else if (method === 'MapMethods') {
+          for (const match of (args[1] || '').matchAll(/"(\w+)"/g)) {
+            const verb = this.toHttpMethod(match[1] || '');
+            if (verb) add(verb, path, 'aspnetcore');
+          }
+        } else if (method === 'MapHealthChecks') {
+          add('GET', path, 'aspnetcore');
+        }
+      } else if (this.isDjangoUrlConf(ast, call) && args.length >= 2 && path !== undefined) {
+        if (/^include\(/.test(args[1] || '')) continue;
+        const view = this.getHandlerName(args[1]?.replace(/\.as_view\(.*$/s, ''));
+        routes.push({
+          method: 'ANY',
+          path: this.joinPaths(prefix, method === 'path' ? path : this.regexToTemplate(path)),
+          ...(view && { handler: view }),
+          framework: 'django',
+          line: call.line || 1,
+        });
+      }
+    }
+
+    return routes;
+  }
+
+  /**
+   * Whether a call is a `path`, `re_path` or `url` entry in a Django URLconf
+   */
+  private isDjangoUrlConf(ast: SimplifiedAST, call: CallInfo): boolean {
+    return (
+      ast.language === 'python' &&
+      ['path', 're_path', 'url'].includes(call.callee) &&
+      ast.imports.some(imp => imp.source.startsWith('django'))
+    );
+  }
+
+  /**
+   * Prefixes a file's routes are served under, following mounts up to the files
+   * that are not mounted anywhere
+   */
+  private getMountPrefixes(
+    file: string,
+    mounts: Map<string, Mount[]>,
+    visited: Set<string>
+  ): string[] {
+    const parents = mounts.get(file);
+    if (!parents || visited.has(file)) return [''];
+
+    const nextVisited = new Set(visited).add(file);
+    return parents.flatMap(parent =>
+      this.getMountPrefixes(parent.from, mounts, nextVisited).map(prefix =>
+        this.joinPaths(prefix, parent.prefix)
+      )
+    );
+  }
+
+  /**
+   * File a mounted router comes from: an imported JavaScript module, a Python
+   * module imported by name, or a Django `include('app.urls')` module path
+   */
+  private resolveMountTarget(
+    file: string,
+    ast: SimplifiedAST,
+    target: string,
+    paths: Set<string>
+  ): string | undefined {
+    if (target.startsWith('include:')) {
+      return this.findModule(target.slice('include:'.length).replace(/\./g, '/'), ['.py'], paths);
+    }
+
+    const required = target.match(/^require\(\s*['"`]([^'"`]+)['"`]\s*\)/)?.[1];
+    const name = target.split('.')[0] || '';
+    const imported = required
+      ? { source: required, specifiers: [] as string[] }
+      : ast.imports.find(imp => imp.specifiers.includes(name));
+    if (!imported) return undefined;
+
+    if (ast.language === 'python') {
+      const dots = imported.source.match(/^\.*/)?.[0].length || 0;
+      const module = imported.source.slice(dots).replace(/\./g, '/');
+      let base = module;
+      if (dots > 0) {
+        let dir = posix.dirname(file);
+        for (let level = 1; level < dots; level++) dir = posix.dirname(dir);
+        base = posix.join(dir, module);
+      }
+      // `from .routers import users` names a module; `from .routes import router` an attribute
+      const isModuleImport = imported.source.split('.').pop() !== name && !required;
+      return (
+        (isModuleImport && this.findModule(posix.join(base, name), ['.py'], paths)) ||
+        this.findModule(base, ['.py'], paths)
+      );
+    }
+
+    if (!imported.source.startsWith('.')) return undefined;
+    const resolved = posix.join(posix.dirname(file), imported.source);
+    return [
+      resolved,
+      ...SCRIPT_EXTENSIONS.map(extension => `${resolved}${extension}`),
+      ...SCRIPT_EXTENSIONS.map(extension => `${resolved}/index${extension}`),
+    ].find(candidate => paths.has(candidate));
+  }
+
+  /**
+   * Indexed file for a module path, as a file or a package, matched as a path
+   * suffix since module paths are relative to a source root
+   */
+  private findModule(module: string, extensions: string[], paths: Set<string>): string | undefined {
+    const candidates = extensions.flatMap(extension => [
+      `${module}${extension}`,
+      `${module}/__init__${extension}`,
+    ]);
+    return [...paths].find(path =>
+      candidates.some(candidate => path === candidate || path.endsWith(`/${candidate}`))
+    );
+  }
+
+  /**
+   * Receiver variable and method name of a callee such as `this.router.get`
+   */
+  private splitCallee(callee: string): { receiver?: string; method: string } {
+    const segments = callee.split(/\??\./);
+    const method = segments.pop() || '';
+    const receiver = segments.pop();
+    return receiver ? { receiver, method } : { method };
+  }
+
+  /**
+   * Name and argument texts of a decorator or attribute such as `Get(':id')`
+   */
+  private parseCall(text: string): { name: string; args: string[] } {
+    const open = text.indexOf('(');
+    if (open === -1) return { name: text.trim(), args: [] };
+
+    const close = text.lastIndexOf(')');
+    const inner = text.slice(open + 1, close === -1 ? undefined : close);
+    const args: string[] = [];
+    let depth = 0;
+    let quote: string | undefined;
+    let current = '';
+
+    for (let i = 0; i < inner.length; i++) {
+      const char = inner[i]!;
+      if (quote) {
+        if (char === '\\') {
+          current += char + (inner[++i] || '');
+          continue;
+        }
+        if (char === quote) quote = undefined;
+      } else if (char === '"' || char === "'" || char === '`') {
+        quote = char;
+      } else if ('([{'.includes(char)) {
+        depth++;
+      } else if (')]}'.includes(char)) {
+        depth--;
+      } else if (char === ',' && depth === 0) {
+        args.push(current.trim());
+        current = '';
+        continue;
+      }
+      current += char;
+    }
+    args.push(current.trim());
+
+    return { name: text.slice(0, open).trim(), args: args.filter(Boolean) };
+  }
+
+  /**
+   * Named argument (`prefix="/x"`, `value = "/x"`, `path: '/x'`) or else the
+   * positional argument at `position`; -1 looks up names only
+   */
+  private getArgument(args: string[], position: number, names: string[]): string | undefined {
+    for (const arg of args) {
+      const named = arg.match(/^(\w+)\s*[=:](?![=>])\s*([\s\S]*)$/);
+      if (named && names.includes(named[1] || '')) return named[2];
+    }
+    if (position < 0) return undefined;
+    return args.filter(arg => !/^\w+\s*[=:](?![=>])/.test(arg))[position];
+  }
+
+  /**
+   * Value of a string literal argument, including Python prefixed strings and C#
+   * verbatim strings, or undefined for any other expression
+   */
+  private stringValue(text: string | undefined): string | undefined {
+    const match = text?.trim().match(/^(?:[rRbBuU]|@)?(['"`])([^'"`\\]*(?:\\.[^'"`\\]*)*)\1$/);
+    if (match) return match[2];
+
+    // Nest controller options: @Controller({ path: 'users' })
+    const objectPath = text?.match(/^\{[\s\S]*\bpath\s*:\s*(['"`])([^'"`]*)\1/);
+    return objectPath?.[2];
+  }
+
+  /**
+   * Paths of a Spring mapping, which may list several: `@GetMapping({"/a", "/b"})`
+   */
+  private getPathValues(args: string[], names: string[]): string[] {
+    const value = this.getArgument(args, 0, names);
+    if (!value) return [''];
+    const listed = [...value.matchAll(/"([^"]*)"/g)].map(match => match[1] || '');
+    return listed.length > 0 ? listed : [''];
+  }
+
+  /**
+   * Methods of a Spring `@RequestMapping`, which matches any method unless narrowed
+   */
+  private getRequestMethods(args: string[]): HttpMethod[] {
+    const value = this.getArgument(args, -1, ['method']) || '';
+    const methods = [...value.matchAll(/RequestMethod\.(\w+)/g)].map(
+      match => match[1] as HttpMethod
+    );
+    return methods.length > 0 ? methods : ['ANY'];
+  }
+
+  /**
+   * HTTP method named by a decorator or router method; `all` and `any` match every method
+   */
+  private toHttpMethod(name: string): HttpMethod | undefined {
+    const upper = name.toUpperCase();
+    if (upper === 'ALL' || upper === 'ANY') return 'ANY';
+    return HTTP_METHODS.find(method => method === upper);
+  }
+
+  /**
+   * Handler name when the argument names a function or method rather than an
+   * inline lambda
+   */
+  private getHandlerName(arg: string | undefined): string | undefined {
+    const name = arg?.trim().replace(/^&/, '');
+    return name && /^[\w$]+(?:\.[\w$]+)*$/.test(name) ? name : undefined;
+  }
+
+  /**
+   * Django `re_path` regex as a path template: `^posts/(?P<slug>[-\w]+)/$` becomes
+   * `posts/{slug}`
+   */
+  private regexToTemplate(pattern: string): string {
+    return pattern
+      .replace(/^\^/, '')
+      .replace(/\$$/, '')
+      .replace(/\(\?P<(\w+)>(?:[^()]|\([^()]*\))*\)/g, '{$1}')
+      .replace(/\\(.)/g, '$1');
+  }
+
+  /**
+   * Join path segments with single slashes and rewrite each framework's parameter
+   * syntax (`:id`, `<int:id>`, `{id:int}`, `{path...}`, `*path`) to `{id}`
+   */
+  private joinPaths(...parts: string[]): string {
+    const segments = parts
+      .flatMap(part => part.split('/'))
+      .filter(Boolean)
+      .map(segment =>
+        segment
+          .replace(/^<(?:\w+:)?(\w+)>$/, '{$1}')
+          .replace(/^\{\*{0,2}(\w+)(?:\.\.\.)?(?::[^}]*)?\??\}$/, '{$1}')
+          .replace(/^[:*](\w+)(?:\([^)]*\))?\??$/, '{$1}')
+      );
+    return `/${segments.join('/')}`;
+  }
+}
@@ -0,0 +1,417 @@
+import {
+  BaseImageFamily,
+  CodebaseIndex,
+  FileIndexEntry,
+  SourceLocation,
+  SystemDependencyInfo,
+  SystemPackages,
+} from '../types';
+import { ErrorFactory, ErrorCodes } from '../utils/error-handler';
+
+/**
+ * Interface for mapping native language packages to the OS packages they need
+ */
+export interface SystemDependencyAnalyzer {
+  /**
+   * Finds dependencies with native code or shared-library requirements in the
+   * Node.js and Python manifests, with the OS packages they need per base-image family
+   */
+  detectSystemDependencies(index: CodebaseIndex): Promise<SystemDependencyInfo[]>;
+
+  /**
+   * Builds RuntimeRequirements.systemDependencies for one base-image family; the
+   * build stage gets compilers and headers, the runtime stage only shared libraries
+   */
+  buildSystemPackageList(
+    dependencies: SystemDependencyInfo[],
+    family?: BaseImageFamily,
+    stage?: 'build' | 'runtime'
+  ): string[];
+}
+
+const NO_PACKAGES: SystemPackages = { debian: [], alpine: [], ubi: [] };
+
+/**
+ * Toolchain node-gyp needs to compile addons that ship no prebuilt binary
+ */
+const NODE_GYP_TOOLCHAIN: SystemPackages = {
+  debian: ['build-essential', 'python3'],
+  alpine: ['build-base', 'python3'],
+  ubi: ['gcc-c++', 'make', 'python3'],
+};
+
+const LIBPQ: SystemPackages = { debian: ['libpq5'], alpine: ['libpq'], ubi: ['libpq'] };
+
+/**
+ * Native packages and the OS packages they need. Names are compared after PEP 503
+ * normalisation, so Python entries are lower case with dashes.
+ */
+const NATIVE_PACKAGES: Array<{
+  ecosystem: SystemDependencyInfo['ecosystem'];
+  packages: string[];
+  runtime: SystemPackages;
+  build: SystemPackages;
+}> = [
+  {
+    ecosystem: 'node',
+    packages: ['sharp'],
+    runtime: { debian: ['libvips42'], alpine: ['vips'], ubi: ['vips'] },
+    build: {
+      debian: ['build-essential', 'libvips-dev'],
+      alpine: ['build-base', 'vips-dev'],
+      ubi: ['gcc-c++', 'make', 'vips-devel'],
+    },
+  },
+  {
+    ecosystem: 'node',
+    packages: ['bcrypt', 'argon2', 'better-sqlite3', 'node-gyp', 'node-pty', 're2'],
+    runtime: NO_PACKAGES,
+    build: NODE_GYP_TOOLCHAIN,
+  },
+  {
+    ecosystem: 'node',
+    packages: ['canvas'],
+    runtime: {
+      debian: [
+        'libcairo2',
+        'libpango-1.0-0',
+        'libpangocairo-1.0-0',
+        'libjpeg62-turbo',
+        'libgif7',
+        'librsvg2-2',
+      ],
+      alpine: ['cairo', 'pango', 'libjpeg-turbo', 'giflib', 'librsvg'],
+      ubi: ['cairo', 'pango', 'libjpeg-turbo', 'giflib', 'librsvg2'],
+    },
+    build: {
+      debian: [
+        'build-essential',
+        'libcairo2-dev',
+        'libpango1.0-dev',
+        'libjpeg-dev',
+        'libgif-dev',
+        'librsvg2-dev',
+      ],
+      alpine: ['build-base', 'cairo-dev', 'pango-dev', 'jpeg-dev', 'giflib-dev', 'librsvg-dev'],
+      ubi: [
+        'gcc-c++',
+        'make',
+        'cairo-devel',
+        'pango-devel',
+        'libjpeg-turbo-devel',
+        'giflib-devel',
+        'librsvg2-devel',
+      ],
+    },
+  },
+  {
+    // The Chrome build puppeteer downloads is glibc-only, so Alpine uses its own Chromium
+    ecosystem: 'node',
+    packages: ['puppeteer', 'puppeteer-core'],
+    runtime: {
+      debian: [
+        'ca-certificates',
+        'fonts-liberation',
+        'libasound2',
+        'libatk-bridge2.0-0',
+        'libatk1.0-0',
+        'libcups2',
+        'libdrm2',
+        'libgbm1',
+        'libgtk-3-0',
+        'libnss3',
+        'libxcomposite1',
+        'libxdamage1',
+        'libxkbcommon0',
+        'libxrandr2',
+      ],
+      alpine: ['chromium', 'nss', 'freetype', 'harfbuzz', 'ca-certificates', 'ttf-freefont'],
+      ubi: [
+        'alsa-lib',
+        'at-spi2-atk',
+        'atk',
+        'cups-libs',
+        'gtk3',
+        'libXcomposite',
+        'libXdamage',
+        'libXrandr',
+        'libdrm',
+        'libxkbcommon',
+        'mesa-libgbm',
+        'nss',
+      ],
+    },
+    build: NO_PACKAGES,
+  },
+  {
+    ecosystem: 'node',
+    packages: ['pg-native', 'libpq'],
+    runtime: LIBPQ,
+    build: {
+      debian: ['build-essential', 'python3', 'libpq-dev'],
+      alpine: ['build-base', 'python3', 'libpq-dev'],
+      ubi: ['gcc-c++', 'make', 'python3', 'libpq-devel'],
+    },
+  },
+  {
+    ecosystem: 'python',
+    packages: ['psycopg2'],
+    runtime: LIBPQ,
+    build: {
+      debian: ['build-essential', 'libpq-dev'],
+      alpine: ['build-base', 'libpq-dev'],
+      ubi: ['gcc', 'libpq-devel', 'python3-devel'],
+    },
+  },
+  {
+    // psycopg 3 loads libpq at runtime unless the binary or c extra is installed
+    ecosystem: 'python',
+    packages: ['psycopg'],
+    runtime: LIBPQ,
+    build: NO_PACKAGES,
+  },
+  {
+    ecosystem: 'python',
+    packages: ['pillow'],
+    runtime: {
+      debian: ['libjpeg62-turbo', 'zlib1g'],
+      alpine: ['libjpeg-turbo', 'zlib'],
+      ubi: ['libjpeg-turbo', 'zlib'],
+    },
+    build: {
+      debian: ['build-essential', 'libjpeg-dev', 'zlib1g-dev'],
+      alpine: ['build-base', 'jpeg-dev', 'zlib-dev'],
+      ubi: ['gcc', 'libjpeg-turbo-devel', 'zlib-devel', 'python3-devel'],
+    },
+  },
+  {
+    // Alpine has no grpcio wheels, so pip compiles the C++ core there
+    ecosystem: 'python',
+    packages: ['grpcio', 'grpcio-tools'],
+    runtime: { debian: ['libstdc++6'], alpine: ['libstdc++'], ubi: ['libstdc++'] },
+    build: {
+      debian: ['build-essential'],
+      alpine: ['build-base', 'linux-headers'],
+      ubi: ['gcc-c++', 'make', 'python3-devel'],
+    },
+  },
+  {
+    ecosystem: 'python',
+    packages: ['mysqlclient'],
+    runtime: {
+      debian: ['libmariadb3'],
+      alpine: ['mariadb-connector-c'],
+      ubi: ['mariadb-connector-c'],
+    },
+    build: {
+      debian: ['build-essential', 'default-libmysqlclient-dev', 'pkg-config'],
+      alpine: ['build-base', 'mariadb-connector-c-dev', 'pkgconf'],
+      ubi: ['gcc', 'mariadb-connector-c-devel', 'pkgconf-pkg-config', 'python3-devel'],
+    },
+  },
+  {
+    ecosystem: 'python',
+    packages: ['lxml'],
+    runtime: {
+      debian: ['libxml2', 'libxslt1.1'],
+      alpine: ['libxml2', 'libxslt'],
+      ubi: ['libxml2', 'libxslt'],
+    },
+    build: {
+      debian: ['build-essential', 'libxml2-dev', 'libxslt1-dev'],
+      alpine: ['build-base', 'libxml2-dev', 'libxslt-dev'],
+      ubi: ['gcc', 'libxml2-devel', 'libxslt-devel', 'python3-devel'],
+    },
+  },
+];
+
+/**
+ * Python manifests; requirements are read from requirements-file lines and the
+ * production dependency lists and tables of the others
+ */
+const PYTHON_MANIFEST = /^(requirements.*\.txt|pyproject\.toml|Pipfile|setup\.py|setup\.cfg)$/;
+
+/**
+ * Default implementation of SystemDependencyAnalyzer
+ */
+export class DefaultSystemDependencyAnalyzer implements SystemDependencyAnalyzer {
+  async detectSystemDependencies(index: CodebaseIndex): Promise<SystemDependencyInfo[]> {
+    try {
+      const dependencies = new Map<string, SystemDependencyInfo>();
+      const record = (
+        ecosystem: SystemDependencyInfo['ecosystem'],
+        name: string,
+        source: SourceLocation
+      ): void => {
+        const signature = NATIVE_PACKAGES.find(
+          candidate => candidate.ecosystem === ecosystem && candidate.packages.includes(name)
+        );
+        if (!signature) return;
+
+        const key = `${ecosystem}:${name}`;
+        let dependency = dependencies.get(key);
+        if (!dependency) {
+          dependency = {
+            package: name,
+            ecosystem,
+            runtime: this.copyPackages(signature.runtime),
+            build: this.copyPackages(signature.build),
+            sources: [],
+          };
+          dependencies.set(key, dependency);
+        }
+        if (
+          !dependency.sources.some(
+            existing => existing.file === source.file && existing.line === source.line
+          )
+        ) {
+          dependency.sources.push(source);
+        }
+      };
+
+      const manifests = index.fileIndex.filter(
+        (file): file is FileIndexEntry & { content: string } =>
+          file.content !== undefined && file.type !== 'test' && file.type !== 'documentation'
+      );
+      for (const file of manifests) {
+        const fileName = file.path.split('/').pop() || '';
+        if (fileName === 'package.json') {
+          for (const name of this.getNodeDependencies(file.content)) {
+            record('node', name, {
+              file: file.path,
+              line: this.findLine(file.content, `"${name}"`),
+            });
+          }
+        } else if (PYTHON_MANIFEST.test(fileName)) {
+          for (const { name, line } of this.getPythonRequirements(file.content, fileName)) {
+            record('python', name, { file: file.path, line });
+          }
+        }
+      }
+
+      return [...dependencies.values()].sort(
+        (a, b) => a.ecosystem.localeCompare(b.ecosystem) || a.package.localeCompare(b.package)
+      );
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'analysis', ErrorCodes.DEPENDENCY_ANALYSIS_FAILED);
+    }
+  }
+
+  buildSystemPackageList(
+    dependencies: SystemDependencyInfo[],
+    family: BaseImageFamily = 'debian',
+    stage: 'build' | 'runtime' = 'runtime'
+  ): string[] {
+    return [...new Set(dependencies.flatMap(dependency => dependency[stage][family]))].sort();
+  }
+
+  /**
+   * Packages installed in production; devDependencies stay out of the image
+   */
+  private getNodeDependencies(content: string): string[] {
+    let packageJson: Record<string, any>;
+    try {
+      packageJson = JSON.parse(content);
+    } catch {
+      return [];
+    }
+
+    return [
+      ...Object.keys(packageJson['dependencies'] || {}),
+      ...Object.keys(packageJson['optionalDependencies'] || {}),
+    ];
+  }
+
+  /**
+   * Normalised requirement names with their line, e.g. `Pillow>=10` or `psycopg2 = "^2.9"`.
+   * Only requirements files, `[project].dependencies`, `[tool.poetry.dependencies]`,
+   * Pipfile `[packages]` and `install_requires` are read, so descriptions and other
+   * strings are not mistaken for packages; names that are not native packages are
+   * dropped by the caller
+   */
+  private getPythonRequirements(
+    content: string,
+    fileName: string
+  ): Array<{ name: string; line: number }> {
+    const requirements: Array<{ name: string; line: number }> = [];
+    const add = (name: string, extras: string, line: number): void => {
+      // The binary extra installs a wheel that bundles its shared libraries
+      if (!/\bbinary\b/.test(extras)) {
+        requirements.push({ name: name.toLowerCase().replace(/[-_.]+/g, '-'), line });
+      }
+    };
+    const requirementLine = /^\s*([A-Za-z0-9][\w.-]*)(\[[^\]]*\])?/;
+    const quoted = /["']([A-Za-z0-9][\w.-]*)(\[[^\]]*\])?\s*(?=[<>=~!;@ "'])/g;
+
+    let section = '';
+    // Inside a dependency array, or the indented continuation of install_requires
+    let inList = false;
+    content.split('\n').forEach((text, index) => {
+      const line = index + 1;
+      if (/^\s*(#|$)/.test(text)) return;
+
+      if (fileName.endsWith('.txt')) {
+        const match = /^\s*-/.test(text) ? null : text.match(requirementLine);
+        if (match?.[1]) add(match[1], match[2] || '', line);
+        return;
+      }
+
+      if (fileName === 'setup.cfg') {
+        const start = text.match(/^install_requires\s*=(.*)$/);
+        inList = start ? true : inList && /^\s/.test(text);
+        const match = inList ? (start?.[1] ?? text).match(requirementLine) : null;
+        if (match?.[1]) add(match[1], match[2] || '', line);
+        return;
+      }
+
+      let list = text;
+      if (!inList) {
+        const header = text.match(/^\s*\[([^\]]+)\]\s*$/);
+        if (header) {
+          section = header[1]!.trim();
+          return;
+        }
+
+        const opening =
+          fileName === 'setup.py'
+            ? /\binstall_requires\s*=\s*\[(.*)$/
+            : section === 'project'
+              ? /^\s*dependencies\s*=\s*\[(.*)$/
+              : undefined;
+        const start = opening && text.match(opening);
+        if (!start) {
+          const table =
+            section === 'tool.poetry.dependencies' ||
+            (fileName === 'Pipfile' && section === 'packages');
+          const key = table ? text.match(/^\s*["']?([A-Za-z0-9][\w.-]*)["']?\s*=(.*)$/) : null;
+          if (key?.[1] && key[1].toLowerCase() !== 'python') add(key[1], key[2] || '', line);
+          return;
+        }
+        inList = true;
+        list = start[1] || '';
+      }
+
+      for (const match of list.matchAll(quoted)) {
+        add(match[1] || '', match[2] || '', line);
+      }
+      // Brackets of extras sit inside the quoted strings
+      if (list.replace(/(["'])(?:(?!\1).)*\1/g, '').includes(']')) {
+        inList = false;
+      }
+    });
+
+    return requirements;
+  }
+
+  private copyPackages(packages: SystemPackages): SystemPackages {
+    return { debian: [...packages.debian], alpine: [...packages.alpine], ubi: [...packages.ubi] };
+  }
+
+  /**
+   * One-based line of the first occurrence of text
+   */
+  private findLine(content: string, text: string): number {
+    const offset = content.indexOf(text);
+    return offset < 0 ? 1 : content.slice(0, offset).split('\n').length;
+  }
+}
@@ -1,4 +1,13 @@
-import { CodebaseIndex, TechStackInfo } from "../types";
+import {
+  BuildArtifact,
+  BuildRequirements,
+  BuildStep,
+  CodebaseIndex,
+  RuntimeInfo,
+  TechStackInfo,
+} from '../types';
+import { ErrorFactory, ErrorCodes } from '../utils/error-handler';
+import { DefaultManifestParser, ManifestParser, XmlElement } from '../utils/manifest-parser';
 
 /**
  * Interface for detecting technology stack from codebase
@@ -17,16 +26,17 @@ export interface TechStackDetector {
   /**
    * Detects runtime version requirements
    */
-  detectRuntime(
-    index: CodebaseIndex
-  ): Promise<{ name: string; version: string }>;
+  detectRuntime(index: CodebaseIndex): Promise<RuntimeInfo>;
 
   /**
    * Detects build tools and package managers
    */
-  detectBuildTools(
-    index: CodebaseIndex
-  ): Promise<{ buildTool: string; packageManager: string }>;
+  detectBuildTools(index: CodebaseIndex): Promise<{ buildTool: string; packageManager: string }>;
+
+  /**
+   * Detects declared dependencies and the artifacts the build produces
+   */
+  detectBuildRequirements(index: CodebaseIndex): Promise<BuildRequirements>;
 
   /**
    * Performs complete tech stack detection
@@ -34,36 +44,2165 @@ export interface TechStackDetector {
   detect(index: CodebaseIndex): Promise<TechStackInfo>;
 }
 
+/**
+ * Ecosystems the detector knows how to read manifests for
+ */
+export type Ecosystem = 'node' | 'python' | 'jvm' | 'go' | 'rust' | 'dotnet' | 'unknown';
+
+/**
+ * Manifests that mark an ecosystem and the source languages that count towards it
+ */
+const ECOSYSTEMS: Array<{
+  ecosystem: Exclude<Ecosystem, 'unknown'>;
+  manifests: Array<string | RegExp>;
+  languages: string[];
+}> = [
+  { ecosystem: 'node', manifests: ['package.json'], languages: ['javascript', 'typescript'] },
+  {
+    ecosystem: 'python',
+    manifests: [
+      'pyproject.toml',
+      'Pipfile',
+      'environment.yml',
+      'environment.yaml',
+      'setup.py',
+      'setup.cfg',
+      /^requirements.*\.txt$/,
+    ],
+    languages: ['python'],
+  },
+  {
+    ecosystem: 'jvm',
+    manifests: ['pom.xml', 'build.gradle', 'build.gradle.kts'],
+    languages: ['java', 'kotlin', 'scala'],
+  },
+  { ecosystem: 'go', manifests: ['go.mod'], languages: ['go'] },
+  { ecosystem: 'rust', manifests: ['Cargo.toml'], languages: ['rust'] },
+  {
+    ecosystem: 'dotnet',
+    manifests: [/\.sln$/, /\.(csproj|fsproj|vbproj)$/],
+    languages: ['csharp'],
+  },
+];
+
+/**
+ * Subset of package.json fields used during detection
+ */
+interface PackageJson {
+  name?: string;
+  main?: string;
+  exports?: unknown;
+  packageManager?: string;
+  engines?: Record<string, string>;
+  scripts?: Record<string, string>;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+}
+
+/**
+ * Node.js frameworks in priority order; meta-frameworks come before the servers they wrap
+ */
+const NODE_FRAMEWORKS: Array<{ name: string; packages: string[] }> = [
+  { name: 'nest', packages: ['@nestjs/core'] },
+  { name: 'next', packages: ['next'] },
+  { name: 'fastify', packages: ['fastify'] },
+  { name: 'koa', packages: ['koa'] },
+  { name: 'express', packages: ['express'] },
+];
+
+/**
+ * Lockfiles mapped to the package manager that writes them
+ */
+const NODE_LOCKFILES: Record<string, string> = {
+  'pnpm-lock.yaml': 'pnpm',
+  'yarn.lock': 'yarn',
+  'bun.lockb': 'bun',
+  'bun.lock': 'bun',
+  'package-lock.json': 'npm',
+  'npm-shrinkwrap.json': 'npm',
+};
+
+/**
+ * Build tools recognised in the `build` script, checked in order
+ */
+const NODE_BUILD_TOOLS = [
+  'nest',
+  'next',
+  'vite',
+  'webpack',
+  'rollup',
+  'esbuild',
+  'tsup',
+  'parcel',
+  'tsc',
+  'babel',
+];
+
+/**
+ * Build tools that bundle an application rather than compile it file by file
+ */
+const NODE_BUNDLERS = ['next', 'vite', 'webpack', 'rollup', 'esbuild', 'tsup', 'parcel'];
+
+/**
+ * Commands that run a package binary without a script, per package manager
+ */
+const NODE_EXEC_COMMANDS: Record<string, string> = {
+  npm: 'npx',
+  pnpm: 'pnpm exec',
+  yarn: 'yarn',
+  bun: 'bunx',
+};
+
+const NODE_TEST_FRAMEWORKS = ['vitest', 'jest', 'mocha'];
+
+const DEFAULT_NODE_VERSION = '20';
+
+/**
+ * Python web frameworks in priority order, by normalised distribution name
+ */
+const PYTHON_FRAMEWORKS = [
+  'django',
+  'fastapi',
+  'flask',
+  'starlette',
+  'aiohttp',
+  'tornado',
+  'sanic',
+  'falcon',
+  'pyramid',
+];
+
+/**
+ * WSGI/ASGI servers; gunicorn comes first because it commonly runs uvicorn workers
+ */
+const PYTHON_APPLICATION_SERVERS = [
+  'gunicorn',
+  'uvicorn',
+  'hypercorn',
+  'daphne',
+  'uwsgi',
+  'waitress',
+];
+
+/**
+ * PEP 517 build backends mapped to the tool that owns them
+ */
+const PYTHON_BUILD_BACKENDS: Record<string, string> = {
+  'setuptools.build_meta': 'setuptools',
+  'poetry.core.masonry.api': 'poetry',
+  'hatchling.build': 'hatch',
+  'pdm.backend': 'pdm',
+  'pdm.pep517.api': 'pdm',
+  'flit_core.buildapi': 'flit',
+  maturin: 'maturin',
+  uv_build: 'uv',
+};
+
+/**
+ * Dependency installation per Python package manager
+ */
+const PYTHON_INSTALL_COMMANDS: Record<string, string> = {
+  poetry: 'poetry install --no-interaction',
+  pdm: 'pdm install --frozen-lockfile',
+  pipenv: 'pipenv install --deploy --dev',
+  hatch: 'hatch env create',
+  conda: 'conda env create -f environment.yml',
+};
+
+/**
+ * Prefix that runs a command inside the package manager's environment
+ */
+const PYTHON_RUN_PREFIXES: Record<string, string> = {
+  poetry: 'poetry run ',
+  uv: 'uv run ',
+  pdm: 'pdm run ',
+  pipenv: 'pipenv run ',
+  hatch: 'hatch run ',
+};
+
+/**
+ * Wheel builds per build tool; other tools build through the PEP 517 frontend
+ */
+const PYTHON_PACKAGE_COMMANDS: Record<string, string> = {
+  poetry: 'poetry build --format wheel',
+  uv: 'uv build --wheel',
+  pdm: 'pdm build --no-sdist',
+  hatch: 'hatch build -t wheel',
+};
+
+const DEFAULT_PYTHON_VERSION = '3.12';
+
+/**
+ * Build file facts for one Maven module or Gradle project
+ */
+interface JvmProject {
+  buildTool: 'maven' | 'gradle';
+  /** Directory of the build file relative to the repository root, '' for the root */
+  directory: string;
+  name: string;
+  version?: string;
+  javaVersion?: string;
+  framework: string;
+  packaging: 'jar' | 'war' | 'native' | 'pom';
+  language: 'java' | 'kotlin' | 'scala';
+  finalName?: string;
+  /** Dependency coordinates as group:artifact */
+  dependencies: string[];
+}
+
+/**
+ * JVM frameworks keyed by the group ids, Maven plugins and Gradle plugin ids that identify them
+ */
+const JVM_FRAMEWORKS: Array<{ name: string; groups: string[]; plugins: string[] }> = [
+  {
+    name: 'spring-boot',
+    groups: ['org.springframework.boot'],
+    plugins: ['spring-boot-maven-plugin', 'org.springframework.boot'],
+  },
+  {
+    name: 'quarkus',
+    groups: ['io.quarkus', 'io.quarkus.platform'],
+    plugins: ['quarkus-maven-plugin', 'io.quarkus'],
+  },
+  {
+    name: 'micronaut',
+    groups: ['io.micronaut', 'io.micronaut.platform'],
+    plugins: [
+      'micronaut-maven-plugin',
+      'io.micronaut.application',
+      'io.micronaut.minimal.application',
+    ],
+  },
+];
+
+const JVM_NATIVE_PLUGINS = ['native-maven-plugin', 'org.graalvm.buildtools.native'];
+
+const DEFAULT_JAVA_VERSION = '21';
+
+/**
+ * Facts read from go.mod
+ */
+interface GoModule {
+  path: string;
+  goVersion?: string;
+  toolchain?: string;
+  /** Direct requirements only; `// indirect` entries are skipped */
+  requires: string[];
+}
+
+/**
+ * Go HTTP frameworks in priority order, by module path prefix
+ */
+const GO_FRAMEWORKS: Array<{ name: string; module: string }> = [
+  { name: 'gin', module: 'github.com/gin-gonic/gin' },
+  { name: 'echo', module: 'github.com/labstack/echo' },
+  { name: 'fiber', module: 'github.com/gofiber/fiber' },
+  { name: 'chi', module: 'github.com/go-chi/chi' },
+  { name: 'gorilla-mux', module: 'github.com/gorilla/mux' },
+];
+
+/**
+ * Modules that only build with cgo and therefore link against libc
+ */
+const GO_CGO_MODULES = [
+  'github.com/mattn/go-sqlite3',
+  'github.com/confluentinc/confluent-kafka-go',
+  'gopkg.in/confluentinc/confluent-kafka-go.v1',
+];
+
+const DEFAULT_GO_VERSION = '1.22';
+
+/**
+ * One package of a Cargo workspace (or the single package of a plain crate)
+ */
+interface CargoPackage {
+  directory: string;
+  name: string;
+  edition?: string;
+  rustVersion?: string;
+  binaries: string[];
+  dependencies: string[];
+}
+
+const RUST_FRAMEWORKS = ['actix-web', 'axum', 'rocket', 'warp', 'poem', 'tide'];
+
+/**
+ * Minimum compiler release for each Rust edition
+ */
+const RUST_EDITION_MIN_VERSIONS: Record<string, string> = {
+  '2015': '1.0',
+  '2018': '1.31',
+  '2021': '1.56',
+  '2024': '1.85',
+};
+
+const DEFAULT_RUST_VERSION = '1';
+
+/**
+ * Facts read from one .NET project file
+ */
+interface DotnetProject {
+  path: string;
+  assemblyName: string;
+  sdk: string;
+  targetFramework?: string;
+  isExecutable: boolean;
+  publishAot: boolean;
+  packages: string[];
+  frameworkReferences: string[];
+}
+
+const DOTNET_TEST_FRAMEWORKS: Array<{ name: string; packages: string[] }> = [
+  { name: 'xunit', packages: ['xunit'] },
+  { name: 'nunit', packages: ['NUnit'] },
+  { name: 'mstest', packages: ['MSTest.TestFramework'] },
+];
+
+const DEFAULT_DOTNET_VERSION = '8.0';
+
 /**
  * Default implementation of TechStackDetector
  */
 export class DefaultTechStackDetector implements TechStackDetector {
+  private manifestParser: ManifestParser;
+
+  constructor(manifestParser?: ManifestParser) {
+    this.manifestParser = manifestParser || new DefaultManifestParser();
+  }
+
   async detectLanguage(index: CodebaseIndex): Promise<string> {
-    // Implementation will be added in later tasks
-    throw new Error("Not implemented yet");
+    switch (this.detectEcosystem(index)) {
+      case 'node':
+        return this.detectNodeLanguage(index);
+      case 'python':
+        return 'python';
+      case 'jvm':
+        return this.readJvmProjects(index)[0]?.language || 'java';
+      case 'go':
+        return 'go';
+      case 'rust':
+        return 'rust';
+      case 'dotnet':
+        return this.findPackageFile(index, [/\.fsproj$/]) &&
+          !this.findPackageFile(index, [/\.csproj$/])
+          ? 'fsharp'
+          : 'csharp';
+      default:
+        return this.getDominantLanguage(index) || 'unknown';
+    }
   }
 
   async detectFramework(index: CodebaseIndex): Promise<string> {
-    // Implementation will be added in later tasks
-    throw new Error("Not implemented yet");
+    switch (this.detectEcosystem(index)) {
+      case 'node': {
+        const dependencies = this.getNodeDependencies(this.readPackageJson(index));
+        const framework = NODE_FRAMEWORKS.find(candidate =>
+          candidate.packages.some(pkg => pkg in dependencies)
+        );
+        return framework ? framework.name : 'none';
+      }
+      case 'python': {
+        const dependencies = this.getPythonDependencies(index);
+        return PYTHON_FRAMEWORKS.find(framework => dependencies.has(framework)) || 'none';
+      }
+      case 'jvm':
+        // Multi-project builds often declare the framework only in an application subproject
+        return (
+          this.readJvmProjects(index).find(project => project.framework !== 'none')?.framework ||
+          'none'
+        );
+      case 'go': {
+        const requires = this.readGoModule(index)?.requires || [];
+        const framework = GO_FRAMEWORKS.find(candidate =>
+          requires.some(
+            module => module === candidate.module || module.startsWith(`${candidate.module}/`)
+          )
+        );
+        return framework ? framework.name : 'none';
+      }
+      case 'rust': {
+        const dependencies = this.readCargoPackages(index).flatMap(pkg => pkg.dependencies);
+        return RUST_FRAMEWORKS.find(framework => dependencies.includes(framework)) || 'none';
+      }
+      case 'dotnet':
+        return this.detectDotnetFramework(this.getPrimaryDotnetProject(index));
+      default:
+        return 'none';
+    }
   }
 
-  async detectRuntime(
-    index: CodebaseIndex
-  ): Promise<{ name: string; version: string }> {
-    // Implementation will be added in later tasks
-    throw new Error("Not implemented yet");
+  async detectRuntime(index: CodebaseIndex): Promise<RuntimeInfo> {
+    switch (this.detectEcosystem(index)) {
+      case 'node':
+        return this.detectNodeRuntime(index);
+      case 'python':
+        return this.detectPythonRuntime(index);
+      case 'jvm': {
+        const javaVersion = this.readJvmProjects(index).find(
+          project => project.javaVersion
+        )?.javaVersion;
+        return javaVersion
+          ? { name: 'java', version: javaVersion, minVersion: javaVersion }
+          : { name: 'java', version: DEFAULT_JAVA_VERSION };
+      }
+      case 'go':
+        return this.detectGoRuntime(index);
+      case 'rust':
+        return this.detectRustRuntime(index);
+      case 'dotnet': {
+        const version = this.getPrimaryDotnetProject(index)?.targetFramework?.match(
+          /^net(?:coreapp)?(\d+\.\d+)/
+        )?.[1];
+        return version
+          ? { name: 'dotnet', version, minVersion: version }
+          : { name: 'dotnet', version: DEFAULT_DOTNET_VERSION };
+      }
+      default:
+        return { name: 'unknown', version: 'unknown' };
+    }
   }
 
   async detectBuildTools(
     index: CodebaseIndex
   ): Promise<{ buildTool: string; packageManager: string }> {
-    // Implementation will be added in later tasks
-    throw new Error("Not implemented yet");
+    switch (this.detectEcosystem(index)) {
+      case 'node': {
+        const packageManager = this.detectNodePackageManager(index);
+        return { buildTool: this.detectNodeBuildTool(index, packageManager), packageManager };
+      }
+      case 'python': {
+        const packageManager = this.detectPythonPackageManager(index);
+        return { buildTool: this.detectPythonBuildTool(index, packageManager), packageManager };
+      }
+      case 'jvm': {
+        const buildTool = this.readJvmProjects(index)[0]?.buildTool || 'maven';
+        return { buildTool, packageManager: buildTool };
+      }
+      case 'go':
+        return { buildTool: 'go', packageManager: 'go' };
+      case 'rust':
+        return { buildTool: 'cargo', packageManager: 'cargo' };
+      case 'dotnet':
+        return { buildTool: 'dotnet', packageManager: 'nuget' };
+      default:
+        return { buildTool: 'unknown', packageManager: 'unknown' };
+    }
+  }
+
+  async detectBuildRequirements(index: CodebaseIndex): Promise<BuildRequirements> {
+    try {
+      const { buildTool, packageManager } = await this.detectBuildTools(index);
+      const requirements: BuildRequirements = {
+        buildTool,
+        buildSteps: [],
+        artifacts: [],
+        dependencies: [],
+      };
+
+      switch (this.detectEcosystem(index)) {
+        case 'node':
+          requirements.dependencies = Object.keys(this.readPackageJson(index).dependencies || {});
+          requirements.buildSteps = this.getNodeBuildSteps(index, packageManager, buildTool);
+          requirements.artifacts = this.getNodeArtifacts(index, buildTool);
+          break;
+        case 'python':
+          requirements.dependencies = [...this.getPythonDependencies(index)];
+          requirements.buildSteps = this.getPythonBuildSteps(index, packageManager, buildTool);
+          requirements.artifacts = this.getPythonArtifacts(index);
+          break;
+        case 'jvm': {
+          const projects = this.readJvmProjects(index);
+          requirements.dependencies = [
+            ...new Set(projects.flatMap(project => project.dependencies)),
+          ];
+          requirements.buildSteps = this.getJvmBuildSteps(index, projects);
+          requirements.artifacts = projects
+            .filter(project => project.packaging !== 'pom')
+            .map(project => this.getJvmArtifact(project));
+          break;
+        }
+        case 'go':
+          requirements.dependencies = this.readGoModule(index)?.requires || [];
+          requirements.artifacts = this.detectGoArtifacts(index);
+          requirements.buildSteps = this.getGoBuildSteps(index, requirements.artifacts);
+          break;
+        case 'rust': {
+          const packages = this.readCargoPackages(index);
+          requirements.dependencies = [...new Set(packages.flatMap(pkg => pkg.dependencies))];
+          requirements.buildSteps = this.getRustBuildSteps(index);
+          requirements.artifacts = this.detectRustArtifacts(index, packages);
+          break;
+        }
+        case 'dotnet': {
+          const projects = this.readDotnetProjects(index);
+          requirements.dependencies = [...new Set(projects.flatMap(project => project.packages))];
+          requirements.buildSteps = this.getDotnetBuildSteps(index, projects);
+          requirements.artifacts = projects
+            .filter(project => project.isExecutable)
+            .map(project => this.getDotnetArtifact(project));
+          break;
+        }
+      }
+
+      return requirements;
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(
+        error,
+        'analysis',
+        ErrorCodes.TECH_STACK_DETECTION_FAILED
+      );
+    }
   }
 
   async detect(index: CodebaseIndex): Promise<TechStackInfo> {
-    // Implementation will be added in later tasks
-    throw new Error("Not implemented yet");
+    try {
+      const [language, framework, runtime, buildTools] = await Promise.all([
+        this.detectLanguage(index),
+        this.detectFramework(index),
+        this.detectRuntime(index),
+        this.detectBuildTools(index),
+      ]);
+
+      const techStack: TechStackInfo = {
+        language,
+        framework,
+        runtime,
+        buildTool: buildTools.buildTool,
+        packageManager: buildTools.packageManager,
+      };
+
+      const testFramework = this.detectTestFramework(index);
+      if (testFramework) {
+        techStack.testFramework = testFramework;
+      }
+
+      const applicationServer = this.detectApplicationServer(index);
+      if (applicationServer) {
+        techStack.applicationServer = applicationServer;
+      }
+
+      return techStack;
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(
+        error,
+        'analysis',
+        ErrorCodes.TECH_STACK_DETECTION_FAILED
+      );
+    }
+  }
+
+  /**
+   * Determine which ecosystem the codebase belongs to from its root manifests.
+   * When several are present (a Django app with a webpack package.json, say) the
+   * one with the most source files wins.
+   */
+  private detectEcosystem(index: CodebaseIndex): Ecosystem {
+    const distribution = index.statistics.languageDistribution;
+    let best: { ecosystem: Ecosystem; sourceFiles: number } = {
+      ecosystem: 'unknown',
+      sourceFiles: -1,
+    };
+
+    for (const candidate of ECOSYSTEMS) {
+      if (!this.findPackageFile(index, candidate.manifests)) continue;
+
+      const sourceFiles = candidate.languages.reduce(
+        (total, language) => total + (distribution[language] || 0),
+        0
+      );
+      if (sourceFiles > best.sourceFiles) {
+        best = { ecosystem: candidate.ecosystem, sourceFiles };
+      }
+    }
+
+    return best.ecosystem;
+  }
+
+  /**
+   * Detect the test framework from dependencies and the test script
+   */
+  private detectTestFramework(index: CodebaseIndex): string | undefined {
+    switch (this.detectEcosystem(index)) {
+      case 'node': {
+        const packageJson = this.readPackageJson(index);
+        const dependencies = this.getNodeDependencies(packageJson);
+        const testScript = packageJson.scripts?.['test'] || '';
+        return NODE_TEST_FRAMEWORKS.find(
+          framework =>
+            framework in dependencies || new RegExp(`\\b${framework}\\b`).test(testScript)
+        );
+      }
+      case 'python': {
+        const pyproject = this.readPyproject(index);
+        if (
+          this.getPythonDependencies(index).has('pytest') ||
+          pyproject['tool']?.pytest ||
+          this.findRootFile(index, ['pytest.ini', 'conftest.py'])
+        ) {
+          return 'pytest';
+        }
+        return undefined;
+      }
+      case 'jvm': {
+        const dependencies = this.readJvmProjects(index).flatMap(project => project.dependencies);
+        if (dependencies.some(dependency => dependency.startsWith('org.spockframework:'))) {
+          return 'spock';
+        }
+        if (dependencies.some(dependency => dependency.startsWith('org.testng:'))) {
+          return 'testng';
+        }
+        // Framework test starters bundle JUnit 5
+        if (
+          dependencies.some(dependency =>
+            /^(org\.junit|junit:|.*:(spring-boot-starter-test|quarkus-junit5|micronaut-test-junit5))/.test(
+              dependency
+            )
+          )
+        ) {
+          return 'junit';
+        }
+        return undefined;
+      }
+      case 'go':
+        return index.fileIndex.some(file => file.path.endsWith('_test.go')) ? 'go-test' : undefined;
+      case 'rust':
+        return 'cargo-test';
+      case 'dotnet': {
+        const packages = this.readDotnetProjects(index).flatMap(project => project.packages);
+        return DOTNET_TEST_FRAMEWORKS.find(framework =>
+          framework.packages.some(pkg => packages.includes(pkg))
+        )?.name;
+      }
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Detect the application server that fronts the app, preferring the Procfile web command
+   */
+  private detectApplicationServer(index: CodebaseIndex): string | undefined {
+    if (this.detectEcosystem(index) !== 'python') {
+      return undefined;
+    }
+
+    const procfile = this.findRootFile(index, ['Procfile']);
+    const webCommand = procfile
+      ? this.readFile(index, procfile)
+          ?.split('\n')
+          .find(line => line.startsWith('web:'))
+      : undefined;
+    if (webCommand) {
+      const server = PYTHON_APPLICATION_SERVERS.find(candidate =>
+        new RegExp(`\\b${candidate}\\b`).test(webCommand)
+      );
+      if (server) {
+        return server;
+      }
+    }
+
+    const dependencies = this.getPythonDependencies(index);
+    return PYTHON_APPLICATION_SERVERS.find(server => dependencies.has(server));
+  }
+
+  // Node.js detection
+
+  private detectNodeLanguage(index: CodebaseIndex): string {
+    const dependencies = this.getNodeDependencies(this.readPackageJson(index));
+    if ('typescript' in dependencies || this.findRootFile(index, ['tsconfig.json'])) {
+      return 'typescript';
+    }
+
+    const distribution = index.statistics.languageDistribution;
+    return (distribution['typescript'] || 0) > (distribution['javascript'] || 0)
+      ? 'typescript'
+      : 'javascript';
+  }
+
+  private detectNodeRuntime(index: CodebaseIndex): RuntimeInfo {
+    // Version manager files pin an exact version and win over the engines range
+    const versionFile = this.findRootFile(index, ['.nvmrc', '.node-version']);
+    const pinned = versionFile ? this.readFile(index, versionFile)?.trim() : undefined;
+    if (pinned) {
+      // Aliases such as lts/* or node cannot be resolved offline
+      if (!/^v?\d/.test(pinned)) {
+        return { name: 'node', version: pinned.startsWith('lts') ? 'lts' : DEFAULT_NODE_VERSION };
+      }
+      const version = pinned.replace(/^v/, '');
+      return { name: 'node', version, minVersion: version };
+    }
+
+    const engines = this.readPackageJson(index).engines?.['node'];
+    if (engines) {
+      return { name: 'node', ...this.parseVersionRange(engines, DEFAULT_NODE_VERSION) };
+    }
+
+    return { name: 'node', version: DEFAULT_NODE_VERSION };
+  }
+
+  private detectNodePackageManager(index: CodebaseIndex): string {
+    // Corepack's packageManager field is the most explicit declaration
+    const declared = this.readPackageJson(index).packageManager;
+    if (declared) {
+      const name = declared.split('@')[0];
+      if (name) {
+        return name;
+      }
+    }
+
+    const lockfile = this.findRootFile(index, Object.keys(NODE_LOCKFILES));
+    if (lockfile) {
+      return NODE_LOCKFILES[this.getFileName(lockfile)] || 'npm';
+    }
+
+    return 'npm';
+  }
+
+  /**
+   * Yarn 2 and later reject `--frozen-lockfile`; they are declared by .yarnrc.yml, the
+   * packageManager field or the `__metadata` header of their lockfile
+   */
+  private isYarnBerry(index: CodebaseIndex, packageJson: PackageJson): boolean {
+    if (this.findRootFile(index, ['.yarnrc.yml'])) return true;
+
+    const major = packageJson.packageManager?.match(/^yarn@(\d+)/)?.[1];
+    if (major) return Number(major) >= 2;
+
+    const lockfile = this.findRootFile(index, ['yarn.lock']);
+    return /^__metadata:/m.test((lockfile && this.readFile(index, lockfile)) || '');
+  }
+
+  private detectNodeBuildTool(index: CodebaseIndex, packageManager: string): string {
+    const packageJson = this.readPackageJson(index);
+    const buildScript = packageJson.scripts?.['build'];
+    if (buildScript) {
+      const tool = NODE_BUILD_TOOLS.find(candidate =>
+        new RegExp(`(^|[\\s&;|])${candidate}(\\s|$)`).test(buildScript)
+      );
+      if (tool) {
+        return tool;
+      }
+    }
+
+    if (this.detectNodeLanguage(index) === 'typescript') {
+      return 'tsc';
+    }
+
+    return packageManager;
+  }
+
+  /**
+   * Install, code generation, build and test steps from the package manager and
+   * scripts; a script that already runs a generator replaces the generator step
+   */
+  private getNodeBuildSteps(
+    index: CodebaseIndex,
+    packageManager: string,
+    buildTool: string
+  ): BuildStep[] {
+    const packageJson = this.readPackageJson(index);
+    const scripts = packageJson.scripts || {};
+    const run = (script: string) =>
+      packageManager === 'npm' ? `npm run ${script}` : `${packageManager} run ${script}`;
+    const exec = (command: string) => `${NODE_EXEC_COMMANDS[packageManager] || 'npx'} ${command}`;
+    const steps: BuildStep[] = [];
+
+    const lockfile = this.findRootFile(index, Object.keys(NODE_LOCKFILES));
+    const install: Record<string, string> = {
+      npm: lockfile ? 'npm ci' : 'npm install',
+      yarn: this.isYarnBerry(index, packageJson)
+        ? 'yarn install --immutable'
+        : 'yarn install --frozen-lockfile',
+      pnpm: 'pnpm install --frozen-lockfile',
+      bun: 'bun install --frozen-lockfile',
+    };
+    steps.push({ name: 'install', command: install[packageManager] || install['npm']! });
+
+    const codegenScript = Object.keys(scripts).find(script =>
+      /^(?:codegen|generate|gen|prisma:generate|proto(?::\w+)?)$/.test(script)
+    );
+    const dependencies = this.getNodeDependencies(packageJson);
+    const runsPrisma = /\bprisma\s+generate\b/.test(
+      [scripts['postinstall'], scripts['build'], codegenScript && scripts[codegenScript]].join(' ')
+    );
+    if (codegenScript) {
+      steps.push({ name: 'codegen', command: run(codegenScript) });
+    }
+    if (
+      !runsPrisma &&
+      ('prisma' in dependencies || '@prisma/client' in dependencies) &&
+      this.findRootFile(index, ['schema.prisma'])
+    ) {
+      steps.push({ name: 'codegen', command: exec('prisma generate') });
+    }
+    steps.push(...this.getBufSteps(index));
+
+    const kind = NODE_BUNDLERS.includes(buildTool) ? 'bundle' : 'compile';
+    if (scripts['build']) {
+      steps.push({ name: kind, command: run('build') });
+    } else if (buildTool === 'tsc' && this.findRootFile(index, ['tsconfig.json'])) {
+      steps.push({ name: 'compile', command: exec('tsc') });
+    }
+
+    const test = scripts['test'];
+    if (test && !/no test specified/.test(test)) {
+      steps.push({
+        name: 'test',
+        command: packageManager === 'npm' ? 'npm test' : `${packageManager} test`,
+      });
+    }
+
+    return this.inDirectory(
+      steps,
+      this.getDirectory(this.findPackageFile(index, ['package.json']) || '')
+    );
+  }
+
+  /**
+   * Build output directory: Next.js standalone servers, bundler and compiler output
+   * directories from their configuration, or the tools' defaults
+   */
+  private getNodeArtifacts(index: CodebaseIndex, buildTool: string): BuildArtifact[] {
+    const packageJson = this.readPackageJson(index);
+    const directory = this.getDirectory(this.findPackageFile(index, ['package.json']) || '');
+    const name = packageJson.name?.replace(/^@[^/]+\//, '') || 'app';
+    const config = (pattern: RegExp) =>
+      index.fileIndex.find(file => pattern.test(this.getFileName(file.path)))?.content || '';
+
+    if (buildTool === 'next') {
+      return /\boutput\s*:\s*["']standalone["']/.test(config(/^next\.config\.[cm]?[jt]s$/))
+        ? [
+            { name, path: this.joinPath(directory, '.next/standalone'), type: 'directory' },
+            {
+              name: `${name}-static`,
+              path: this.joinPath(directory, '.next/static'),
+              type: 'directory',
+            },
+          ]
+        : [{ name, path: this.joinPath(directory, '.next'), type: 'directory' }];
+    }
+
+    const configured: Record<string, string | undefined> = {
+      vite: config(/^vite\.config\.[cm]?[jt]s$/).match(/\boutDir\s*:\s*["'`]([^"'`]+)/)?.[1],
+      webpack: config(/^webpack\.config\.[cm]?[jt]s$/).match(
+        /\bpath\s*:\s*path\.(?:resolve|join)\(\s*__dirname\s*,\s*["'`]([^"'`]+)/
+      )?.[1],
+      rollup: config(/^rollup\.config\.[cm]?[jt]s$/)
+        .match(/\b(?:dir\s*:\s*["'`]([^"'`]+)|file\s*:\s*["'`]([^"'`/]+)\/)/)
+        ?.slice(1)
+        .find(Boolean),
+      tsup: config(/^tsup\.config\.[cm]?[jt]s$/).match(/\boutDir\s*:\s*["'`]([^"'`]+)/)?.[1],
+    };
+    const outDir = this.readFile(index, this.joinPath(directory, 'tsconfig.json'))?.match(
+      /"outDir"\s*:\s*"([^"]+)"/
+    )?.[1];
+    const buildScript = packageJson.scripts?.['build'] || '';
+    const output = /\breact-scripts\s+build\b/.test(buildScript)
+      ? 'build'
+      : configured[buildTool] ||
+        (['tsc', 'babel', 'nest'].includes(buildTool) ? outDir : undefined) ||
+        (buildTool === 'tsc' && !buildScript ? undefined : 'dist');
+    if (!output || (!buildScript && buildTool !== 'tsc')) {
+      return [];
+    }
+
+    // Packages consumed by other code declare an entry point but no start script
+    const isLibrary =
+      !packageJson.scripts?.['start'] &&
+      (packageJson.main !== undefined || packageJson.exports !== undefined);
+    return [
+      {
+        name,
+        path: this.joinPath(directory, output.replace(/^\.\//, '').replace(/\/$/, '')),
+        type: isLibrary ? 'library' : 'directory',
+      },
+    ];
+  }
+
+  private readPackageJson(index: CodebaseIndex): PackageJson {
+    const path = this.findPackageFile(index, ['package.json']);
+    return path ? this.parseJson<PackageJson>(index, path) : {};
+  }
+
+  private getNodeDependencies(packageJson: PackageJson): Record<string, string> {
+    return {
+      ...packageJson.peerDependencies,
+      ...packageJson.devDependencies,
+      ...packageJson.dependencies,
+    };
+  }
+
+  // Python detection
+
+  private detectPythonRuntime(index: CodebaseIndex): RuntimeInfo {
+    // pyenv pins an exact interpreter; only the first listed version is used
+    const versionFile = this.findRootFile(index, ['.python-version']);
+    const pinned = versionFile
+      ? this.readFile(index, versionFile)
+          ?.split('\n')
+          .map(line => line.trim())
+          .find(Boolean)
+      : undefined;
+    if (pinned && /^\d/.test(pinned)) {
+      return { name: 'python', version: pinned, minVersion: pinned };
+    }
+
+    const constraint = this.findPythonVersionConstraint(index);
+    if (constraint) {
+      return { name: 'python', ...this.parseVersionRange(constraint, DEFAULT_PYTHON_VERSION) };
+    }
+
+    return { name: 'python', version: DEFAULT_PYTHON_VERSION };
+  }
+
+  /**
+   * Find the interpreter constraint from whichever manifest declares one first
+   */
+  private findPythonVersionConstraint(index: CodebaseIndex): string | undefined {
+    const pyproject = this.readPyproject(index);
+    const fromPyproject =
+      pyproject['project']?.['requires-python'] || pyproject['tool']?.poetry?.dependencies?.python;
+    if (typeof fromPyproject === 'string') {
+      return fromPyproject;
+    }
+
+    const pipfile = this.readToml(index, this.findPackageFile(index, ['Pipfile']));
+    const fromPipfile =
+      pipfile['requires']?.python_full_version || pipfile['requires']?.python_version;
+    if (typeof fromPipfile === 'string') {
+      return fromPipfile;
+    }
+
+    const setupFile = this.findPackageFile(index, ['setup.py', 'setup.cfg']);
+    const setup = setupFile ? this.readFile(index, setupFile) || '' : '';
+    const fromSetup = setup.match(/python_requires\s*=\s*['"]?([^'"\n]+)['"]?/);
+    if (fromSetup?.[1]) {
+      return fromSetup[1].trim();
+    }
+
+    const environment = this.readCondaEnvironment(index);
+    const fromConda = environment.find(line => /^python\s*[=<>]/.test(line));
+    if (fromConda) {
+      return fromConda.replace(/^python\s*/, '');
+    }
+
+    // Heroku-style runtime.txt, e.g. python-3.11.4
+    const runtimeFile = this.findRootFile(index, ['runtime.txt']);
+    const fromRuntime = runtimeFile
+      ? this.readFile(index, runtimeFile)?.match(/python-(\d+(?:\.\d+)*)/)
+      : undefined;
+    return fromRuntime?.[1];
+  }
+
+  private detectPythonPackageManager(index: CodebaseIndex): string {
+    const tool = this.readPyproject(index)['tool'] || {};
+
+    if (tool.uv || this.findRootFile(index, ['uv.lock'])) {
+      return 'uv';
+    }
+    if (tool.poetry || this.findRootFile(index, ['poetry.lock'])) {
+      return 'poetry';
+    }
+    if (tool.pdm || this.findRootFile(index, ['pdm.lock'])) {
+      return 'pdm';
+    }
+    if (tool.hatch) {
+      return 'hatch';
+    }
+    if (this.findPackageFile(index, ['Pipfile']) || this.findRootFile(index, ['Pipfile.lock'])) {
+      return 'pipenv';
+    }
+    if (this.findPackageFile(index, ['environment.yml', 'environment.yaml'])) {
+      return 'conda';
+    }
+    return 'pip';
+  }
+
+  private detectPythonBuildTool(index: CodebaseIndex, packageManager: string): string {
+    const backend = this.readPyproject(index)['build-system']?.['build-backend'];
+    if (typeof backend === 'string' && PYTHON_BUILD_BACKENDS[backend]) {
+      return PYTHON_BUILD_BACKENDS[backend]!;
+    }
+
+    if (this.findPackageFile(index, ['setup.py', 'setup.cfg'])) {
+      return 'setuptools';
+    }
+
+    return packageManager;
+  }
+
+  /**
+   * Collect normalised distribution names declared across all Python manifests
+   */
+  private getPythonDependencies(index: CodebaseIndex): Set<string> {
+    const requirements: string[] = [];
+    const names: string[] = [];
+
+    for (const path of index.priorityFiles.packageFiles) {
+      if (/^requirements.*\.txt$/.test(this.getFileName(path))) {
+        const lines = (this.readFile(index, path) || '').split('\n');
+        requirements.push(...lines.filter(line => !/^\s*(-|#)/.test(line)));
+      }
+    }
+
+    const pyproject = this.readPyproject(index);
+    const project = pyproject['project'] || {};
+    requirements.push(...(project.dependencies || []));
+    for (const group of Object.values<string[]>(project['optional-dependencies'] || {})) {
+      requirements.push(...group);
+    }
+    for (const group of Object.values<unknown[]>(pyproject['dependency-groups'] || {})) {
+      requirements.push(...group.filter((item): item is string => typeof item === 'string'));
+    }
+    requirements.push(...(pyproject['tool']?.uv?.['dev-dependencies'] || []));
+
+    const poetry = pyproject['tool']?.poetry || {};
+    names.push(...Object.keys(poetry.dependencies || {}));
+    names.push(...Object.keys(poetry['dev-dependencies'] || {}));
+    for (const group of Object.values<any>(poetry.group || {})) {
+      names.push(...Object.keys(group?.dependencies || {}));
+    }
+
+    const pipfile = this.readToml(index, this.findPackageFile(index, ['Pipfile']));
+    names.push(...Object.keys(pipfile['packages'] || {}));
+    names.push(...Object.keys(pipfile['dev-packages'] || {}));
+
+    requirements.push(...this.readCondaEnvironment(index));
+
+    const setupFile = this.findPackageFile(index, ['setup.py']);
+    const installRequires = setupFile
+      ? (this.readFile(index, setupFile) || '').match(/install_requires\s*=\s*\[([\s\S]*?)\]/)
+      : undefined;
+    if (installRequires?.[1]) {
+      requirements.push(
+        ...(installRequires[1].match(/['"][^'"]+['"]/g) || []).map(item => item.slice(1, -1))
+      );
+    }
+
+    for (const requirement of requirements) {
+      const match = requirement.match(/^\s*([A-Za-z0-9][A-Za-z0-9._-]*)/);
+      if (match?.[1]) {
+        names.push(match[1]);
+      }
+    }
+
+    return new Set(
+      names.filter(name => name !== 'python').map(name => name.toLowerCase().replace(/[._]/g, '-'))
+    );
+  }
+
+  /**
+   * Read dependency entries from a conda environment file, including its nested pip list
+   */
+  private readCondaEnvironment(index: CodebaseIndex): string[] {
+    const path = this.findPackageFile(index, ['environment.yml', 'environment.yaml']);
+    const content = path ? this.readFile(index, path) || '' : '';
+    const entries: string[] = [];
+    let inDependencies = false;
+
+    for (const line of content.split('\n')) {
+      if (/^\S/.test(line)) {
+        inDependencies = line.startsWith('dependencies:');
+        continue;
+      }
+      const item = line.match(/^\s*-\s*([^#]+)/);
+      if (inDependencies && item?.[1] && !item[1].trim().endsWith(':')) {
+        // Strip conda channel prefixes such as conda-forge::numpy
+        entries.push(item[1].trim().replace(/^[^:\s]+::/, ''));
+      }
+    }
+
+    return entries;
+  }
+
+  private readPyproject(index: CodebaseIndex): Record<string, any> {
+    return this.readToml(index, this.findPackageFile(index, ['pyproject.toml']));
+  }
+
+  /**
+   * Install, gRPC stub generation, wheel packaging for libraries and test steps
+   */
+  private getPythonBuildSteps(
+    index: CodebaseIndex,
+    packageManager: string,
+    buildTool: string
+  ): BuildStep[] {
+    const prefix = PYTHON_RUN_PREFIXES[packageManager] || '';
+    const dependencies = this.getPythonDependencies(index);
+    const steps: BuildStep[] = [];
+
+    const requirements = this.findPackageFile(index, ['requirements.txt', /^requirements.*\.txt$/]);
+    const install =
+      PYTHON_INSTALL_COMMANDS[packageManager] ||
+      (packageManager === 'uv'
+        ? this.findRootFile(index, ['uv.lock'])
+          ? 'uv sync --frozen'
+          : 'uv sync'
+        : requirements
+          ? `pip install --no-cache-dir -r ${requirements}`
+          : 'pip install --no-cache-dir .');
+    steps.push({ name: 'install', command: install });
+
+    const protos = index.fileIndex.filter(file => file.path.endsWith('.proto'));
+    const bufSteps = this.getBufSteps(index);
+    if (bufSteps.length > 0) {
+      steps.push(...bufSteps);
+    } else if (protos[0] && dependencies.has('grpcio-tools')) {
+      const protoDirectory = this.getDirectory(protos[0].path) || '.';
+      steps.push({
+        name: 'codegen',
+        command: `${prefix}python -m grpc_tools.protoc -I ${protoDirectory} --python_out=${protoDirectory} --grpc_python_out=${protoDirectory} ${protos
+          .map(file => file.path)
+          .join(' ')}`,
+      });
+    }
+
+    if (this.getPythonArtifacts(index).length > 0) {
+      steps.push({
+        name: 'package',
+        command: PYTHON_PACKAGE_COMMANDS[buildTool] || `${prefix}python -m build --wheel`,
+      });
+    }
+
+    if (dependencies.has('pytest') || this.findRootFile(index, ['pytest.ini', 'conftest.py'])) {
+      steps.push({ name: 'test', command: `${prefix}pytest` });
+    } else if (dependencies.has('django') && this.findRootFile(index, ['manage.py'])) {
+      steps.push({ name: 'test', command: `${prefix}python manage.py test` });
+    }
+
+    return steps;
+  }
+
+  /**
+   * Wheel built from a pyproject that declares a build backend, for libraries and
+   * tools rather than web applications, which are deployed from source
+   */
+  private getPythonArtifacts(index: CodebaseIndex): BuildArtifact[] {
+    const pyproject = this.readPyproject(index);
+    const project = pyproject['project'] || pyproject['tool']?.poetry || {};
+    const isWebApplication = PYTHON_FRAMEWORKS.some(framework =>
+      this.getPythonDependencies(index).has(framework)
+    );
+    if (!pyproject['build-system'] || !project.name || isWebApplication) {
+      return [];
+    }
+
+    const directory = this.getDirectory(this.findPackageFile(index, ['pyproject.toml']) || '');
+    const distribution = String(project.name)
+      .replace(/[-_.]+/g, '_')
+      .toLowerCase();
+    const version = typeof project.version === 'string' ? project.version : '*';
+    return [
+      {
+        name: String(project.name),
+        path: this.joinPath(directory, 'dist', `${distribution}-${version}-*.whl`),
+        type: 'library',
+      },
+    ];
+  }
+
+  // JVM detection
+
+  /**
+   * Read the root Maven or Gradle build and the modules it aggregates, root first
+   */
+  private readJvmProjects(index: CodebaseIndex): JvmProject[] {
+    const buildFile = this.findPackageFile(index, ['pom.xml', 'build.gradle', 'build.gradle.kts']);
+    if (!buildFile) {
+      return [];
+    }
+
+    return this.getFileName(buildFile) === 'pom.xml'
+      ? this.readMavenProjects(index, buildFile)
+      : this.readGradleProjects(index, buildFile);
+  }
+
+  private readMavenProjects(index: CodebaseIndex, path: string): JvmProject[] {
+    const content = this.readFile(index, path);
+    if (!content) {
+      return [];
+    }
+
+    let pom: XmlElement;
+    try {
+      pom = this.manifestParser.parseXml(content);
+    } catch (error) {
+      throw ErrorFactory.createAnalysisError(
+        ErrorCodes.TECH_STACK_DETECTION_FAILED,
+        `Failed to parse ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        true,
+        [`Check that ${path} is well-formed XML`]
+      );
+    }
+
+    const directory = this.getDirectory(path);
+    const parent = this.xmlChild(pom, 'parent');
+    const properties: Record<string, string> = {};
+    for (const property of this.xmlChild(pom, 'properties')?.children || []) {
+      properties[property.name] = property.text;
+    }
+
+    const artifactId = this.xmlText(pom, 'artifactId') || this.getFileName(directory) || 'app';
+    const version = this.xmlText(pom, 'version') || (parent && this.xmlText(parent, 'version'));
+    const resolve = (value: string | undefined): string | undefined =>
+      value?.replace(/\$\{([^}]+)\}/g, (placeholder, key: string) =>
+        key === 'project.version' && version
+          ? version
+          : key === 'project.artifactId'
+            ? artifactId
+            : (properties[key] ?? placeholder)
+      );
+
+    const build = this.xmlChild(pom, 'build');
+    const plugins = (this.xmlChild(build, 'plugins')?.children || []).map(plugin => ({
+      artifactId: this.xmlText(plugin, 'artifactId') || '',
+      configuration: this.xmlChild(plugin, 'configuration'),
+    }));
+    const pluginIds = plugins.map(plugin => plugin.artifactId);
+
+    const dependencyElements = this.xmlChild(pom, 'dependencies')?.children || [];
+    const dependencies = dependencyElements.map(
+      dependency =>
+        `${this.xmlText(dependency, 'groupId')}:${this.xmlText(dependency, 'artifactId')}`
+    );
+    const groups = dependencies.map(dependency => dependency.split(':')[0] || '');
+    if (parent) {
+      groups.push(this.xmlText(parent, 'groupId') || '');
+    }
+
+    const compiler = plugins.find(plugin => plugin.artifactId === 'maven-compiler-plugin');
+    const javaVersion = resolve(
+      properties['maven.compiler.release'] ||
+        (compiler && this.xmlText(compiler.configuration, 'release')) ||
+        properties['maven.compiler.target'] ||
+        properties['maven.compiler.source'] ||
+        (compiler && this.xmlText(compiler.configuration, 'source')) ||
+        properties['java.version']
+    );
+
+    let packaging = (this.xmlText(pom, 'packaging') || 'jar') as JvmProject['packaging'];
+    if (
+      pluginIds.some(id => JVM_NATIVE_PLUGINS.includes(id)) ||
+      properties['quarkus.package.type'] === 'native' ||
+      properties['quarkus.native.enabled'] === 'true'
+    ) {
+      packaging = 'native';
+    }
+
+    const project: JvmProject = {
+      buildTool: 'maven',
+      directory,
+      name: artifactId,
+      framework: this.detectJvmFramework(groups, pluginIds),
+      packaging,
+      language: pluginIds.includes('kotlin-maven-plugin')
+        ? 'kotlin'
+        : pluginIds.includes('scala-maven-plugin')
+          ? 'scala'
+          : 'java',
+      dependencies,
+    };
+    if (version) {
+      project.version = resolve(version)!;
+    }
+    if (javaVersion && /^[\d.]+$/.test(javaVersion)) {
+      project.javaVersion = this.normalizeJavaVersion(javaVersion);
+    }
+    const finalName = resolve(this.xmlText(build, 'finalName'));
+    if (finalName) {
+      project.finalName = finalName;
+    }
+
+    const projects = [project];
+    for (const module of this.xmlChild(pom, 'modules')?.children || []) {
+      const modulePath = this.joinPath(directory, module.text, 'pom.xml');
+      // Nested aggregators return their own modules after themselves
+      for (const moduleProject of this.readMavenProjects(index, modulePath)) {
+        // Modules inherit the toolchain from the aggregator unless they override it
+        if (!moduleProject.javaVersion && project.javaVersion) {
+          moduleProject.javaVersion = project.javaVersion;
+        }
+        if (!moduleProject.version && project.version) {
+          moduleProject.version = project.version;
+        }
+        projects.push(moduleProject);
+      }
+    }
+
+    return projects;
+  }
+
+  private readGradleProjects(index: CodebaseIndex, path: string): JvmProject[] {
+    const directory = this.getDirectory(path);
+    const settingsPath = ['settings.gradle.kts', 'settings.gradle']
+      .map(name => this.joinPath(directory, name))
+      .find(candidate => this.readFile(index, candidate) !== undefined);
+    const settings = settingsPath ? this.readFile(index, settingsPath) || '' : '';
+
+    const rootName =
+      settings.match(/rootProject\.name\s*=\s*['"]([^'"]+)['"]/)?.[1] ||
+      this.getFileName(directory) ||
+      'app';
+    const root = this.readGradleProject(index, path, rootName);
+    const projects = [root];
+
+    // include 'api', ':worker' or include(":api", ":worker")
+    for (const include of settings.matchAll(/^\s*include\s*\(?([^)\n]+)\)?/gm)) {
+      for (const quoted of (include[1] || '').match(/['"][^'"]+['"]/g) || []) {
+        const subproject = quoted.slice(1, -1).replace(/^:/, '');
+        const subdirectory = this.joinPath(directory, subproject.replace(/:/g, '/'));
+        const buildPath = ['build.gradle.kts', 'build.gradle']
+          .map(name => this.joinPath(subdirectory, name))
+          .find(candidate => this.readFile(index, candidate) !== undefined);
+        if (!buildPath) continue;
+
+        const project = this.readGradleProject(
+          index,
+          buildPath,
+          subproject.split(':').pop() || subproject
+        );
+        if (!project.javaVersion && root.javaVersion) {
+          project.javaVersion = root.javaVersion;
+        }
+        if (!project.version && root.version) {
+          project.version = root.version;
+        }
+        projects.push(project);
+      }
+    }
+
+    // A root build that only configures subprojects produces no artifact of its own
+    if (projects.length > 1 && root.framework === 'none' && root.dependencies.length === 0) {
+      root.packaging = 'pom';
+    }
+
+    return projects;
+  }
+
+  private readGradleProject(index: CodebaseIndex, path: string, name: string): JvmProject {
+    const content = this.readFile(index, path) || '';
+
+    const pluginIds = [
+      ...[...content.matchAll(/\bid\s*\(?\s*['"]([^'"]+)['"]/g)].map(match => match[1] || ''),
+      ...[...content.matchAll(/apply\s+plugin:\s*['"]([^'"]+)['"]/g)].map(match => match[1] || ''),
+      ...[...content.matchAll(/\bkotlin\s*\(\s*"([^"]+)"\s*\)/g)].map(
+        match => `org.jetbrains.kotlin.${match[1]}`
+      ),
+    ];
+    // Core plugins may appear as bare words (war, `java-library`) inside the plugins block
+    const pluginsBlock = content.match(/plugins\s*\{([\s\S]*?)\n\s*\}/)?.[1] || '';
+    for (const line of pluginsBlock.split('\n')) {
+      const bare = line.trim().match(/^`?([a-z][\w-]*)`?$/);
+      if (bare?.[1]) {
+        pluginIds.push(bare[1]);
+      }
+    }
+
+    const dependencies = [
+      ...content.matchAll(
+        /\b(?:implementation|api|compileOnly|runtimeOnly|testImplementation|testRuntimeOnly|annotationProcessor|kapt)\s*\(?\s*(?:platform\s*\(\s*|enforcedPlatform\s*\(\s*)?['"]([^'":]+):([^'":]+)/g
+      ),
+    ].map(match => `${match[1]}:${match[2]}`);
+    const groups = dependencies.map(dependency => dependency.split(':')[0] || '');
+
+    const javaVersion =
+      content.match(/JavaLanguageVersion\.of\(\s*(\d+)\s*\)/)?.[1] ||
+      content.match(/jvmToolchain\(\s*(\d+)\s*\)/)?.[1] ||
+      content.match(
+        /(?:sourceCompatibility|targetCompatibility)\s*=\s*(?:JavaVersion\.VERSION_)?['"]?([\d._]+)/
+      )?.[1];
+    const version = content.match(/^\s*version\s*=\s*['"]([^'"]+)['"]/m)?.[1];
+
+    let packaging: JvmProject['packaging'] = pluginIds.includes('war') ? 'war' : 'jar';
+    if (pluginIds.some(id => JVM_NATIVE_PLUGINS.includes(id))) {
+      packaging = 'native';
+    }
+
+    const project: JvmProject = {
+      buildTool: 'gradle',
+      directory: this.getDirectory(path),
+      name,
+      framework: this.detectJvmFramework(groups, pluginIds),
+      packaging,
+      language: pluginIds.some(id => id.startsWith('org.jetbrains.kotlin.'))
+        ? 'kotlin'
+        : pluginIds.includes('scala')
+          ? 'scala'
+          : 'java',
+      dependencies,
+    };
+    if (version) {
+      project.version = version;
+    }
+    if (javaVersion) {
+      project.javaVersion = this.normalizeJavaVersion(javaVersion.replace(/_/g, '.'));
+    }
+
+    return project;
+  }
+
+  private detectJvmFramework(groups: string[], pluginIds: string[]): string {
+    const framework = JVM_FRAMEWORKS.find(
+      candidate =>
+        candidate.plugins.some(plugin => pluginIds.includes(plugin)) ||
+        groups.some(group => candidate.groups.some(prefix => group.startsWith(prefix)))
+    );
+    return framework ? framework.name : 'none';
+  }
+
+  /**
+   * Path of the artifact a project's default build produces
+   */
+  private getJvmArtifact(project: JvmProject): BuildArtifact {
+    const outputDirectory = this.joinPath(
+      project.directory,
+      project.buildTool === 'maven' ? 'target' : 'build'
+    );
+    const versioned = project.version ? `${project.name}-${project.version}` : project.name;
+
+    if (project.packaging === 'native') {
+      // Quarkus names native executables *-runner; the GraalVM plugins use the project name
+      const path =
+        project.framework === 'quarkus'
+          ? this.joinPath(outputDirectory, `${versioned}-runner`)
+          : project.buildTool === 'maven'
+            ? this.joinPath(outputDirectory, project.name)
+            : this.joinPath(outputDirectory, 'native/nativeCompile', project.name);
+      return { name: project.name, path, type: 'executable' };
+    }
+
+    if (project.framework === 'quarkus' && project.packaging === 'jar') {
+      // Quarkus fast-jar layout runs from a directory rather than a single jar
+      return {
+        name: project.name,
+        path: this.joinPath(outputDirectory, 'quarkus-app/quarkus-run.jar'),
+        type: 'archive',
+      };
+    }
+
+    const fileName = `${project.finalName || versioned}.${project.packaging}`;
+    const path =
+      project.buildTool === 'maven'
+        ? this.joinPath(outputDirectory, fileName)
+        : this.joinPath(outputDirectory, 'libs', fileName);
+    return { name: project.name, path, type: 'archive' };
+  }
+
+  /**
+   * Map legacy 1.x release names onto the feature release number (1.8 -> 8)
+   */
+  private normalizeJavaVersion(version: string): string {
+    return version.startsWith('1.') ? version.slice(2) : version;
+  }
+
+  private xmlChild(element: XmlElement | undefined, name: string): XmlElement | undefined {
+    return element?.children.find(child => child.name === name);
+  }
+
+  private xmlText(element: XmlElement | undefined, name: string): string | undefined {
+    return this.xmlChild(element, name)?.text || undefined;
+  }
+
+  /**
+   * Dependency resolution, packaging and test invocations of the root build, through
+   * the wrapper script when the repository ships one
+   */
+  private getJvmBuildSteps(index: CodebaseIndex, projects: JvmProject[]): BuildStep[] {
+    const root = projects[0];
+    if (!root) {
+      return [];
+    }
+
+    const directory = root.directory;
+    const wrapper = (name: string) =>
+      this.readFile(index, this.joinPath(directory, name)) !== undefined;
+    const native = projects.some(project => project.packaging === 'native');
+
+    if (root.buildTool === 'maven') {
+      const mvn = wrapper('mvnw') ? './mvnw' : 'mvn';
+      return this.inDirectory(
+        [
+          { name: 'install', command: `${mvn} -B dependency:go-offline` },
+          { name: 'compile', command: `${mvn} -B package -DskipTests${native ? ' -Pnative' : ''}` },
+          { name: 'test', command: `${mvn} -B test` },
+        ],
+        directory
+      );
+    }
+
+    const gradle = wrapper('gradlew') ? './gradlew' : 'gradle';
+    const springBoot = projects.some(project => project.framework === 'spring-boot');
+    const task = native
+      ? 'nativeCompile'
+      : springBoot
+        ? projects.some(project => project.packaging === 'war')
+          ? 'bootWar'
+          : 'bootJar'
+        : 'build -x test';
+    return this.inDirectory(
+      [
+        { name: 'install', command: `${gradle} dependencies --no-daemon` },
+        { name: 'compile', command: `${gradle} ${task} --no-daemon` },
+        { name: 'test', command: `${gradle} test --no-daemon` },
+      ],
+      directory
+    );
+  }
+
+  // Go detection
+
+  private readGoModule(index: CodebaseIndex): GoModule | undefined {
+    const path = this.findPackageFile(index, ['go.mod']);
+    const content = path ? this.readFile(index, path) : undefined;
+    if (!content) {
+      return undefined;
+    }
+
+    const module: GoModule = {
+      path: content.match(/^module\s+(\S+)/m)?.[1] || '',
+      requires: [],
+    };
+    const goVersion = content.match(/^go\s+(\d+(?:\.\d+)*)/m)?.[1];
+    if (goVersion) {
+      module.goVersion = goVersion;
+    }
+    const toolchain = content.match(/^toolchain\s+go(\d+(?:\.\d+)*)/m)?.[1];
+    if (toolchain) {
+      module.toolchain = toolchain;
+    }
+
+    // Both `require x v1` and `require ( ... )` block forms
+    const requireLines: string[] = [];
+    for (const block of content.matchAll(/^require\s*\(([\s\S]*?)^\)/gm)) {
+      requireLines.push(...(block[1] || '').split('\n'));
+    }
+    for (const single of content.matchAll(/^require\s+([^(\s].*)$/gm)) {
+      requireLines.push(single[1] || '');
+    }
+    for (const line of requireLines) {
+      const requirement = line.trim().match(/^(\S+)\s+v\S+(.*)$/);
+      if (requirement?.[1] && !/\/\/\s*indirect/.test(requirement[2] || '')) {
+        module.requires.push(requirement[1]);
+      }
+    }
+
+    return module;
+  }
+
+  private detectGoRuntime(index: CodebaseIndex): RuntimeInfo {
+    const module = this.readGoModule(index);
+    // The toolchain directive names the exact release to build with; go sets the floor
+    const version = module?.toolchain || module?.goVersion;
+    if (!version) {
+      return { name: 'go', version: DEFAULT_GO_VERSION };
+    }
+
+    const runtime: RuntimeInfo = { name: 'go', version };
+    if (module?.goVersion) {
+      runtime.minVersion = module.goVersion;
+    }
+    return runtime;
+  }
+
+  /**
+   * One binary per directory holding a main package, named after the directory
+   * (or the module for a root main package)
+   */
+  private getGoSources(index: CodebaseIndex) {
+    return index.fileIndex.filter(
+      file => file.path.endsWith('.go') && !file.path.endsWith('_test.go')
+    );
+  }
+
+  /**
+   * Directories of `main` packages, each built into its own binary
+   */
+  private getGoMainDirectories(index: CodebaseIndex): string[] {
+    const mainDirectories = new Set<string>();
+    for (const file of this.getGoSources(index)) {
+      const isMain =
+        file.content !== undefined
+          ? /^package\s+main\b/m.test(file.content)
+          : this.getFileName(file.path) === 'main.go';
+      if (isMain) {
+        mainDirectories.add(this.getDirectory(file.path));
+      }
+    }
+    return [...mainDirectories].sort();
+  }
+
+  private detectGoArtifacts(index: CodebaseIndex): BuildArtifact[] {
+    const module = this.readGoModule(index);
+    const moduleRoot = this.getDirectory(this.findPackageFile(index, ['go.mod']) || '');
+    const sources = this.getGoSources(index);
+
+    const usesCgo =
+      sources.some(file => /^\s*import\s+(\(\s*)?"C"/m.test(file.content || '')) ||
+      (module?.requires || []).some(required =>
+        GO_CGO_MODULES.some(cgoModule => required.startsWith(cgoModule))
+      );
+
+    return this.getGoMainDirectories(index).map(directory => {
+      const name =
+        directory === moduleRoot
+          ? (module?.path || '').split('/').pop() || 'app'
+          : this.getFileName(directory);
+      return {
+        name,
+        path: this.joinPath(moduleRoot, 'bin', name),
+        type: 'executable' as const,
+        staticallyLinked: !usesCgo,
+      };
+    });
+  }
+
+  /**
+   * Module download, `go generate` and buf code generation, one build per binary
+   * into the artifact path, then tests
+   */
+  private getGoBuildSteps(index: CodebaseIndex, artifacts: BuildArtifact[]): BuildStep[] {
+    const moduleRoot = this.getDirectory(this.findPackageFile(index, ['go.mod']) || '');
+    const steps: BuildStep[] = [{ name: 'install', command: 'go mod download' }];
+
+    const generates = index.fileIndex.some(
+      file => file.path.endsWith('.go') && /^\/\/go:generate\s/m.test(file.content || '')
+    );
+    if (generates) {
+      steps.push({ name: 'codegen', command: 'go generate ./...' });
+    }
+    steps.push(...this.getBufSteps(index));
+
+    // Artifacts follow the order of the main package directories
+    const relative = (path: string) => (moduleRoot ? path.slice(moduleRoot.length + 1) : path);
+    this.getGoMainDirectories(index).forEach((directory, position) => {
+      const artifact = artifacts[position];
+      if (!artifact) {
+        return;
+      }
+      const target = relative(directory);
+      const step: BuildStep = {
+        name: 'compile',
+        command: `go build -trimpath -ldflags="-s -w" -o ${relative(artifact.path)} ${target ? `./${target}` : '.'}`,
+      };
+      if (artifact.staticallyLinked) {
+        step.environment = { CGO_ENABLED: '0' };
+      }
+      steps.push(step);
+    });
+
+    steps.push({ name: 'test', command: 'go test ./...' });
+    return this.inDirectory(steps, moduleRoot);
+  }
+
+  // Rust detection
+
+  /**
+   * Read the root crate and every workspace member it lists
+   */
+  private readCargoPackages(index: CodebaseIndex): CargoPackage[] {
+    const rootPath = this.findPackageFile(index, ['Cargo.toml']);
+    if (!rootPath) {
+      return [];
+    }
+
+    const rootDirectory = this.getDirectory(rootPath);
+    const root = this.readToml(index, rootPath);
+    const workspace = root['workspace'] || {};
+    const packages: CargoPackage[] = [];
+
+    if (root['package']) {
+      packages.push(this.readCargoPackage(index, rootDirectory, root, workspace));
+    }
+
+    for (const member of (workspace.members || []) as string[]) {
+      // Members may be globs such as crates/*
+      const pattern = new RegExp(
+        `^${this.joinPath(rootDirectory, member)
+          .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+          .replace(/\*/g, '[^/]+')}/Cargo\.toml$`
+      );
+      const manifests = index.priorityFiles.packageFiles.filter(path => pattern.test(path)).sort();
+      for (const manifest of manifests) {
+        packages.push(
+          this.readCargoPackage(
+            index,
+            this.getDirectory(manifest),
+            this.readToml(index, manifest),
+            workspace
+          )
+        );
+      }
+    }
+
+    return packages;
+  }
+
+  private readCargoPackage(
+    index: CodebaseIndex,
+    directory: string,
+    manifest: Record<string, any>,
+    workspace: Record<string, any>
+  ): CargoPackage {
+    const metadata = manifest['package'] || {};
+    const inherited = workspace['package'] || {};
+    // `edition.workspace = true` style keys inherit from [workspace.package]
+    const field = (key: string): string | undefined => {
+      const value = metadata[key];
+      if (value && typeof value === 'object' && value.workspace) {
+        return inherited[key];
+      }
+      return typeof value === 'string' ? value : undefined;
+    };
+
+    const name = field('name') || this.getFileName(directory) || 'app';
+    const binaries: string[] = [];
+    for (const target of (manifest['bin'] || []) as Array<Record<string, any>>) {
+      if (typeof target['name'] === 'string') {
+        binaries.push(target['name']);
+      }
+    }
+    if (metadata.autobins !== false) {
+      const sourceRoot = this.joinPath(directory, 'src');
+      const mainPath = this.joinPath(sourceRoot, 'main.rs');
+      if (index.fileIndex.some(file => file.path === mainPath)) {
+        binaries.push(name);
+      }
+      // src/bin/<name>.rs and src/bin/<name>/main.rs
+      const binPattern = new RegExp(
+        `^${this.joinPath(sourceRoot, 'bin').replace(/[.]/g, '\\.')}/([^/]+?)(?:\\.rs|/main\\.rs)$`
+      );
+      for (const file of index.fileIndex) {
+        const match = file.path.match(binPattern);
+        if (match?.[1]) {
+          binaries.push(match[1]);
+        }
+      }
+    }
+
+    const cargoPackage: CargoPackage = {
+      directory,
+      name,
+      binaries: [...new Set(binaries)],
+      dependencies: Object.keys(manifest['dependencies'] || {}),
+    };
+    const edition = field('edition');
+    if (edition) {
+      cargoPackage.edition = edition;
+    }
+    const rustVersion = field('rust-version');
+    if (rustVersion) {
+      cargoPackage.rustVersion = rustVersion;
+    }
+    return cargoPackage;
+  }
+
+  private detectRustRuntime(index: CodebaseIndex): RuntimeInfo {
+    const packages = this.readCargoPackages(index);
+    const rustVersion = packages.find(pkg => pkg.rustVersion)?.rustVersion;
+    const edition = packages.find(pkg => pkg.edition)?.edition;
+    const minVersion = rustVersion || (edition && RUST_EDITION_MIN_VERSIONS[edition]);
+
+    // rust-toolchain(.toml) pins the compiler the project is actually built with
+    const toolchainFile = this.findRootFile(index, ['rust-toolchain.toml', 'rust-toolchain']);
+    const toolchainContent = toolchainFile ? this.readFile(index, toolchainFile) || '' : '';
+    const channel = toolchainFile?.endsWith('.toml')
+      ? this.readToml(index, toolchainFile)['toolchain']?.channel
+      : toolchainContent.trim();
+    const pinned = typeof channel === 'string' && /^\d/.test(channel) ? channel : undefined;
+
+    const runtime: RuntimeInfo = {
+      name: 'rust',
+      version: pinned || rustVersion || DEFAULT_RUST_VERSION,
+    };
+    if (minVersion) {
+      runtime.minVersion = minVersion;
+    }
+    return runtime;
+  }
+
+  private detectRustArtifacts(index: CodebaseIndex, packages: CargoPackage[]): BuildArtifact[] {
+    const rootDirectory = this.getDirectory(this.findPackageFile(index, ['Cargo.toml']) || '');
+
+    // A musl build target in .cargo/config.toml produces fully static executables
+    const configPath = index.fileIndex
+      .map(file => file.path)
+      .find(path => /(^|\/)\.cargo\/config(\.toml)?$/.test(path));
+    const config = this.readToml(index, configPath);
+    const target = config['build']?.target;
+    const muslTarget = typeof target === 'string' && target.includes('musl') ? target : undefined;
+    const releaseDirectory = muslTarget
+      ? this.joinPath(rootDirectory, 'target', muslTarget, 'release')
+      : this.joinPath(rootDirectory, 'target/release');
+
+    // Workspace members share the root target directory
+    return packages.flatMap(pkg =>
+      pkg.binaries.map(binary => ({
+        name: binary,
+        path: this.joinPath(releaseDirectory, binary),
+        type: 'executable' as const,
+        staticallyLinked: muslTarget !== undefined,
+      }))
+    );
+  }
+
+  private getRustBuildSteps(index: CodebaseIndex): BuildStep[] {
+    // A build target in .cargo/config.toml applies without a --target flag
+    return this.inDirectory(
+      [
+        { name: 'install', command: 'cargo fetch --locked' },
+        { name: 'compile', command: 'cargo build --release --locked' },
+        { name: 'test', command: 'cargo test --locked' },
+      ],
+      this.getDirectory(this.findPackageFile(index, ['Cargo.toml']) || '')
+    );
+  }
+
+  // .NET detection
+
+  /**
+   * Read the projects listed in the solution, or every project file when there is none
+   */
+  private readDotnetProjects(index: CodebaseIndex): DotnetProject[] {
+    const solution = this.findPackageFile(index, [/\.sln$/]);
+    let projectPaths: string[];
+
+    if (solution) {
+      const directory = this.getDirectory(solution);
+      projectPaths = [
+        ...(this.readFile(index, solution) || '').matchAll(
+          /^Project\("[^"]*"\)\s*=\s*"[^"]*",\s*"([^"]+\.(?:cs|fs|vb)proj)"/gm
+        ),
+      ].map(match => this.joinPath(directory, (match[1] || '').replace(/\\/g, '/')));
+    } else {
+      projectPaths = index.priorityFiles.packageFiles.filter(path =>
+        /\.(csproj|fsproj|vbproj)$/.test(path)
+      );
+    }
+
+    return projectPaths
+      .map(path => this.readDotnetProject(index, path))
+      .filter((project): project is DotnetProject => project !== undefined);
+  }
+
+  private readDotnetProject(index: CodebaseIndex, path: string): DotnetProject | undefined {
+    const content = this.readFile(index, path);
+    if (!content) {
+      return undefined;
+    }
+
+    let root: XmlElement;
+    try {
+      root = this.manifestParser.parseXml(content);
+    } catch (error) {
+      throw ErrorFactory.createAnalysisError(
+        ErrorCodes.TECH_STACK_DETECTION_FAILED,
+        `Failed to parse ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        true,
+        [`Check that ${path} is well-formed XML`]
+      );
+    }
+
+    const properties: Record<string, string> = {};
+    const packages: string[] = [];
+    const frameworkReferences: string[] = [];
+    for (const group of root.children) {
+      if (group.name === 'PropertyGroup') {
+        for (const property of group.children) {
+          properties[property.name] = property.text;
+        }
+      } else if (group.name === 'ItemGroup') {
+        for (const item of group.children) {
+          const include = item.attributes['Include'];
+          if (include && item.name === 'PackageReference') packages.push(include);
+          if (include && item.name === 'FrameworkReference') frameworkReferences.push(include);
+        }
+      }
+    }
+
+    const sdk = root.attributes['Sdk'] || 'Microsoft.NET.Sdk';
+    // Multi-targeted projects are published for their newest framework
+    const targetFramework =
+      properties['TargetFramework'] ||
+      (properties['TargetFrameworks'] || '')
+        .split(';')
+        .filter(Boolean)
+        .sort((a, b) => parseFloat(b.replace(/^\D+/, '')) - parseFloat(a.replace(/^\D+/, '')))[0];
+
+    const fileName = this.getFileName(path);
+    const project: DotnetProject = {
+      path,
+      assemblyName: properties['AssemblyName'] || fileName.slice(0, fileName.lastIndexOf('.')),
+      sdk,
+      // Web and Worker SDKs default to an executable output
+      isExecutable:
+        /^(Exe|WinExe)$/i.test(properties['OutputType'] || '') || /\.(Web|Worker)$/.test(sdk),
+      publishAot: properties['PublishAot'] === 'true',
+      packages,
+      frameworkReferences,
+    };
+    if (targetFramework) {
+      project.targetFramework = targetFramework;
+    }
+    return project;
+  }
+
+  /**
+   * The project that defines the service: the web project, else the first executable
+   */
+  private getPrimaryDotnetProject(index: CodebaseIndex): DotnetProject | undefined {
+    const projects = this.readDotnetProjects(index);
+    return (
+      projects.find(project => this.detectDotnetFramework(project) !== 'none') ||
+      projects.find(project => project.isExecutable) ||
+      projects[0]
+    );
+  }
+
+  private detectDotnetFramework(project: DotnetProject | undefined): string {
+    if (!project) {
+      return 'none';
+    }
+    if (
+      project.packages.some(
+        pkg =>
+          pkg === 'Microsoft.NET.Sdk.Functions' ||
+          pkg.startsWith('Microsoft.Azure.Functions.Worker')
+      )
+    ) {
+      return 'azure-functions';
+    }
+    if (
+      project.sdk === 'Microsoft.NET.Sdk.Web' ||
+      project.frameworkReferences.includes('Microsoft.AspNetCore.App')
+    ) {
+      return 'aspnetcore';
+    }
+    return 'none';
+  }
+
+  private getDotnetArtifact(project: DotnetProject): BuildArtifact {
+    const publishDirectory = this.joinPath(
+      this.getDirectory(project.path),
+      'bin/Release',
+      project.targetFramework || `net${DEFAULT_DOTNET_VERSION}`,
+      project.publishAot ? 'linux-x64/publish' : 'publish'
+    );
+
+    // Native AOT emits a self-contained executable that still links libc dynamically
+    return project.publishAot
+      ? {
+          name: project.assemblyName,
+          path: this.joinPath(publishDirectory, project.assemblyName),
+          type: 'executable',
+          staticallyLinked: false,
+        }
+      : {
+          name: project.assemblyName,
+          path: this.joinPath(publishDirectory, `${project.assemblyName}.dll`),
+          type: 'executable',
+          staticallyLinked: false,
+        };
+  }
+
+  /**
+   * Restore the solution, publish each executable project to the artifact directory
+   * and run the test projects
+   */
+  private getDotnetBuildSteps(index: CodebaseIndex, projects: DotnetProject[]): BuildStep[] {
+    const target = this.findPackageFile(index, [/\.sln$/]) || projects[0]?.path;
+    if (!target) {
+      return [];
+    }
+
+    const steps: BuildStep[] = [{ name: 'install', command: `dotnet restore ${target}` }];
+    for (const project of projects.filter(candidate => candidate.isExecutable)) {
+      steps.push({
+        name: 'compile',
+        command: `dotnet publish ${project.path} -c Release --no-restore${project.publishAot ? ' -r linux-x64' : ''}`,
+      });
+    }
+    const hasTests = projects.some(project =>
+      project.packages.some(pkg =>
+        [
+          'Microsoft.NET.Test.Sdk',
+          ...DOTNET_TEST_FRAMEWORKS.flatMap(framework => framework.packages),
+        ].includes(pkg)
+      )
+    );
+    if (hasTests) {
+      steps.push({ name: 'test', command: `dotnet test ${target} --no-restore` });
+    }
+    return steps;
+  }
+
+  // Shared helpers
+
+  /**
+   * `buf generate` for repositories with a buf generation template, run where the template lives
+   */
+  private getBufSteps(index: CodebaseIndex): BuildStep[] {
+    const template = this.findRootFile(index, ['buf.gen.yaml', 'buf.gen.yml']);
+    if (!template) {
+      return [];
+    }
+    const directory = this.getDirectory(template);
+    return [
+      directory
+        ? { name: 'codegen', command: 'buf generate', workingDirectory: directory }
+        : { name: 'codegen', command: 'buf generate' },
+    ];
+  }
+
+  /**
+   * Run steps from a project subdirectory, keeping steps that set their own directory
+   */
+  private inDirectory(steps: BuildStep[], directory: string): BuildStep[] {
+    return directory
+      ? steps.map(step => (step.workingDirectory ? step : { ...step, workingDirectory: directory }))
+      : steps;
+  }
+
+  /**
+   * Split a version constraint such as `>=18 <21` or `^3.9` into runtime bounds
+   */
+  private parseVersionRange(
+    range: string,
+    fallback: string
+  ): Pick<RuntimeInfo, 'version' | 'minVersion' | 'maxVersion'> {
+    const result: Pick<RuntimeInfo, 'version' | 'minVersion' | 'maxVersion'> = {
+      version: fallback,
+    };
+
+    // Only the first alternative of an `||` range is considered; `>= 18` is read as `>=18`
+    const firstAlternative = (range.split('||')[0] || '').replace(
+      /(>=|<=|>|<|\^|~=|~|==|=)\s+/g,
+      '$1'
+    );
+    const clauses = firstAlternative.split(/[\s,]+/).filter(Boolean);
+
+    for (const clause of clauses) {
+      const match = clause.match(/^(>=|<=|>|<|\^|~=|~|==|=)?v?(\d+(?:\.(?:\d+|x|\*))*)/);
+      if (!match || !match[2]) continue;
+
+      const operator = match[1] || '';
+      const version = match[2].replace(/\.(x|\*)/g, '');
+
+      if (operator === '<' || operator === '<=') {
+        result.maxVersion = version;
+      } else {
+        result.minVersion = version;
+        if (operator === '' || operator === '=' || operator === '==') {
+          result.maxVersion = version;
+        }
+      }
+    }
+
+    if (result.minVersion) {
+      result.version = result.minVersion;
+    }
+
+    return result;
+  }
+
+  /**
+   * Most common source language in the codebase
+   */
+  private getDominantLanguage(index: CodebaseIndex): string | undefined {
+    const entries = Object.entries(index.statistics.languageDistribution);
+    entries.sort((a, b) => b[1] - a[1]);
+    return entries[0]?.[0];
+  }
+
+  /**
+   * Find the shallowest manifest among the indexed package files
+   */
+  private findPackageFile(
+    index: CodebaseIndex,
+    fileNames: Array<string | RegExp>
+  ): string | undefined {
+    return this.findShallowest(index.priorityFiles.packageFiles, fileNames);
+  }
+
+  /**
+   * Find the shallowest indexed file with one of the given names
+   */
+  private findRootFile(index: CodebaseIndex, fileNames: string[]): string | undefined {
+    return this.findShallowest(
+      index.fileIndex.map(file => file.path),
+      fileNames
+    );
+  }
+
+  /**
+   * Pick the shallowest path matching one of the candidate names, in candidate order
+   */
+  private findShallowest(paths: string[], fileNames: Array<string | RegExp>): string | undefined {
+    for (const fileName of fileNames) {
+      const matches = paths
+        .filter(path =>
+          typeof fileName === 'string'
+            ? this.getFileName(path) === fileName
+            : fileName.test(this.getFileName(path))
+        )
+        .sort((a, b) => a.split('/').length - b.split('/').length);
+
+      if (matches[0]) {
+        return matches[0];
+      }
+    }
+    return undefined;
+  }
+
+  private readFile(index: CodebaseIndex, path: string): string | undefined {
+    return index.fileIndex.find(file => file.path === path)?.content;
+  }
+
+  private parseJson<T>(index: CodebaseIndex, path: string): T {
+    const content = this.readFile(index, path);
+    if (!content) {
+      return {} as T;
+    }
+
+    try {
+      return JSON.parse(content) as T;
+    } catch (error) {
+      throw ErrorFactory.createAnalysisError(
+        ErrorCodes.TECH_STACK_DETECTION_FAILED,
+        `Failed to parse ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        true,
+        [`Check that ${path} contains valid JSON`]
+      );
+    }
+  }
+
+  private readToml(index: CodebaseIndex, path: string | undefined): Record<string, any> {
+    const content = path ? this.readFile(index, path) : undefined;
+    if (!path || !content) {
+      return {};
+    }
+
+    try {
+      return this.manifestParser.parseToml(content);
+    } catch (error) {
+      throw ErrorFactory.createAnalysisError(
+        ErrorCodes.TECH_STACK_DETECTION_FAILED,
+        `Failed to parse ${path}: ${error instanceof Error ? error.message : String(error)}`,
+        true,
+        [`Check that ${path} contains valid TOML`]
+      );
+    }
+  }
+
+  private getDirectory(path: string): string {
+    return path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+  }
+
+  private joinPath(...segments: string[]): string {
+    return segments.filter(Boolean).join('/').replace(/\/+/g, '/').replace(/^\.\//, '');
+  }
+
+  private getFileName(path: string): string {
+    return path.split('/').pop() || '';
   }
 }
@@ -1,4 +1,16 @@
-import { AnalysisResult, DockerConfiguration } from '../types';
+import {
+  AnalysisResult,
+  BuildArtifact,
+  BuildStep,
+  DockerConfiguration,
+  DockerOptimization,
+  ProcessInfo,
+  SecurityCustomization,
+  ServiceInfo,
+  UserPreferences,
+} from '../types';
+import { DefaultRouteAnalyzer, RouteAnalyzer } from '../analyzers/route-analyzer';
+import { ErrorFactory, ErrorCodes } from '../utils/error-handler';
 
 /**
  * Interface for generating Docker configurations
@@ -7,17 +19,23 @@ export interface DockerGenerator {
   /**
    * Generates a complete Docker configuration
    */
-  generateDockerConfig(analysis: AnalysisResult): Promise<DockerConfiguration>;
+  generateDockerConfig(
+    analysis: AnalysisResult,
+    options?: DockerGenerationOptions
+  ): Promise<DockerConfiguration>;
 
   /**
    * Generates a Dockerfile
    */
-  generateDockerfile(analysis: AnalysisResult): Promise<string>;
+  generateDockerfile(analysis: AnalysisResult, options?: DockerGenerationOptions): Promise<string>;
 
   /**
    * Generates a .dockerignore file
    */
-  generateDockerignore(analysis: AnalysisResult): Promise<string>;
+  generateDockerignore(
+    analysis: AnalysisResult,
+    options?: DockerGenerationOptions
+  ): Promise<string>;
 
   /**
    * Generates a docker-compose.yml file for multi-service applications
@@ -25,27 +43,2095 @@ export interface DockerGenerator {
   generateDockerCompose(analysis: AnalysisResult): Promise<string | undefined>;
 }
 
+/**
+ * User settings that switch the generator to hardened images: a non-root user,
+ * distroless runtime stages where the stack allows it and a HEALTHCHECK
+ */
+export interface DockerGenerationOptions {
+  preferences?: UserPreferences;
+  securitySettings?: SecurityCustomization;
+  /** Contents of the repository's .gitignore, merged into the generated .dockerignore */
+  gitignore?: string;
+}
+
+/**
+ * Stacks with a Dockerfile template
+ */
+type DockerStack = 'node' | 'python' | 'jvm' | 'go' | 'rust' | 'dotnet' | 'php' | 'ruby';
+
+/**
+ * One `FROM` section of a Dockerfile; the last stage is the runtime image
+ */
+interface DockerStage {
+  name: string;
+  from: string;
+  instructions: string[];
+}
+
+/**
+ * Dockerfile before rendering, with the build argument that pins the runtime version
+ */
+interface DockerfileTemplate {
+  stages: DockerStage[];
+  buildArgs: Record<string, string>;
+  optimizations: DockerOptimization[];
+  /** Non-root user the runtime image already ships, e.g. distroless `nonroot` */
+  runtimeUser?: string;
+  /** Interpreter in the runtime image that can run the HEALTHCHECK request */
+  interpreter?: { language: 'node' | 'python' | 'ruby'; path: string };
+}
+
+/**
+ * Inputs shared by the stack templates
+ */
+interface TemplateContext {
+  analysis: AnalysisResult;
+  version: string;
+  port: number;
+  /** Install steps run before the source is copied */
+  installSteps: BuildStep[];
+  /** Code generation, compile, bundle and package steps run on the full source */
+  buildSteps: BuildStep[];
+  artifacts: BuildArtifact[];
+  /** Web process of the first service, from a Procfile, package.json or entry point */
+  start: { command?: string; entryPoint?: string };
+  /** Debian packages for the build and runtime stages */
+  buildPackages: string[];
+  runtimePackages: string[];
+  /** Non-root, minimal runtime stages were requested */
+  hardened: boolean;
+}
+
+const STACK_LANGUAGES: Record<string, DockerStack> = {
+  javascript: 'node',
+  typescript: 'node',
+  python: 'python',
+  java: 'jvm',
+  kotlin: 'jvm',
+  scala: 'jvm',
+  go: 'go',
+  rust: 'rust',
+  csharp: 'dotnet',
+  fsharp: 'dotnet',
+  php: 'php',
+  ruby: 'ruby',
+};
+
+/**
+ * Versions used when the analysis found no runtime version
+ */
+const DEFAULT_VERSIONS: Record<DockerStack, string> = {
+  node: '20',
+  python: '3.12',
+  jvm: '21',
+  go: '1.22',
+  rust: '1.79',
+  dotnet: '8.0',
+  php: '8.3',
+  ruby: '3.3',
+};
+
+const DEFAULT_PORTS: Record<DockerStack, number> = {
+  node: 3000,
+  python: 8000,
+  jvm: 8080,
+  go: 8080,
+  rust: 8080,
+  dotnet: 8080,
+  php: 9000,
+  ruby: 3000,
+};
+
+/**
+ * Python application servers that speak ASGI rather than WSGI
+ */
+const ASGI_SERVERS = ['uvicorn', 'hypercorn', 'daphne'];
+
+/**
+ * php-fpm answers FastCGI on this port whatever port the application is documented on
+ */
+const PHP_FPM_PORT = 9000;
+
+/**
+ * Build argument holding the pinned runtime version of each stack
+ */
+const VERSION_ARGS: Record<DockerStack, string> = {
+  node: 'NODE_VERSION',
+  python: 'PYTHON_VERSION',
+  jvm: 'JAVA_VERSION',
+  go: 'GO_VERSION',
+  rust: 'RUST_VERSION',
+  dotnet: 'DOTNET_VERSION',
+  php: 'PHP_VERSION',
+  ruby: 'RUBY_VERSION',
+};
+
+/**
+ * Manifests copied before the dependency install, the package cache mounted during
+ * it and the command that drops development dependencies, per Node.js package manager
+ */
+const NODE_PACKAGE_MANAGERS: Record<string, { manifests: string[]; cache: string; prune: string }> =
+  {
+    npm: {
+      manifests: ['package*.json'],
+      cache: '/root/.npm',
+      prune: 'npm prune --omit=dev',
+    },
+    yarn: {
+      manifests: ['package.json', 'yarn.lock'],
+      cache: '/usr/local/share/.cache/yarn',
+      prune: 'yarn install --production --frozen-lockfile --ignore-scripts --prefer-offline',
+    },
+    pnpm: {
+      manifests: ['package.json', 'pnpm-lock.yaml'],
+      cache: '/root/.local/share/pnpm/store',
+      prune: 'pnpm prune --prod',
+    },
+    bun: {
+      manifests: ['package.json', 'bun.lock*'],
+      cache: '/root/.bun/install/cache',
+      prune: 'rm -rf node_modules && bun install --production --frozen-lockfile',
+    },
+  };
+
+/**
+ * Manifests and production-only install per Python package manager; tools without a
+ * production install export their lockfile to pip. The tool itself is installed with
+ * the system pip so that only the project's dependencies land in /opt/venv.
+ */
+const PYTHON_PACKAGE_MANAGERS: Record<
+  string,
+  { manifests: string[]; tool: string; install: string }
+> = {
+  poetry: {
+    manifests: ['pyproject.toml', 'poetry.lock'],
+    tool: 'poetry',
+    install: 'poetry install --only main --no-root --no-interaction',
+  },
+  uv: {
+    manifests: ['pyproject.toml', 'uv.lock'],
+    tool: 'uv',
+    install: 'uv sync --frozen --no-dev --no-install-project',
+  },
+  pdm: {
+    manifests: ['pyproject.toml', 'pdm.lock'],
+    tool: 'pdm',
+    install:
+      'pdm export --prod --without-hashes -o requirements.txt && pip install -r requirements.txt',
+  },
+  pipenv: {
+    manifests: ['Pipfile', 'Pipfile.lock'],
+    tool: 'pipenv',
+    install: 'pipenv requirements > requirements.txt && pip install -r requirements.txt',
+  },
+};
+
+/**
+ * Unprivileged user created in runtime images that do not ship one
+ */
+const APP_UID = 10001;
+
+/**
+ * Distroless images that exist per runtime major version
+ */
+const DISTROLESS_NODE_VERSIONS = ['18', '20', '22'];
+const DISTROLESS_JAVA_VERSIONS = ['17', '21'];
+
+/**
+ * Environment that moves runtime caches to /tmp so the root filesystem can be read-only
+ */
+const READ_ONLY_ENVIRONMENT: Partial<Record<DockerStack, string[]>> = {
+  node: ['NPM_CONFIG_CACHE=/tmp/.npm'],
+  ruby: ['BOOTSNAP_CACHE_DIR=/tmp/bootsnap'],
+  jvm: ['JAVA_TOOL_OPTIONS="-XX:MaxRAMPercentage=75.0 -Djava.io.tmpdir=/tmp"'],
+};
+
+/**
+ * Version control, CI, editor and OS files that never belong in a build context
+ */
+const IGNORED_TOOLING = [
+  '.git',
+  '.hg',
+  '.svn',
+  '.github',
+  '.gitlab-ci.yml',
+  '.circleci',
+  '.idea',
+  '.vscode',
+  '**/*.swp',
+  '**/.DS_Store',
+  '**/Thumbs.db',
+  '**/Dockerfile*',
+  '**/*.dockerfile',
+  '.dockerignore',
+  '**/docker-compose*.y*ml',
+  '**/compose*.y*ml',
+];
+
+/**
+ * Installed dependencies, caches and build output that the image build recreates
+ */
+const IGNORED_DEPENDENCIES: Record<DockerStack, string[]> = {
+  node: [
+    '**/node_modules',
+    '**/.npm',
+    '**/.pnpm-store',
+    '**/.yarn/cache',
+    '**/.turbo',
+    '**/.eslintcache',
+    '**/npm-debug.log*',
+    '**/yarn-error.log*',
+  ],
+  python: [
+    '**/__pycache__',
+    '**/*.py[cod]',
+    '**/.venv',
+    '**/venv',
+    '**/*.egg-info',
+    '**/.pytest_cache',
+    '**/.mypy_cache',
+    '**/.ruff_cache',
+    '**/.tox',
+  ],
+  jvm: ['**/target', '**/build', '**/.gradle', '**/out'],
+  go: ['**/*.test', '**/*.out'],
+  rust: ['**/target'],
+  dotnet: ['**/bin', '**/obj', '**/TestResults'],
+  php: ['**/vendor', '**/node_modules', '**/.phpunit.cache', '**/.phpunit.result.cache'],
+  ruby: [
+    '**/vendor/bundle',
+    '**/.bundle',
+    '**/node_modules',
+    'log/*',
+    '!log/.keep',
+    'tmp/*',
+    '!tmp/.keep',
+    'public/assets',
+  ],
+};
+
+/**
+ * Tests the image build does not run; .NET test projects stay because solution
+ * restores fail when a referenced project is missing
+ */
+const IGNORED_TESTS: Record<DockerStack, string[]> = {
+  node: ['**/__tests__', '**/*.test.*', '**/*.spec.*', 'test', 'tests', 'e2e', 'cypress'],
+  python: ['test', 'tests', '**/test_*.py', '**/*_test.py', '**/conftest.py'],
+  jvm: ['**/src/test'],
+  go: ['**/*_test.go', '**/testdata'],
+  rust: ['tests'],
+  dotnet: [],
+  php: ['tests', 'phpunit.xml*'],
+  ruby: ['test', 'spec'],
+};
+
+const IGNORED_DOCS = [
+  'docs',
+  '*.md',
+  '**/coverage',
+  '**/htmlcov',
+  '**/.coverage',
+  '**/.nyc_output',
+];
+
+/**
+ * Files that commonly hold credentials
+ */
+const IGNORED_SECRETS = [
+  '**/.env',
+  '**/.env.*',
+  '**/*.pem',
+  '**/*.key',
+  '**/*.p12',
+  '**/*.pfx',
+  '**/*.jks',
+  '**/id_rsa*',
+  '**/id_dsa*',
+  '**/id_ecdsa*',
+  '**/id_ed25519*',
+  '**/.ssh',
+  '**/.aws',
+  '**/.npmrc',
+  '**/.pypirc',
+  '**/.netrc',
+  '**/*.tfstate*',
+  '**/credentials.json',
+  '**/service-account*.json',
+];
+
+/**
+ * Container started next to the application for a detected database, cache or broker
+ */
+interface BackingService {
+  name: string;
+  image: string;
+  port: number;
+  environment: Record<string, string>;
+  /** Exec-form healthcheck command */
+  healthcheck: string[];
+  /** Data directory kept in a named volume across restarts */
+  dataDirectory?: string;
+  /** Connection string using the compose hostname */
+  url: string;
+  /** Variables the application reads the connection string from */
+  variables: string[];
+  /** Client packages and files the dependency was detected from */
+  evidence: string[];
+}
+
+/**
+ * Image tags used when no version was detected
+ */
+const BACKING_SERVICE_VERSIONS: Record<string, string> = {
+  postgresql: '16',
+  mysql: '8.4',
+  mongodb: '7',
+  redis: '7',
+  memcached: '1.6',
+  rabbitmq: '3.13',
+  kafka: '3.7.0',
+};
+
+/**
+ * Variable set on the application when the analysis found none for a dependency
+ */
+const BACKING_SERVICE_VARIABLES: Record<string, string> = {
+  postgresql: 'DATABASE_URL',
+  mysql: 'MYSQL_URL',
+  mongodb: 'MONGODB_URI',
+  redis: 'REDIS_URL',
+  memcached: 'MEMCACHED_SERVERS',
+  rabbitmq: 'RABBITMQ_URL',
+  kafka: 'KAFKA_BROKERS',
+};
+
+/**
+ * Interpreters that run a script entry point directly, by file extension
+ */
+const SCRIPT_INTERPRETERS: Record<string, string> = {
+  '.js': 'node',
+  '.mjs': 'node',
+  '.cjs': 'node',
+  '.py': 'python',
+  '.rb': 'ruby',
+  '.php': 'php',
+};
+
 /**
  * Default implementation of DockerGenerator
  */
 export class DefaultDockerGenerator implements DockerGenerator {
-  async generateDockerConfig(analysis: AnalysisResult): Promise<DockerConfiguration> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+  private readonly routeAnalyzer: RouteAnalyzer;
+
+  constructor(routeAnalyzer?: RouteAnalyzer) {
+    this.routeAnalyzer = routeAnalyzer || new DefaultRouteAnalyzer();
+  }
+
+  async generateDockerConfig(
+    analysis: AnalysisResult,
+    options: DockerGenerationOptions = {}
+  ): Promise<DockerConfiguration> {
+    try {
+      const template = this.createTemplate(analysis, options);
+      const runtime = template.stages[template.stages.length - 1];
+      const dockerCompose = this.renderDockerCompose(analysis);
+
+      return {
+        dockerfile: this.render(template),
+        dockerignore: this.renderDockerignore(template, analysis, options.gitignore),
+        ...(dockerCompose && { dockerCompose }),
+        buildArgs: template.buildArgs,
+        multistage: template.stages.length > 1,
+        baseImage: this.resolveImage(runtime?.from || '', template.buildArgs),
+        optimizations: template.optimizations,
+      };
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'generation', ErrorCodes.DOCKER_GENERATION_FAILED);
+    }
   }
 
-  async generateDockerfile(analysis: AnalysisResult): Promise<string> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+  async generateDockerfile(
+    analysis: AnalysisResult,
+    options: DockerGenerationOptions = {}
+  ): Promise<string> {
+    try {
+      return this.render(this.createTemplate(analysis, options));
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'generation', ErrorCodes.DOCKER_GENERATION_FAILED);
+    }
   }
 
-  async generateDockerignore(analysis: AnalysisResult): Promise<string> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+  async generateDockerignore(
+    analysis: AnalysisResult,
+    options: DockerGenerationOptions = {}
+  ): Promise<string> {
+    try {
+      return this.renderDockerignore(
+        this.createTemplate(analysis, options),
+        analysis,
+        options.gitignore
+      );
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'generation', ErrorCodes.DOCKER_GENERATION_FAILED);
+    }
   }
 
   async generateDockerCompose(analysis: AnalysisResult): Promise<string | undefined> {
-    // Implementation will be added in later tasks
-    throw new Error('Not implemented yet');
+    try {
+      return this.renderDockerCompose(analysis);
+    } catch (error) {
+      throw ErrorFactory.fromUnknownError(error, 'generation', ErrorCodes.DOCKER_GENERATION_FAILED);
+    }
+  }
+
+  /**
+   * Pick the stack template and fill it from the build plan and runtime requirements
+   */
+  private createTemplate(
+    analysis: AnalysisResult,
+    options: DockerGenerationOptions
+  ): DockerfileTemplate {
+    const stack = this.getStack(analysis);
+    if (!stack) {
+      throw ErrorFactory.createGenerationError(
+        ErrorCodes.DOCKER_GENERATION_FAILED,
+        `No Dockerfile template for ${analysis.techStack.language}`,
+        false,
+        ['Provide a Dockerfile for the project, or add a template for its language']
+      );
+    }
+
+    const steps = analysis.buildRequirements.buildSteps;
+    const service = analysis.architecture.services.find(candidate =>
+      candidate.processes?.some(process => process.type === 'web')
+    );
+    const web = service?.processes?.find(process => process.type === 'web');
+    const start: TemplateContext['start'] = {};
+    const command = web?.command;
+    const entryPoint = web?.entryPoint || analysis.architecture.services[0]?.entryPoints[0];
+    if (command) start.command = command;
+    if (entryPoint) start.entryPoint = entryPoint;
+
+    const context: TemplateContext = {
+      analysis,
+      version: this.getVersion(analysis, stack),
+      port: this.servesPhpFpm(analysis, service)
+        ? PHP_FPM_PORT
+        : analysis.runtimeRequirements.resourceRequirements.network.inbound.find(
+            port => port.public
+          )?.port || DEFAULT_PORTS[stack],
+      installSteps: steps.filter(step => step.name === 'install'),
+      buildSteps: steps.filter(step => ['codegen', 'compile', 'bundle'].includes(step.name)),
+      artifacts: analysis.buildRequirements.artifacts,
+      start,
+      buildPackages: [
+        ...new Set(
+          (analysis.runtimeRequirements.systemDependencyDetails || []).flatMap(
+            dependency => dependency.build.debian
+          )
+        ),
+      ].sort(),
+      runtimePackages: analysis.runtimeRequirements.systemDependencies,
+      hardened: Boolean(
+        options.preferences?.securityFocus || options.securitySettings?.runAsNonRoot
+      ),
+    };
+
+    const template = {
+      node: () => this.createNodeTemplate(context),
+      python: () => this.createPythonTemplate(context),
+      jvm: () => this.createJvmTemplate(context),
+      go: () => this.createGoTemplate(context),
+      rust: () => this.createRustTemplate(context),
+      dotnet: () => this.createDotnetTemplate(context),
+      php: () => this.createPhpTemplate(context),
+      ruby: () => this.createRubyTemplate(context),
+    }[stack]();
+
+    template.buildArgs = { [VERSION_ARGS[stack]]: context.version, ...template.buildArgs };
+    template.optimizations.push({
+      type: 'security',
+      description: `Base image tags pinned to runtime version ${context.version} through the ${VERSION_ARGS[stack]} build argument`,
+      applied: true,
+    });
+    if (template.stages.length > 1) {
+      template.optimizations.unshift({
+        type: 'multi-stage',
+        description: 'Build tools and intermediate files stay in the build stages',
+        applied: true,
+      });
+    }
+    if (context.hardened) {
+      this.harden(template, context, stack);
+    }
+    return template;
+  }
+
+  /**
+   * Switch the runtime stage to a non-root user with writable state under /tmp and
+   * add a HEALTHCHECK on the detected health endpoint, before EXPOSE and CMD
+   */
+  private harden(template: DockerfileTemplate, context: TemplateContext, stack: DockerStack): void {
+    const runtime = template.stages[template.stages.length - 1];
+    if (!runtime) return;
+
+    const instructions: string[] = [];
+    if (template.runtimeUser) {
+      instructions.push(`USER ${template.runtimeUser}`);
+    } else {
+      instructions.push(
+        `RUN groupadd --system --gid ${APP_UID} app && useradd --system --uid ${APP_UID} --gid app --home-dir /tmp --shell /usr/sbin/nologin app`,
+        `USER ${APP_UID}:${APP_UID}`
+      );
+    }
+    instructions.push(`ENV ${['TMPDIR=/tmp', ...(READ_ONLY_ENVIRONMENT[stack] || [])].join(' ')}`);
+    template.optimizations.push(
+      {
+        type: 'security',
+        description: `Runs as the non-root user ${template.runtimeUser || APP_UID}`,
+        applied: true,
+      },
+      {
+        type: 'security',
+        description:
+          'Application files stay owned by root and runtime state goes to /tmp, so the root filesystem can be mounted read-only',
+        applied: true,
+      }
+    );
+
+    const path = this.routeAnalyzer.guessHealthCheckPath(
+      context.analysis.architecture.services.flatMap(service => service.routes || [])
+    );
+    const url = path && `http://127.0.0.1:${context.port}${path}`;
+    const interpreter = template.interpreter;
+    if (url && interpreter) {
+      const probe = {
+        node: [
+          '-e',
+          `fetch('${url}').then(r => process.exit(r.ok ? 0 : 1), () => process.exit(1))`,
+        ],
+        python: ['-c', `import urllib.request; urllib.request.urlopen('${url}', timeout=3)`],
+        ruby: [
+          '-rnet/http',
+          '-e',
+          `exit Net::HTTP.get_response(URI('${url}')).is_a?(Net::HTTPSuccess)`,
+        ],
+      }[interpreter.language];
+      instructions.push(
+        `HEALTHCHECK --interval=30s --timeout=5s --start-period=15s --retries=3 CMD ${JSON.stringify([interpreter.path, ...probe])}`
+      );
+    }
+    template.optimizations.push({
+      type: 'health-check',
+      description: !url
+        ? 'No health endpoint detected for a HEALTHCHECK'
+        : interpreter
+          ? `HEALTHCHECK requests ${path}`
+          : `No HEALTHCHECK: the runtime image has no HTTP client, so probe ${path} from the orchestrator`,
+      applied: Boolean(url && interpreter),
+    });
+
+    const expose = runtime.instructions.findIndex(instruction => instruction.startsWith('EXPOSE'));
+    runtime.instructions.splice(
+      expose === -1 ? runtime.instructions.length - 1 : expose,
+      0,
+      ...instructions
+    );
+  }
+
+  // .dockerignore
+
+  /**
+   * Commented blocks of exclusions followed by the files the build needs; a pattern
+   * that would hide a directory the Dockerfile copies is dropped and every copied
+   * file is re-included, since the last matching rule wins
+   */
+  private renderDockerignore(
+    template: DockerfileTemplate,
+    analysis: AnalysisResult,
+    gitignore?: string
+  ): string {
+    const stack = this.getStack(analysis)!;
+    const dockerfile = this.render(template);
+    const sources = dockerfile
+      .split('\n')
+      .filter(line => line.startsWith('COPY ') && !line.includes('--from='))
+      .flatMap(line =>
+        line
+          .split(/\s+/)
+          .slice(1, -1)
+          .filter(argument => !argument.startsWith('--'))
+      )
+      .map(source => source.replace(/^\.\//, ''));
+    const directories = sources
+      .filter(source => source === '.' || source.endsWith('/'))
+      .map(source => source.replace(/\/+$/, ''));
+    const files = sources.filter(source => source !== '.' && !source.endsWith('/'));
+
+    const steps = analysis.buildRequirements.buildSteps;
+    const outputs = steps.some(step => !['install', 'test'].includes(step.name))
+      ? analysis.buildRequirements.artifacts
+          .map(artifact =>
+            artifact.type === 'directory'
+              ? artifact.path
+              : artifact.path.slice(0, Math.max(artifact.path.lastIndexOf('/'), 0))
+          )
+          .filter(path => path !== '' && !path.includes('*'))
+          .map(path => path.replace(/\/+$/, ''))
+      : [];
+
+    // Packaging backends read the README named in pyproject.toml or setup.py
+    const needed = [...files];
+    if (/pip install \.$/m.test(dockerfile)) {
+      needed.push('README*');
+    }
+
+    const blocks: Array<{ comment: string; patterns: string[] }> = [
+      { comment: 'Version control, CI, editor and Docker files', patterns: IGNORED_TOOLING },
+      {
+        comment: 'From .gitignore',
+        patterns: (gitignore || '')
+          .split(/\r?\n/)
+          .map(line => this.fromGitignore(line))
+          .filter((pattern): pattern is string => pattern !== undefined),
+      },
+      {
+        comment: `Dependencies, caches and build output recreated by the ${analysis.techStack.language} build`,
+        patterns: [...IGNORED_DEPENDENCIES[stack], ...outputs],
+      },
+      {
+        comment: 'Tests and documentation are not needed in the image',
+        patterns: [...IGNORED_TESTS[stack], ...IGNORED_DOCS],
+      },
+      {
+        comment: 'Secrets: pass them at runtime or as build secrets, never in the build context',
+        patterns: IGNORED_SECRETS,
+      },
+    ];
+
+    const seen = new Set<string>();
+    const lines = [
+      '# Generated .dockerignore: later rules override earlier ones, so re-includes come last',
+    ];
+    for (const block of blocks) {
+      const patterns = block.patterns.filter(pattern => {
+        const path = pattern.replace(/^\*\*\//, '');
+        if (seen.has(pattern) || directories.includes(path)) {
+          return false;
+        }
+        seen.add(pattern);
+        return true;
+      });
+      if (patterns.length > 0) {
+        lines.push('', `# ${block.comment}`, ...patterns);
+      }
+    }
+    if (needed.length > 0) {
+      lines.push('', '# Files the Dockerfile copies', ...needed.map(path => `!${path}`));
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * .gitignore patterns without a leading or inner slash match at any depth, while
+   * .dockerignore patterns are anchored at the context root
+   */
+  private fromGitignore(line: string): string | undefined {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('#')) {
+      return undefined;
+    }
+    const negated = trimmed.startsWith('!');
+    const pattern = (negated ? trimmed.slice(1) : trimmed).replace(/\/+$/, '');
+    if (!pattern) {
+      return undefined;
+    }
+    const anchored = pattern.startsWith('/')
+      ? pattern.slice(1)
+      : pattern.includes('/')
+        ? pattern
+        : `**/${pattern}`;
+    return `${negated ? '!' : ''}${anchored}`;
+  }
+
+  // docker-compose.yml
+
+  /**
+   * Local development stack: every application service built from its own directory
+   * and waiting on the healthy backing services it uses, which it reaches through
+   * their compose hostnames. Further processes of a service run as containers of the
+   * same image; cron processes start on demand. Single-service applications without
+   * backing services need no compose file.
+   */
+  private renderDockerCompose(analysis: AnalysisResult): string | undefined {
+    const backing = this.getBackingServices(analysis);
+    // Command-line tools run on demand rather than as part of the stack
+    const detected = analysis.architecture.services.filter(
+      service => !['database', 'cache', 'queue', 'cli'].includes(service.type)
+    );
+    if (detected.length <= 1 && backing.length === 0) {
+      return undefined;
+    }
+
+    const services: ServiceInfo[] =
+      detected.length > 0
+        ? detected
+        : [{ name: 'app', type: 'api', entryPoints: [], dependencies: [], exposedPorts: [] }];
+    // The Dockerfile starts the first web process, as in createTemplate
+    const primary =
+      services.find(service => service.processes?.some(process => process.type === 'web')) ||
+      services[0];
+    const names = new Map(
+      services.map(service => [service.name, this.toComposeName(service.name)])
+    );
+
+    // Backing services go to the services declaring their client package or owning a
+    // file that uses them; one no service can be tied to is shared by all of them
+    const users = new Map(
+      backing.map(dependency => [
+        dependency,
+        services.filter(service => this.usesBackingService(service, dependency, services)),
+      ])
+    );
+
+    // Services without a Dockerfile of their own share the generated one, which builds
+    // from the repository root; their commands run from the service directory
+    const workdir = this.getStack(analysis) === 'php' ? '/var/www/html' : '/app';
+
+    const lines = [
+      '# Local development stack generated from the detected services and dependencies',
+      'services:',
+    ];
+    const hostPorts = new Set<number>();
+    for (const service of services) {
+      const name = names.get(service.name)!;
+      const workingDirectory =
+        !service.dockerfile && service.root ? `${workdir}/${service.root}` : undefined;
+      const needs = backing.filter(dependency => {
+        const using = users.get(dependency) || [];
+        return using.length === 0 || using.includes(service);
+      });
+      const environment: Record<string, string> = {};
+      for (const dependency of needs) {
+        for (const variable of dependency.variables) {
+          environment[variable] = dependency.url;
+        }
+      }
+      const dependsOn = [
+        ...needs.map(dependency => [dependency.name, 'service_healthy']),
+        ...service.dependencies
+          .filter(dependency => dependency !== service.name && names.has(dependency))
+          .map(dependency => [names.get(dependency)!, 'service_started']),
+      ];
+
+      const processes = service.processes || [];
+      const main =
+        processes.find(candidate => ['web', 'worker'].includes(candidate.type)) || processes[0];
+      const ports =
+        service === primary && this.servesPhpFpm(analysis, service)
+          ? [PHP_FPM_PORT]
+          : service.exposedPorts.length > 0 || service !== primary
+            ? service.exposedPorts
+            : analysis.runtimeRequirements.resourceRequirements.network.inbound
+                .filter(port => port.public)
+                .map(port => port.port);
+      const published = ports.map(port => {
+        // Services listening on the same port get the next free host port
+        let hostPort = port;
+        while (hostPorts.has(hostPort)) hostPort++;
+        hostPorts.add(hostPort);
+        return `${hostPort}:${port}`;
+      });
+      const command = service !== primary && main && this.getProcessCommand(service, main);
+      lines.push(
+        ...this.renderAppService(name, service, {
+          ...(command && { command, ...(workingDirectory && { workingDirectory }) }),
+          ports: published,
+          environment,
+          dependsOn,
+        })
+      );
+
+      for (const process of processes) {
+        if (process === main || !['web', 'worker', 'cron'].includes(process.type)) continue;
+        const processCommand = this.getProcessCommand(service, process);
+        if (!processCommand) continue;
+        lines.push(
+          ...this.renderAppService(`${name}-${this.toComposeName(process.name)}`, service, {
+            command: processCommand,
+            ...(workingDirectory && { workingDirectory }),
+            ports: [],
+            environment,
+            dependsOn,
+            ...(process.type === 'cron' && { schedule: process.schedule || '' }),
+          })
+        );
+      }
+    }
+
+    for (const service of backing) {
+      lines.push(`  ${service.name}:`, `    image: ${service.image}`);
+      if (Object.keys(service.environment).length > 0) {
+        lines.push('    environment:');
+        for (const [name, value] of Object.entries(service.environment)) {
+          lines.push(`      ${name}: ${this.toYamlScalar(value)}`);
+        }
+      }
+      // Published on loopback only, for local database clients
+      lines.push(
+        '    ports:',
+        `      - ${JSON.stringify(`127.0.0.1:${service.port}:${service.port}`)}`
+      );
+      if (service.dataDirectory) {
+        lines.push('    volumes:', `      - ${service.name}-data:${service.dataDirectory}`);
+      }
+      lines.push(
+        '    healthcheck:',
+        `      test: ${JSON.stringify(service.healthcheck)}`,
+        '      interval: 5s',
+        '      timeout: 5s',
+        '      retries: 10',
+        ''
+      );
+    }
+
+    const volumes = backing.filter(service => service.dataDirectory);
+    if (volumes.length > 0) {
+      lines.push('volumes:', ...volumes.map(service => `  ${service.name}-data:`));
+    }
+    return `${lines.join('\n').trimEnd()}\n`;
+  }
+
+  /**
+   * Compose entry for one application container, built from the service's own
+   * Dockerfile or else from the generated Dockerfile at the repository root.
+   * Scheduled containers sit in the `cron` profile so `docker compose up` leaves them
+   * to `docker compose run`.
+   */
+  private renderAppService(
+    name: string,
+    service: ServiceInfo,
+    settings: {
+      command?: string[];
+      workingDirectory?: string;
+      ports: string[];
+      environment: Record<string, string>;
+      dependsOn: string[][];
+      schedule?: string;
+    }
+  ): string[] {
+    const context = (service.dockerfile && service.root) || '';
+    const lines: string[] = [];
+    if (settings.schedule !== undefined) {
+      const schedule = settings.schedule ? ` on "${settings.schedule}"` : '';
+      lines.push(`  # Scheduled${schedule}; start with docker compose run --rm ${name}`);
+    }
+    lines.push(
+      `  ${name}:`,
+      '    build:',
+      `      context: ${context ? this.toYamlScalar(context) : '.'}`,
+      `      dockerfile: ${this.toYamlScalar(
+        service.dockerfile ? this.stripDirectory(service.dockerfile, context) : 'Dockerfile'
+      )}`
+    );
+    if (settings.schedule !== undefined) {
+      lines.push('    profiles: ["cron"]');
+    }
+    if (settings.workingDirectory) {
+      lines.push(`    working_dir: ${this.toYamlScalar(settings.workingDirectory)}`);
+    }
+    if (settings.command) {
+      lines.push(`    command: ${JSON.stringify(settings.command)}`);
+    }
+    if (settings.ports.length > 0) {
+      lines.push('    ports:', ...settings.ports.map(port => `      - ${JSON.stringify(port)}`));
+    }
+    if (Object.keys(settings.environment).length > 0) {
+      lines.push('    environment:');
+      for (const [variable, value] of Object.entries(settings.environment)) {
+        lines.push(`      ${variable}: ${this.toYamlScalar(value)}`);
+      }
+    }
+    if (settings.dependsOn.length > 0) {
+      lines.push('    depends_on:');
+      for (const [dependency, condition] of settings.dependsOn) {
+        lines.push(`      ${dependency}:`, `        condition: ${condition}`);
+      }
+    }
+    lines.push('');
+    return lines;
+  }
+
+  /**
+   * Command for a process in its service's image, relative to the service directory:
+   * the declared command, a Go command's binary or an interpreter on a script
+   */
+  private getProcessCommand(service: ServiceInfo, process: ProcessInfo): string[] | undefined {
+    if (process.command) {
+      return this.toExecForm(process.command);
+    }
+    if (!process.entryPoint) {
+      return undefined;
+    }
+    const entryPoint = this.stripDirectory(process.entryPoint, service.root || '');
+    const binary = entryPoint.match(/(?:^|\/)cmd\/([\w.-]+)\/main\.go$/)?.[1];
+    if (binary) {
+      return [`/usr/local/bin/${binary}`];
+    }
+    const interpreter = SCRIPT_INTERPRETERS[entryPoint.match(/\.\w+$/)?.[0] || ''];
+    return interpreter ? [interpreter, entryPoint] : undefined;
+  }
+
+  /**
+   * Whether the service declares the backing service's client package, or owns a file
+   * it was detected in; files belong to the service with the deepest enclosing root
+   */
+  private usesBackingService(
+    service: ServiceInfo,
+    backing: BackingService,
+    services: ServiceInfo[]
+  ): boolean {
+    const contains = (candidate: ServiceInfo, path: string) =>
+      candidate.root !== undefined &&
+      (candidate.root === '' || path.startsWith(`${candidate.root}/`));
+
+    return backing.evidence.some(evidence => {
+      const [kind = '', value = ''] = evidence.split(/:(.*)/s);
+      if (['driver', 'client', 'package'].includes(kind)) {
+        return service.dependencies.includes(value);
+      }
+      if (kind !== 'file' || !contains(service, value)) {
+        return false;
+      }
+      const owner = services
+        .filter(candidate => contains(candidate, value))
+        .sort((a, b) => (b.root || '').length - (a.root || '').length)[0];
+      return owner === service;
+    });
+  }
+
+  /**
+   * One container per detected database, cache and message broker; embedded and
+   * managed cloud services (SQLite, in-memory caches, SQS, Pub/Sub) have none
+   */
+  private getBackingServices(analysis: AnalysisResult): BackingService[] {
+    const { databases, caches, messageQueues } = analysis.dependencies;
+    const detected = [
+      ...databases.map(database => ({
+        type: database.type as string,
+        version: database.version,
+        connectionString: database.connectionString,
+        evidence: database.evidence || [],
+      })),
+      ...[...caches, ...messageQueues].map(dependency => ({
+        type: dependency.type as string,
+        version: dependency.version,
+        connectionString: undefined,
+        evidence: dependency.evidence || [],
+      })),
+    ];
+
+    const services = new Map<string, BackingService>();
+    for (const dependency of detected) {
+      const defaultVersion = BACKING_SERVICE_VERSIONS[dependency.type];
+      if (!defaultVersion) continue;
+
+      const variables = dependency.evidence
+        .filter(evidence => evidence.startsWith('env:'))
+        .map(evidence => evidence.slice('env:'.length));
+      if (variables.length === 0) {
+        variables.push(BACKING_SERVICE_VARIABLES[dependency.type]!);
+      }
+
+      const service = this.createBackingService(
+        dependency.type,
+        dependency.version || defaultVersion,
+        dependency.connectionString
+      );
+      const existing = services.get(service.name);
+      if (existing) {
+        // Redis detected as both a database and a cache runs once
+        existing.variables.push(
+          ...variables.filter(variable => !existing.variables.includes(variable))
+        );
+        existing.evidence.push(...dependency.evidence);
+      } else {
+        services.set(service.name, { ...service, variables, evidence: [...dependency.evidence] });
+      }
+    }
+    return [...services.values()];
+  }
+
+  /**
+   * Container settings per dependency type; credentials and database name come from the
+   * documented connection string so the application's example configuration keeps working
+   */
+  private createBackingService(
+    type: string,
+    version: string,
+    connectionString?: string
+  ): Omit<BackingService, 'variables' | 'evidence'> {
+    let documented: URL | undefined;
+    try {
+      documented = connectionString ? new URL(connectionString) : undefined;
+    } catch {
+      documented = undefined;
+    }
+    const user = documented?.username || 'app';
+    const password = documented?.password || 'app';
+    const database = documented?.pathname.slice(1) || 'app';
+    const credentials = `${user}:${password}`;
+
+    switch (type) {
+      case 'postgresql':
+        return {
+          name: 'postgres',
+          image: `postgres:${version}-alpine`,
+          port: 5432,
+          environment: { POSTGRES_USER: user, POSTGRES_PASSWORD: password, POSTGRES_DB: database },
+          healthcheck: ['CMD', 'pg_isready', '-U', user, '-d', database],
+          dataDirectory: '/var/lib/postgresql/data',
+          url: `postgresql://${credentials}@postgres:5432/${database}`,
+        };
+      case 'mysql':
+        return {
+          name: 'mysql',
+          image: `mysql:${version}`,
+          port: 3306,
+          environment: {
+            MYSQL_DATABASE: database,
+            MYSQL_USER: user,
+            MYSQL_PASSWORD: password,
+            MYSQL_RANDOM_ROOT_PASSWORD: 'yes',
+          },
+          healthcheck: ['CMD', 'mysqladmin', 'ping', '-h', '127.0.0.1', '--silent'],
+          dataDirectory: '/var/lib/mysql',
+          url: `mysql://${credentials}@mysql:3306/${database}`,
+        };
+      case 'mongodb':
+        return {
+          name: 'mongo',
+          image: `mongo:${version}`,
+          port: 27017,
+          environment: {
+            MONGO_INITDB_ROOT_USERNAME: user,
+            MONGO_INITDB_ROOT_PASSWORD: password,
+            MONGO_INITDB_DATABASE: database,
+          },
+          healthcheck: ['CMD', 'mongosh', '--quiet', '--eval', "db.adminCommand('ping')"],
+          dataDirectory: '/data/db',
+          url: `mongodb://${credentials}@mongo:27017/${database}?authSource=admin`,
+        };
+      case 'redis':
+        return {
+          name: 'redis',
+          image: `redis:${version}-alpine`,
+          port: 6379,
+          environment: {},
+          healthcheck: ['CMD', 'redis-cli', 'ping'],
+          dataDirectory: '/data',
+          url: 'redis://redis:6379',
+        };
+      case 'memcached':
+        return {
+          name: 'memcached',
+          image: `memcached:${version}-alpine`,
+          port: 11211,
+          environment: {},
+          healthcheck: ['CMD-SHELL', 'echo stats | nc 127.0.0.1 11211 | grep -q uptime'],
+          url: 'memcached:11211',
+        };
+      case 'rabbitmq':
+        return {
+          name: 'rabbitmq',
+          image: `rabbitmq:${version}-management-alpine`,
+          port: 5672,
+          environment: { RABBITMQ_DEFAULT_USER: user, RABBITMQ_DEFAULT_PASS: password },
+          healthcheck: ['CMD', 'rabbitmq-diagnostics', '-q', 'ping'],
+          dataDirectory: '/var/lib/rabbitmq',
+          url: `amqp://${credentials}@rabbitmq:5672`,
+        };
+      default:
+        // Single-node KRaft broker; topics are disposable in development, so no volume
+        return {
+          name: 'kafka',
+          image: `apache/kafka:${version}`,
+          port: 9092,
+          environment: {
+            KAFKA_NODE_ID: '1',
+            KAFKA_PROCESS_ROLES: 'broker,controller',
+            KAFKA_LISTENERS: 'PLAINTEXT://:9092,CONTROLLER://:9093',
+            KAFKA_ADVERTISED_LISTENERS: 'PLAINTEXT://kafka:9092',
+            KAFKA_CONTROLLER_LISTENER_NAMES: 'CONTROLLER',
+            KAFKA_LISTENER_SECURITY_PROTOCOL_MAP: 'CONTROLLER:PLAINTEXT,PLAINTEXT:PLAINTEXT',
+            KAFKA_CONTROLLER_QUORUM_VOTERS: '1@kafka:9093',
+            KAFKA_OFFSETS_TOPIC_REPLICATION_FACTOR: '1',
+          },
+          healthcheck: [
+            'CMD-SHELL',
+            '/opt/kafka/bin/kafka-broker-api-versions.sh --bootstrap-server localhost:9092 > /dev/null',
+          ],
+          url: 'kafka:9092',
+        };
+    }
+  }
+
+  private toComposeName(name: string): string {
+    return (
+      name
+        .toLowerCase()
+        .replace(/[^a-z0-9_-]+/g, '-')
+        .replace(/^-+|-+$/g, '') || 'app'
+    );
+  }
+
+  /**
+   * Plain YAML scalars where unambiguous; values YAML would read as numbers, booleans
+   * or null, or that contain indicators, are quoted
+   */
+  private toYamlScalar(value: string): string {
+    return /^[\w./@-][\w./:@,-]*$/.test(value) &&
+      !/^(?:[\d.]+|true|false|yes|no|on|off|null|~)$/i.test(value)
+      ? value
+      : JSON.stringify(value);
+  }
+
+  // Node.js
+
+  private createNodeTemplate(context: TemplateContext): DockerfileTemplate {
+    const { analysis } = context;
+    const packageManager = NODE_PACKAGE_MANAGERS[analysis.techStack.packageManager]
+      ? analysis.techStack.packageManager
+      : 'npm';
+    const manager = NODE_PACKAGE_MANAGERS[packageManager]!;
+    const directory = context.installSteps[0]?.workingDirectory || '';
+    const source = (path: string) => (directory ? `${directory}/${path}` : path);
+    const local = (path: string) => this.stripDirectory(path, directory);
+    const image = 'node:${NODE_VERSION}-bookworm-slim';
+    const install = context.installSteps[0]?.command || 'npm ci';
+    const hasBuild = context.buildSteps.length > 0;
+
+    const deps: string[] = ['WORKDIR /app'];
+    if (packageManager === 'yarn' || packageManager === 'pnpm') {
+      deps.push('RUN corepack enable');
+    } else if (packageManager === 'bun') {
+      deps.push('RUN npm install -g bun');
+    }
+    deps.push(
+      `COPY ${manager.manifests.map(source).join(' ')} ./`,
+      `RUN --mount=type=cache,target=${manager.cache} ${install}`
+    );
+    if (!hasBuild) {
+      deps.push(`RUN ${manager.prune}`);
+    }
+    const stages: DockerStage[] = [{ name: 'deps', from: image, instructions: deps }];
+
+    if (hasBuild) {
+      stages.push({
+        name: 'build',
+        from: 'deps',
+        instructions: [
+          `COPY ${directory ? `${directory}/` : '.'} .`,
+          ...context.buildSteps.map(step => `RUN ${this.toShellCommand(step)}`),
+          `RUN ${manager.prune}`,
+        ],
+      });
+    }
+
+    const runtime: string[] = [
+      'WORKDIR /app',
+      'ENV NODE_ENV=production',
+      ...this.aptInstall(context.runtimePackages),
+    ];
+    const standalone = context.artifacts.find(artifact =>
+      artifact.path.endsWith('.next/standalone')
+    );
+    let command: string[];
+    if (standalone) {
+      // The standalone server bundles its own node_modules
+      runtime.push(
+        `COPY --from=build /app/${local(standalone.path)} ./`,
+        `COPY --from=build /app/${local(standalone.path).replace(/standalone$/, 'static')} ./.next/static`,
+        'COPY --from=build /app/publi[c] ./public',
+        `ENV HOSTNAME=0.0.0.0 PORT=${context.port}`
+      );
+      command = ['node', 'server.js'];
+    } else if (hasBuild) {
+      runtime.push(
+        'COPY --from=build /app/package.json ./',
+        'COPY --from=build /app/node_modules ./node_modules'
+      );
+      for (const artifact of context.artifacts) {
+        runtime.push(`COPY --from=build /app/${local(artifact.path)} ./${local(artifact.path)}`);
+      }
+      command = this.getNodeCommand(context, local);
+    } else {
+      runtime.push(
+        'COPY --from=deps /app/node_modules ./node_modules',
+        `COPY ${directory ? `${directory}/` : '.'} .`
+      );
+      command = this.getNodeCommand(context, local);
+    }
+
+    // The distroless image runs node as its entrypoint and has no shell for npm scripts
+    const major = context.version.split('.')[0] || '';
+    const runsNode = command[0] === 'node';
+    const distroless =
+      context.hardened &&
+      runsNode &&
+      context.runtimePackages.length === 0 &&
+      DISTROLESS_NODE_VERSIONS.includes(major);
+    const hardening: DockerOptimization[] = [];
+    if (distroless) {
+      hardening.push(this.getDistrolessOptimization());
+    } else if (context.hardened && runsNode) {
+      runtime.push(
+        'RUN rm -rf /usr/local/lib/node_modules/npm /usr/local/lib/node_modules/corepack /usr/local/bin/npm /usr/local/bin/npx /usr/local/bin/corepack /opt/yarn-*'
+      );
+      hardening.push({
+        type: 'security',
+        description: 'npm, npx, corepack and yarn are removed from the runtime image',
+        applied: true,
+      });
+    }
+    runtime.push(
+      `EXPOSE ${context.port}`,
+      `CMD ${JSON.stringify(distroless ? command.slice(1) : command)}`
+    );
+    stages.push({
+      name: 'runtime',
+      from: distroless ? `gcr.io/distroless/nodejs${major}-debian12:nonroot` : image,
+      instructions: runtime,
+    });
+
+    return {
+      stages,
+      buildArgs: {},
+      ...(distroless && { runtimeUser: '65532:65532' }),
+      interpreter: { language: 'node', path: distroless ? '/nodejs/bin/node' : 'node' },
+      optimizations: [
+        {
+          type: 'layer-caching',
+          description: `package.json and the ${packageManager} lockfile are installed before the source is copied`,
+          applied: true,
+        },
+        {
+          type: 'layer-caching',
+          description: `BuildKit cache mount for the ${packageManager} package cache`,
+          applied: true,
+        },
+        {
+          type: 'size',
+          description: standalone
+            ? 'Next.js standalone output ships only the traced server files'
+            : 'Development dependencies are pruned from the runtime image',
+          applied: true,
+        },
+        ...hardening,
+      ],
+    };
+  }
+
+  /**
+   * The declared start command, or node on the compiled entry point; TypeScript
+   * entry points are mapped into the build output directory. Package manager scripts
+   * with a known entry point, and the `server.js` npm starts by default, run on node
+   * directly so node is PID 1 and receives signals.
+   */
+  private getNodeCommand(context: TemplateContext, local: (path: string) => string): string[] {
+    const { command } = context.start;
+    const entryPoint = context.start.entryPoint && local(context.start.entryPoint);
+    if (command && !(entryPoint && /^(?:npm|yarn|pnpm)\s/.test(command))) {
+      return this.toExecForm(command);
+    }
+    if (!entryPoint) {
+      return ['node', 'server.js'];
+    }
+    const output = context.artifacts.find(artifact => artifact.type === 'directory');
+    if (/\.[cm]?tsx?$/.test(entryPoint) && output) {
+      return [
+        'node',
+        `${local(output.path)}/${entryPoint.replace(/^src\//, '').replace(/\.([cm]?)tsx?$/, '.$1js')}`,
+      ];
+    }
+    return ['node', entryPoint];
+  }
+
+  // Python
+
+  private createPythonTemplate(context: TemplateContext): DockerfileTemplate {
+    const { analysis } = context;
+    const packageManager = analysis.techStack.packageManager;
+    const image = 'python:${PYTHON_VERSION}-slim-bookworm';
+    const environment = 'ENV PYTHONDONTWRITEBYTECODE=1 PIP_DISABLE_PIP_VERSION_CHECK=1';
+    const virtualEnv = 'ENV VIRTUAL_ENV=/opt/venv PATH="/opt/venv/bin:$PATH"';
+
+    const build: string[] = [
+      'WORKDIR /app',
+      environment,
+      ...this.aptInstall(context.buildPackages),
+      'RUN python -m venv /opt/venv',
+      virtualEnv,
+    ];
+
+    const managed = PYTHON_PACKAGE_MANAGERS[packageManager];
+    const requirements = context.installSteps[0]?.command.match(/-r\s+(\S+)/)?.[1];
+    let cached = true;
+    if (managed) {
+      build.push(
+        'ENV POETRY_VIRTUALENVS_CREATE=false UV_PROJECT_ENVIRONMENT=/opt/venv',
+        `RUN --mount=type=cache,target=/root/.cache/pip /usr/local/bin/pip install ${managed.tool}`,
+        `COPY ${managed.manifests.map(manifest => `${manifest}*`).join(' ')} ./`,
+        `RUN --mount=type=cache,target=/root/.cache ${managed.install}`,
+        'COPY . .'
+      );
+    } else if (requirements) {
+      build.push(
+        `COPY ${requirements} ./${requirements}`,
+        `RUN --mount=type=cache,target=/root/.cache/pip pip install -r ${requirements}`,
+        'COPY . .'
+      );
+    } else {
+      // setup.py and pyproject projects without a lockfile install from the source
+      cached = false;
+      build.push('COPY . .', 'RUN --mount=type=cache,target=/root/.cache/pip pip install .');
+    }
+    for (const step of context.buildSteps.filter(candidate => candidate.name === 'codegen')) {
+      // The virtual environment replaces the package manager's run prefix
+      build.push(
+        `RUN ${this.toShellCommand(step).replace(/^(?:poetry|uv|pdm|pipenv|hatch) run /, '')}`
+      );
+    }
+
+    const runtime: string[] = [
+      'WORKDIR /app',
+      `${environment} PYTHONUNBUFFERED=1`,
+      virtualEnv,
+      ...this.aptInstall(context.runtimePackages),
+      'COPY --from=build /opt/venv /opt/venv',
+      'COPY --from=build /app /app',
+      `EXPOSE ${context.port}`,
+      `CMD ${JSON.stringify(this.getPythonCommand(context))}`,
+    ];
+
+    const optimizations: DockerOptimization[] = [];
+    if (cached) {
+      optimizations.push({
+        type: 'layer-caching',
+        description: `Dependencies are installed from the ${managed ? packageManager : 'requirements'} manifests before the source is copied`,
+        applied: true,
+      });
+    }
+    optimizations.push(
+      {
+        type: 'layer-caching',
+        description: 'BuildKit cache mount for the pip download cache',
+        applied: true,
+      },
+      {
+        type: 'size',
+        description: 'Only the virtual environment and the source reach the slim runtime image',
+        applied: true,
+      }
+    );
+
+    return {
+      stages: [
+        { name: 'build', from: image, instructions: build },
+        { name: 'runtime', from: image, instructions: runtime },
+      ],
+      buildArgs: {},
+      interpreter: { language: 'python', path: 'python' },
+      optimizations,
+    };
+  }
+
+  /**
+   * The declared web command, or the production server of the detected framework
+   */
+  private getPythonCommand(context: TemplateContext): string[] {
+    if (context.start.command) {
+      return this.toExecForm(context.start.command);
+    }
+
+    const { analysis, port } = context;
+    const entryPoints = analysis.architecture.services.flatMap(service => service.entryPoints);
+    const entryPoint = context.start.entryPoint || entryPoints[0] || 'main.py';
+    const module = (path: string) => path.replace(/\.py$/, '').replace(/\//g, '.');
+    const bind = `0.0.0.0:${port}`;
+    const framework = analysis.techStack.framework;
+    const server = analysis.techStack.applicationServer;
+    const asgi = ['fastapi', 'starlette'].includes(framework);
+
+    let target = `${module(entryPoint)}:app`;
+    if (framework === 'django') {
+      // startproject names the settings package after the project
+      const gateway = server && ASGI_SERVERS.includes(server) ? 'asgi' : 'wsgi';
+      const file = entryPoints.find(path => path.endsWith(`${gateway}.py`));
+      const project = analysis.architecture.services[0]?.name || 'app';
+      target = `${file ? module(file) : `${project}.${gateway}`}:application`;
+    }
+
+    // Only a server the project declares is installed in the image
+    switch (server) {
+      case 'gunicorn':
+        return [
+          'gunicorn',
+          '--bind',
+          bind,
+          ...(asgi ? ['--worker-class', 'uvicorn.workers.UvicornWorker'] : []),
+          target,
+        ];
+      case 'uvicorn':
+        return ['uvicorn', target, '--host', '0.0.0.0', '--port', String(port)];
+      case 'hypercorn':
+        return ['hypercorn', '--bind', bind, target];
+      case 'daphne':
+        return ['daphne', '--bind', '0.0.0.0', '--port', String(port), target];
+      case 'uwsgi':
+        return ['uwsgi', '--http', bind, '--module', target, '--master'];
+      case 'waitress':
+        return ['waitress-serve', '--listen', bind, target];
+    }
+
+    switch (framework) {
+      case 'django':
+        return ['python', 'manage.py', 'runserver', bind, '--noreload'];
+      case 'flask':
+        return [
+          'python',
+          '-m',
+          'flask',
+          '--app',
+          module(entryPoint),
+          'run',
+          '--host',
+          '0.0.0.0',
+          '--port',
+          String(port),
+        ];
+      default:
+        return ['python', entryPoint];
+    }
+  }
+
+  // JVM
+
+  private createJvmTemplate(context: TemplateContext): DockerfileTemplate {
+    const maven = context.analysis.techStack.buildTool === 'maven';
+    const install =
+      context.installSteps[0]?.command ||
+      (maven ? 'mvn -B dependency:go-offline' : 'gradle dependencies --no-daemon');
+    const wrapper = /^\.\/(?:mvnw|gradlew)\b/.test(install);
+    const artifact =
+      context.artifacts.find(candidate => candidate.type === 'executable') || context.artifacts[0];
+    const native = artifact?.type === 'executable';
+    const cache = maven ? '/root/.m2' : '/root/.gradle';
+    const mount = `--mount=type=cache,target=${cache}`;
+    const buildImage = native
+      ? 'ghcr.io/graalvm/native-image-community:${JAVA_VERSION}'
+      : wrapper
+        ? 'eclipse-temurin:${JAVA_VERSION}-jdk'
+        : maven
+          ? 'maven:3.9-eclipse-temurin-${JAVA_VERSION}'
+          : 'gradle:8-jdk${JAVA_VERSION}';
+
+    // Maven aggregators need every module's POM before dependencies resolve
+    const multiModule = maven && context.artifacts.length > 1;
+    const build: string[] = ['WORKDIR /app'];
+    if (!maven) {
+      build.push(`ENV GRADLE_USER_HOME=${cache}`);
+    }
+    if (multiModule) {
+      build.push('COPY . .', `RUN ${mount} ${install}`);
+    } else if (maven) {
+      build.push(
+        ...(wrapper ? ['COPY mvnw ./', 'COPY .mvn/ .mvn/'] : []),
+        'COPY pom.xml ./',
+        `RUN ${mount} ${install}`,
+        'COPY src/ ./src/'
+      );
+    } else {
+      // Subproject build files sit above their build output, e.g. `api/build/libs`
+      const subprojects = [
+        ...new Set(
+          context.artifacts
+            .map(candidate => candidate.path.match(/^(.+?)\/build\//)?.[1])
+            .filter((directory): directory is string => directory !== undefined)
+        ),
+      ].sort();
+      build.push(
+        ...(wrapper ? ['COPY gradlew ./', 'COPY gradle/ gradle/'] : []),
+        'COPY settings.gradle* build.gradle* ./',
+        ...subprojects.map(directory => `COPY ${directory}/build.gradle* ${directory}/`),
+        `RUN ${mount} ${install}`,
+        'COPY . .'
+      );
+    }
+    build.push(...context.buildSteps.map(step => `RUN ${mount} ${this.toShellCommand(step)}`));
+
+    const path = artifact?.path || (maven ? 'target/*.jar' : 'build/libs/*.jar');
+    const runtime: string[] = [];
+    let runtimeImage = 'eclipse-temurin:${JAVA_VERSION}-jre';
+    let command: string[];
+    if (native) {
+      runtimeImage = 'debian:bookworm-slim';
+      runtime.push('WORKDIR /app', ...this.aptInstall(context.runtimePackages));
+      runtime.push(`COPY --from=build /app/${path} /app/${artifact?.name || 'app'}`);
+      command = [`/app/${artifact?.name || 'app'}`];
+    } else if (path.endsWith('.war')) {
+      runtimeImage = 'tomcat:10.1-jre${JAVA_VERSION}';
+      runtime.push(
+        ...this.aptInstall(context.runtimePackages),
+        `COPY --from=build /app/${path} /usr/local/tomcat/webapps/ROOT.war`
+      );
+      command = ['catalina.sh', 'run'];
+    } else if (path.endsWith('quarkus-app/quarkus-run.jar')) {
+      // The fast-jar layout runs from its directory
+      runtime.push(
+        'WORKDIR /app',
+        ...this.aptInstall(context.runtimePackages),
+        `COPY --from=build /app/${path.replace(/\/quarkus-run\.jar$/, '')}/ /app/`
+      );
+      command = ['java', '-XX:MaxRAMPercentage=75.0', '-jar', '/app/quarkus-run.jar'];
+    } else {
+      runtime.push(
+        'WORKDIR /app',
+        ...this.aptInstall(context.runtimePackages),
+        `COPY --from=build /app/${path} /app/app.jar`
+      );
+      command = ['java', '-XX:MaxRAMPercentage=75.0', '-jar', '/app/app.jar'];
+    }
+
+    // Distroless Java images run `java -jar` on the CMD argument
+    const war = path.endsWith('.war');
+    const distroless =
+      context.hardened &&
+      context.runtimePackages.length === 0 &&
+      (native || (!war && DISTROLESS_JAVA_VERSIONS.includes(context.version)));
+    if (distroless) {
+      runtimeImage = native
+        ? 'gcr.io/distroless/base-debian12:nonroot'
+        : `gcr.io/distroless/java${context.version}-debian12:nonroot`;
+      command = native ? command : command.slice(-1);
+    } else if (context.hardened && war) {
+      // Tomcat unpacks the war and writes logs under its own directories
+      runtime.push(
+        `RUN chown -R ${APP_UID}:${APP_UID} /usr/local/tomcat/logs /usr/local/tomcat/temp /usr/local/tomcat/work /usr/local/tomcat/webapps`
+      );
+    }
+    runtime.push(`EXPOSE ${context.port}`, `CMD ${JSON.stringify(command)}`);
+
+    const optimizations: DockerOptimization[] = [];
+    if (!multiModule) {
+      optimizations.push({
+        type: 'layer-caching',
+        description: `Dependencies resolve from the ${maven ? 'POM' : 'Gradle build files'} before the source is copied`,
+        applied: true,
+      });
+    }
+    optimizations.push(
+      {
+        type: 'layer-caching',
+        description: `BuildKit cache mount for the ${maven ? 'Maven' : 'Gradle'} repository`,
+        applied: true,
+      },
+      {
+        type: 'size',
+        description: native
+          ? 'The native executable runs without a JVM'
+          : 'The runtime image carries a JRE instead of the JDK',
+        applied: true,
+      }
+    );
+    if (distroless) {
+      optimizations.push(this.getDistrolessOptimization());
+    }
+
+    return {
+      stages: [
+        { name: 'build', from: buildImage, instructions: build },
+        { name: 'runtime', from: runtimeImage, instructions: runtime },
+      ],
+      buildArgs: {},
+      ...(distroless && { runtimeUser: '65532:65532' }),
+      optimizations,
+    };
+  }
+
+  // Go
+
+  private createGoTemplate(context: TemplateContext): DockerfileTemplate {
+    const directory = context.installSteps[0]?.workingDirectory || '';
+    const source = (path: string) => (directory ? `${directory}/${path}` : path);
+    const mounts =
+      '--mount=type=cache,target=/go/pkg/mod --mount=type=cache,target=/root/.cache/go-build';
+
+    const build: string[] = [
+      'WORKDIR /app',
+      ...this.aptInstall(context.buildPackages),
+      `COPY ${source('go.mod')} ${source('go.sum')}* ./`,
+      'RUN --mount=type=cache,target=/go/pkg/mod go mod download',
+      `COPY ${directory ? `${directory}/` : '.'} .`,
+      ...context.buildSteps.map(step => `RUN ${mounts} ${this.toShellCommand(step)}`),
+    ];
+
+    // Every binary is copied so worker and CLI processes can override the command
+    const runtimeImage = this.getBinaryRuntimeImage(context, 'base');
+    const distroless = runtimeImage !== 'debian:bookworm-slim';
+    const runtime: string[] = [
+      ...(distroless ? [] : this.aptInstall(['ca-certificates', ...context.runtimePackages])),
+      ...context.artifacts.map(
+        artifact =>
+          `COPY --from=build /app/${this.stripDirectory(artifact.path, directory)} /usr/local/bin/${artifact.name}`
+      ),
+      `EXPOSE ${context.port}`,
+      `CMD ${JSON.stringify(this.getBinaryCommand(context))}`,
+    ];
+
+    return {
+      stages: [
+        { name: 'build', from: 'golang:${GO_VERSION}-bookworm', instructions: build },
+        { name: 'runtime', from: runtimeImage, instructions: runtime },
+      ],
+      buildArgs: {},
+      ...(distroless && { runtimeUser: '65532:65532' }),
+      optimizations: [
+        {
+          type: 'layer-caching',
+          description: 'Modules download from go.mod and go.sum before the source is copied',
+          applied: true,
+        },
+        {
+          type: 'layer-caching',
+          description: 'BuildKit cache mounts for the module and build caches',
+          applied: true,
+        },
+        {
+          type: 'size',
+          description: 'Only the compiled binaries reach the runtime image',
+          applied: true,
+        },
+        ...(distroless ? [this.getDistrolessOptimization()] : []),
+      ],
+    };
+  }
+
+  /**
+   * Distroless static for binaries without shared libraries, the glibc-only or
+   * C++ runtime variant for dynamically linked ones; Debian when OS packages are needed
+   */
+  private getBinaryRuntimeImage(context: TemplateContext, dynamic: 'base' | 'cc'): string {
+    if (!context.hardened || context.runtimePackages.length > 0) {
+      return 'debian:bookworm-slim';
+    }
+    return context.artifacts.every(artifact => artifact.staticallyLinked)
+      ? 'gcr.io/distroless/static-debian12:nonroot'
+      : `gcr.io/distroless/${dynamic}-debian12:nonroot`;
+  }
+
+  private getDistrolessOptimization(): DockerOptimization {
+    return {
+      type: 'security',
+      description: 'Distroless runtime image without a shell or package manager',
+      applied: true,
+    };
+  }
+
+  /**
+   * The binary of the web process, matched by its `cmd/<name>` entry point, or the
+   * first artifact
+   */
+  private getBinaryCommand(context: TemplateContext): string[] {
+    if (context.start.command) {
+      return this.toExecForm(context.start.command);
+    }
+    const name = context.start.entryPoint?.match(/(?:^|\/)cmd\/([\w.-]+)\//)?.[1];
+    const artifact =
+      context.artifacts.find(candidate => candidate.name === name) || context.artifacts[0];
+    return [`/usr/local/bin/${artifact?.name || 'app'}`];
+  }
+
+  // Rust
+
+  private createRustTemplate(context: TemplateContext): DockerfileTemplate {
+    const directory = context.installSteps[0]?.workingDirectory || '';
+    const compile =
+      context.buildSteps.find(step => step.name === 'compile')?.command ||
+      'cargo build --release --locked';
+    const target = context.artifacts[0]?.path.match(
+      /target\/([\w-]+-[\w-]+-[\w-]+)\/release\//
+    )?.[1];
+    const mount = '--mount=type=cache,target=/usr/local/cargo/registry';
+    // A single crate can build its dependencies against a placeholder main
+    const singleCrate = context.artifacts.length === 1 && !directory;
+
+    const build: string[] = ['WORKDIR /app', ...this.aptInstall(context.buildPackages)];
+    if (target) {
+      build.push(`RUN rustup target add ${target}`);
+    }
+    if (singleCrate) {
+      build.push(
+        'COPY Cargo.toml Cargo.lock ./',
+        `RUN ${mount} mkdir src && echo "fn main() {}" > src/main.rs && ${compile} && rm -rf src`,
+        'COPY . .',
+        `RUN ${mount} touch src/main.rs && ${compile}`
+      );
+    } else {
+      build.push(
+        `COPY ${directory ? `${directory}/` : '.'} .`,
+        `RUN ${mount} cargo fetch --locked`,
+        `RUN ${mount} ${compile}`
+      );
+    }
+
+    // Rust binaries link libgcc_s unless they target musl
+    const runtimeImage = this.getBinaryRuntimeImage(context, 'cc');
+    const distroless = runtimeImage !== 'debian:bookworm-slim';
+    const runtime: string[] = [
+      ...(distroless ? [] : this.aptInstall(['ca-certificates', ...context.runtimePackages])),
+      ...context.artifacts.map(
+        artifact =>
+          `COPY --from=build /app/${this.stripDirectory(artifact.path, directory)} /usr/local/bin/${artifact.name}`
+      ),
+      `EXPOSE ${context.port}`,
+      `CMD ${JSON.stringify(this.getBinaryCommand(context))}`,
+    ];
+
+    const optimizations: DockerOptimization[] = [];
+    if (singleCrate) {
+      optimizations.push({
+        type: 'layer-caching',
+        description: 'Dependencies compile against a placeholder main before the source is copied',
+        applied: true,
+      });
+    }
+    optimizations.push(
+      {
+        type: 'layer-caching',
+        description: 'BuildKit cache mount for the Cargo registry',
+        applied: true,
+      },
+      {
+        type: 'size',
+        description: 'Only the release binaries reach the runtime image',
+        applied: true,
+      }
+    );
+    if (distroless) {
+      optimizations.push(this.getDistrolessOptimization());
+    }
+
+    return {
+      stages: [
+        { name: 'build', from: 'rust:${RUST_VERSION}-slim-bookworm', instructions: build },
+        { name: 'runtime', from: runtimeImage, instructions: runtime },
+      ],
+      buildArgs: {},
+      ...(distroless && { runtimeUser: '65532:65532' }),
+      optimizations,
+    };
+  }
+
+  // .NET
+
+  private createDotnetTemplate(context: TemplateContext): DockerfileTemplate {
+    const publishes = context.buildSteps
+      .map(step => step.command.match(/^dotnet publish (\S+)/)?.[1])
+      .filter((project): project is string => project !== undefined);
+    const project = publishes[0] || '.';
+    const name =
+      project
+        .split('/')
+        .pop()
+        ?.replace(/\.\w+proj$/, '') || 'app';
+    const artifact =
+      context.artifacts.find(candidate => candidate.name === name) || context.artifacts[0];
+    const assembly = artifact?.name || name;
+    const aot = artifact !== undefined && !artifact.path.endsWith('.dll');
+    const runtimeIdentifier = aot ? ' -r linux-x64' : '';
+    const mount = '--mount=type=cache,target=/root/.nuget/packages';
+
+    const build: string[] = ['WORKDIR /src'];
+    if (aot) {
+      build.push(...this.aptInstall(['clang', 'zlib1g-dev', ...context.buildPackages]));
+    } else {
+      build.push(...this.aptInstall(context.buildPackages));
+    }
+    for (const path of publishes) {
+      const projectDirectory = path.includes('/')
+        ? `${path.slice(0, path.lastIndexOf('/'))}/`
+        : './';
+      build.push(`COPY ${path} ${projectDirectory}`);
+    }
+    build.push(
+      `RUN ${mount} dotnet restore ${project}${runtimeIdentifier}`,
+      'COPY . .',
+      `RUN ${mount} dotnet publish ${project} -c Release --no-restore${runtimeIdentifier} -o /app/publish`
+    );
+
+    const aspnet = context.analysis.techStack.framework === 'aspnetcore';
+    // .NET 8 images ship the non-root `app` user, and chiseled variants drop the shell
+    const appUser = Number(context.version.split('.')[0]) >= 8;
+    const chiseled = context.hardened && appUser && context.runtimePackages.length === 0;
+    const runtimeImage = `mcr.microsoft.com/dotnet/${aot ? 'runtime-deps' : aspnet ? 'aspnet' : 'runtime'}:\${DOTNET_VERSION}${chiseled ? '-noble-chiseled' : ''}`;
+    const runtime: string[] = [
+      'WORKDIR /app',
+      ...this.aptInstall(context.runtimePackages),
+      'COPY --from=build /app/publish ./',
+    ];
+    if (aspnet) {
+      runtime.push(`ENV ASPNETCORE_HTTP_PORTS=${context.port}`);
+    }
+    runtime.push(
+      `EXPOSE ${context.port}`,
+      `CMD ${JSON.stringify(aot ? [`./${assembly}`] : ['dotnet', `${assembly}.dll`])}`
+    );
+
+    return {
+      stages: [
+        {
+          name: 'build',
+          from: 'mcr.microsoft.com/dotnet/sdk:${DOTNET_VERSION}',
+          instructions: build,
+        },
+        { name: 'runtime', from: runtimeImage, instructions: runtime },
+      ],
+      buildArgs: {},
+      ...(appUser && { runtimeUser: '$APP_UID' }),
+      optimizations: [
+        {
+          type: 'layer-caching',
+          description: 'Packages restore from the project files before the source is copied',
+          applied: true,
+        },
+        {
+          type: 'layer-caching',
+          description: 'BuildKit cache mount for the NuGet package cache',
+          applied: true,
+        },
+        {
+          type: 'size',
+          description: aot
+            ? 'The native AOT executable runs on the runtime-deps image'
+            : 'The runtime image carries the .NET runtime instead of the SDK',
+          applied: true,
+        },
+        ...(chiseled
+          ? [
+              {
+                type: 'security' as const,
+                description: 'Chiseled runtime image without a shell or package manager',
+                applied: true,
+              },
+            ]
+          : []),
+      ],
+    };
+  }
+
+  // PHP
+
+  /**
+   * Whether the generated image starts php-fpm rather than a web command of the service
+   */
+  private servesPhpFpm(analysis: AnalysisResult, service?: ServiceInfo): boolean {
+    return (
+      this.getStack(analysis) === 'php' &&
+      !service?.processes?.find(process => process.type === 'web')?.command
+    );
+  }
+
+  private createPhpTemplate(context: TemplateContext): DockerfileTemplate {
+    const extensions = ['opcache'];
+    for (const database of context.analysis.dependencies.databases) {
+      if (database.type === 'postgresql') extensions.push('pdo_pgsql');
+      if (database.type === 'mysql') extensions.push('pdo_mysql');
+      if (database.type === 'redis') extensions.push('redis');
+    }
+
+    const vendor: string[] = [
+      'WORKDIR /app',
+      'COPY composer.json composer.lock* ./',
+      'RUN --mount=type=cache,target=/tmp/cache composer install --no-dev --no-scripts --no-autoloader --no-interaction --prefer-dist --ignore-platform-reqs',
+      'COPY . .',
+      'RUN composer dump-autoload --optimize --classmap-authoritative --no-dev',
+    ];
+    const runtime: string[] = [
+      'COPY --from=mlocati/php-extension-installer:2 /usr/bin/install-php-extensions /usr/local/bin/',
+      `RUN install-php-extensions ${[...new Set(extensions)].join(' ')}`,
+      ...this.aptInstall(context.runtimePackages),
+      'RUN mv "$PHP_INI_DIR/php.ini-production" "$PHP_INI_DIR/php.ini"',
+      'WORKDIR /var/www/html',
+      'COPY --from=vendor /app ./',
+      `EXPOSE ${context.port}`,
+      `CMD ${JSON.stringify(context.start.command ? this.toExecForm(context.start.command) : ['php-fpm'])}`,
+    ];
+
+    return {
+      stages: [
+        { name: 'vendor', from: 'composer:2', instructions: vendor },
+        { name: 'runtime', from: 'php:${PHP_VERSION}-fpm-bookworm', instructions: runtime },
+      ],
+      buildArgs: {},
+      runtimeUser: 'www-data',
+      optimizations: [
+        {
+          type: 'layer-caching',
+          description:
+            'Composer installs from composer.json and composer.lock before the source is copied',
+          applied: true,
+        },
+        {
+          type: 'size',
+          description: 'Composer and development packages stay out of the PHP-FPM image',
+          applied: true,
+        },
+        {
+          type: 'size',
+          description: 'Optimized class-map autoloader and OPcache',
+          applied: true,
+        },
+      ],
+    };
+  }
+
+  // Ruby
+
+  private createRubyTemplate(context: TemplateContext): DockerfileTemplate {
+    const image = 'ruby:${RUBY_VERSION}-slim-bookworm';
+    const environment =
+      'ENV BUNDLE_DEPLOYMENT=1 BUNDLE_WITHOUT=development:test BUNDLE_PATH=/usr/local/bundle';
+    const rails = context.analysis.techStack.framework === 'rails';
+
+    const build: string[] = [
+      'WORKDIR /app',
+      environment,
+      ...this.aptInstall([...new Set(['build-essential', ...context.buildPackages])]),
+      'COPY Gemfile Gemfile.lock ./',
+      'RUN bundle install --jobs 4 && rm -rf /usr/local/bundle/ruby/*/cache',
+      'COPY . .',
+    ];
+    if (rails) {
+      build.push('RUN SECRET_KEY_BASE_DUMMY=1 bundle exec rails assets:precompile');
+    }
+
+    const command = context.start.command
+      ? this.toExecForm(context.start.command)
+      : rails
+        ? ['bundle', 'exec', 'rails', 'server', '-b', '0.0.0.0', '-p', String(context.port)]
+        : ['bundle', 'exec', 'rackup', '--host', '0.0.0.0', '--port', String(context.port)];
+    const runtime: string[] = [
+      'WORKDIR /app',
+      environment,
+      ...this.aptInstall(context.runtimePackages),
+      'COPY --from=build /usr/local/bundle /usr/local/bundle',
+      'COPY --from=build /app /app',
+      `EXPOSE ${context.port}`,
+      `CMD ${JSON.stringify(command)}`,
+    ];
+
+    return {
+      stages: [
+        { name: 'build', from: image, instructions: build },
+        { name: 'runtime', from: image, instructions: runtime },
+      ],
+      buildArgs: {},
+      interpreter: { language: 'ruby', path: 'ruby' },
+      optimizations: [
+        {
+          type: 'layer-caching',
+          description: 'Gems install from Gemfile and Gemfile.lock before the source is copied',
+          applied: true,
+        },
+        {
+          type: 'size',
+          description: 'Compilers stay in the build stage and the gem cache is removed',
+          applied: true,
+        },
+      ],
+    };
+  }
+
+  // Shared helpers
+
+  private getStack(analysis: AnalysisResult): DockerStack | undefined {
+    const stack = STACK_LANGUAGES[analysis.techStack.language];
+    if (stack) {
+      return stack;
+    }
+    const runtime = analysis.techStack.runtime.name;
+    return runtime === 'java'
+      ? 'jvm'
+      : (Object.keys(DEFAULT_VERSIONS) as DockerStack[]).find(candidate => candidate === runtime);
+  }
+
+  /**
+   * Image tag version from the runtime requirement; Java images are tagged by feature
+   * release (1.8 -> 8) and .NET images by major and minor version
+   */
+  private getVersion(analysis: AnalysisResult, stack: DockerStack): string {
+    const version = analysis.techStack.runtime.version.match(/\d+(?:\.\d+){0,2}/)?.[0];
+    if (!version) {
+      return DEFAULT_VERSIONS[stack];
+    }
+    if (stack === 'jvm') {
+      const [major, minor] = version.split('.');
+      return (major === '1' && minor ? minor : major) || DEFAULT_VERSIONS.jvm;
+    }
+    if (stack === 'dotnet') {
+      const [major, minor = '0'] = version.split('.');
+      return `${major}.${minor}`;
+    }
+    return version;
+  }
+
+  private aptInstall(packages: string[]): string[] {
+    return packages.length === 0
+      ? []
+      : [
+          `RUN apt-get update && apt-get install -y --no-install-recommends ${packages.join(' ')} && rm -rf /var/lib/apt/lists/*`,
+        ];
+  }
+
+  /**
+   * Build step as a shell command, with its environment as variable assignments
+   */
+  private toShellCommand(step: BuildStep): string {
+    const environment = Object.entries(step.environment || {}).map(
+      ([name, value]) => `${name}=${value}`
+    );
+    return [...environment, step.command].join(' ');
+  }
+
+  /**
+   * Exec-form arguments so the process receives signals; commands that need a shell
+   * run through `sh -c`
+   */
+  private toExecForm(command: string): string[] {
+    return /[|&;<>$`"'*()]/.test(command) ? ['sh', '-c', command] : command.trim().split(/\s+/);
+  }
+
+  private stripDirectory(path: string, directory: string): string {
+    return directory && path.startsWith(`${directory}/`) ? path.slice(directory.length + 1) : path;
+  }
+
+  private resolveImage(image: string, buildArgs: Record<string, string>): string {
+    return image.replace(/\$\{(\w+)\}/g, (match, name: string) => buildArgs[name] ?? match);
+  }
+
+  /**
+   * BuildKit syntax for cache mounts, the version arguments, then each stage
+   */
+  private render(template: DockerfileTemplate): string {
+    const lines = ['# syntax=docker/dockerfile:1'];
+    for (const [name, value] of Object.entries(template.buildArgs)) {
+      lines.push(`ARG ${name}=${value}`);
+    }
+
+    for (const stage of template.stages) {
+      lines.push('', `FROM ${stage.from} AS ${stage.name}`, ...stage.instructions);
+    }
+    return `${lines.join('\n')}\n`;
   }
 }
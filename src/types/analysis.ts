@@ -1,4 +1,4 @@
-import { ArchitectureType, ResourceRange } from './common';
+import { ArchitectureType, BaseImageFamily, ResourceRange } from './common';
 
 // Analysis result interfaces
 
@@ -17,6 +17,7 @@ export interface TechStackInfo {
   buildTool: string;
   packageManager: string;
   testFramework?: string;
+  applicationServer?: string;
 }
 
 export interface RuntimeInfo {
@@ -39,11 +40,15 @@ export interface DatabaseDependency {
   version?: string;
   connectionString?: string;
   features: string[];
+  /** Where the dependency was found, e.g. `driver:pg`, `file:src/db.ts`, `env:DATABASE_URL` */
+  evidence?: string[];
 }
 
 export interface CacheDependency {
   type: 'redis' | 'memcached' | 'in-memory';
   version?: string;
+  /** Where the dependency was found, e.g. `driver:pg`, `file:src/db.ts`, `env:DATABASE_URL` */
+  evidence?: string[];
   configuration: Record<string, any>;
 }
 
@@ -51,6 +56,8 @@ export interface MessageQueueDependency {
   type: 'rabbitmq' | 'kafka' | 'sqs' | 'pubsub';
   version?: string;
   topics?: string[];
+  /** Where the dependency was found, e.g. `driver:pg`, `file:src/db.ts`, `env:DATABASE_URL` */
+  evidence?: string[];
   configuration: Record<string, any>;
 }
 
@@ -77,14 +84,58 @@ export interface ArchitectureInfo {
   services: ServiceInfo[];
   communicationPatterns: CommunicationPattern[];
   dataFlow: DataFlowInfo;
+  /** Share of the classification evidence behind `type`, from 0 to 1 */
+  confidence?: number;
+  evidence?: ArchitectureEvidence[];
+}
+
+/**
+ * Signal that counted towards one architecture type
+ */
+export interface ArchitectureEvidence {
+  type: ArchitectureType;
+  /** Kind of signal, e.g. `service-count` or `queue-consumer` */
+  signal: string;
+  description: string;
+  weight: number;
+  files?: string[];
+}
+
+export interface ArchitectureClassification {
+  type: ArchitectureType;
+  confidence: number;
+  evidence: ArchitectureEvidence[];
 }
 
 export interface ServiceInfo {
   name: string;
-  type: 'api' | 'worker' | 'database' | 'cache' | 'queue';
+  type: 'api' | 'worker' | 'cron' | 'cli' | 'database' | 'cache' | 'queue';
+  /** Directory of the service relative to the repository root, empty for the root itself */
+  root?: string;
+  /** Dockerfile that builds the service, relative to the repository root */
+  dockerfile?: string;
   entryPoints: string[];
   dependencies: string[];
   exposedPorts: number[];
+  /** HTTP routes served by the service's code */
+  routes?: RouteInfo[];
+  /** Processes run from the service's code, each deployed as its own workload */
+  processes?: ProcessInfo[];
+}
+
+/**
+ * `web` processes serve traffic, `worker` processes run without inbound traffic,
+ * `cron` processes run on a schedule and `cli` and `release` processes run to completion
+ */
+export interface ProcessInfo {
+  name: string;
+  type: 'web' | 'worker' | 'cron' | 'cli' | 'release';
+  command?: string;
+  entryPoint?: string;
+  /** Five-field cron expression of cron processes */
+  schedule?: string;
+  /** File the process is declared or detected in */
+  source: string;
 }
 
 export interface CommunicationPattern {
@@ -92,6 +143,8 @@ export interface CommunicationPattern {
   to: string;
   type: 'synchronous' | 'asynchronous' | 'event-driven';
   protocol: string;
+  /** Topics, queues, gRPC services or tables the services exchange data through */
+  channels?: string[];
 }
 
 export interface DataFlowInfo {
@@ -104,6 +157,10 @@ export interface DataTransformation {
   input: string;
   output: string;
   type: 'etl' | 'stream' | 'batch';
+  /** Service that runs the transformation */
+  service?: string;
+  /** Five-field cron expression of scheduled batch transformations */
+  schedule?: string;
 }
 
 export interface BuildRequirements {
@@ -123,16 +180,75 @@ export interface BuildStep {
 export interface BuildArtifact {
   name: string;
   path: string;
-  type: 'executable' | 'library' | 'archive' | 'image';
+  type: 'executable' | 'library' | 'archive' | 'image' | 'directory';
+  /** Executable needs no shared libraries, so it can run on a scratch or distroless image */
+  staticallyLinked?: boolean;
 }
 
 export interface RuntimeRequirements {
   runtime: RuntimeInfo;
   environmentVariables: Record<string, string>;
+  environmentVariableDetails?: EnvironmentVariableInfo[];
   systemDependencies: string[];
+  systemDependencyDetails?: SystemDependencyInfo[];
   resourceRequirements: ResourceRequirements;
 }
 
+/**
+ * OS packages per base-image family
+ */
+export type SystemPackages = Record<BaseImageFamily, string[]>;
+
+export interface SystemDependencyInfo {
+  /** Language package that needs the OS packages, e.g. `sharp` or `psycopg2` */
+  package: string;
+  ecosystem: 'node' | 'python';
+  /** Shared libraries the package loads at runtime */
+  runtime: SystemPackages;
+  /** Compilers and headers needed to build the package from source */
+  build: SystemPackages;
+  sources: SourceLocation[];
+}
+
+export interface EnvironmentVariableInfo {
+  name: string;
+  defaultValue?: string;
+  /** Credentials that belong in a Secret rather than a ConfigMap */
+  secret: boolean;
+  /** Read without a default and not documented with a value */
+  required: boolean;
+  sources: SourceLocation[];
+}
+
+export interface ListenerInfo {
+  port: number;
+  protocol: PortRequirement['protocol'];
+  purpose: 'http' | 'grpc' | 'metrics' | 'admin' | 'debug';
+  /** Serves client traffic, as opposed to metrics, admin and debug listeners */
+  public: boolean;
+  /** Environment variable that overrides the port */
+  envVar?: string;
+  sources: SourceLocation[];
+}
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS' | 'HEAD' | 'ANY';
+
+export interface RouteInfo {
+  /** `ANY` for routes registered without a method, such as Django URLconfs */
+  method: HttpMethod;
+  /** Full path template with parameters in OpenAPI `{name}` form */
+  path: string;
+  /** Function or method serving the route, when it is named */
+  handler?: string;
+  framework: string;
+  source: SourceLocation;
+}
+
+export interface SourceLocation {
+  file: string;
+  line: number;
+}
+
 export interface ResourceRequirements {
   cpu: ResourceRange;
   memory: ResourceRange;
@@ -59,6 +59,7 @@ export interface FileIndexEntry {
   importance: ImportanceScore;
   language?: string;
   lastModified: Date;
+  content?: string;
 }
 
 export interface PriorityFileMap {
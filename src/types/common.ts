@@ -20,7 +20,17 @@ export type CICDPlatform =
   | "jenkins"
   | "azure-devops";
 
-export type ArchitectureType = "monolith" | "microservices" | "serverless";
+/**
+ * Base-image families, each with its own package manager: apt, apk and dnf
+ */
+export type BaseImageFamily = "debian" | "alpine" | "ubi";
+
+export type ArchitectureType =
+  | "monolith"
+  | "modular-monolith"
+  | "microservices"
+  | "event-driven"
+  | "serverless";
 
 export type ErrorCategory =
   | "analysis"
@@ -14,7 +14,7 @@ export interface DockerConfiguration {
 }
 
 export interface DockerOptimization {
-  type: "layer-caching" | "multi-stage" | "security" | "size";
+  type: "layer-caching" | "multi-stage" | "security" | "size" | "health-check";
   description: string;
   applied: boolean;
 }
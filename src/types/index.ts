@@ -12,6 +12,7 @@ export {
   ImportanceCategory,
   CloudProvider,
   CICDPlatform,
+  BaseImageFamily,
   ArchitectureType,
   ErrorCategory,
   ImportanceScore,
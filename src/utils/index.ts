@@ -4,3 +4,4 @@ export * from './validation';
 export * from './cache-manager';
 export * from './logger';
 export * from './error-handler';
+export * from './manifest-parser';
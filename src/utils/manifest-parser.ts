@@ -0,0 +1,487 @@
+/**
+ * Element of a parsed XML document
+ */
+export interface XmlElement {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+/**
+ * Interface for parsing dependency manifest formats that have no JSON equivalent
+ */
+export interface ManifestParser {
+  /**
+   * Parses a TOML document (pyproject.toml, Pipfile, Cargo.toml) into plain objects
+   */
+  parseToml(content: string): Record<string, any>;
+
+  /**
+   * Parses an XML document (pom.xml, *.csproj) into its root element
+   */
+  parseXml(content: string): XmlElement;
+}
+
+/**
+ * Default implementation of ManifestParser
+ *
+ * Covers the TOML subset used by package manifests: tables, arrays of tables,
+ * dotted and quoted keys, basic/literal/multi-line strings, arrays, inline
+ * tables, numbers, booleans and dates (kept as strings). XML support is limited
+ * to elements, attributes, text and CDATA; namespace prefixes are dropped.
+ */
+export class DefaultManifestParser implements ManifestParser {
+  parseToml(content: string): Record<string, any> {
+    return new TomlReader(content).read();
+  }
+
+  parseXml(content: string): XmlElement {
+    return new XmlReader(content).read();
+  }
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Minimal XML reader that builds an element tree
+ */
+class XmlReader {
+  private position = 0;
+
+  constructor(private readonly source: string) {}
+
+  read(): XmlElement {
+    this.skipMisc();
+    if (this.peek() !== '<') {
+      throw this.error('Expected root element');
+    }
+    const root = this.readElement();
+    this.skipMisc();
+    if (this.position < this.source.length) {
+      throw this.error('Unexpected content after root element');
+    }
+    return root;
+  }
+
+  private readElement(): XmlElement {
+    this.position++;
+    const name = this.readName();
+    const element: XmlElement = {
+      name: this.localName(name),
+      attributes: {},
+      children: [],
+      text: '',
+    };
+
+    for (;;) {
+      this.skipWhitespace();
+      if (this.source.startsWith('/>', this.position)) {
+        this.position += 2;
+        return element;
+      }
+      if (this.peek() === '>') {
+        this.position++;
+        break;
+      }
+      const attribute = this.readName();
+      this.skipWhitespace();
+      this.consume('=');
+      this.skipWhitespace();
+      const quote = this.peek();
+      if (quote !== '"' && quote !== "'") {
+        throw this.error(`Expected quoted value for attribute ${attribute}`);
+      }
+      const end = this.source.indexOf(quote, this.position + 1);
+      if (end === -1) {
+        throw this.error('Unterminated attribute value');
+      }
+      element.attributes[this.localName(attribute)] = this.decode(
+        this.source.slice(this.position + 1, end)
+      );
+      this.position = end + 1;
+    }
+
+    let text = '';
+    for (;;) {
+      if (this.position >= this.source.length) {
+        throw this.error(`Unclosed element <${name}>`);
+      }
+      if (this.source.startsWith('</', this.position)) {
+        this.position += 2;
+        const closing = this.readName();
+        if (closing !== name) {
+          throw this.error(`Mismatched closing tag </${closing}> for <${name}>`);
+        }
+        this.skipWhitespace();
+        this.consume('>');
+        element.text = text.trim();
+        return element;
+      }
+      if (this.source.startsWith('<![CDATA[', this.position)) {
+        const end = this.source.indexOf(']]>', this.position);
+        if (end === -1) {
+          throw this.error('Unterminated CDATA section');
+        }
+        text += this.source.slice(this.position + 9, end);
+        this.position = end + 3;
+      } else if (
+        this.source.startsWith('<!--', this.position) ||
+        this.source.startsWith('<?', this.position)
+      ) {
+        this.skipMisc();
+      } else if (this.peek() === '<') {
+        element.children.push(this.readElement());
+      } else {
+        const end = this.source.indexOf('<', this.position);
+        const stop = end === -1 ? this.source.length : end;
+        text += this.decode(this.source.slice(this.position, stop));
+        this.position = stop;
+      }
+    }
+  }
+
+  /**
+   * Skip whitespace, comments, processing instructions and doctype declarations
+   */
+  private skipMisc(): void {
+    for (;;) {
+      this.skipWhitespace();
+      const terminator = this.source.startsWith('<!--', this.position)
+        ? '-->'
+        : this.source.startsWith('<?', this.position)
+          ? '?>'
+          : this.source.startsWith('<!DOCTYPE', this.position)
+            ? '>'
+            : undefined;
+      if (!terminator) return;
+
+      const end = this.source.indexOf(terminator, this.position);
+      if (end === -1) {
+        throw this.error('Unterminated markup declaration');
+      }
+      this.position = end + terminator.length;
+    }
+  }
+
+  private readName(): string {
+    const match = /^[A-Za-z_][\w.:-]*/.exec(this.source.slice(this.position));
+    if (!match) {
+      throw this.error('Expected a name');
+    }
+    this.position += match[0].length;
+    return match[0];
+  }
+
+  private localName(name: string): string {
+    return name.includes(':') ? name.slice(name.indexOf(':') + 1) : name;
+  }
+
+  private decode(value: string): string {
+    return value.replace(/&(#x[0-9a-fA-F]+|#\d+|\w+);/g, (entity, code: string) => {
+      if (code.startsWith('#x')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+      if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+      return XML_ENTITIES[code] ?? entity;
+    });
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.peek())) {
+      this.position++;
+    }
+  }
+
+  private consume(expected: string): void {
+    if (!this.source.startsWith(expected, this.position)) {
+      throw this.error(`Expected "${expected}"`);
+    }
+    this.position += expected.length;
+  }
+
+  private peek(): string {
+    return this.source[this.position] || '';
+  }
+
+  private error(message: string): Error {
+    const line = this.source.slice(0, this.position).split('\n').length;
+    return new Error(`${message} at line ${line}`);
+  }
+}
+
+/**
+ * Single-pass TOML reader over a character cursor
+ */
+class TomlReader {
+  private position = 0;
+  private readonly root: Record<string, any> = {};
+  private current: Record<string, any> = this.root;
+
+  constructor(private readonly source: string) {}
+
+  read(): Record<string, any> {
+    while (this.position < this.source.length) {
+      this.skipWhitespaceAndComments(true);
+      if (this.position >= this.source.length) break;
+
+      if (this.peek() === '[') {
+        this.readTableHeader();
+      } else {
+        this.readKeyValue(this.current);
+      }
+      this.expectLineEnd();
+    }
+    return this.root;
+  }
+
+  private readTableHeader(): void {
+    const isArray = this.source.startsWith('[[', this.position);
+    this.position += isArray ? 2 : 1;
+    const keys = this.readKey();
+    this.skipInlineWhitespace();
+    this.consume(isArray ? ']]' : ']');
+
+    const parent = this.resolveTable(this.root, keys.slice(0, -1));
+    const last = keys[keys.length - 1]!;
+
+    if (isArray) {
+      if (!Array.isArray(parent[last])) {
+        parent[last] = [];
+      }
+      const table: Record<string, any> = {};
+      parent[last].push(table);
+      this.current = table;
+    } else {
+      this.current = this.resolveTable(parent, [last]);
+    }
+  }
+
+  private readKeyValue(target: Record<string, any>): void {
+    const keys = this.readKey();
+    this.skipInlineWhitespace();
+    this.consume('=');
+    this.skipInlineWhitespace();
+    const value = this.readValue();
+
+    const table = this.resolveTable(target, keys.slice(0, -1));
+    table[keys[keys.length - 1]!] = value;
+  }
+
+  private readKey(): string[] {
+    const keys: string[] = [];
+    for (;;) {
+      this.skipInlineWhitespace();
+      const char = this.peek();
+      if (char === '"' || char === "'") {
+        keys.push(this.readString());
+      } else {
+        const match = /^[A-Za-z0-9_-]+/.exec(this.source.slice(this.position));
+        if (!match) {
+          throw this.error('Expected a key');
+        }
+        keys.push(match[0]);
+        this.position += match[0].length;
+      }
+      this.skipInlineWhitespace();
+      if (this.peek() !== '.') break;
+      this.position++;
+    }
+    return keys;
+  }
+
+  private readValue(): any {
+    const char = this.peek();
+    if (char === '"' || char === "'") {
+      return this.readString();
+    }
+    if (char === '[') {
+      return this.readArray();
+    }
+    if (char === '{') {
+      return this.readInlineTable();
+    }
+
+    const match = /^[^\s,\]}#]+/.exec(this.source.slice(this.position));
+    if (!match) {
+      throw this.error('Expected a value');
+    }
+    this.position += match[0].length;
+    const raw = match[0];
+
+    if (raw === 'true' || raw === 'false') {
+      return raw === 'true';
+    }
+    const numeric = raw.replace(/_/g, '');
+    if (/^[+-]?(\d+(\.\d+)?([eE][+-]?\d+)?|0x[0-9a-fA-F]+|0o[0-7]+|0b[01]+)$/.test(numeric)) {
+      return Number(numeric);
+    }
+    // Dates, times and anything else are kept verbatim
+    return raw;
+  }
+
+  private readString(): string {
+    const quote = this.peek();
+    const triple = this.source.startsWith(quote.repeat(3), this.position);
+    const delimiter = triple ? quote.repeat(3) : quote;
+    this.position += delimiter.length;
+
+    // A newline directly after the opening delimiter is trimmed
+    if (triple && this.peek() === '\n') {
+      this.position++;
+    }
+
+    let value = '';
+    while (!this.source.startsWith(delimiter, this.position)) {
+      if (this.position >= this.source.length) {
+        throw this.error('Unterminated string');
+      }
+      const char = this.source[this.position]!;
+      if (!triple && char === '\n') {
+        throw this.error('Unterminated string');
+      }
+      if (quote === '"' && char === '\\') {
+        value += this.readEscape();
+        continue;
+      }
+      value += char;
+      this.position++;
+    }
+    this.position += delimiter.length;
+    return value;
+  }
+
+  private readEscape(): string {
+    const next = this.source[this.position + 1];
+    this.position += 2;
+    switch (next) {
+      case 'n':
+        return '\n';
+      case 't':
+        return '\t';
+      case 'r':
+        return '\r';
+      case '"':
+        return '"';
+      case '\\':
+        return '\\';
+      case 'u':
+      case 'U': {
+        const length = next === 'u' ? 4 : 8;
+        const code = parseInt(this.source.slice(this.position, this.position + length), 16);
+        this.position += length;
+        return String.fromCodePoint(code);
+      }
+      case '\n':
+        // Line-ending backslash joins lines in multi-line strings
+        while (/\s/.test(this.peek())) this.position++;
+        return '';
+      default:
+        return next || '';
+    }
+  }
+
+  private readArray(): any[] {
+    this.position++;
+    const values: any[] = [];
+    for (;;) {
+      this.skipWhitespaceAndComments(true);
+      if (this.peek() === ']') {
+        this.position++;
+        return values;
+      }
+      values.push(this.readValue());
+      this.skipWhitespaceAndComments(true);
+      if (this.peek() === ',') {
+        this.position++;
+      } else if (this.peek() !== ']') {
+        throw this.error('Expected , or ] in array');
+      }
+    }
+  }
+
+  private readInlineTable(): Record<string, any> {
+    this.position++;
+    const table: Record<string, any> = {};
+    for (;;) {
+      this.skipInlineWhitespace();
+      if (this.peek() === '}') {
+        this.position++;
+        return table;
+      }
+      this.readKeyValue(table);
+      this.skipInlineWhitespace();
+      if (this.peek() === ',') {
+        this.position++;
+      } else if (this.peek() !== '}') {
+        throw this.error('Expected , or } in inline table');
+      }
+    }
+  }
+
+  private resolveTable(base: Record<string, any>, keys: string[]): Record<string, any> {
+    let table = base;
+    for (const key of keys) {
+      let next = table[key];
+      if (Array.isArray(next)) {
+        // Dotted headers under an array of tables extend its last element
+        next = next[next.length - 1];
+      }
+      if (next === undefined || typeof next !== 'object') {
+        next = {};
+        table[key] = next;
+      }
+      table = next;
+    }
+    return table;
+  }
+
+  private skipInlineWhitespace(): void {
+    while (this.peek() === ' ' || this.peek() === '\t') {
+      this.position++;
+    }
+  }
+
+  private skipWhitespaceAndComments(includeNewlines: boolean): void {
+    for (;;) {
+      const char = this.peek();
+      if (char === ' ' || char === '\t' || (includeNewlines && (char === '\n' || char === '\r'))) {
+        this.position++;
+      } else if (char === '#') {
+        while (this.position < this.source.length && this.peek() !== '\n') {
+          this.position++;
+        }
+      } else {
+        return;
+      }
+    }
+  }
+
+  private expectLineEnd(): void {
+    this.skipWhitespaceAndComments(false);
+    const char = this.peek();
+    if (char !== '' && char !== '\n' && char !== '\r') {
+      throw this.error('Expected end of line');
+    }
+  }
+
+  private consume(expected: string): void {
+    if (!this.source.startsWith(expected, this.position)) {
+      throw this.error(`Expected "${expected}"`);
+    }
+    this.position += expected.length;
+  }
+
+  private peek(): string {
+    return this.source[this.position] || '';
+  }
+
+  private error(message: string): Error {
+    const line = this.source.slice(0, this.position).split('\n').length;
+    return new Error(`${message} at line ${line}`);
+  }
+}